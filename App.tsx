@@ -1,26 +1,71 @@
-import React, { useRef } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { useLiveGemini } from './hooks/useLiveGemini.ts';
+import { useHandReplay } from './hooks/useHandReplay.ts';
+import { useRegionProfiles } from './hooks/useRegionProfiles.ts';
+import { useCardTemplates } from './hooks/useCardTemplates.ts';
+import { useTableLayout } from './hooks/useTableLayout.ts';
+import { useRangeEquity } from './hooks/useRangeEquity.ts';
+import { usePreflopCharts } from './hooks/usePreflopCharts.ts';
+import { useTournamentSettings } from './hooks/useTournamentSettings.ts';
 import { ControlBar } from './components/ControlBar.tsx';
 import { AudioVisualizer } from './components/AudioVisualizer.tsx';
 import { VideoPreview } from './components/VideoPreview.tsx';
 import { PokerStatsDisplay } from './components/PokerStatsDisplay.tsx';
 import { TranscriptionLog } from './components/TranscriptionLog.tsx';
+import { HandHistoryPanel } from './components/HandHistoryPanel.tsx';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel.tsx';
+import { ReplayControls } from './components/ReplayControls.tsx';
+import { SessionControls } from './components/SessionControls.tsx';
+import { ConnectionIndicator } from './components/ConnectionIndicator.tsx';
+import { RegionCalibrator } from './components/RegionCalibrator.tsx';
+import { CardTrainingPanel } from './components/CardTrainingPanel.tsx';
+import { TableSetupPanel } from './components/TableSetupPanel.tsx';
+import { PreflopChartPanel } from './components/PreflopChartPanel.tsx';
+import { TournamentPanel } from './components/TournamentPanel.tsx';
 import { PokerCardIcon, ChipIcon } from './components/Icons.tsx';
+import { mapRegionsToCapture } from './utils/tableLayout.ts';
+import { getPreflopAdvice } from './utils/preflopCharts.ts';
+import { analyzeTournament } from './utils/icm.ts';
 
 const App: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isHandsPanelOpen, setIsHandsPanelOpen] = useState(false);
+  const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [isCardTrainingOpen, setIsCardTrainingOpen] = useState(false);
+  const [isTableSetupOpen, setIsTableSetupOpen] = useState(false);
+  const [isChartPanelOpen, setIsChartPanelOpen] = useState(false);
+  const [isTournamentPanelOpen, setIsTournamentPanelOpen] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const regionProfiles = useRegionProfiles();
+  const cardTemplates = useCardTemplates(regionProfiles.activeProfile.name);
+  const tableLayout = useTableLayout();
+  const preflopCharts = usePreflopCharts();
+  const tournamentSettings = useTournamentSettings();
   
   const {
     connect,
     disconnect,
     isActive,
+    connectionState,
+    connectionMetrics,
+    retryNow,
+    frameStats,
+    captureStatus,
+    setCaptureProfile,
     isStreamingScreen,
     startScreenShare,
     stopScreenShare,
+    captureCount,
+    addCapture,
+    getCaptureVideo,
     volume, 
     setVolume,
     pokerState,
+    tableStates,
+    selectedTableId,
+    selectTable,
     error,
     isPermissionError,
     resetError,
@@ -28,8 +73,48 @@ const App: React.FC = () => {
     runDeepAnalysis,
     isDeepAnalyzing,
     analyzeRegion,
-    transcripts
-  } = useLiveGemini({ videoRef, canvasRef });
+    transcripts,
+    toolDiagnostics,
+    clearToolDiagnostics,
+    hands,
+    deleteHand,
+    clearHandHistory,
+    transportBackend,
+    sessionRecorder,
+    startSessionReplay,
+    stopSessionReplay,
+    isSessionReplaying,
+    sessionReplayFrame,
+    sessionReplayProgress
+  } = useLiveGemini({
+    videoRef,
+    canvasRef,
+    regions: regionProfiles.activeProfile.regions,
+    cardTemplates: cardTemplates.templates,
+    tables: tableLayout.tables,
+    tournament: tournamentSettings.settings.enabled ? tournamentSettings.settings : null
+  });
+
+  // Regions are relative to each table: place them on the main capture's tables
+  const previewRegions = mapRegionsToCapture(tableLayout.tables, regionProfiles.activeProfile.regions, 0);
+  // Cards are trained on the selected table, read from the capture that shows it
+  const trainingTable = tableLayout.tables.find(t => t.id === selectedTableId) ?? null;
+  const trainingRegions = trainingTable
+    ? mapRegionsToCapture([trainingTable], regionProfiles.activeProfile.regions, trainingTable.captureIndex)
+    : [];
+  const trainingVideo = () => trainingTable ? getCaptureVideo(trainingTable.captureIndex) : null;
+
+  const replay = useHandReplay();
+  const hudState = replay.isReplaying ? replay.replayState : pokerState;
+  const { rangeEquity, isCalculating: isRangeEquityCalculating } = useRangeEquity(hudState);
+  const preflopAdvice = useMemo(() => getPreflopAdvice(preflopCharts.chartSet, hudState), [preflopCharts.chartSet, hudState]);
+  const tournament = useMemo(() => analyzeTournament(tournamentSettings.settings, hudState), [tournamentSettings.settings, hudState]);
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) replay.loadFile(file);
+    e.target.value = ''; // Allow re-importing the same file
+  };
 
   const handleOpenKeySelector = async () => {
     if (window.aistudio && window.aistudio.openSelectKey) {
@@ -52,10 +137,71 @@ const App: React.FC = () => {
           </div>
         </div>
         <div className="flex items-center space-x-4">
-          <div className={`px-3 py-1 rounded-full text-xs font-semibold flex items-center space-x-2 border ${isActive ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-400' : 'bg-slate-700 border-slate-600 text-slate-400'}`}>
-            <span className={`w-2 h-2 rounded-full ${isActive ? 'bg-emerald-500 animate-pulse' : 'bg-slate-500'}`}></span>
-            <span>{isActive ? 'LIVE CONNECTED' : 'OFFLINE'}</span>
-          </div>
+          <SessionControls
+            isRecording={sessionRecorder.isRecording}
+            recordedEventCount={sessionRecorder.recordedEventCount}
+            onStartRecording={sessionRecorder.startRecording}
+            onStopRecording={sessionRecorder.stopRecording}
+            onDownloadRecording={sessionRecorder.downloadRecording}
+            isReplaying={isSessionReplaying}
+            replayProgress={sessionReplayProgress}
+            replaySpeed={replaySpeed}
+            onReplaySpeedChange={setReplaySpeed}
+            onStartReplay={file => startSessionReplay(file, replaySpeed)}
+            onStopReplay={stopSessionReplay}
+            disabled={isActive}
+          />
+          <label className="px-3 py-1 rounded-full text-xs font-semibold border bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600 cursor-pointer transition-colors">
+            Import HH
+            <input type="file" accept=".txt,.json" onChange={handleImportFile} className="hidden" />
+          </label>
+          <button
+            onClick={() => setIsHandsPanelOpen(open => !open)}
+            className={`px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${isHandsPanelOpen ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-400' : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'}`}
+          >
+            Hands ({hands.length})
+          </button>
+          <button
+            onClick={() => setIsCalibrating(open => !open)}
+            className={`px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${isCalibrating ? 'bg-amber-500/10 border-amber-500/50 text-amber-400' : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'}`}
+          >
+            Regioni
+          </button>
+          <button
+            onClick={() => setIsTableSetupOpen(open => !open)}
+            className={`px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${isTableSetupOpen ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-400' : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'}`}
+          >
+            Tavoli ({tableLayout.tables.length})
+          </button>
+          <button
+            onClick={() => setIsChartPanelOpen(open => !open)}
+            className={`px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${isChartPanelOpen ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-400' : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'}`}
+          >
+            Chart
+          </button>
+          <button
+            onClick={() => setIsTournamentPanelOpen(open => !open)}
+            className={`px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${isTournamentPanelOpen ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-400' : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'}`}
+          >
+            Torneo{tournamentSettings.settings.enabled && <span className="ml-1 text-emerald-400">ICM</span>}
+          </button>
+          <button
+            onClick={() => setIsCardTrainingOpen(open => !open)}
+            className={`px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${isCardTrainingOpen ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-400' : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'}`}
+          >
+            Carte
+          </button>
+          <button
+            onClick={() => setIsDiagnosticsOpen(open => !open)}
+            className={`px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${isDiagnosticsOpen ? 'bg-red-500/10 border-red-500/50 text-red-400' : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'}`}
+          >
+            Diagnostica
+            {toolDiagnostics.length > 0 && <span className="ml-1 text-red-300">({toolDiagnostics.length} rifiutate)</span>}
+          </button>
+          {transportBackend === 'mock' && (
+            <span className="text-xs font-semibold text-amber-400">MOCK</span>
+          )}
+          <ConnectionIndicator connectionState={connectionState} onRetryNow={retryNow} compact />
         </div>
       </header>
 
@@ -68,21 +214,132 @@ const App: React.FC = () => {
                 videoRef={videoRef} 
                 isStreaming={isStreamingScreen} 
                 onVideoClick={analyzeRegion}
+                regions={previewRegions}
+                replayFrame={sessionReplayFrame}
             />
+
+            {isCalibrating && (
+              <RegionCalibrator
+                videoRef={videoRef}
+                profiles={regionProfiles.profiles}
+                activeProfile={regionProfiles.activeProfile}
+                onSelectProfile={regionProfiles.selectProfile}
+                onSaveProfile={regionProfiles.saveProfile}
+                onDeleteProfile={regionProfiles.deleteProfile}
+                onClose={() => setIsCalibrating(false)}
+              />
+            )}
             
-            <PokerStatsDisplay 
-              state={pokerState} 
-              isStreaming={isStreamingScreen && isActive} 
-              onManualScan={triggerManualScan} 
-              onDeepAnalysis={runDeepAnalysis}
-              isDeepAnalyzing={isDeepAnalyzing}
-            />
+            {replay.isReplaying ? (
+              <PokerStatsDisplay
+                state={replay.replayState}
+                isStreaming={true}
+                onDeepAnalysis={replay.requestReview}
+                isDeepAnalyzing={replay.isReviewing}
+                rangeEquity={rangeEquity}
+                isRangeEquityCalculating={isRangeEquityCalculating}
+                preflopAdvice={preflopAdvice}
+                tournament={tournament}
+              />
+            ) : (
+              <PokerStatsDisplay 
+                state={pokerState} 
+                isStreaming={(isStreamingScreen && isActive) || isSessionReplaying} 
+                onManualScan={triggerManualScan} 
+                onDeepAnalysis={runDeepAnalysis}
+                isDeepAnalyzing={isDeepAnalyzing}
+                tables={tableLayout.tables.map(table => ({ table, state: tableStates[table.id] ?? null }))}
+                selectedTableId={selectedTableId}
+                onSelectTable={selectTable}
+                rangeEquity={rangeEquity}
+                isRangeEquityCalculating={isRangeEquityCalculating}
+                preflopAdvice={preflopAdvice}
+                tournament={tournament}
+              />
+            )}
+
+            {(replay.isReplaying || replay.replayError) && (
+              <ReplayControls
+                hands={replay.replayHands}
+                handIndex={replay.handIndex}
+                stepIndex={replay.stepIndex}
+                stepCount={replay.stepCount}
+                currentStreet={replay.currentStreet}
+                error={replay.replayError}
+                onSelectHand={replay.selectHand}
+                onNext={replay.nextStep}
+                onPrev={replay.prevStep}
+                onClose={replay.closeReplay}
+              />
+            )}
 
             <TranscriptionLog transcripts={transcripts} />
 
+            {isHandsPanelOpen && (
+              <HandHistoryPanel
+                hands={hands}
+                onDelete={deleteHand}
+                onClear={clearHandHistory}
+                onClose={() => setIsHandsPanelOpen(false)}
+              />
+            )}
+
+            {isCardTrainingOpen && (
+              <CardTrainingPanel
+                regions={trainingRegions}
+                profileName={regionProfiles.activeProfile.name}
+                templates={cardTemplates.templates}
+                onCountCards={region => cardTemplates.countCards(region, trainingVideo())}
+                onTrain={(region, labels) => cardTemplates.trainFromRegion(region, labels, trainingVideo())}
+                onClear={cardTemplates.clearTemplates}
+                onClose={() => setIsCardTrainingOpen(false)}
+              />
+            )}
+
+            {isChartPanelOpen && (
+              <PreflopChartPanel
+                chartSet={preflopCharts.chartSet}
+                onSave={preflopCharts.saveCharts}
+                onImport={preflopCharts.importCharts}
+                onExport={preflopCharts.exportCharts}
+                onReset={preflopCharts.resetCharts}
+                onClose={() => setIsChartPanelOpen(false)}
+              />
+            )}
+
+            {isTournamentPanelOpen && (
+              <TournamentPanel
+                settings={tournamentSettings.settings}
+                onChange={tournamentSettings.updateSettings}
+                onClose={() => setIsTournamentPanelOpen(false)}
+              />
+            )}
+
+            {isTableSetupOpen && (
+              <TableSetupPanel
+                tables={tableLayout.tables}
+                captureCount={captureCount}
+                canAddCapture={isStreamingScreen}
+                onAddTable={tableLayout.addTable}
+                onUpdateTable={tableLayout.updateTable}
+                onRemoveTable={tableLayout.removeTable}
+                onAddCapture={addCapture}
+                onClose={() => setIsTableSetupOpen(false)}
+              />
+            )}
+
+            {isDiagnosticsOpen && (
+              <DiagnosticsPanel
+                diagnostics={toolDiagnostics}
+                frameStats={frameStats}
+                onClear={clearToolDiagnostics}
+                onClose={() => setIsDiagnosticsOpen(false)}
+              />
+            )}
+
             <canvas ref={canvasRef} className="hidden" />
 
-            {!isStreamingScreen && (
+            {!isStreamingScreen && !replay.isReplaying && !isSessionReplaying && (
               <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-500 bg-slate-900/90 z-10 pointer-events-none">
                 <div className="bg-slate-800 p-6 rounded-full mb-4 group-hover:scale-105 transition-transform duration-300 ring-1 ring-slate-700">
                   <ChipIcon className="w-16 h-16 opacity-50" />
@@ -100,7 +357,7 @@ const App: React.FC = () => {
               </div>
             )}
 
-            {isDeepAnalyzing && (
+            {(isDeepAnalyzing || replay.isReviewing) && (
               <div className="absolute inset-0 bg-slate-950/70 backdrop-blur-sm z-30 flex flex-col items-center justify-center">
                 <div className="w-16 h-16 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin mb-4"></div>
                 <h3 className="text-xl font-black text-emerald-400 tracking-widest animate-pulse">DEEP GTO ANALYSIS IN PROGRESS...</h3>
@@ -140,10 +397,15 @@ const App: React.FC = () => {
         <ControlBar 
           isActive={isActive}
           isStreamingScreen={isStreamingScreen}
+          connectionState={connectionState}
+          connectionMetrics={connectionMetrics}
+          onRetryNow={retryNow}
           onConnect={connect}
           onDisconnect={disconnect}
           onStartScreen={startScreenShare}
           onStopScreen={stopScreenShare}
+          captureStatus={captureStatus}
+          onCaptureProfileChange={setCaptureProfile}
           volume={volume}
           setVolume={setVolume}
         />
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { CardTrainingPanelProps, TableRegion } from '../types.ts';
+import { RANKS, SUITS } from '../utils/cardUtils.ts';
+import { regionLabel } from '../utils/regionProfiles.ts';
+
+type RowResult = { ok: boolean; message: string };
+
+export const CardTrainingPanel: React.FC<CardTrainingPanelProps> = ({
+    regions,
+    profileName,
+    templates,
+    onCountCards,
+    onTrain,
+    onClear,
+    onClose
+}) => {
+    const [labels, setLabels] = useState<Record<string, string>>({});
+    const [results, setResults] = useState<Record<string, RowResult>>({});
+
+    const cardRegions = regions.filter(r => r.kind === 'HERO_CARDS' || r.kind === 'BOARD');
+    const learntRanks = RANKS.filter(rank => templates?.ranks.some(t => t.label === rank));
+    const learntSuits = SUITS.filter(suit => templates?.suits.some(t => t.label === suit));
+    const missingRanks = RANKS.filter(rank => !learntRanks.includes(rank));
+
+    const setResult = (region: TableRegion, result: RowResult) => setResults(prev => ({ ...prev, [region.id]: result }));
+
+    const handleCount = (region: TableRegion) => {
+        const count = onCountCards(region);
+        setResult(region, count === null
+            ? { ok: false, message: 'Nessun frame disponibile' }
+            : { ok: true, message: `${count} carte rilevate` });
+    };
+
+    const handleTrain = (region: TableRegion) => {
+        const text = labels[region.id] ?? '';
+        const errors = onTrain(region, text);
+        setResult(region, errors.length > 0
+            ? { ok: false, message: errors.join('; ') }
+            : { ok: true, message: `Appresa: ${text.trim()}` });
+        if (errors.length === 0) setLabels(prev => ({ ...prev, [region.id]: '' }));
+    };
+
+    return (
+        <div className="absolute top-4 left-4 w-96 max-h-[80vh] flex flex-col bg-slate-900/95 backdrop-blur-md rounded-xl border border-slate-700 shadow-2xl z-40">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">
+                    Riconoscimento Carte <span className="text-slate-600 ml-1">{profileName}</span>
+                </h3>
+                <div className="flex items-center gap-3">
+                    {templates && (
+                        <button onClick={onClear} className="text-[10px] text-red-400 hover:text-red-300 font-bold uppercase">
+                            Cancella
+                        </button>
+                    )}
+                    <button onClick={onClose} className="text-slate-500 hover:text-white text-sm font-bold">✕</button>
+                </div>
+            </div>
+
+            <div className="overflow-y-auto p-3 space-y-3">
+                <p className="text-[10px] text-slate-400 leading-snug">
+                    Con le carte scoperte sul video, scrivi quelle visibili nella regione da sinistra a destra (es. <span className="font-mono text-slate-200">Ah Kd</span>) e premi Impara.
+                    Il riconoscimento locale confronta poi le carte lette dal modello.
+                </p>
+
+                <div className="grid grid-cols-2 gap-2 text-center">
+                    <div className="bg-slate-800/60 rounded-lg py-1.5">
+                        <div className="text-sm font-mono font-bold text-emerald-400">{learntRanks.length}/{RANKS.length}</div>
+                        <div className="text-[9px] text-slate-500 uppercase">Rank</div>
+                    </div>
+                    <div className="bg-slate-800/60 rounded-lg py-1.5">
+                        <div className="text-sm font-mono font-bold text-emerald-400">{learntSuits.length}/{SUITS.length}</div>
+                        <div className="text-[9px] text-slate-500 uppercase">Semi</div>
+                    </div>
+                </div>
+                {missingRanks.length > 0 && (
+                    <div className="text-[10px] text-slate-500">
+                        Mancano: <span className="font-mono text-slate-300">{missingRanks.join(' ')}</span>
+                    </div>
+                )}
+
+                {cardRegions.length === 0 && (
+                    <div className="text-slate-500 text-xs text-center italic py-4">
+                        Nessuna regione Carte Hero o Board nel profilo.
+                    </div>
+                )}
+                {cardRegions.map(region => {
+                    const result = results[region.id];
+                    return (
+                        <div key={region.id} className="bg-slate-800/60 border border-slate-700/50 rounded-lg p-2.5 space-y-1.5">
+                            <div className="flex items-center justify-between">
+                                <span className="text-[10px] font-bold text-slate-300 uppercase">{regionLabel(region)}</span>
+                                <button onClick={() => handleCount(region)} className="text-[10px] text-slate-400 hover:text-white font-bold uppercase">
+                                    Rileva
+                                </button>
+                            </div>
+                            <div className="flex gap-1.5">
+                                <input
+                                    value={labels[region.id] ?? ''}
+                                    onChange={e => setLabels(prev => ({ ...prev, [region.id]: e.target.value }))}
+                                    placeholder={region.kind === 'HERO_CARDS' ? 'Ah Kd' : 'Qh 7s 2c'}
+                                    className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[11px] font-mono text-slate-200"
+                                />
+                                <button
+                                    onClick={() => handleTrain(region)}
+                                    disabled={!(labels[region.id] ?? '').trim()}
+                                    className="px-2 py-1 rounded bg-emerald-600 hover:bg-emerald-500 text-[10px] font-bold text-white uppercase disabled:opacity-40"
+                                >
+                                    Impara
+                                </button>
+                            </div>
+                            {result && (
+                                <div className={`text-[10px] ${result.ok ? 'text-emerald-400' : 'text-red-400'}`}>{result.message}</div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
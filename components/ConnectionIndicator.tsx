@@ -0,0 +1,57 @@
+import React from 'react';
+import { ConnectionIndicatorProps, ConnectionStatus } from '../types.ts';
+import { useNow } from '../hooks/useNow.ts';
+
+const STATUS_STYLES: Record<ConnectionStatus, { label: string; pill: string; dot: string }> = {
+    [ConnectionStatus.DISCONNECTED]: { label: 'OFFLINE', pill: 'bg-slate-700 border-slate-600 text-slate-400', dot: 'bg-slate-500' },
+    [ConnectionStatus.CONNECTING]: { label: 'CONNECTING', pill: 'bg-sky-500/10 border-sky-500/50 text-sky-400', dot: 'bg-sky-500 animate-pulse' },
+    [ConnectionStatus.CONNECTED]: { label: 'LIVE CONNECTED', pill: 'bg-emerald-500/10 border-emerald-500/50 text-emerald-400', dot: 'bg-emerald-500 animate-pulse' },
+    [ConnectionStatus.RECONNECTING]: { label: 'RECONNECTING', pill: 'bg-amber-500/10 border-amber-500/50 text-amber-400', dot: 'bg-amber-500 animate-pulse' },
+    [ConnectionStatus.ERROR]: { label: 'CONNECTION LOST', pill: 'bg-red-500/10 border-red-500/50 text-red-400', dot: 'bg-red-500' },
+};
+
+const formatElapsed = (ms: number): string => {
+    const seconds = Math.max(0, Math.round(ms / 1000));
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export const ConnectionIndicator: React.FC<ConnectionIndicatorProps> = ({ connectionState, connectionMetrics, onRetryNow, compact = false }) => {
+    const { status, retryCount, nextRetryAt, lastDisconnectReason } = connectionState;
+    const style = STATUS_STYLES[status];
+    const canRetry = onRetryNow && (status === ConnectionStatus.RECONNECTING || status === ConnectionStatus.ERROR);
+
+    // Tick only while there is something time-based to show
+    const now = useNow(1000, nextRetryAt !== null || !!connectionMetrics?.lastToolCallAt);
+    const countdown = nextRetryAt ? Math.max(0, Math.ceil((nextRetryAt.getTime() - now) / 1000)) : null;
+
+    return (
+        <div className="flex items-center gap-3">
+            <div className={`px-3 py-1 rounded-full text-xs font-semibold flex items-center space-x-2 border ${style.pill}`}>
+                <span className={`w-2 h-2 rounded-full ${style.dot}`}></span>
+                <span>{style.label}</span>
+                {status === ConnectionStatus.RECONNECTING && (
+                    <span className="font-mono opacity-80">#{retryCount}{countdown !== null && ` · ${countdown}s`}</span>
+                )}
+            </div>
+
+            {!compact && connectionMetrics && status === ConnectionStatus.CONNECTED && (
+                <div className="text-[10px] font-mono text-slate-400 flex gap-3">
+                    <span>RTT {connectionMetrics.latencyMs !== null ? `${connectionMetrics.latencyMs}ms` : '-'}</span>
+                    <span>Tool {connectionMetrics.lastToolCallAt ? `${formatElapsed(now - connectionMetrics.lastToolCallAt.getTime())} fa` : '-'}</span>
+                </div>
+            )}
+
+            {!compact && lastDisconnectReason && status !== ConnectionStatus.CONNECTED && (
+                <span className="text-[10px] text-slate-500 max-w-[16rem] truncate" title={lastDisconnectReason}>
+                    {lastDisconnectReason}
+                </span>
+            )}
+
+            {canRetry && (
+                <button onClick={onRetryNow} className="text-[10px] font-bold uppercase text-amber-400 hover:text-amber-300 underline">
+                    Riprova ora
+                </button>
+            )}
+        </div>
+    );
+};
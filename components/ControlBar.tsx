@@ -1,14 +1,30 @@
 import React from 'react';
-import { ControlBarProps } from '../types.ts';
+import { CaptureLevel, CaptureProfileId, ControlBarProps } from '../types.ts';
+import { CAPTURE_PROFILES } from '../constants.ts';
 import { MicrophoneIcon, StopIcon, ScreenShareIcon, VolumeIcon } from './Icons.tsx';
+import { ConnectionIndicator } from './ConnectionIndicator.tsx';
+
+const LEVEL_COLORS: Record<CaptureLevel, string> = {
+  IDLE: 'text-slate-500',
+  NORMAL: 'text-slate-300',
+  ACTIVE: 'text-emerald-400',
+};
+
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
 
 export const ControlBar: React.FC<ControlBarProps> = ({
   isActive,
   isStreamingScreen,
+  connectionState,
+  connectionMetrics,
+  onRetryNow,
   onConnect,
   onDisconnect,
   onStartScreen,
   onStopScreen,
+  captureStatus,
+  onCaptureProfileChange,
   volume,
   setVolume
 }) => {
@@ -34,6 +50,12 @@ export const ControlBar: React.FC<ControlBarProps> = ({
             <span>Disconnect</span>
           </button>
         )}
+
+        <ConnectionIndicator
+          connectionState={connectionState}
+          connectionMetrics={connectionMetrics}
+          onRetryNow={onRetryNow}
+        />
       </div>
 
       {/* Screen & Volume Controls (Only visible when connected for better UX flow, but can be always visible) */}
@@ -52,6 +74,30 @@ export const ControlBar: React.FC<ControlBarProps> = ({
           <span>{isStreamingScreen ? 'Stop Sharing' : 'Share Screen'}</span>
         </button>
 
+        {/* Capture Profile & Effective Rate */}
+        <div className="flex items-center gap-3">
+          <select
+            value={captureStatus.profile}
+            onChange={(e) => onCaptureProfileChange(e.target.value as CaptureProfileId)}
+            className="bg-slate-700 border border-slate-600 rounded-lg px-2 py-2 text-xs text-slate-200"
+            title="Profilo di cattura"
+          >
+            {(Object.keys(CAPTURE_PROFILES) as CaptureProfileId[]).map(id => (
+              <option key={id} value={id}>{CAPTURE_PROFILES[id].label}</option>
+            ))}
+          </select>
+          {isStreamingScreen && (
+            <div className="text-[10px] font-mono leading-tight">
+              <div className="text-slate-300">
+                {captureStatus.fps.toFixed(2)} fps · {formatBytes(captureStatus.bytesPerMinute)}/min
+              </div>
+              <div className={`font-bold uppercase ${LEVEL_COLORS[captureStatus.level]}`}>
+                {captureStatus.level}{captureStatus.backpressure && <span className="text-amber-400"> · backoff</span>}
+              </div>
+            </div>
+          )}
+        </div>
+
         <div className="h-8 w-px bg-slate-700 mx-2"></div>
 
         {/* Volume Slider */}
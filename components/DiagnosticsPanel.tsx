@@ -0,0 +1,90 @@
+import React from 'react';
+import { DiagnosticsPanelProps, FrameSendReason } from '../types.ts';
+
+const REASON_LABELS: Record<FrameSendReason, string> = {
+    first: 'primo frame',
+    changed: 'tavolo cambiato',
+    keepalive: 'keepalive',
+    interval: 'intervallo fisso',
+};
+
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics, frameStats, onClear, onClose }) => {
+    const latestFirst = [...diagnostics].reverse();
+    const sampled = frameStats.sent + frameStats.skipped;
+    const skippedPct = sampled > 0 ? Math.round((frameStats.skipped / sampled) * 100) : 0;
+
+    return (
+        <div className="absolute top-4 left-4 w-96 max-h-[80vh] flex flex-col bg-slate-900/95 backdrop-blur-md rounded-xl border border-slate-700 shadow-2xl z-40">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">
+                    Diagnostica
+                </h3>
+                <div className="flex items-center gap-3">
+                    {diagnostics.length > 0 && (
+                        <button onClick={onClear} className="text-[10px] text-red-400 hover:text-red-300 font-bold uppercase">
+                            Svuota
+                        </button>
+                    )}
+                    <button onClick={onClose} className="text-slate-500 hover:text-white text-sm font-bold">✕</button>
+                </div>
+            </div>
+
+            <div className="px-4 py-3 border-b border-slate-800">
+                <div className="text-[9px] text-slate-500 uppercase font-black mb-1.5">Frame Video</div>
+                <div className="grid grid-cols-3 gap-2 text-center">
+                    <div className="bg-slate-800/60 rounded-lg py-1.5">
+                        <div className="text-sm font-mono font-bold text-emerald-400">{frameStats.sent}</div>
+                        <div className="text-[9px] text-slate-500 uppercase">Inviati</div>
+                    </div>
+                    <div className="bg-slate-800/60 rounded-lg py-1.5">
+                        <div className="text-sm font-mono font-bold text-slate-300">{frameStats.skipped}</div>
+                        <div className="text-[9px] text-slate-500 uppercase">Saltati</div>
+                    </div>
+                    <div className="bg-slate-800/60 rounded-lg py-1.5">
+                        <div className="text-sm font-mono font-bold text-amber-400">{skippedPct}%</div>
+                        <div className="text-[9px] text-slate-500 uppercase">Risparmio</div>
+                    </div>
+                </div>
+                {frameStats.lastSentAt && frameStats.lastReason && (
+                    <div className="mt-1.5 text-[10px] text-slate-500">
+                        Ultimo invio {frameStats.lastSentAt.toLocaleTimeString()} ({REASON_LABELS[frameStats.lastReason]})
+                    </div>
+                )}
+            </div>
+
+            <div className="overflow-y-auto p-3 space-y-2">
+                <div className="text-[9px] text-slate-500 uppercase font-black">
+                    Tool Call Rifiutate <span className="text-slate-600 ml-1">{diagnostics.length}</span>
+                </div>
+                {latestFirst.length === 0 && (
+                    <div className="text-slate-500 text-xs text-center italic py-6">
+                        Nessun payload rifiutato.
+                    </div>
+                )}
+                {latestFirst.map(entry => (
+                    <div key={entry.id} className="bg-slate-800/60 border border-red-500/20 rounded-lg p-2.5">
+                        <div className="flex items-center justify-between text-[10px] font-mono">
+                            <span className="text-red-400 font-bold">{entry.toolName}</span>
+                            <span className="text-slate-500">{entry.timestamp.toLocaleTimeString()}</span>
+                        </div>
+                        <ul className="mt-1.5 space-y-0.5">
+                            {entry.errors.map((message, i) => (
+                                <li key={i} className="text-[10px] text-slate-300 leading-snug border-l-2 border-red-500/40 pl-2">
+                                    {message}
+                                </li>
+                            ))}
+                        </ul>
+                        <details className="mt-1.5">
+                            <summary className="text-[9px] text-slate-500 uppercase tracking-wider cursor-pointer hover:text-slate-300">
+                                Payload
+                            </summary>
+                            <pre className="mt-1 text-[9px] text-slate-400 font-mono whitespace-pre-wrap break-all">
+                                {JSON.stringify(entry.args, null, 2)}
+                            </pre>
+                        </details>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { HandHistoryPanelProps, HandRecord } from '../types.ts';
+import { HAND_EXPORT_CONFIG } from '../constants.ts';
+import { PlayingCard } from './PlayingCard.tsx';
+import {
+    exportHandsAsText,
+    exportHandsAsJson,
+    filterHandsByDateRange,
+    getLatestSession,
+    HandExportOptions
+} from '../utils/handHistoryExport.ts';
+import { downloadTextFile, fileTimestamp } from '../utils/fileUtils.ts';
+
+type ExportFormat = 'text' | 'json';
+
+const ExportControls: React.FC<{ hands: HandRecord[]; onExport: (hands: HandRecord[], label: string) => void }> = ({ hands, onExport }) => {
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+
+    const exportRange = () => {
+        // Date inputs are local days: include the whole "to" day
+        const from = fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : 0;
+        const to = toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : Date.now();
+        onExport(filterHandsByDateRange(hands, from, to), 'range');
+    };
+
+    const buttonClass = 'px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-[10px] font-bold text-slate-200 uppercase disabled:opacity-40';
+
+    return (
+        <div className="flex flex-col gap-1.5">
+            <div className="flex gap-1.5">
+                <button className={buttonClass} disabled={hands.length === 0} onClick={() => onExport(getLatestSession(hands), 'session')}>Sessione</button>
+                <button className={buttonClass} disabled={hands.length === 0} onClick={() => onExport(hands, 'all')}>Tutte</button>
+            </div>
+            <div className="flex items-center gap-1.5">
+                <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-300" />
+                <input type="date" value={toDate} onChange={e => setToDate(e.target.value)} className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-300" />
+                <button className={buttonClass} disabled={hands.length === 0} onClick={exportRange}>Intervallo</button>
+            </div>
+        </div>
+    );
+};
+
+const HandDetails: React.FC<{ hand: HandRecord }> = ({ hand }) => (
+    <div className="mt-2 space-y-2 border-t border-slate-800 pt-2">
+        {hand.streets.map(street => (
+            <div key={`${hand.id}-${street.street}`}>
+                <div className="text-[9px] text-emerald-400 font-black uppercase tracking-wider mb-1">
+                    {street.street} · {new Date(street.startedAt).toLocaleTimeString()}
+                </div>
+                <div className="space-y-1">
+                    {/* Several tool calls can land in the same millisecond: key by position */}
+                    {street.snapshots.map(({ timestamp, state }, idx) => (
+                        <div key={idx} className="text-[10px] text-slate-300 leading-snug border-l-2 border-slate-700 pl-2">
+                            <span className="font-black text-white">{state.suggestedAction}</span>
+                            <span className="text-slate-500 font-mono ml-1">{new Date(timestamp).toLocaleTimeString()}</span>
+                            {state.reasoning && <div className="text-slate-400">{state.reasoning}</div>}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        ))}
+    </div>
+);
+
+export const HandHistoryPanel: React.FC<HandHistoryPanelProps> = ({ hands, onDelete, onClear, onClose }) => {
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [heroName, setHeroName] = useState<string>(HAND_EXPORT_CONFIG.DEFAULT_HERO_NAME);
+    const [bigBlind, setBigBlind] = useState('');
+    const [format, setFormat] = useState<ExportFormat>('text');
+    const sortedHands = [...hands].sort((a, b) => b.startedAt - a.startedAt);
+
+    const handleExport = (selection: HandRecord[], label: string) => {
+        if (selection.length === 0) return;
+
+        const bb = parseFloat(bigBlind);
+        const options: HandExportOptions = {
+            heroName: heroName.trim() || HAND_EXPORT_CONFIG.DEFAULT_HERO_NAME,
+            bigBlind: Number.isFinite(bb) && bb > 0 ? bb : undefined,
+        };
+        const ordered = [...selection].sort((a, b) => a.startedAt - b.startedAt);
+        const filename = `pokerpro_${label}_${fileTimestamp()}`;
+
+        if (format === 'json') {
+            downloadTextFile(exportHandsAsJson(ordered, options), `${filename}.json`, 'application/json');
+        } else {
+            downloadTextFile(exportHandsAsText(ordered, options), `${filename}.txt`);
+        }
+    };
+
+    return (
+        <div className="absolute top-4 left-4 w-80 max-h-[80vh] flex flex-col bg-slate-900/95 backdrop-blur-md rounded-xl border border-slate-700 shadow-2xl z-40">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">
+                    Mani Registrate <span className="text-slate-600 ml-1">{hands.length}</span>
+                </h3>
+                <div className="flex items-center gap-3">
+                    {hands.length > 0 && (
+                        <button onClick={onClear} className="text-[10px] text-red-400 hover:text-red-300 font-bold uppercase">
+                            Svuota
+                        </button>
+                    )}
+                    <button onClick={onClose} className="text-slate-500 hover:text-white text-sm font-bold">✕</button>
+                </div>
+            </div>
+
+            {/* Export */}
+            <div className="px-3 py-2.5 border-b border-slate-800 space-y-1.5">
+                <div className="flex items-center gap-1.5">
+                    <input
+                        value={heroName}
+                        onChange={e => setHeroName(e.target.value)}
+                        placeholder="Nome Hero"
+                        className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-0.5 text-[10px] text-slate-200"
+                    />
+                    <input
+                        value={bigBlind}
+                        onChange={e => setBigBlind(e.target.value)}
+                        placeholder="BB"
+                        inputMode="decimal"
+                        className="w-12 bg-slate-800 border border-slate-700 rounded px-2 py-0.5 text-[10px] text-slate-200"
+                    />
+                    <select
+                        value={format}
+                        onChange={e => setFormat(e.target.value as ExportFormat)}
+                        className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-200"
+                    >
+                        <option value="text">PokerStars</option>
+                        <option value="json">JSON</option>
+                    </select>
+                </div>
+                <ExportControls hands={hands} onExport={handleExport} />
+            </div>
+
+            <div className="overflow-y-auto p-3 space-y-2">
+                {sortedHands.length === 0 && (
+                    <div className="text-slate-500 text-xs text-center italic py-6">
+                        Nessuna mano registrata.
+                    </div>
+                )}
+                {sortedHands.map(hand => {
+                    const lastStreet = hand.streets[hand.streets.length - 1];
+                    const lastState = lastStreet.snapshots[lastStreet.snapshots.length - 1].state;
+                    const isExpanded = expandedId === hand.id;
+
+                    return (
+                        <div key={hand.id} className={`bg-slate-800/60 rounded-lg border p-2.5 ${hand.endedAt === null ? 'border-emerald-500/40' : 'border-slate-700'}`}>
+                            <div className="flex items-center justify-between cursor-pointer" onClick={() => setExpandedId(isExpanded ? null : hand.id)}>
+                                <div className="flex gap-1">
+                                    {hand.holeCards.map(card => <PlayingCard key={card} card={card} />)}
+                                </div>
+                                <div className="flex gap-0.5">
+                                    {hand.communityCards.map(card => <PlayingCard key={card} card={card} faded />)}
+                                </div>
+                            </div>
+                            <div className="flex items-center justify-between mt-1.5 text-[9px] font-mono text-slate-500">
+                                <span>
+                                    {hand.tableId && <span className="text-emerald-500 font-bold">{hand.tableId} · </span>}
+                                    {new Date(hand.startedAt).toLocaleTimeString()} · {lastStreet.street} · <span className="text-slate-300 font-bold">{lastState.suggestedAction}</span>
+                                </span>
+                                <span className="flex gap-2">
+                                    <button onClick={() => handleExport([hand], 'hand')} className="text-slate-600 hover:text-emerald-400 uppercase font-bold">
+                                        Esporta
+                                    </button>
+                                    <button onClick={() => onDelete(hand.id)} className="text-slate-600 hover:text-red-400 uppercase font-bold">
+                                        Elimina
+                                    </button>
+                                </span>
+                            </div>
+                            {isExpanded && <HandDetails hand={hand} />}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
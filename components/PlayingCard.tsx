@@ -0,0 +1,27 @@
+import React from 'react';
+import { CardCheck } from '../types.ts';
+import { parseCard, formatCard } from '../utils/cardUtils.ts';
+
+export const PlayingCard: React.FC<{ card: string; faded?: boolean; check?: CardCheck }> = ({ card, faded, check }) => {
+    const parsed = parseCard(card);
+    const { rank, suit, isRed } = parsed
+        ? formatCard(parsed)
+        : { rank: card, suit: '?', isRed: false };
+    const colorClass = !parsed ? 'text-slate-500' : isRed ? 'text-red-600' : 'text-slate-900';
+    const isMismatch = check?.status === 'mismatch';
+
+    return (
+        <div className={`relative bg-white rounded-md w-8 h-11 flex flex-col items-center justify-center border shadow-sm shrink-0 transition-all duration-300 ${isMismatch ? 'border-amber-500 ring-2 ring-amber-500/60' : 'border-slate-300'} ${faded ? 'opacity-40 grayscale-[0.5]' : 'scale-100'}`}>
+            <span className={`font-bold text-xs leading-none ${colorClass}`}>{rank}</span>
+            <span className={`text-[10px] leading-none ${colorClass}`}>{suit}</span>
+            {isMismatch && (
+                <span
+                    className="absolute -top-1.5 -right-1.5 w-3.5 h-3.5 rounded-full bg-amber-500 text-slate-900 text-[9px] font-black flex items-center justify-center"
+                    title={`Lettura locale: ${check.localCard}`}
+                >
+                    !
+                </span>
+            )}
+        </div>
+    );
+};
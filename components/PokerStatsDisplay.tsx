@@ -1,31 +1,28 @@
 
 import React, { useState, useEffect } from 'react';
 import { PokerStatsDisplayProps } from '../types.ts';
+import { EQUITY_CONFIG } from '../constants.ts';
+import { PotMathTiles } from './PotMathTiles.tsx';
+import { PlayingCard } from './PlayingCard.tsx';
+import { TableDiagram } from './TableDiagram.tsx';
+import { RangeGrid } from './RangeGrid.tsx';
+import { RangeEquityBreakdown } from './RangeEquityBreakdown.tsx';
+import { isHeroTurn } from '../utils/captureController.ts';
 
-const Card: React.FC<{ card: string; faded?: boolean }> = ({ card, faded }) => {
-    const suitChar = card.slice(-1).toLowerCase();
-    const value = card.slice(0, -1);
-    
-    let suitIcon = '';
-    let colorClass = '';
-
-    switch (suitChar) {
-        case 'h': suitIcon = '♥'; colorClass = 'text-red-600'; break;
-        case 'd': suitIcon = '♦'; colorClass = 'text-red-600'; break;
-        case 'c': suitIcon = '♣'; colorClass = 'text-slate-900'; break;
-        case 's': suitIcon = '♠'; colorClass = 'text-slate-900'; break;
-        default: suitIcon = '?'; colorClass = 'text-slate-500';
-    }
-
-    return (
-        <div className={`bg-white rounded-md w-8 h-11 flex flex-col items-center justify-center border border-slate-300 shadow-sm shrink-0 transition-all duration-300 ${faded ? 'opacity-40 grayscale-[0.5]' : 'scale-100'}`}>
-            <span className={`font-bold text-xs leading-none ${colorClass}`}>{value}</span>
-            <span className={`text-[10px] leading-none ${colorClass}`}>{suitIcon}</span>
-        </div>
-    );
-};
-
-export const PokerStatsDisplay: React.FC<PokerStatsDisplayProps> = ({ state, isStreaming, onManualScan, onDeepAnalysis, isDeepAnalyzing }) => {
+export const PokerStatsDisplay: React.FC<PokerStatsDisplayProps> = ({
+    state,
+    isStreaming,
+    onManualScan,
+    onDeepAnalysis,
+    isDeepAnalyzing,
+    tables = [],
+    selectedTableId,
+    onSelectTable,
+    rangeEquity = null,
+    isRangeEquityCalculating = false,
+    preflopAdvice = null,
+    tournament = null
+}) => {
     const [isScanning, setIsScanning] = useState(false);
     const [lastUpdate, setLastUpdate] = useState<number>(Date.now());
 
@@ -51,9 +48,13 @@ export const PokerStatsDisplay: React.FC<PokerStatsDisplayProps> = ({ state, isS
         opponentRange: "Calcolo range..."
     };
 
+    const opponentRanges = (displayState.players ?? []).filter(
+        player => player.inHand && player.estimatedRange && player.seat !== displayState.heroSeat
+    );
+
     const handleScan = () => {
         setIsScanning(true);
-        onManualScan();
+        onManualScan?.();
         // Fallback reset if no response comes quickly
         setTimeout(() => setIsScanning(false), 2000);
     };
@@ -88,18 +89,20 @@ export const PokerStatsDisplay: React.FC<PokerStatsDisplayProps> = ({ state, isS
                     </span>
                 </div>
                 <div className="flex flex-col gap-2">
-                    <button 
-                        onClick={handleScan}
-                        disabled={isScanning || isDeepAnalyzing}
-                        className={`group relative flex items-center justify-center gap-1.5 px-3 py-2 font-black rounded-lg transition-all shadow-lg active:scale-95 text-[10px] overflow-hidden ${
-                            isScanning ? 'bg-slate-700 text-slate-500 cursor-wait' : 'bg-emerald-600 hover:bg-emerald-500 text-white'
-                        }`}
-                    >
-                        <svg className={`w-3.5 h-3.5 ${isScanning ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                        </svg>
-                        {isScanning ? 'SCAN...' : 'SCAN'}
-                    </button>
+                    {onManualScan && (
+                        <button 
+                            onClick={handleScan}
+                            disabled={isScanning || isDeepAnalyzing}
+                            className={`group relative flex items-center justify-center gap-1.5 px-3 py-2 font-black rounded-lg transition-all shadow-lg active:scale-95 text-[10px] overflow-hidden ${
+                                isScanning ? 'bg-slate-700 text-slate-500 cursor-wait' : 'bg-emerald-600 hover:bg-emerald-500 text-white'
+                            }`}
+                        >
+                            <svg className={`w-3.5 h-3.5 ${isScanning ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                            </svg>
+                            {isScanning ? 'SCAN...' : 'SCAN'}
+                        </button>
+                    )}
                     <button 
                         onClick={onDeepAnalysis}
                         disabled={isDeepAnalyzing}
@@ -111,6 +114,33 @@ export const PokerStatsDisplay: React.FC<PokerStatsDisplayProps> = ({ state, isS
                 </div>
             </div>
 
+            {/* Tables (multi-tabling): hero's turn pulses */}
+            {tables.length > 1 && (
+                <div className="grid grid-cols-2 gap-1.5 mb-4">
+                    {tables.map(({ table, state: tableState }) => {
+                        const isSelected = table.id === selectedTableId;
+                        const mustAct = isHeroTurn(tableState);
+                        return (
+                            <button
+                                key={table.id}
+                                onClick={() => onSelectTable?.(table.id)}
+                                className={`flex items-center justify-between gap-1 px-2 py-1.5 rounded-lg border text-left transition-colors ${
+                                    isSelected ? 'bg-slate-800 border-emerald-500/60' : 'bg-slate-800/40 border-slate-700 hover:bg-slate-800'
+                                } ${mustAct ? 'ring-2 ring-amber-400/70' : ''}`}
+                            >
+                                <span className="flex items-center gap-1.5 min-w-0">
+                                    {mustAct && <span className="w-2 h-2 shrink-0 rounded-full bg-amber-400 animate-pulse"></span>}
+                                    <span className={`text-[10px] font-bold truncate ${isSelected ? 'text-white' : 'text-slate-400'}`}>{table.name}</span>
+                                </span>
+                                <span className={`text-[9px] font-black uppercase shrink-0 ${mustAct ? 'text-amber-300' : 'text-slate-500'}`}>
+                                    {tableState?.suggestedAction ?? '-'}
+                                </span>
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
             {/* Deep Analysis Result */}
             {displayState.deepAnalysis && (
                 <div className="mb-4 bg-indigo-900/30 border border-indigo-500/30 p-3 rounded-lg animate-in fade-in slide-in-from-top-2 duration-500">
@@ -130,6 +160,29 @@ export const PokerStatsDisplay: React.FC<PokerStatsDisplayProps> = ({ state, isS
                 <div className="text-4xl font-black tracking-tighter italic uppercase drop-shadow-md">{displayState.suggestedAction}</div>
             </div>
 
+            {/* Preflop chart (board empty): flags advice that deviates from it */}
+            {preflopAdvice && (
+                <div className={`mb-4 p-3 rounded-lg border flex items-center justify-between ${preflopAdvice.deviation ? 'bg-amber-900/30 border-amber-500/50' : 'bg-slate-800/60 border-slate-700'}`}>
+                    <div className="flex flex-col">
+                        <span className="text-[9px] text-slate-500 uppercase font-black">Chart Preflop</span>
+                        <span className="text-[8px] text-slate-600 font-mono uppercase">
+                            {preflopAdvice.hand} · {preflopAdvice.position} {preflopAdvice.vs ? `vs ${preflopAdvice.vs}` : 'open'} · {Math.round(preflopAdvice.stackBb)}bb
+                        </span>
+                    </div>
+                    <div className="flex flex-col items-end">
+                        <span className="text-xl font-black tracking-tight text-white">
+                            {preflopAdvice.action === 'RAISE' && preflopAdvice.vs ? '3-BET' : preflopAdvice.action}
+                            {preflopAdvice.frequency < 1 && <span className="text-xs text-slate-400 ml-1">{Math.round(preflopAdvice.frequency * 100)}%</span>}
+                        </span>
+                        {preflopAdvice.deviation && (
+                            <span className="text-[9px] font-black text-amber-400 uppercase">
+                                ⚠ Modello: {displayState.suggestedAction}
+                            </span>
+                        )}
+                    </div>
+                </div>
+            )}
+
             {/* Main Stats Grid */}
             <div className="grid grid-cols-2 gap-3 mb-4">
                 <div className="bg-slate-800/80 p-3 rounded-lg border border-slate-700 text-center relative overflow-hidden group">
@@ -146,13 +199,100 @@ export const PokerStatsDisplay: React.FC<PokerStatsDisplayProps> = ({ state, isS
                 </div>
             </div>
 
+            {/* Equity against the parsed range (Web Worker) */}
+            {rangeEquity && <RangeEquityBreakdown result={rangeEquity} isCalculating={isRangeEquityCalculating} />}
+
+            {/* Tournament equity (ICM): Hero's $EV and the equity an all-in call needs */}
+            {tournament && (() => {
+                const call = tournament.call;
+                const heroEquity = (!isRangeEquityCalculating ? rangeEquity?.equity : undefined) ?? displayState.equity ?? displayState.winProbability;
+                const isShortOfIcm = call !== null && heroEquity >= call.chipRequiredEquity && heroEquity < call.requiredEquity;
+                return (
+                    <div className={`mb-4 p-3 rounded-lg border ${isShortOfIcm ? 'bg-amber-900/30 border-amber-500/50' : 'bg-slate-800/60 border-slate-700'}`}>
+                        <div className="flex items-center justify-between">
+                            <div className="flex flex-col">
+                                <span className="text-[9px] text-slate-500 uppercase font-black">ICM · {tournament.playerCount} giocatori</span>
+                                <span className="text-[8px] text-slate-600 font-mono uppercase">
+                                    Premi {tournament.heroShare.toFixed(1)}% · chip {tournament.heroChipShare.toFixed(1)}%
+                                </span>
+                            </div>
+                            <span className="text-xl font-black tracking-tight text-white">
+                                ${tournament.heroEv.toFixed(2)}
+                                <span className="text-xs text-slate-500 ml-1">/ {tournament.prizePool}</span>
+                            </span>
+                        </div>
+                        {call && (
+                            <div className="mt-2 pt-2 border-t border-slate-700/60 flex items-center justify-between">
+                                <span className="text-[9px] text-slate-500 uppercase font-black">Call all-in</span>
+                                <div className="flex flex-col items-end">
+                                    <span className="text-sm font-black text-white font-mono">
+                                        ICM {call.requiredEquity.toFixed(1)}% <span className="text-slate-500">vs chip {call.chipRequiredEquity.toFixed(1)}%</span>
+                                    </span>
+                                    <span className={`text-[9px] font-black uppercase ${isShortOfIcm ? 'text-amber-400' : 'text-slate-500'}`}>
+                                        {isShortOfIcm ? '⚠ ' : ''}Risk premium +{call.riskPremium.toFixed(1)}%
+                                    </span>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                );
+            })()}
+
+            {/* Local Engine Cross-Check */}
+            {displayState.localEquity && (() => {
+                const engine = displayState.localEquity;
+                const modelEquity = displayState.equity ?? displayState.winProbability;
+                const gap = modelEquity - engine.equity;
+                const isGapLarge = Math.abs(gap) >= EQUITY_CONFIG.GAP_WARNING_PCT;
+                return (
+                    <div className={`mb-4 p-3 rounded-lg border flex items-center justify-between ${isGapLarge ? 'bg-amber-900/30 border-amber-500/50' : 'bg-slate-800/60 border-slate-700'}`}>
+                        <div className="flex flex-col">
+                            <span className="text-[9px] text-slate-500 uppercase font-black">Engine Equity</span>
+                            <span className="text-[8px] text-slate-600 font-mono uppercase">
+                                {engine.method === 'exact' ? 'Exact' : 'Monte Carlo'} · {engine.samples} run · tie {engine.tie.toFixed(1)}%
+                            </span>
+                        </div>
+                        <div className="flex flex-col items-end">
+                            <span className={`text-xl font-black tracking-tight ${getWinProbColor(engine.equity)}`}>
+                                {engine.equity.toFixed(1)}%
+                            </span>
+                            {isGapLarge && (
+                                <span className="text-[9px] font-black text-amber-400 uppercase">
+                                    ⚠ Modello {gap > 0 ? '+' : ''}{gap.toFixed(0)}%
+                                </span>
+                            )}
+                        </div>
+                    </div>
+                );
+            })()}
+
+            {/* Pot Maths (computed locally) */}
+            {displayState.localPotMath && (
+                <PotMathTiles
+                    potMath={displayState.localPotMath}
+                    engineEquity={(!isRangeEquityCalculating ? rangeEquity?.equity : undefined) ?? displayState.localEquity?.equity}
+                />
+            )}
+
+            {/* Table (per seat) */}
+            {displayState.players && displayState.players.length > 0 && (
+                <TableDiagram
+                    players={displayState.players}
+                    tableSize={displayState.tableSize}
+                    heroSeat={displayState.heroSeat}
+                    dealerSeat={displayState.dealerSeat}
+                />
+            )}
+
             {/* Hand & Board */}
             <div className="flex gap-2 mb-4 justify-between">
                 <div className="bg-slate-800/40 rounded-lg p-2.5 flex-1 flex flex-col items-center border border-slate-700/50">
                     <span className="text-[9px] text-slate-500 mb-1.5 uppercase font-black">Tu (Hero)</span>
                     <div className="flex gap-1.5">
                         {displayState.holeCards.length > 0 ? (
-                            displayState.holeCards.map((card, idx) => <Card key={`hole-${idx}`} card={card} />)
+                            displayState.holeCards.map((card, idx) => (
+                                <PlayingCard key={`hole-${idx}`} card={card} check={displayState.localCardCheck?.holeCards[idx]} />
+                            ))
                         ) : (
                             <div className="flex gap-1.5 opacity-20"><div className="w-8 h-11 bg-slate-600 rounded-md"/><div className="w-8 h-11 bg-slate-600 rounded-md"/></div>
                         )}
@@ -163,7 +303,9 @@ export const PokerStatsDisplay: React.FC<PokerStatsDisplayProps> = ({ state, isS
                     <span className="text-[9px] text-slate-500 mb-1.5 uppercase font-black">Board</span>
                     <div className="flex gap-1 flex-wrap justify-center">
                         {displayState.communityCards.length > 0 ? (
-                            displayState.communityCards.map((card, idx) => <Card key={`comm-${idx}`} card={card} />)
+                            displayState.communityCards.map((card, idx) => (
+                                <PlayingCard key={`comm-${idx}`} card={card} check={displayState.localCardCheck?.communityCards[idx]} />
+                            ))
                         ) : (
                             <div className="h-11 flex items-center text-[10px] text-slate-600 italic font-medium">In attesa...</div>
                         )}
@@ -177,8 +319,18 @@ export const PokerStatsDisplay: React.FC<PokerStatsDisplayProps> = ({ state, isS
                     <div className="text-[9px] text-slate-500 uppercase font-black mb-1.5">Punto Attuale</div>
                     <div className="text-sm font-black text-white uppercase tracking-tight flex items-center gap-2">
                         <div className="w-1.5 h-3 bg-emerald-500 rounded-full"></div>
-                        {displayState.handStrength}
+                        {displayState.localHand ? displayState.localHand.description : displayState.handStrength}
                     </div>
+                    {displayState.localHand && (
+                        <>
+                            <div className="flex gap-1 mt-2">
+                                {displayState.localHand.bestFive.map((card, idx) => <PlayingCard key={`best-${idx}`} card={card} />)}
+                            </div>
+                            <div className="text-[9px] text-slate-500 font-bold mt-1.5 truncate">
+                                {displayState.localHand.label} · Modello: <span className="text-slate-400">{displayState.handStrength || '-'}</span>
+                            </div>
+                        </>
+                    )}
                 </div>
                 <div className="p-2 bg-slate-800/30 rounded-lg border border-slate-700/30">
                     <div className="text-[9px] text-emerald-400 mb-1.5 uppercase font-black tracking-wider">Analisi Strategica</div>
@@ -198,6 +350,16 @@ export const PokerStatsDisplay: React.FC<PokerStatsDisplayProps> = ({ state, isS
                     <div className="text-[10px] font-bold text-slate-400 truncate leading-tight">
                         {displayState.opponentRange || "..."}
                     </div>
+                    {displayState.localRange && (
+                        <div className="mt-1.5">
+                            <RangeGrid range={displayState.localRange} heroCards={displayState.holeCards} />
+                        </div>
+                    )}
+                    {opponentRanges.map(player => (
+                        <div key={player.seat} className="text-[10px] text-slate-400 truncate leading-tight mt-0.5" title={player.estimatedRange}>
+                            <span className="font-black text-slate-300">{player.position ?? `#${player.seat}`}</span> {player.estimatedRange}
+                        </div>
+                    ))}
                 </div>
             </div>
         </div>
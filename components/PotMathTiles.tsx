@@ -0,0 +1,46 @@
+import React from 'react';
+import { PotMathTilesProps } from '../types.ts';
+import { formatPotOdds } from '../utils/potOdds.ts';
+
+const Tile: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className }) => (
+    <div className={`bg-slate-800/80 p-2 rounded-lg border text-center ${className ?? 'border-slate-700'}`}>
+        <div className="text-[9px] text-slate-500 uppercase font-bold mb-0.5">{label}</div>
+        <div className="text-sm font-black text-white tracking-tight">{value}</div>
+    </div>
+);
+
+export const PotMathTiles: React.FC<PotMathTilesProps> = ({ potMath, engineEquity }) => {
+    const { potOdds, requiredEquity, spr, effectiveStackBb, breakEvenFolds } = potMath;
+
+    // Compare the engine's equity with what the call needs
+    const callVerdict = requiredEquity !== null && engineEquity !== undefined
+        ? engineEquity >= requiredEquity ? 'profitable' : 'unprofitable'
+        : null;
+    const neededClass = callVerdict === 'profitable'
+        ? 'border-emerald-500/60 bg-emerald-900/30'
+        : callVerdict === 'unprofitable' ? 'border-red-500/60 bg-red-900/30' : undefined;
+
+    return (
+        <div className="mb-4">
+            <div className="grid grid-cols-4 gap-2">
+                <Tile label="Pot Odds" value={potOdds !== null ? formatPotOdds(potOdds) : '-'} />
+                <Tile label="Eq. Call" value={requiredEquity !== null ? `${requiredEquity.toFixed(1)}%` : '-'} className={neededClass} />
+                <Tile label="SPR" value={spr !== null ? spr.toFixed(1) : '-'} />
+                <Tile label="Stack" value={effectiveStackBb !== null ? `${effectiveStackBb.toFixed(0)}bb` : '-'} />
+            </div>
+            {callVerdict && (
+                <div className={`mt-1.5 text-[9px] font-black uppercase text-center ${callVerdict === 'profitable' ? 'text-emerald-400' : 'text-red-400'}`}>
+                    Engine {engineEquity!.toFixed(1)}% {callVerdict === 'profitable' ? '≥' : '<'} {requiredEquity!.toFixed(1)}% richiesto
+                </div>
+            )}
+            <div className="mt-1.5 flex justify-between text-[9px] text-slate-500 font-mono">
+                <span className="uppercase font-bold">Fold BE:</span>
+                {breakEvenFolds.map(({ betFraction, foldPct }) => (
+                    <span key={betFraction}>
+                        {Math.round(betFraction * 100)}%p <span className="text-slate-300">{foldPct.toFixed(0)}%</span>
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,93 @@
+import React, { useState, useEffect } from 'react';
+import { PreflopChartPanelProps } from '../types.ts';
+import { serializeChartSet } from '../utils/preflopCharts.ts';
+
+type Status = { ok: boolean; messages: string[] };
+
+export const PreflopChartPanel: React.FC<PreflopChartPanelProps> = ({
+    chartSet,
+    onSave,
+    onImport,
+    onExport,
+    onReset,
+    onClose
+}) => {
+    const [draft, setDraft] = useState(() => serializeChartSet(chartSet));
+    const [status, setStatus] = useState<Status | null>(null);
+
+    // Imports and resets replace the text being edited
+    useEffect(() => {
+        setDraft(serializeChartSet(chartSet));
+    }, [chartSet]);
+
+    const showResult = (errors: string[], success: string) => {
+        setStatus(errors.length > 0 ? { ok: false, messages: errors } : { ok: true, messages: [success] });
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-importing the same file
+        if (file) showResult(await onImport(file), `Importato: ${file.name}`);
+    };
+
+    return (
+        <div className="absolute top-4 left-4 w-[28rem] max-h-[80vh] flex flex-col bg-slate-900/95 backdrop-blur-md rounded-xl border border-slate-700 shadow-2xl z-40">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">
+                    Chart Preflop <span className="text-slate-600 ml-1">{chartSet.name} · {chartSet.charts.length}</span>
+                </h3>
+                <button onClick={onClose} className="text-slate-500 hover:text-white text-sm font-bold">✕</button>
+            </div>
+
+            <div className="overflow-y-auto p-3 space-y-3">
+                <p className="text-[10px] text-slate-400 leading-snug">
+                    Ogni chart vale per le posizioni di Hero in <span className="font-mono text-slate-200">positions</span>, contro l'open
+                    di <span className="font-mono text-slate-200">vs</span> (ometti per i pot non aperti), da <span className="font-mono text-slate-200">minStackBb</span> big
+                    blind effettivi in su. <span className="font-mono text-slate-200">raise</span> e <span className="font-mono text-slate-200">call</span> usano la notazione
+                    standard, con il peso per le mani miste (es. <span className="font-mono text-slate-200">A5s:0.5</span>).
+                </p>
+
+                <textarea
+                    value={draft}
+                    onChange={e => setDraft(e.target.value)}
+                    spellCheck={false}
+                    className="w-full h-72 bg-slate-950 border border-slate-700 rounded p-2 text-[10px] font-mono text-slate-200 leading-snug"
+                />
+
+                {status && (
+                    <div className={`text-[10px] leading-snug ${status.ok ? 'text-emerald-400' : 'text-red-400'}`}>
+                        {status.messages.map((message, idx) => <div key={idx}>{message}</div>)}
+                    </div>
+                )}
+
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => showResult(onSave(draft), 'Chart salvati')}
+                        className="flex-1 px-2 py-1.5 rounded bg-emerald-600 hover:bg-emerald-500 text-[10px] font-bold text-white uppercase"
+                    >
+                        Salva
+                    </button>
+                    <label className="flex-1 px-2 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-[10px] font-bold text-slate-200 uppercase text-center cursor-pointer">
+                        Importa
+                        <input type="file" accept=".json" onChange={handleImport} className="hidden" />
+                    </label>
+                    <button
+                        onClick={onExport}
+                        className="flex-1 px-2 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-[10px] font-bold text-slate-200 uppercase"
+                    >
+                        Esporta
+                    </button>
+                    <button
+                        onClick={() => {
+                            onReset();
+                            setStatus({ ok: true, messages: ['Chart predefiniti ripristinati'] });
+                        }}
+                        className="px-2 py-1.5 rounded text-[10px] font-bold text-red-400 hover:text-red-300 uppercase"
+                    >
+                        Predefiniti
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
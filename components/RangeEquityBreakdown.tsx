@@ -0,0 +1,45 @@
+import React from 'react';
+import { RangeEquityBreakdownProps } from '../types.ts';
+import { RANGE_EQUITY_CONFIG } from '../constants.ts';
+
+// Beats / chops / loses, as one stacked bar
+const OutcomeBar: React.FC<{ win: number; tie: number; lose: number; className?: string }> = ({ win, tie, lose, className }) => (
+    <div className={`flex overflow-hidden rounded-sm bg-slate-900 ${className ?? 'h-1.5'}`}>
+        <div className="bg-emerald-500" style={{ width: `${win}%` }}></div>
+        <div className="bg-slate-400" style={{ width: `${tie}%` }}></div>
+        <div className="bg-red-500" style={{ width: `${lose}%` }}></div>
+    </div>
+);
+
+export const RangeEquityBreakdown: React.FC<RangeEquityBreakdownProps> = ({ result, isCalculating }) => {
+    const rows = result.classes.slice(0, RANGE_EQUITY_CONFIG.BREAKDOWN_ROWS);
+
+    return (
+        <div className={`mb-4 bg-slate-800/60 rounded-lg p-3 border border-slate-700 transition-opacity ${isCalculating ? 'opacity-50' : ''}`}>
+            <div className="flex justify-between items-baseline mb-1.5">
+                <span className="text-[9px] text-slate-500 uppercase font-bold">Equity vs Range</span>
+                <span className="text-sm font-black text-white">{result.equity.toFixed(1)}%</span>
+            </div>
+            <OutcomeBar win={result.win} tie={result.tie} lose={result.lose} className="h-2" />
+            <div className="mt-1 flex justify-between text-[9px] font-bold">
+                <span className="text-emerald-400">Batte {result.win.toFixed(0)}%</span>
+                <span className="text-slate-400">Split {result.tie.toFixed(0)}%</span>
+                <span className="text-red-400">Perde {result.lose.toFixed(0)}%</span>
+            </div>
+
+            <div className="mt-2 space-y-0.5">
+                {rows.map(row => (
+                    <div key={row.hand} className="grid grid-cols-[2.5rem_1fr_2.5rem] items-center gap-1.5 text-[9px] font-mono">
+                        <span className="font-bold text-slate-300">{row.hand}</span>
+                        <OutcomeBar win={row.win} tie={row.tie} lose={row.lose} />
+                        <span className="text-right text-slate-500">{row.combos.toFixed(1)}c</span>
+                    </div>
+                ))}
+            </div>
+            <div className="mt-1.5 text-[8px] text-slate-600 font-mono uppercase">
+                {result.combos.toFixed(1)} combo · {result.method === 'exact' ? 'Exact' : `Monte Carlo ${result.samples}`}
+                {result.classes.length > rows.length && ` · +${result.classes.length - rows.length} classi`}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { RangeGridProps } from '../types.ts';
+import { gridHand, handClassOf } from '../utils/handRange.ts';
+
+const CELLS = Array.from({ length: 13 }, (_, row) => Array.from({ length: 13 }, (__, col) => gridHand(row, col)));
+
+const weightClass = (weight: number): string => {
+    if (weight >= 1) return 'bg-emerald-500 text-emerald-950';
+    if (weight >= 0.5) return 'bg-emerald-500/60 text-emerald-50';
+    if (weight > 0) return 'bg-emerald-500/30 text-emerald-200';
+    return 'bg-slate-900/80 text-slate-600';
+};
+
+export const RangeGrid: React.FC<RangeGridProps> = ({ range, heroCards = [] }) => {
+    const heroClass = handClassOf(heroCards);
+
+    return (
+        <div>
+            <div className="grid gap-px" style={{ gridTemplateColumns: 'repeat(13, minmax(0, 1fr))' }}>
+                {CELLS.flat().map(hand => {
+                    const weight = range.range[hand] ?? 0;
+                    return (
+                        <div
+                            key={hand}
+                            title={weight > 0 ? `${hand} ${Math.round(weight * 100)}%` : hand}
+                            className={`aspect-square flex items-center justify-center rounded-[2px] text-[6px] font-bold leading-none ${weightClass(weight)} ${hand === heroClass ? 'ring-1 ring-amber-400' : ''}`}
+                        >
+                            {hand}
+                        </div>
+                    );
+                })}
+            </div>
+            <div className="mt-1 flex justify-between text-[9px] text-slate-500 font-mono">
+                <span><span className="text-slate-300">{range.combos}</span> combo · <span className="text-slate-300">{range.percent}%</span></span>
+                {range.unparsed.length > 0 && (
+                    <span className="truncate ml-2" title={range.unparsed.join(' ')}>Ignorato: {range.unparsed.join(' ')}</span>
+                )}
+            </div>
+        </div>
+    );
+};
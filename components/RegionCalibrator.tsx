@@ -0,0 +1,205 @@
+import React, { useEffect, useRef, useState, PointerEvent } from 'react';
+import { RegionCalibratorProps, RegionKind, RegionRect, TableRegion } from '../types.ts';
+import { REGION_KIND_LABELS, REGION_PROFILES_CONFIG, TABLE_CONFIG } from '../constants.ts';
+import { Box, getContentBox, rectFromPoints, regionLabel, toFrameCoords } from '../utils/regionProfiles.ts';
+
+const KINDS = Object.keys(REGION_KIND_LABELS) as RegionKind[];
+
+const toPercentStyle = (rect: RegionRect) => ({
+    left: `${rect.x * 100}%`,
+    top: `${rect.y * 100}%`,
+    width: `${rect.width * 100}%`,
+    height: `${rect.height * 100}%`,
+});
+
+export const RegionCalibrator: React.FC<RegionCalibratorProps> = ({
+    videoRef,
+    profiles,
+    activeProfile,
+    onSelectProfile,
+    onSaveProfile,
+    onDeleteProfile,
+    onClose
+}) => {
+    const overlayRef = useRef<HTMLDivElement>(null);
+    const [draft, setDraft] = useState<TableRegion[]>(activeProfile.regions);
+    const [profileName, setProfileName] = useState(activeProfile.name);
+    const [kind, setKind] = useState<RegionKind>('HERO_CARDS');
+    const [seat, setSeat] = useState(1);
+    const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+    const [dragRect, setDragRect] = useState<RegionRect | null>(null);
+    const [contentBox, setContentBox] = useState<Box | null>(null);
+
+    // Editing restarts from the selected profile
+    useEffect(() => {
+        setDraft(activeProfile.regions);
+        setProfileName(activeProfile.name);
+    }, [activeProfile]);
+
+    // Frame area inside the overlay (letterboxed video), kept in sync with resizes
+    useEffect(() => {
+        const measure = () => {
+            const overlay = overlayRef.current;
+            if (!overlay) return;
+            const { width, height } = overlay.getBoundingClientRect();
+            const video = videoRef.current;
+            setContentBox(getContentBox({ left: 0, top: 0, width, height }, video?.videoWidth ?? 0, video?.videoHeight ?? 0));
+        };
+        measure();
+        window.addEventListener('resize', measure);
+        const video = videoRef.current;
+        video?.addEventListener('loadedmetadata', measure);
+        return () => {
+            window.removeEventListener('resize', measure);
+            video?.removeEventListener('loadedmetadata', measure);
+        };
+    }, [videoRef]);
+
+    const pointToFrame = (e: PointerEvent<HTMLDivElement>) => {
+        const video = videoRef.current;
+        return toFrameCoords(e.clientX, e.clientY, e.currentTarget.getBoundingClientRect(), video?.videoWidth ?? 0, video?.videoHeight ?? 0);
+    };
+
+    const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+        const point = pointToFrame(e);
+        if (!point) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDragStart(point);
+        setDragRect(null);
+    };
+
+    const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+        if (!dragStart) return;
+        const video = videoRef.current;
+        const box = getContentBox(e.currentTarget.getBoundingClientRect(), video?.videoWidth ?? 0, video?.videoHeight ?? 0);
+        // Outside the frame the rectangle is clamped to its edge
+        const x = (e.clientX - box.left) / box.width;
+        const y = (e.clientY - box.top) / box.height;
+        setDragRect(rectFromPoints(dragStart.x, dragStart.y, x, y));
+    };
+
+    const handlePointerUp = () => {
+        if (dragRect && dragRect.width >= REGION_PROFILES_CONFIG.MIN_REGION_SIZE && dragRect.height >= REGION_PROFILES_CONFIG.MIN_REGION_SIZE) {
+            const region: TableRegion = {
+                id: `${kind.toLowerCase()}-${kind === 'SEAT' ? seat : 'main'}-${Date.now()}`,
+                kind,
+                seat: kind === 'SEAT' ? seat : undefined,
+                rect: dragRect,
+            };
+            // One region per kind (per seat for SEAT): redrawing replaces it
+            setDraft(prev => [
+                ...prev.filter(r => r.kind !== region.kind || r.seat !== region.seat),
+                region,
+            ]);
+            if (kind === 'SEAT') setSeat(s => Math.min(TABLE_CONFIG.MAX_SEATS, s + 1));
+        }
+        setDragStart(null);
+        setDragRect(null);
+    };
+
+    const isStoredProfile = profiles.some(p => p.name === activeProfile.name);
+    const buttonClass = 'px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-[10px] font-bold text-slate-200 uppercase disabled:opacity-40';
+
+    return (
+        <>
+            <div
+                ref={overlayRef}
+                className="absolute inset-0 z-30 cursor-crosshair touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+            >
+                {contentBox && (
+                    <div
+                        className="absolute border border-dashed border-amber-500/40 pointer-events-none"
+                        style={{ left: contentBox.left, top: contentBox.top, width: contentBox.width, height: contentBox.height }}
+                    >
+                        {draft.map(region => (
+                            <div key={region.id} className="absolute border-2 border-amber-400 bg-amber-400/10 rounded-sm" style={toPercentStyle(region.rect)}>
+                                <span className="absolute -top-4 left-0 text-[9px] font-black text-amber-300 bg-black/70 px-1 rounded whitespace-nowrap">
+                                    {regionLabel(region)}
+                                </span>
+                            </div>
+                        ))}
+                        {dragRect && (
+                            <div className="absolute border-2 border-dashed border-emerald-400 bg-emerald-400/10" style={toPercentStyle(dragRect)} />
+                        )}
+                    </div>
+                )}
+            </div>
+
+            <div className="absolute top-4 left-4 w-72 bg-slate-900/95 backdrop-blur-md rounded-xl border border-amber-500/40 shadow-2xl z-40 p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-xs font-bold text-amber-400 uppercase tracking-widest">Calibrazione Regioni</h3>
+                    <button onClick={onClose} className="text-slate-500 hover:text-white text-sm font-bold">✕</button>
+                </div>
+
+                <select
+                    value={activeProfile.name}
+                    onChange={e => onSelectProfile(e.target.value)}
+                    className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-[11px] text-slate-200"
+                >
+                    {!isStoredProfile && <option value={activeProfile.name}>{activeProfile.name} (predefinito)</option>}
+                    {profiles.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                </select>
+
+                <div>
+                    <div className="text-[9px] text-slate-500 uppercase font-black mb-1">Disegna sul video</div>
+                    <div className="flex flex-wrap gap-1">
+                        {KINDS.map(k => (
+                            <button
+                                key={k}
+                                onClick={() => setKind(k)}
+                                className={`px-2 py-1 rounded text-[10px] font-bold border ${k === kind ? 'bg-amber-500/20 border-amber-500 text-amber-300' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                            >
+                                {REGION_KIND_LABELS[k]}
+                            </button>
+                        ))}
+                        {kind === 'SEAT' && (
+                            <input
+                                type="number"
+                                min={1}
+                                max={TABLE_CONFIG.MAX_SEATS}
+                                value={seat}
+                                onChange={e => setSeat(Math.min(TABLE_CONFIG.MAX_SEATS, Math.max(1, Number(e.target.value) || 1)))}
+                                className="w-12 bg-slate-800 border border-slate-700 rounded px-1 text-[10px] text-slate-200"
+                            />
+                        )}
+                    </div>
+                </div>
+
+                <div className="max-h-32 overflow-y-auto space-y-1">
+                    {draft.length === 0 && (
+                        <div className="text-[10px] text-slate-500 italic">Nessuna regione: trascina sul video per crearne una.</div>
+                    )}
+                    {draft.map(region => (
+                        <div key={region.id} className="flex items-center justify-between text-[10px] text-slate-300">
+                            <span className="font-bold">{regionLabel(region)}</span>
+                            <button
+                                onClick={() => setDraft(prev => prev.filter(r => r.id !== region.id))}
+                                className="text-slate-500 hover:text-red-400 font-bold"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex items-center gap-1.5">
+                    <input
+                        value={profileName}
+                        onChange={e => setProfileName(e.target.value)}
+                        placeholder="Nome profilo"
+                        className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-[10px] text-slate-200"
+                    />
+                    <button className={buttonClass} disabled={!profileName.trim()} onClick={() => onSaveProfile(profileName, draft)}>
+                        Salva
+                    </button>
+                    <button className={buttonClass} disabled={!isStoredProfile} onClick={() => onDeleteProfile(activeProfile.name)}>
+                        Elimina
+                    </button>
+                </div>
+            </div>
+        </>
+    );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { ReplayControlsProps } from '../types.ts';
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({
+    hands,
+    handIndex,
+    stepIndex,
+    stepCount,
+    currentStreet,
+    error,
+    onSelectHand,
+    onNext,
+    onPrev,
+    onClose
+}) => {
+    const isFirst = handIndex === 0 && stepIndex === 0;
+    const isLast = handIndex === hands.length - 1 && stepIndex === stepCount - 1;
+    const buttonClass = 'px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-xs font-black text-white disabled:opacity-30 disabled:cursor-not-allowed';
+
+    return (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 bg-slate-900/95 backdrop-blur-md rounded-xl border border-indigo-500/40 shadow-2xl px-4 py-2.5 flex flex-col items-center gap-2">
+            <div className="flex items-center gap-3">
+                <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">Replay</span>
+
+                {hands.length > 0 && (
+                    <>
+                        <select
+                            value={handIndex}
+                            onChange={e => onSelectHand(Number(e.target.value))}
+                            className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-[11px] text-slate-200 max-w-[12rem]"
+                        >
+                            {hands.map((hand, idx) => (
+                                <option key={hand.id} value={idx}>
+                                    #{idx + 1} · {hand.holeCards.join(' ')} · {new Date(hand.startedAt).toLocaleString()}
+                                </option>
+                            ))}
+                        </select>
+
+                        <button onClick={onPrev} disabled={isFirst} className={buttonClass}>◀</button>
+                        <span className="text-xs font-black text-white w-24 text-center">
+                            {currentStreet ?? '-'} <span className="text-slate-500 font-mono">{stepIndex + 1}/{stepCount}</span>
+                        </span>
+                        <button onClick={onNext} disabled={isLast} className={buttonClass}>▶</button>
+                    </>
+                )}
+
+                <button onClick={onClose} className="text-slate-500 hover:text-white text-sm font-bold ml-1">✕</button>
+            </div>
+
+            {error && (
+                <div className="text-[10px] text-red-400 font-bold">{error}</div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { SessionControlsProps } from '../types.ts';
+import { SESSION_RECORDING_CONFIG } from '../constants.ts';
+
+const pillClass = 'px-3 py-1 rounded-full text-xs font-semibold border transition-colors';
+const idleClass = 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600';
+
+export const SessionControls: React.FC<SessionControlsProps> = ({
+    isRecording,
+    recordedEventCount,
+    onStartRecording,
+    onStopRecording,
+    onDownloadRecording,
+    isReplaying,
+    replayProgress,
+    replaySpeed,
+    onReplaySpeedChange,
+    onStartReplay,
+    onStopReplay,
+    disabled
+}) => {
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onStartReplay(file);
+        e.target.value = ''; // Allow replaying the same file again
+    };
+
+    if (isReplaying) {
+        return (
+            <div className={`${pillClass} flex items-center gap-2 bg-indigo-500/10 border-indigo-500/50 text-indigo-300`}>
+                <span>REPLAY {Math.round(replayProgress * 100)}%</span>
+                <span className="text-indigo-400/70">{replaySpeed}x</span>
+                <button onClick={onStopReplay} className="text-slate-400 hover:text-white font-bold">✕</button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex items-center gap-2">
+            <button
+                onClick={isRecording ? onStopRecording : onStartRecording}
+                className={`${pillClass} flex items-center gap-2 ${isRecording ? 'bg-red-500/10 border-red-500/50 text-red-400' : idleClass}`}
+            >
+                <span className={`w-2 h-2 rounded-full ${isRecording ? 'bg-red-500 animate-pulse' : 'bg-slate-500'}`}></span>
+                <span>REC{recordedEventCount > 0 && ` (${recordedEventCount})`}</span>
+            </button>
+
+            {recordedEventCount > 0 && (
+                <button onClick={onDownloadRecording} className={`${pillClass} ${idleClass}`}>
+                    Salva
+                </button>
+            )}
+
+            <div className={`flex items-center gap-1 ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+                <label className={`${pillClass} ${idleClass} cursor-pointer`}>
+                    Replay
+                    <input type="file" accept=".json" onChange={handleFile} className="hidden" disabled={disabled} />
+                </label>
+                <select
+                    value={replaySpeed}
+                    onChange={e => onReplaySpeedChange(Number(e.target.value))}
+                    className="bg-slate-700 border border-slate-600 rounded-full px-2 py-1 text-xs text-slate-300"
+                >
+                    {SESSION_RECORDING_CONFIG.REPLAY_SPEEDS.map(speed => (
+                        <option key={speed} value={speed}>{speed}x</option>
+                    ))}
+                </select>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import { TableDiagramProps, TablePlayer } from '../types.ts';
+import { TABLE_CONFIG } from '../constants.ts';
+import { withDerivedPositions } from '../utils/tableUtils.ts';
+
+const ACTION_COLORS: Record<string, string> = {
+    FOLD: 'text-slate-500',
+    CHECK: 'text-slate-300',
+    CALL: 'text-blue-400',
+    BET: 'text-emerald-400',
+    RAISE: 'text-emerald-400',
+    'ALL-IN': 'text-red-400',
+    POST: 'text-slate-400',
+};
+
+const formatChips = (value: number): string => value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(value);
+
+const Seat: React.FC<{ player: TablePlayer; isHero: boolean; isDealer: boolean }> = ({ player, isHero, isDealer }) => (
+    <div className={`relative w-16 px-1 py-0.5 rounded-md border text-center leading-tight ${
+        isHero ? 'bg-emerald-900/60 border-emerald-500' : 'bg-slate-800/90 border-slate-600'
+    } ${player.inHand ? '' : 'opacity-40'}`}>
+        {isDealer && (
+            <span className="absolute -top-1.5 -right-1.5 w-3.5 h-3.5 rounded-full bg-white text-slate-900 text-[7px] font-black flex items-center justify-center">D</span>
+        )}
+        <div className="text-[8px] font-black text-slate-400">{player.position ?? `#${player.seat}`}</div>
+        <div className="text-[9px] font-bold text-white truncate" title={player.name}>{isHero ? 'Hero' : player.name ?? `Seat ${player.seat}`}</div>
+        {player.stack !== undefined && (
+            <div className="text-[8px] font-mono text-slate-300">{formatChips(player.stack)}</div>
+        )}
+        {player.lastAction && player.lastAction !== 'NONE' && (
+            <div className={`text-[7px] font-black ${ACTION_COLORS[player.lastAction] ?? 'text-slate-400'}`}>
+                {player.lastAction}{player.currentBet ? ` ${formatChips(player.currentBet)}` : ''}
+            </div>
+        )}
+    </div>
+);
+
+export const TableDiagram: React.FC<TableDiagramProps> = ({ players, tableSize, heroSeat, dealerSeat }) => {
+    const seatCount = Math.max(tableSize ?? TABLE_CONFIG.DEFAULT_SIZE, ...players.map(p => p.seat));
+    const bySeat = new Map(withDerivedPositions(players, dealerSeat).map(p => [p.seat, p]));
+    // Hero sits at the bottom; seats follow clockwise
+    const anchor = heroSeat ?? 1;
+    const activeCount = players.filter(p => p.inHand).length;
+
+    return (
+        <div className="relative w-full h-44 mb-4">
+            <div className="absolute inset-x-8 inset-y-6 rounded-[50%] bg-emerald-950/70 border-4 border-emerald-900/80 shadow-inner flex items-center justify-center">
+                <span className="text-[9px] text-emerald-500/70 font-black uppercase tracking-widest">
+                    {activeCount}/{players.length} in mano
+                </span>
+            </div>
+
+            {Array.from({ length: seatCount }, (_, i) => i + 1).map(seat => {
+                const angle = Math.PI / 2 + ((seat - anchor) * 2 * Math.PI) / seatCount;
+                const style = { left: `${50 + 42 * Math.cos(angle)}%`, top: `${50 + 40 * Math.sin(angle)}%` };
+                const player = bySeat.get(seat);
+
+                return (
+                    <div key={seat} className="absolute -translate-x-1/2 -translate-y-1/2" style={style}>
+                        {player ? (
+                            <Seat player={player} isHero={seat === heroSeat} isDealer={seat === dealerSeat} />
+                        ) : (
+                            <div className="w-3 h-3 rounded-full border border-slate-700 bg-slate-900" title={`Seat ${seat} libero`} />
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
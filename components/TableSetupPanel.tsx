@@ -0,0 +1,106 @@
+import React from 'react';
+import { TableSetupPanelProps } from '../types.ts';
+import { MULTI_TABLE_CONFIG, TABLE_AREA_PRESETS } from '../constants.ts';
+import { TableAreaPreset, findAreaPreset } from '../utils/tableLayout.ts';
+
+const AREA_PRESETS = Object.keys(TABLE_AREA_PRESETS) as TableAreaPreset[];
+
+export const TableSetupPanel: React.FC<TableSetupPanelProps> = ({
+    tables,
+    captureCount,
+    canAddCapture,
+    onAddTable,
+    onUpdateTable,
+    onRemoveTable,
+    onAddCapture,
+    onClose
+}) => {
+    // Captures referenced by a table stay selectable even before they are shared again
+    const captureOptions = Array.from(
+        { length: Math.max(1, captureCount, ...tables.map(t => t.captureIndex + 1)) },
+        (_, index) => index
+    );
+
+    return (
+        <div className="absolute top-4 left-4 w-96 max-h-[80vh] flex flex-col bg-slate-900/95 backdrop-blur-md rounded-xl border border-slate-700 shadow-2xl z-40">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">
+                    Tavoli <span className="text-slate-600 ml-1">{tables.length}/{MULTI_TABLE_CONFIG.MAX_TABLES}</span>
+                </h3>
+                <button onClick={onClose} className="text-slate-500 hover:text-white text-sm font-bold">✕</button>
+            </div>
+
+            <div className="overflow-y-auto p-3 space-y-3">
+                <p className="text-[10px] text-slate-400 leading-snug">
+                    Ogni tavolo è una cattura intera (una finestra condivisa per tavolo) o un'area della cattura principale.
+                    Le regioni calibrate valgono per ogni tavolo: disegnale con un tavolo che occupa tutta la cattura.
+                </p>
+
+                {tables.map(table => {
+                    const preset = findAreaPreset(table.rect);
+                    return (
+                        <div key={table.id} className="bg-slate-800/60 border border-slate-700/50 rounded-lg p-2.5 space-y-1.5">
+                            <div className="flex items-center gap-1.5">
+                                <span className="px-1.5 py-0.5 rounded bg-slate-950 text-[10px] font-mono font-bold text-emerald-400">{table.id}</span>
+                                <input
+                                    value={table.name}
+                                    onChange={e => onUpdateTable(table.id, { name: e.target.value })}
+                                    className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[11px] text-slate-200"
+                                />
+                                <button
+                                    onClick={() => onRemoveTable(table.id)}
+                                    disabled={tables.length === 1}
+                                    className="text-[10px] text-red-400 hover:text-red-300 font-bold uppercase disabled:opacity-30"
+                                >
+                                    Elimina
+                                </button>
+                            </div>
+                            <div className="flex gap-1.5">
+                                <select
+                                    value={table.captureIndex}
+                                    onChange={e => onUpdateTable(table.id, { captureIndex: Number(e.target.value) })}
+                                    className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-[11px] text-slate-200"
+                                >
+                                    {captureOptions.map(index => (
+                                        <option key={index} value={index}>
+                                            {index === 0 ? 'Cattura principale' : `Cattura ${index + 1}`}
+                                            {index >= Math.max(1, captureCount) ? ' (non attiva)' : ''}
+                                        </option>
+                                    ))}
+                                </select>
+                                <select
+                                    value={preset ?? ''}
+                                    onChange={e => onUpdateTable(table.id, { rect: TABLE_AREA_PRESETS[e.target.value as TableAreaPreset].rect })}
+                                    className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-[11px] text-slate-200"
+                                >
+                                    {!preset && <option value="">Personalizzata</option>}
+                                    {AREA_PRESETS.map(key => (
+                                        <option key={key} value={key}>{TABLE_AREA_PRESETS[key].label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                    );
+                })}
+
+                <div className="flex gap-2">
+                    <button
+                        onClick={onAddTable}
+                        disabled={tables.length >= MULTI_TABLE_CONFIG.MAX_TABLES}
+                        className="flex-1 px-2 py-1.5 rounded bg-emerald-600 hover:bg-emerald-500 text-[10px] font-bold text-white uppercase disabled:opacity-40"
+                    >
+                        Aggiungi tavolo
+                    </button>
+                    <button
+                        onClick={onAddCapture}
+                        disabled={!canAddCapture}
+                        title={canAddCapture ? undefined : 'Avvia prima la condivisione schermo'}
+                        className="flex-1 px-2 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-[10px] font-bold text-slate-200 uppercase disabled:opacity-40"
+                    >
+                        Aggiungi cattura
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
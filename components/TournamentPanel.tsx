@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import { TournamentPanelProps } from '../types.ts';
+import { TOURNAMENT_CONFIG } from '../constants.ts';
+import { parseAmounts } from '../utils/icm.ts';
+
+// Amount list edited as free text, applied when the field loses focus
+const AmountListInput: React.FC<{ values: number[]; placeholder: string; onCommit: (values: number[]) => void }> = ({
+    values,
+    placeholder,
+    onCommit
+}) => {
+    const [text, setText] = useState(values.join(', '));
+
+    useEffect(() => {
+        setText(values.join(', '));
+    }, [values]);
+
+    return (
+        <input
+            value={text}
+            placeholder={placeholder}
+            onChange={e => setText(e.target.value)}
+            onBlur={() => onCommit(parseAmounts(text))}
+            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[11px] font-mono text-slate-200"
+        />
+    );
+};
+
+export const TournamentPanel: React.FC<TournamentPanelProps> = ({
+    settings,
+    onChange,
+    onClose
+}) => {
+    const tooMany = settings.stackSource === 'MANUAL' && settings.manualStacks.length > TOURNAMENT_CONFIG.MAX_ICM_PLAYERS;
+
+    return (
+        <div className="absolute top-4 left-4 w-80 max-h-[80vh] flex flex-col bg-slate-900/95 backdrop-blur-md rounded-xl border border-slate-700 shadow-2xl z-40">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Torneo (ICM)</h3>
+                <button onClick={onClose} className="text-slate-500 hover:text-white text-sm font-bold">✕</button>
+            </div>
+
+            <div className="overflow-y-auto p-3 space-y-3">
+                <label className="flex items-center gap-2 text-[11px] text-slate-200 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={settings.enabled}
+                        onChange={e => onChange({ enabled: e.target.checked })}
+                    />
+                    Modalità torneo: decisioni in $EV invece che in chip
+                </label>
+
+                <div className="space-y-1">
+                    <div className="text-[10px] text-slate-500 uppercase font-bold">Premi (1°, 2°, 3°...)</div>
+                    <AmountListInput values={settings.payouts} placeholder="50, 30, 20" onCommit={payouts => onChange({ payouts })} />
+                </div>
+
+                <div className="space-y-1">
+                    <div className="text-[10px] text-slate-500 uppercase font-bold">Stack dei giocatori rimasti</div>
+                    <select
+                        value={settings.stackSource}
+                        onChange={e => onChange({ stackSource: e.target.value as TournamentPanelProps['settings']['stackSource'] })}
+                        className="w-full bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-[11px] text-slate-200"
+                    >
+                        <option value="TABLE">Dal tavolo (giocatori seduti)</option>
+                        <option value="MANUAL">Inseriti a mano (tutto il torneo)</option>
+                    </select>
+                    {settings.stackSource === 'MANUAL' && (
+                        <AmountListInput
+                            values={settings.manualStacks}
+                            placeholder="Hero per primo: 12000, 8500, 3000"
+                            onCommit={manualStacks => onChange({ manualStacks })}
+                        />
+                    )}
+                </div>
+
+                <p className="text-[10px] text-slate-400 leading-snug">
+                    {settings.stackSource === 'MANUAL'
+                        ? "Inserisci lo stack di Hero per primo. L'avversario di un all-in è lo stack più vicino al suo."
+                        : 'Il tavolo deve contenere tutti i giocatori rimasti (final table o sit & go).'}
+                    {' '}ICM calcolato fino a {TOURNAMENT_CONFIG.MAX_ICM_PLAYERS} giocatori.
+                </p>
+                {tooMany && (
+                    <p className="text-[10px] text-red-400">Troppi stack: ICM non disponibile.</p>
+                )}
+            </div>
+        </div>
+    );
+};
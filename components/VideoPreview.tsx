@@ -1,26 +1,24 @@
 
 import React, { useState, MouseEvent } from 'react';
+import { VideoPreviewProps } from '../types.ts';
+import { findRegionAt, regionLabel, toFrameCoords } from '../utils/regionProfiles.ts';
 
-interface VideoPreviewProps {
-    videoRef: React.RefObject<HTMLVideoElement>;
-    isStreaming: boolean;
-    onVideoClick?: (x: number, y: number) => void;
-}
-
-export const VideoPreview: React.FC<VideoPreviewProps> = ({ videoRef, isStreaming, onVideoClick }) => {
+export const VideoPreview: React.FC<VideoPreviewProps> = ({ videoRef, isStreaming, onVideoClick, replayFrame, regions }) => {
     const [clickEffect, setClickEffect] = useState<{x: number, y: number, type: string} | null>(null);
 
     const handleClick = (e: MouseEvent<HTMLDivElement>) => {
         if (!isStreaming || !onVideoClick || !videoRef.current) return;
 
         const rect = e.currentTarget.getBoundingClientRect();
-        const x = (e.clientX - rect.left) / rect.width;
-        const y = (e.clientY - rect.top) / rect.height;
+        const { videoWidth, videoHeight } = videoRef.current;
+        const point = toFrameCoords(e.clientX, e.clientY, rect, videoWidth, videoHeight);
+        if (!point) return; // Letterbox bar
 
-        onVideoClick(x, y);
+        onVideoClick(point.x, point.y);
 
         // Visual feedback
-        const type = y > 0.65 ? 'HERO' : (y > 0.25 && y <= 0.65 ? 'BOARD' : 'SCAN');
+        const region = findRegionAt(regions, point.x, point.y);
+        const type = region ? regionLabel(region).toUpperCase() : 'SCAN';
         setClickEffect({ x: e.clientX - rect.left, y: e.clientY - rect.top, type });
         
         setTimeout(() => setClickEffect(null), 800);
@@ -35,6 +33,15 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({ videoRef, isStreamin
                 muted 
                 className={`w-full h-full object-contain rounded-xl transition-opacity duration-500 ${isStreaming ? 'opacity-100 cursor-crosshair' : 'opacity-0 absolute'}`}
             />
+
+            {/* Session replay frame */}
+            {replayFrame && (
+                <img
+                    src={`data:image/jpeg;base64,${replayFrame}`}
+                    alt="Replay frame"
+                    className="absolute inset-0 w-full h-full object-contain rounded-xl"
+                />
+            )}
             
             {/* Click Feedback Effect */}
             {clickEffect && (
@@ -35,16 +35,13 @@ export const AUDIO_CONFIG = {
 // VIDEO/FRAME CONFIGURATION
 // ============================================
 export const VIDEO_CONFIG = {
-  // Frame capture resolutions
+  // On-demand captures (scan, deep analysis); the stream follows CAPTURE_PROFILES
   CAPTURE_WIDTH_HIGH: 1024,
-  CAPTURE_WIDTH_LOW: 640,
   
   // JPEG compression quality (0-1)
   JPEG_QUALITY_HIGH: 0.75,
-  JPEG_QUALITY_LOW: 0.5,
   
   // Timing intervals (milliseconds)
-  FRAME_INTERVAL_MS: 1000,
   AUTO_REFRESH_INTERVAL_MS: 10000,
   
   // Screen capture constraints
@@ -53,6 +50,96 @@ export const VIDEO_CONFIG = {
   MAX_FRAME_RATE: 15,
 } as const;
 
+// Change detection: the stream is sampled often, frames are sent only when the table changed
+export const FRAME_DIFF_CONFIG = {
+  SAMPLE_INTERVAL_MS: 250, // Frames are sent at most at the capture level's rate
+  KEEPALIVE_MS: 15000, // An unchanged table is still resent this often
+
+  // Luminance signature size (pixels)
+  SIGNATURE_WIDTH: 64,
+  SIGNATURE_HEIGHT: 36,
+
+  PIXEL_DELTA: 16, // Luma difference (0-255) for a signature pixel to count as changed
+  FRAME_CHANGED_RATIO: 0.02,
+  REGION_CHANGED_RATIO: 0.1, // Small regions (hero cards, pot) trigger on their own
+
+  STATS_PUBLISH_MS: 1000,
+} as const;
+
+// Adaptive capture: frame rate, size and quality per profile and activity level
+export const CAPTURE_PROFILES = {
+  BATTERY_SAVER: {
+    label: 'Risparmio',
+    levels: {
+      IDLE: { minSendIntervalMs: 5000, width: 480, jpegQuality: 0.4 },
+      NORMAL: { minSendIntervalMs: 2000, width: 640, jpegQuality: 0.5 },
+      ACTIVE: { minSendIntervalMs: 1000, width: 768, jpegQuality: 0.6 },
+    },
+  },
+  BALANCED: {
+    label: 'Bilanciato',
+    levels: {
+      IDLE: { minSendIntervalMs: 3000, width: 640, jpegQuality: 0.5 },
+      NORMAL: { minSendIntervalMs: 1000, width: 640, jpegQuality: 0.6 },
+      ACTIVE: { minSendIntervalMs: 500, width: 1024, jpegQuality: 0.7 },
+    },
+  },
+  MAX_ACCURACY: {
+    label: 'Max Precisione',
+    levels: {
+      IDLE: { minSendIntervalMs: 1000, width: 1024, jpegQuality: 0.7 },
+      NORMAL: { minSendIntervalMs: 500, width: 1024, jpegQuality: 0.8 },
+      ACTIVE: { minSendIntervalMs: 250, width: 1280, jpegQuality: 0.85 },
+    },
+  },
+} as const;
+
+export const ADAPTIVE_CAPTURE_CONFIG = {
+  DEFAULT_PROFILE: 'BALANCED',
+  IDLE_AFTER_MS: 8000, // No change for this long → IDLE
+  ACTIVE_HOLD_MS: 4000, // Stay ACTIVE this long after a board/action change
+  BACKOFF_LATENCY_MS: 3000, // Replies slower than this count as backpressure
+  RATE_WINDOW_MS: 60000, // Window for the fps and bytes/min readout
+} as const;
+
+// Local card recogniser (template matching on the hero and board regions)
+export const CARD_RECOGNITION_CONFIG = {
+  STORAGE_KEY: 'pokerpro.cardTemplates',
+
+  // Segmentation (luma 0-255)
+  CARD_FACE_LUMA: 170, // Card faces are the brightest areas of the region
+  INK_LUMA: 140, // Glyph pixels are darker than this on the card face
+  MIN_COLUMN_FILL: 0.25, // Share of card-face pixels for a column to belong to a card
+  MIN_ROW_FILL: 0.5,
+  MIN_CARD_HEIGHT: 12, // Pixels
+  CARD_ASPECT: 0.72, // Width / height, used to split touching cards
+
+  // Rank and suit are read from the top-left corner
+  CORNER_WIDTH: 0.4,
+  CORNER_HEIGHT: 0.5,
+  GLYPH_WIDTH: 12,
+  GLYPH_HEIGHT: 16,
+
+  MIN_MATCH_SCORE: 0.8,
+  MAX_TEMPLATES_PER_LABEL: 3,
+} as const;
+
+// Focused analysis: the clicked region is cropped from the native frame
+export const CROP_CONFIG = {
+  PADDING: 0.02, // Margin around the region (fraction of the frame)
+  UPSCALE: 2,
+  MAX_UPSCALE: 4,
+  MAX_OUTPUT_WIDTH: 1536,
+  SHARPEN: true,
+  SHARPEN_AMOUNT: 0.5,
+  JPEG_QUALITY: 0.9,
+
+  // Low-res full frame sent before the crop, for context
+  SEND_CONTEXT_THUMBNAIL: true,
+  THUMBNAIL_WIDTH: 320,
+  THUMBNAIL_JPEG_QUALITY: 0.5,
+} as const;
+
 // ============================================
 // UI/UX CONFIGURATION
 // ============================================
@@ -62,6 +149,25 @@ export const UI_CONFIG = {
   TRANSCRIPT_MERGE_WINDOW_MS: 2000,
 } as const;
 
+// ============================================
+// TOOL DIAGNOSTICS
+// ============================================
+export const TOOL_DIAGNOSTICS_CONFIG = {
+  MAX_ENTRIES: 50, // Oldest rejected calls are dropped beyond this
+} as const;
+
+// ============================================
+// LIVE TRANSPORT
+// ============================================
+// 'gemini' talks to the Live API; 'mock' plays a canned local script (no key, no network).
+// The backend comes from VITE_LIVE_TRANSPORT, read when the transport is picked (see liveTransport.ts).
+export const LIVE_TRANSPORT_CONFIG = {
+  MOCK_OPEN_DELAY_MS: 300,
+  MOCK_STEP_INTERVAL_MS: 4000,
+  MOCK_TONE_HZ: 440,
+  MOCK_TONE_DURATION_MS: 250,
+} as const;
+
 // ============================================
 // RETRY/RESILIENCE CONFIGURATION
 // ============================================
@@ -69,15 +175,142 @@ export const RETRY_CONFIG = {
   MAX_RETRIES: 3,
   BASE_DELAY_MS: 1000,
   MAX_DELAY_MS: 10000,
+  RESUME_TRANSCRIPT_COUNT: 6,      // Recent transcripts resent when a session cannot be resumed
+} as const;
+
+// ============================================
+// LOCAL EQUITY ENGINE
+// ============================================
+export const EQUITY_CONFIG = {
+  MONTE_CARLO_ITERATIONS: 5000,
+  EXACT_ENUMERATION_LIMIT: 250000, // Max showdowns before falling back to Monte Carlo
+  RANGE_DRAW_ATTEMPTS: 50,         // Tries to draw a non-conflicting range combo
+  GAP_WARNING_PCT: 15,             // Model vs engine gap flagged in the HUD
+} as const;
+
+export const RANGE_EQUITY_CONFIG = {
+  EXACT_ENUMERATION_LIMIT: 300000, // Max showdowns before sampling runouts
+  SAMPLE_BUDGET: 20000,            // Sampled showdowns, spread evenly over villain's combos
+  SEED: 0x5EED,                    // Same request → same result
+  BREAKDOWN_ROWS: 8,               // Hand classes listed in the HUD
+} as const;
+
+// ============================================
+// TABLE (seats & positions)
+// ============================================
+export const TABLE_CONFIG = {
+  MAX_SEATS: 10,
+  DEFAULT_SIZE: 6,                 // Used by the diagram when the model gives no table size
+  POSITIONS: ['BTN', 'SB', 'BB', 'UTG', 'UTG+1', 'UTG+2', 'LJ', 'HJ', 'CO'],
+  // Seats after the big blind, in order, once UTG is taken (a 6-max table uses the last two)
+  LATE_POSITIONS: ['UTG+1', 'UTG+2', 'LJ', 'HJ', 'CO'],
+  PLAYER_ACTIONS: ['FOLD', 'CHECK', 'CALL', 'BET', 'RAISE', 'ALL-IN', 'POST', 'NONE'],
+} as const;
+
+// ============================================
+// LOCAL TOOLS (called by the live model)
+// ============================================
+export const LOCAL_TOOLS_CONFIG = {
+  DEFAULT_RECENT_HANDS: 5,
+  MAX_RECENT_HANDS: 20,
+  MAX_OPPONENTS: 5,
+  RECENT_RANGES: 5,                // Latest estimated opponent ranges listed by getOpponentStats
+} as const;
+
+// Bet sizes (fraction of pot) shown with their break-even fold percentage
+export const BET_SIZE_FRACTIONS = [0.33, 0.5, 0.75, 1] as const;
+
+// ============================================
+// HAND HISTORY STORAGE (IndexedDB)
+// ============================================
+export const HAND_HISTORY_CONFIG = {
+  DB_NAME: 'pokerpro-ai',
+  DB_VERSION: 1,
+  STORE_NAME: 'hands',
+} as const;
+
+// ============================================
+// HAND HISTORY EXPORT
+// ============================================
+export const HAND_EXPORT_CONFIG = {
+  JSON_SCHEMA: 'pokerpro-hand-history',
+  JSON_VERSION: 1,
+  UNKNOWN_MARKER: '[unknown]',       // Marks data the recorder never observed
+  ADVICE_MARKER: '[PokerPro advice]', // Assistant advice, never written as an action
+  DEFAULT_TABLE_NAME: 'PokerPro',
+  DEFAULT_HERO_NAME: 'Hero',
+  SESSION_GAP_MS: 30 * 60 * 1000,    // Idle gap that starts a new session
+} as const;
+
+// ============================================
+// SESSION RECORDING & REPLAY
+// ============================================
+export const SESSION_RECORDING_CONFIG = {
+  FORMAT: 'pokerpro-session',
+  VERSION: 1,
+  MAX_EVENTS: 20000,                 // Oldest frames are dropped beyond this
+  MAX_FRAME_BYTES: 150 * 1024 * 1024, // Base64 frame data kept (the archive is one JSON string on export)
+  COUNT_REFRESH_MS: 1000,            // The REC counter follows the events at most this often
+  REPLAY_SPEEDS: [1, 2, 4, 8],
+} as const;
+
+// ============================================
+// TABLE REGIONS (calibration profiles)
+// ============================================
+export const REGION_PROFILES_CONFIG = {
+  STORAGE_KEY: 'pokerpro.regionProfiles',
+  ACTIVE_KEY: 'pokerpro.activeRegionProfile',
+  DEFAULT_PROFILE_NAME: 'Default',
+  MIN_REGION_SIZE: 0.01,  // Smaller drags are ignored (frame fraction)
+  // Built-in layout for uncalibrated clients
+  DEFAULT_HERO_CARDS_Y: 0.65, // Bottom band = Hero cards
+  DEFAULT_BOARD_Y: 0.25,      // 0.25-0.65 = Board (center)
+} as const;
+
+export const REGION_KIND_LABELS = {
+  HERO_CARDS: 'Carte Hero',
+  BOARD: 'Board',
+  POT: 'Pot',
+  SEAT: 'Seat',
+  ACTIONS: 'Azioni',
+} as const;
+
+// ============================================
+// PREFLOP CHARTS
+// ============================================
+export const PREFLOP_CHART_CONFIG = {
+  STORAGE_KEY: 'pokerpro.preflopCharts',
+  DEFAULT_STACK_BB: 100, // Used when the effective stack is unknown
 } as const;
 
 // ============================================
-// REGION DETECTION THRESHOLDS
+// TOURNAMENT (ICM)
 // ============================================
-export const REGION_THRESHOLDS = {
-  HERO_AREA_Y: 0.65,      // Y > 0.65 = Hero cards (bottom)
-  BOARD_AREA_Y_MIN: 0.25, // 0.25 < Y <= 0.65 = Board (center)
-  BOARD_AREA_Y_MAX: 0.65,
+export const TOURNAMENT_CONFIG = {
+  STORAGE_KEY: 'pokerpro.tournament',
+  MAX_ICM_PLAYERS: 12, // Exact Malmuth-Harville over every finishing order: 2^n states
+} as const;
+
+// ============================================
+// MULTI-TABLE
+// ============================================
+export const MULTI_TABLE_CONFIG = {
+  STORAGE_KEY: 'pokerpro.tableLayout',
+  MAX_TABLES: 4,
+  // Label burnt into the top-left corner of every frame when several tables are played
+  LABEL_HEIGHT: 0.08,       // Fraction of the frame height
+  LABEL_MIN_HEIGHT_PX: 24,
+} as const;
+
+// Areas of a capture a table can occupy (tiled clients)
+export const TABLE_AREA_PRESETS = {
+  FULL: { label: 'Intera cattura', rect: { x: 0, y: 0, width: 1, height: 1 } },
+  LEFT: { label: 'Metà sinistra', rect: { x: 0, y: 0, width: 0.5, height: 1 } },
+  RIGHT: { label: 'Metà destra', rect: { x: 0.5, y: 0, width: 0.5, height: 1 } },
+  TOP_LEFT: { label: 'In alto a sinistra', rect: { x: 0, y: 0, width: 0.5, height: 0.5 } },
+  TOP_RIGHT: { label: 'In alto a destra', rect: { x: 0.5, y: 0, width: 0.5, height: 0.5 } },
+  BOTTOM_LEFT: { label: 'In basso a sinistra', rect: { x: 0, y: 0.5, width: 0.5, height: 0.5 } },
+  BOTTOM_RIGHT: { label: 'In basso a destra', rect: { x: 0.5, y: 0.5, width: 0.5, height: 0.5 } },
 } as const;
 
 // ============================================
@@ -93,6 +326,12 @@ REGOLE DI COMPRENSIONE SCHERMO AVANZATA:
 4. COMANDI VOCALI E SCAN: Quando ricevi "SCAN IMMEDIATO", interrompi ogni altra analisi e aggiorna subito l'HUD usando 'updatePokerState'.
 5. FORMATO CARTE: Rango+Seme (es: Ah, Kd, 10s, 2c, Jh). Sii preciso, se una carta non è chiara, segnala come incerta.
 6. LINGUAGGIO: Professionale, tecnico, conciso. Evita introduzioni.
+7. CORREZIONI: Se 'updatePokerState' risponde con success: false, correggi i campi indicati in 'errors' e richiama subito il tool.
+8. CALCOLI LOCALI: Non stimare a occhio. Usa 'calculateEquity' per l'equity, 'evaluateHand' per il punto esatto, 'getRecentHands' e 'getOpponentStats' per lo storico; basa i consigli sui numeri restituiti.
+9. TAVOLO: In 'updatePokerState' compila 'players' con tutti i posti occupati (posto, nome, posizione, stack, puntata, ultima azione, ancora in mano, range stimato) e indica sempre 'heroSeat' e 'dealerSeat'.
+10. MULTI-TAVOLO: Se i frame hanno un'etichetta T1, T2... in alto a sinistra, ogni frame mostra un solo tavolo. Tieni separato lo stato di ogni tavolo e passa sempre in 'updatePokerState' il 'tableId' del tavolo a cui si riferisce l'aggiornamento.
+11. RANGE: Oltre alla descrizione in 'opponentRange', passa il range dell'avversario principale in 'structuredRange' con la notazione standard (QQ+, AKs, ATs+, KQo, 22-55) e un peso per le mani giocate solo a volte.
+12. TORNEI: Se la risposta di 'updatePokerState' contiene 'icm', sei in un torneo: ragiona in $EV (ICM) e non in chip. Per chiamare un all-in serve almeno 'icm.callRequiredEquity', non la sola equity delle pot odds.
 
 Sii il più veloce possibile. Priorità assoluta all'accuratezza dei dati visivi.
 `;
@@ -108,18 +347,25 @@ export const pokerToolDeclaration: FunctionDeclaration = {
     properties: {
       winProbability: { 
         type: Type.NUMBER,
+        minimum: 0,
+        maximum: 100,
         description: "Probabilità di vincita 0-100"
       },
       equity: { 
         type: Type.NUMBER,
+        minimum: 0,
+        maximum: 100,
         description: "Equity percentuale contro il range avversario"
       },
       potOdds: { 
         type: Type.STRING,
+        pattern: "^\\d+(\\.\\d+)?:1$",
         description: "Pot odds in formato ratio (es: '2.5:1')"
       },
       suggestedAction: { 
         type: Type.STRING,
+        format: "enum",
+        enum: ["FOLD", "CHECK", "CALL", "RAISE", "ALL-IN", "WAITING"],
         description: "Azione GTO consigliata: FOLD, CHECK, CALL, RAISE, ALL-IN, WAITING"
       },
       reasoning: { 
@@ -133,27 +379,203 @@ export const pokerToolDeclaration: FunctionDeclaration = {
       holeCards: { 
         type: Type.ARRAY, 
         items: { type: Type.STRING },
+        maxItems: "2",
         description: "Carte personali del giocatore (es: ['Ah', 'Kd'])"
       },
       communityCards: { 
         type: Type.ARRAY, 
         items: { type: Type.STRING },
+        maxItems: "5",
         description: "Carte comuni sul board (es: ['7s', '2c', 'Qh'])"
       },
       opponentEstimatedCards: { 
         type: Type.ARRAY, 
         items: { type: Type.STRING },
+        maxItems: "2",
         description: "Stima delle carte avversarie se identificabili"
       },
       opponentRange: { 
         type: Type.STRING,
         description: "Range stimato dell'avversario (es: 'Top 10%, high pairs')"
+      },
+      structuredRange: {
+        type: Type.ARRAY,
+        description: "Range dell'avversario principale in notazione standard, a gruppi con peso (es: [{hands: 'QQ+, AKs'}, {hands: 'ATs+, KQo', weight: 0.5}])",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            hands: { type: Type.STRING, description: "Mani separate da virgola: 'QQ+', '22-55', 'AKs', 'ATs+', 'A2s-A5s', 'KQo', 'top 10%'" },
+            weight: { type: Type.NUMBER, minimum: 0, maximum: 1, description: "Frequenza con cui le gioca (default 1)" }
+          },
+          required: ["hands"]
+        }
+      },
+      potSize: {
+        type: Type.NUMBER,
+        minimum: 0,
+        description: "Pot totale al centro, comprese le puntate del giro corrente (stessa unità degli stack)"
+      },
+      amountToCall: {
+        type: Type.NUMBER,
+        minimum: 0,
+        description: "Importo che Hero deve chiamare (0 se può fare check)"
+      },
+      heroStack: {
+        type: Type.NUMBER,
+        minimum: 0,
+        description: "Stack residuo di Hero"
+      },
+      effectiveStack: {
+        type: Type.NUMBER,
+        minimum: 0,
+        description: "Stack effettivo (il minore tra Hero e l'avversario principale)"
+      },
+      bigBlind: {
+        type: Type.NUMBER,
+        minimum: 0,
+        description: "Valore del big blind"
+      },
+      tableSize: {
+        type: Type.INTEGER,
+        minimum: 2,
+        maximum: TABLE_CONFIG.MAX_SEATS,
+        description: "Posti al tavolo (es: 6 per 6-max, 9 per full ring)"
+      },
+      heroSeat: {
+        type: Type.INTEGER,
+        minimum: 1,
+        maximum: TABLE_CONFIG.MAX_SEATS,
+        description: "Numero del posto di Hero"
+      },
+      dealerSeat: {
+        type: Type.INTEGER,
+        minimum: 1,
+        maximum: TABLE_CONFIG.MAX_SEATS,
+        description: "Numero del posto con il bottone del dealer"
+      },
+      players: {
+        type: Type.ARRAY,
+        maxItems: String(TABLE_CONFIG.MAX_SEATS),
+        description: "Tutti i posti occupati, Hero compreso, numerati in senso orario",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            seat: { type: Type.INTEGER, minimum: 1, maximum: TABLE_CONFIG.MAX_SEATS, description: "Numero del posto" },
+            name: { type: Type.STRING, description: "Nickname visibile" },
+            position: { type: Type.STRING, format: "enum", enum: [...TABLE_CONFIG.POSITIONS], description: "Posizione al tavolo" },
+            stack: { type: Type.NUMBER, minimum: 0, description: "Stack residuo" },
+            currentBet: { type: Type.NUMBER, minimum: 0, description: "Puntata davanti al giocatore nel giro corrente" },
+            lastAction: { type: Type.STRING, format: "enum", enum: [...TABLE_CONFIG.PLAYER_ACTIONS], description: "Ultima azione" },
+            inHand: { type: Type.BOOLEAN, description: "false se ha foldato o è seduto fuori" },
+            estimatedRange: { type: Type.STRING, description: "Range stimato (es: '22+, A2s+, KTo+')" }
+          },
+          required: ["seat", "inHand"]
+        }
+      },
+      tableId: {
+        type: Type.STRING,
+        pattern: `^T[1-${MULTI_TABLE_CONFIG.MAX_TABLES}]$`,
+        description: "Etichetta del tavolo (T1, T2...) in alto a sinistra del frame. Obbligatoria se si giocano più tavoli"
       }
     },
     required: ["winProbability", "suggestedAction", "reasoning", "handStrength", "holeCards", "communityCards"]
   }
 };
 
+// ============================================
+// LOCAL TOOL DECLARATIONS (see utils/localTools.ts)
+// ============================================
+export const equityToolDeclaration: FunctionDeclaration = {
+  name: "calculateEquity",
+  description: "Calcola localmente l'equity esatta o simulata di Hero contro avversari casuali o un range di combo.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      holeCards: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        minItems: "2",
+        maxItems: "2",
+        description: "Carte di Hero (es: ['Ah', 'Kd'])"
+      },
+      communityCards: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        maxItems: "5",
+        description: "Board attuale: 0, 3, 4 o 5 carte"
+      },
+      opponentCount: {
+        type: Type.INTEGER,
+        minimum: 1,
+        maximum: LOCAL_TOOLS_CONFIG.MAX_OPPONENTS,
+        description: "Avversari ancora in mano (default 1)"
+      },
+      opponentRange: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "Combo del range avversario (es: ['QcQs', 'AhKh']); se omesso, mani casuali"
+      }
+    },
+    required: ["holeCards"]
+  }
+};
+
+export const handEvaluationToolDeclaration: FunctionDeclaration = {
+  name: "evaluateHand",
+  description: "Trova localmente la miglior mano a cinque carte di Hero e la descrive rispetto al board.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      holeCards: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        minItems: "2",
+        maxItems: "2",
+        description: "Carte di Hero (es: ['Ah', 'Kd'])"
+      },
+      communityCards: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        minItems: "3",
+        maxItems: "5",
+        description: "Board: 3, 4 o 5 carte"
+      }
+    },
+    required: ["holeCards", "communityCards"]
+  }
+};
+
+export const recentHandsToolDeclaration: FunctionDeclaration = {
+  name: "getRecentHands",
+  description: "Restituisce le ultime mani registrate: carte, board, street giocate e consigli dati.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      count: {
+        type: Type.INTEGER,
+        minimum: 1,
+        maximum: LOCAL_TOOLS_CONFIG.MAX_RECENT_HANDS,
+        description: `Numero di mani (default ${LOCAL_TOOLS_CONFIG.DEFAULT_RECENT_HANDS})`
+      }
+    }
+  }
+};
+
+export const opponentStatsToolDeclaration: FunctionDeclaration = {
+  name: "getOpponentStats",
+  description: "Statistiche sugli avversari affrontati nelle mani registrate: street raggiunte, puntate subite, sizing e range stimati.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      lastHands: {
+        type: Type.INTEGER,
+        minimum: 1,
+        description: "Limita il calcolo alle ultime N mani (default: tutte)"
+      }
+    }
+  }
+};
+
 // ============================================
 // PROMPT TEMPLATES
 // ============================================
@@ -163,5 +585,12 @@ export const PROMPTS = {
   FOCUS_HERO: "FOCUS: Mie carte (Hero/Arkangelzzz in basso). Identifica e calcola forza.",
   FOCUS_BOARD: "FOCUS: Board/Community cards al centro. Aggiorna texture e outs.",
   FOCUS_GENERAL: "FOCUS: Stack avversari o informazioni generali.",
+  FOCUS_POT: "FOCUS: Pot e puntate sul tavolo. Aggiorna potSize, amountToCall e pot odds.",
+  FOCUS_SEAT: "FOCUS: Giocatore in questo posto: nome, stack, puntata, ultima azione e range stimato.",
+  FOCUS_ACTIONS: "FOCUS: Pulsanti di azione di Hero. Leggi importi di call/raise disponibili e consiglia la linea.",
+  FOCUS_CROP: "L'ultima immagine è un ritaglio ingrandito dell'area indicata; la precedente, a bassa risoluzione, mostra il tavolo intero solo come contesto. Leggi carte e importi dal ritaglio.",
+  FOCUS_CROP_ONLY: "L'ultima immagine è un ritaglio ingrandito dell'area indicata. Leggi carte e importi dal ritaglio.",
   DEEP_ANALYSIS: "Analisi GTO Deep: identificami (Arkangelzzz), range avversari, pot odds esatte e linea ottimale. Sii conciso ma tecnico.",
+  RESUME_SESSION: "RICONNESSIONE: la connessione è caduta ed è stata ripristinata. Riprendi l'analisi dallo stato seguente senza ripeterlo a voce.",
+  DEEP_ANALYSIS_REVIEW: "Analisi GTO Deep di una mano registrata (descrizione testuale, nessuna immagine). Valuta la decisione di Hero nell'ultima street descritta: range avversari, pot odds esatte e linea ottimale. Sii conciso ma tecnico.",
 } as const;
@@ -0,0 +1,69 @@
+/**
+ * useCardTemplates Hook
+ *
+ * Card glyph templates for the local recogniser (see cardRecognizer.ts),
+ * learnt from the live video and stored per region profile in localStorage.
+ * Regions are read from the capture passed in, the one showing their table.
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { CARD_RECOGNITION_CONFIG } from '../constants.ts';
+import { CardTemplateSet, TableRegion, UseCardTemplatesReturn } from '../types.ts';
+import {
+  emptyTemplateSet,
+  findCardBoxes,
+  parseCardTemplates,
+  serializeCardTemplates,
+  trainTemplates
+} from '../utils/cardRecognizer.ts';
+import { readVideoRegion } from '../utils/frameCrop.ts';
+import { readStorage, writeStorage } from '../utils/localStore.ts';
+
+export const useCardTemplates = (profileName: string): UseCardTemplatesReturn => {
+  const [sets, setSets] = useState<CardTemplateSet[]>(
+    () => parseCardTemplates(readStorage(CARD_RECOGNITION_CONFIG.STORAGE_KEY))
+  );
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    writeStorage(CARD_RECOGNITION_CONFIG.STORAGE_KEY, serializeCardTemplates(sets));
+  }, [sets]);
+
+  const templates = useMemo(
+    () => sets.find(set => set.profileName === profileName) ?? null,
+    [sets, profileName]
+  );
+
+  const readRegion = useCallback((region: TableRegion, video: HTMLVideoElement | null) => {
+    if (!video) return null;
+    canvasRef.current = canvasRef.current ?? document.createElement('canvas');
+    return readVideoRegion(video, region.rect, canvasRef.current);
+  }, []);
+
+  const countCards = useCallback((region: TableRegion, video: HTMLVideoElement | null) => {
+    const image = readRegion(region, video);
+    return image ? findCardBoxes(image).length : null;
+  }, [readRegion]);
+
+  const trainFromRegion = useCallback((region: TableRegion, labels: string, video: HTMLVideoElement | null): string[] => {
+    const image = readRegion(region, video);
+    if (!image) return ['nessun frame disponibile: avvia la condivisione schermo'];
+
+    const result = trainTemplates(templates ?? emptyTemplateSet(profileName), image, labels);
+    if (result.errors.length === 0) {
+      setSets(prev => [...prev.filter(set => set.profileName !== profileName), result.set]);
+    }
+    return result.errors;
+  }, [readRegion, templates, profileName]);
+
+  const clearTemplates = useCallback(() => {
+    setSets(prev => prev.filter(set => set.profileName !== profileName));
+  }, [profileName]);
+
+  return {
+    templates,
+    countCards,
+    trainFromRegion,
+    clearTemplates
+  };
+};
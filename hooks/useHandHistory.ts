@@ -0,0 +1,101 @@
+/**
+ * useHandHistory Hook
+ *
+ * Records every game state update into hands/streets (see handRecorder.ts)
+ * and keeps them in sync with IndexedDB.
+ */
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { HandRecord, PokerGameState, UseHandHistoryReturn } from '../types.ts';
+import { recordSnapshot } from '../utils/handRecorder.ts';
+import * as handStore from '../utils/handHistoryStore.ts';
+
+const upsertHand = (hands: HandRecord[], hand: HandRecord): HandRecord[] => {
+  const index = hands.findIndex(h => h.id === hand.id);
+  if (index === -1) return [...hands, hand];
+  return [...hands.slice(0, index), hand, ...hands.slice(index + 1)];
+};
+
+export const useHandHistory = (): UseHandHistoryReturn => {
+  const [hands, setHands] = useState<HandRecord[]>([]);
+
+  // Hand in progress per table (ref: updated from tool call handlers)
+  const currentHandsRef = useRef<Map<string, HandRecord>>(new Map());
+
+  // ============================================
+  // LOAD PERSISTED HANDS
+  // ============================================
+  useEffect(() => {
+    let cancelled = false;
+    handStore.loadHands()
+      .then(stored => {
+        // Keep hands recorded while the database was loading
+        if (!cancelled) setHands(prev => prev.reduce(upsertHand, stored));
+      })
+      .catch(err => console.error('[useHandHistory] Error loading hands:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const persist = useCallback((hand: HandRecord) => {
+    setHands(prev => upsertHand(prev, hand));
+    handStore.saveHand(hand).catch(err => console.error('[useHandHistory] Error saving hand:', err));
+  }, []);
+
+  // ============================================
+  // RECORD
+  // ============================================
+  const recordState = useCallback((state: PokerGameState, timestamp: number = Date.now(), tableId?: string) => {
+    const key = tableId ?? '';
+    const { current, finished } = recordSnapshot(currentHandsRef.current.get(key) ?? null, state, timestamp, tableId);
+    if (current) currentHandsRef.current.set(key, current);
+
+    if (finished) persist(finished);
+    if (current) persist(current);
+  }, [persist]);
+
+  // ============================================
+  // DELETE
+  // ============================================
+  // The list is updated first; if the database refuses, its hands come back and the error is rethrown
+  const restoreFromStore = useCallback(async () => {
+    try {
+      const stored = await handStore.loadHands();
+      setHands(prev => prev.reduce(upsertHand, stored));
+    } catch (err) {
+      console.error('[useHandHistory] Error reloading hands:', err);
+    }
+  }, []);
+
+  const deleteHand = useCallback(async (id: string) => {
+    for (const [key, hand] of currentHandsRef.current) {
+      if (hand.id === id) currentHandsRef.current.delete(key);
+    }
+    setHands(prev => prev.filter(h => h.id !== id));
+    try {
+      await handStore.deleteHand(id);
+    } catch (err) {
+      await restoreFromStore();
+      throw err;
+    }
+  }, [restoreFromStore]);
+
+  const clearHands = useCallback(async () => {
+    currentHandsRef.current.clear();
+    setHands([]);
+    try {
+      await handStore.clearHands();
+    } catch (err) {
+      await restoreFromStore();
+      throw err;
+    }
+  }, [restoreFromStore]);
+
+  return {
+    hands,
+    recordState,
+    deleteHand,
+    clearHands
+  };
+};
@@ -0,0 +1,129 @@
+/**
+ * useHandReplay Hook
+ *
+ * Loads hand-history files and steps through them street by street,
+ * producing the same `PokerGameState` the HUD renders live.
+ * Reviews are requested from the Pro model with a text description of
+ * the hand, so no screen share or live session is needed.
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import { PROMPTS } from '../constants.ts';
+import { HandRecord, UseHandReplayReturn } from '../types.ts';
+import { parseHandHistoryFile } from '../utils/handHistoryImport.ts';
+import { describeHandForReview } from '../utils/handHistoryExport.ts';
+import { getFinalStreetStates } from '../utils/handRecorder.ts';
+import { withLocalAnalysis } from '../utils/localAnalysis.ts';
+import { generateDeepAnalysis } from '../utils/geminiClient.ts';
+
+export const useHandReplay = (): UseHandReplayReturn => {
+  const [replayHands, setReplayHands] = useState<HandRecord[]>([]);
+  const [handIndex, setHandIndex] = useState(0);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [reviews, setReviews] = useState<Record<string, string>>({});
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  const currentHand = replayHands[handIndex] ?? null;
+  const steps = useMemo(() => currentHand ? getFinalStreetStates(currentHand) : [], [currentHand]);
+  const step = steps[stepIndex] ?? null;
+  const reviewKey = currentHand ? `${currentHand.id}:${stepIndex}` : '';
+
+  const replayState = useMemo(() => {
+    if (!step) return null;
+    return { ...withLocalAnalysis(step.state), deepAnalysis: reviews[reviewKey] };
+  }, [step, reviews, reviewKey]);
+
+  // ============================================
+  // LOAD
+  // ============================================
+  const loadFile = useCallback(async (file: File) => {
+    setReplayError(null);
+    try {
+      const hands = parseHandHistoryFile(await file.text());
+      setReplayHands(hands);
+      setHandIndex(0);
+      setStepIndex(0);
+      setReviews({});
+    } catch (err) {
+      console.error('[useHandReplay] Import failed:', err);
+      setReplayError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  const closeReplay = useCallback(() => {
+    setReplayHands([]);
+    setHandIndex(0);
+    setStepIndex(0);
+    setReviews({});
+    setReplayError(null);
+  }, []);
+
+  // ============================================
+  // NAVIGATION
+  // ============================================
+  const selectHand = useCallback((index: number) => {
+    setHandIndex(Math.max(0, Math.min(index, replayHands.length - 1)));
+    setStepIndex(0);
+  }, [replayHands.length]);
+
+  const nextStep = useCallback(() => {
+    if (stepIndex < steps.length - 1) {
+      setStepIndex(stepIndex + 1);
+    } else if (handIndex < replayHands.length - 1) {
+      setHandIndex(handIndex + 1);
+      setStepIndex(0);
+    }
+  }, [stepIndex, steps.length, handIndex, replayHands.length]);
+
+  const prevStep = useCallback(() => {
+    if (stepIndex > 0) {
+      setStepIndex(stepIndex - 1);
+    } else if (handIndex > 0) {
+      // Land on the last street of the previous hand
+      const previous = replayHands[handIndex - 1];
+      setHandIndex(handIndex - 1);
+      setStepIndex(previous.streets.length - 1);
+    }
+  }, [stepIndex, handIndex, replayHands]);
+
+  // ============================================
+  // REVIEW (Pro model, text only)
+  // ============================================
+  const requestReview = useCallback(async () => {
+    if (!currentHand || !step) return;
+
+    setIsReviewing(true);
+    setReplayError(null);
+    try {
+      const analysis = await generateDeepAnalysis([
+        { text: describeHandForReview(currentHand, stepIndex) },
+        { text: PROMPTS.DEEP_ANALYSIS_REVIEW }
+      ]);
+      setReviews(prev => ({ ...prev, [reviewKey]: analysis }));
+    } catch (err) {
+      console.error('[useHandReplay] Review failed:', err);
+      setReplayError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsReviewing(false);
+    }
+  }, [currentHand, step, stepIndex, reviewKey]);
+
+  return {
+    isReplaying: replayHands.length > 0,
+    replayHands,
+    handIndex,
+    stepIndex,
+    stepCount: steps.length,
+    currentStreet: step?.street ?? null,
+    replayState,
+    loadFile,
+    selectHand,
+    nextStep,
+    prevStep,
+    closeReplay,
+    requestReview,
+    isReviewing,
+    replayError
+  };
+};
@@ -13,46 +13,97 @@
  */
 
 import { useState, useRef, useCallback, useEffect, RefObject } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
+import { LiveServerMessage } from '@google/genai';
 import { 
   MODEL_NAME, 
-  PRO_MODEL_NAME, 
   SYSTEM_INSTRUCTION, 
   VOICE_NAME, 
   pokerToolDeclaration,
   AUDIO_CONFIG,
   VIDEO_CONFIG,
+  FRAME_DIFF_CONFIG,
+  ADAPTIVE_CAPTURE_CONFIG,
+  CROP_CONFIG,
+  MULTI_TABLE_CONFIG,
   UI_CONFIG,
   RETRY_CONFIG,
-  REGION_THRESHOLDS,
+  TOOL_DIAGNOSTICS_CONFIG,
   PROMPTS
 } from '../constants.ts';
+import { generateDeepAnalysis } from '../utils/geminiClient.ts';
+import { getLiveTransport } from '../utils/liveTransport.ts';
 import { pcmToGeminiAudioBlob, decodeBase64, decodeAudioData, blobToBase64 } from '../utils/audioUtils.ts';
+import { calculateEquity } from '../utils/equityCalculator.ts';
+import { parseCard, validateCardSet } from '../utils/cardUtils.ts';
+import { validateTable } from '../utils/tableUtils.ts';
+import { validatePokerToolArgs } from '../utils/toolArgsValidator.ts';
+import { analyzeTournament, summarizeIcm } from '../utils/icm.ts';
+import { LOCAL_TOOL_DECLARATIONS, runLocalTool } from '../utils/localTools.ts';
+import { evaluateHand } from '../utils/handEvaluator.ts';
+import { calculatePotMath } from '../utils/potOdds.ts';
+import { parseSessionArchive, playSessionArchive } from '../utils/sessionArchive.ts';
+import { buildResumeContext } from '../utils/sessionContext.ts';
+import { DEFAULT_REGION_PROFILE, buildRegionPrompt, findRegionAt } from '../utils/regionProfiles.ts';
+import { getCropArea, getCropOutputSize, readVideoRegion, sharpenPixels } from '../utils/frameCrop.ts';
+import { crossCheckCards, recognizeCards } from '../utils/cardRecognizer.ts';
+import { parseRangeGroups, resolveStateRange } from '../utils/handRange.ts';
+import {
+  DEFAULT_TABLE,
+  buildTablePrompt,
+  findTableAt,
+  isFullRect,
+  resolveTable,
+  toCaptureRect
+} from '../utils/tableLayout.ts';
+import { computeLumaSignature, decideFrameSend } from '../utils/frameDiff.ts';
+import {
+  SentImage,
+  base64Bytes,
+  computeCaptureRates,
+  getCaptureSettings,
+  isFocusChange,
+  isHeroTurn,
+  maxCaptureLevel,
+  selectCaptureLevel
+} from '../utils/captureController.ts';
+import { useHandHistory } from './useHandHistory.ts';
+import { useSessionRecorder } from './useSessionRecorder.ts';
 import { 
   Transcript, 
   PokerGameState, 
+  SuggestedAction,
+  HandRecord,
+  TableRegion,
+  FrameCrop,
+  FrameSignature,
+  FrameStats,
+  FrameEncoding,
+  CaptureLevel,
+  CaptureProfileId,
+  CaptureStatus,
+  Card,
+  CardCheck,
+  CardCrossCheck,
+  CardTemplateSet,
+  RegionKind,
+  RegionRect,
+  TableDefinition,
+  TournamentSettings,
   UseLiveGeminiProps, 
   UseLiveGeminiReturn,
-  PokerToolArgs,
+  ToolDiagnostic,
   RealtimeInput,
+  LiveSession,
+  ConnectionState,
+  ConnectionStatus,
+  ConnectionMetrics,
   GeminiConnectionError
 } from '../types.ts';
 
-// ============================================
-// HELPER: Get API Key with validation
-// ============================================
-const getApiKey = (): string => {
-  const key = process.env.API_KEY;
-  if (!key) {
-    throw new GeminiConnectionError('API Key non configurata', 'NO_API_KEY', false);
-  }
-  return key;
-};
-
 // ============================================
 // HELPER: Calculate exponential backoff delay
 // ============================================
-const getBackoffDelay = (retryCount: number): number => {
+export const getBackoffDelay = (retryCount: number): number => {
   const delay = Math.min(
     RETRY_CONFIG.BASE_DELAY_MS * Math.pow(2, retryCount),
     RETRY_CONFIG.MAX_DELAY_MS
@@ -61,21 +112,118 @@ const getBackoffDelay = (retryCount: number): number => {
   return delay + Math.random() * 1000;
 };
 
+const INITIAL_CONNECTION_STATE: ConnectionState = {
+  status: ConnectionStatus.DISCONNECTED,
+  error: null,
+  retryCount: 0,
+  lastConnectedAt: null,
+  nextRetryAt: null,
+  lastDisconnectReason: null,
+};
+
+const INITIAL_FRAME_STATS: FrameStats = { sent: 0, skipped: 0, lastSentAt: null, lastReason: null };
+
+const INITIAL_CAPTURE_STATUS: CaptureStatus = {
+  profile: ADAPTIVE_CAPTURE_CONFIG.DEFAULT_PROFILE,
+  level: 'NORMAL',
+  backpressure: false,
+  fps: 0,
+  bytesPerMinute: 0,
+};
+
+const errorMessage = (err: unknown): string => err instanceof Error ? err.message : String(err);
+
+type CaptureQuality = 'high' | 'thumbnail';
+
+const CAPTURE_SETTINGS: Record<CaptureQuality, { width: number; jpegQuality: number }> = {
+  high: { width: VIDEO_CONFIG.CAPTURE_WIDTH_HIGH, jpegQuality: VIDEO_CONFIG.JPEG_QUALITY_HIGH },
+  thumbnail: { width: CROP_CONFIG.THUMBNAIL_WIDTH, jpegQuality: CROP_CONFIG.THUMBNAIL_JPEG_QUALITY },
+};
+
+const DEFAULT_TABLES: TableDefinition[] = [DEFAULT_TABLE];
+
+// Change detection and activity of one table's stream
+interface TableCapture {
+  lastSentSignature: FrameSignature | null;
+  lastFrameSentAt: number;
+  lastChangeAt: number | null;
+  lastFocusChangeAt: number | null;
+}
+
+const createTableCapture = (): TableCapture => ({
+  lastSentSignature: null,
+  lastFrameSentAt: 0,
+  lastChangeAt: null,
+  lastFocusChangeAt: null,
+});
+
+// Draws a table's area (or the whole video) onto the canvas at the given size
+const drawTableArea = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, area: RegionRect | null, width: number, height: number) => {
+  if (!area) {
+    ctx.drawImage(video, 0, 0, width, height);
+    return;
+  }
+  const { sx, sy, sw, sh } = getCropArea(area, video.videoWidth, video.videoHeight, 0);
+  ctx.drawImage(video, sx, sy, sw, sh, 0, 0, width, height);
+};
+
+// Table label in the top-left corner, read by the model to tell tables apart
+const drawTableLabel = (ctx: CanvasRenderingContext2D, label: string, frameHeight: number) => {
+  const size = Math.max(MULTI_TABLE_CONFIG.LABEL_MIN_HEIGHT_PX, Math.round(frameHeight * MULTI_TABLE_CONFIG.LABEL_HEIGHT));
+  ctx.font = `bold ${Math.round(size * 0.75)}px sans-serif`;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, ctx.measureText(label).width + size * 0.5, size);
+  ctx.fillStyle = '#fff';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, size * 0.25, size / 2);
+};
+
 // ============================================
 // MAIN HOOK
 // ============================================
-export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseLiveGeminiReturn => {
+export const useLiveGemini = ({
+  videoRef,
+  canvasRef,
+  regions = DEFAULT_REGION_PROFILE.regions,
+  cardTemplates = null,
+  tables = DEFAULT_TABLES,
+  tournament = null
+}: UseLiveGeminiProps): UseLiveGeminiReturn => {
+  const transport = getLiveTransport();
+  
   // ============================================
   // STATE
   // ============================================
   const [isActive, setIsActive] = useState(false);
+  const [connectionState, setConnectionState] = useState<ConnectionState>(INITIAL_CONNECTION_STATE);
+  const [connectionMetrics, setConnectionMetrics] = useState<ConnectionMetrics>({ latencyMs: null, lastToolCallAt: null });
   const [isStreamingScreen, setIsStreamingScreen] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isPermissionError, setIsPermissionError] = useState(false);
   const [volume, setVolume] = useState(1.0);
-  const [pokerState, setPokerState] = useState<PokerGameState | null>(null);
+  const [tableStates, setTableStates] = useState<Record<string, PokerGameState>>({});
+  const [selectedTableId, setSelectedTableId] = useState(tables[0].id);
+  const [captureCount, setCaptureCount] = useState(0);
   const [isDeepAnalyzing, setIsDeepAnalyzing] = useState(false);
   const [transcripts, setTranscripts] = useState<Transcript[]>([]);
+  const [toolDiagnostics, setToolDiagnostics] = useState<ToolDiagnostic[]>([]);
+  const [frameStats, setFrameStats] = useState<FrameStats>(INITIAL_FRAME_STATS);
+  const [captureStatus, setCaptureStatus] = useState<CaptureStatus>(INITIAL_CAPTURE_STATUS);
+  
+  // Hand history (segmented from tool calls, persisted in IndexedDB)
+  const {
+    hands,
+    recordState: recordHandState,
+    deleteHand: deleteStoredHand,
+    clearHands: clearStoredHands
+  } = useHandHistory();
+  
+  // Session recording (frames, prompts, server messages, state) and offline replay
+  const sessionRecorder = useSessionRecorder();
+  const { recordEvent } = sessionRecorder;
+  const [isSessionReplaying, setIsSessionReplaying] = useState(false);
+  const [sessionReplayFrame, setSessionReplayFrame] = useState<string | null>(null);
+  const [sessionReplayProgress, setSessionReplayProgress] = useState(0);
 
   // ============================================
   // REFS - For values that need to be accessed in callbacks/intervals
@@ -85,13 +233,15 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
   const outputAudioContextRef = useRef<AudioContext | null>(null);
   const gainNodeRef = useRef<GainNode | null>(null);
   const workletNodeRef = useRef<AudioWorkletNode | null>(null);
+  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
   
   // Streams
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const audioStreamRef = useRef<MediaStream | null>(null);
+  const extraCapturesRef = useRef<Array<{ stream: MediaStream; video: HTMLVideoElement }>>([]);
   
   // Session - Using resolved session, not Promise
-  const sessionRef = useRef<any>(null);
+  const sessionRef = useRef<LiveSession | null>(null);
   
   // Audio playback scheduling
   const nextStartTimeRef = useRef<number>(0);
@@ -101,16 +251,53 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
   const videoIntervalRef = useRef<number | null>(null);
   const autoAnalysisIntervalRef = useRef<number | null>(null);
   
+  // Frame change detection (per table)
+  const signatureCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const tableCapturesRef = useRef<Map<string, TableCapture>>(new Map());
+  const isSendingFrameRef = useRef(false);
+  const frameStatsRef = useRef<FrameStats>(INITIAL_FRAME_STATS);
+  const frameStatsPublishedAtRef = useRef(0);
+  
+  // Adaptive capture
+  const captureProfileRef = useRef<CaptureProfileId>(ADAPTIVE_CAPTURE_CONFIG.DEFAULT_PROFILE);
+  const captureLevelRef = useRef<CaptureLevel>('NORMAL');
+  const backpressureRef = useRef(false);
+  const frameBacklogRef = useRef(false); // A sample found the previous encode still running
+  const lastLatencyMsRef = useRef<number | null>(null);
+  const sentImagesRef = useRef<SentImage[]>([]);
+  const streamStartedAtRef = useRef(0);
+  
   // State refs for use in intervals (avoid stale closures)
   const isActiveRef = useRef(false);
   const isStreamingScreenRef = useRef(false);
+  const tableStatesRef = useRef<Record<string, PokerGameState>>({});
+  const tablesRef = useRef<TableDefinition[]>(tables);
+  const selectedTableIdRef = useRef(selectedTableId);
+  const transcriptsRef = useRef<Transcript[]>([]);
+  const handsRef = useRef<HandRecord[]>([]);
+  const regionsRef = useRef<TableRegion[]>(regions);
+  const cardTemplatesRef = useRef<CardTemplateSet | null>(cardTemplates);
+  const tournamentRef = useRef<TournamentSettings | null>(tournament);
+  const recognitionCanvasRef = useRef<HTMLCanvasElement | null>(null);
   
   // Throttling
   const lastAnalyzeTimeRef = useRef(0);
   
-  // Retry
+  // Retry & reconnect
   const retryCountRef = useRef(0);
   const retryTimeoutRef = useRef<number | null>(null);
+  const keepAliveRef = useRef(false); // True between connect() and disconnect()
+  const hasConnectedRef = useRef(false); // A session was open before: reconnects resend context
+  const sessionGenerationRef = useRef(0); // Callbacks of superseded sessions are ignored
+  const resumptionHandleRef = useRef<string | null>(null);
+  const openSessionRef = useRef<(() => Promise<void>) | null>(null);
+  
+  // Latency: time of the oldest prompt still waiting for a server message
+  const pendingPromptAtRef = useRef<number | null>(null);
+  
+  // Session replay
+  const isSessionReplayingRef = useRef(false);
+  const stopSessionPlaybackRef = useRef<(() => void) | null>(null);
 
   // ============================================
   // SYNC STATE TO REFS
@@ -123,12 +310,44 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
     isStreamingScreenRef.current = isStreamingScreen;
   }, [isStreamingScreen]);
 
+  useEffect(() => {
+    tablesRef.current = tables;
+  }, [tables]);
+
+  useEffect(() => {
+    selectedTableIdRef.current = selectedTableId;
+  }, [selectedTableId]);
+
+  useEffect(() => {
+    transcriptsRef.current = transcripts;
+  }, [transcripts]);
+
+  useEffect(() => {
+    handsRef.current = hands;
+  }, [hands]);
+
+  useEffect(() => {
+    regionsRef.current = regions;
+  }, [regions]);
+
+  useEffect(() => {
+    cardTemplatesRef.current = cardTemplates;
+  }, [cardTemplates]);
+
+  useEffect(() => {
+    tournamentRef.current = tournament;
+  }, [tournament]);
+
   useEffect(() => {
     if (gainNodeRef.current) {
       gainNodeRef.current.gain.value = volume;
     }
   }, [volume]);
 
+  const updateConnection = useCallback((patch: Partial<ConnectionState>) => {
+    setConnectionState(prev => ({ ...prev, ...patch }));
+  }, []);
+
   // ============================================
   // ERROR HANDLING
   // ============================================
@@ -147,26 +366,86 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
     }
   }, []);
 
+  // Hand history changes fail in IndexedDB: the list is restored, the error shown
+  const deleteHand = useCallback(async (id: string) => {
+    await deleteStoredHand(id).catch(err => handleError(err, 'Hand History'));
+  }, [deleteStoredHand, handleError]);
+
+  const clearHandHistory = useCallback(async () => {
+    await clearStoredHands().catch(err => handleError(err, 'Hand History'));
+  }, [clearStoredHands, handleError]);
+
+  // ============================================
+  // TABLES
+  // ============================================
+  // Index 0 is the main screen share, shown in the preview
+  const getCaptureVideo = useCallback((captureIndex: number): HTMLVideoElement | null => {
+    return captureIndex === 0 ? videoRef.current : extraCapturesRef.current[captureIndex - 1]?.video ?? null;
+  }, [videoRef]);
+
+  // Falls back to the first table when the selected one was removed
+  const getSelectedTable = useCallback((): TableDefinition => {
+    return tablesRef.current.find(t => t.id === selectedTableIdRef.current) ?? tablesRef.current[0];
+  }, []);
+
+  const selectTable = useCallback((id: string) => {
+    selectedTableIdRef.current = id;
+    setSelectedTableId(id);
+  }, []);
+
+  // Updates the ref right away so several calls in one message merge in order
+  const setTableState = useCallback((tableId: string, state: PokerGameState) => {
+    tableStatesRef.current = { ...tableStatesRef.current, [tableId]: state };
+    setTableStates(tableStatesRef.current);
+  }, []);
+
   // ============================================
   // SEND INPUT (Safe, using resolved session)
   // ============================================
-  const sendSafeInput = useCallback((input: RealtimeInput) => {
+  const sendSafeInput = useCallback((input: RealtimeInput, isStreamFrame = false) => {
     if (sessionRef.current) {
+      // Recorded before sending: a local transport may answer synchronously.
+      // Microphone audio is not recorded, the transcriptions cover it.
+      if (input.text) {
+        recordEvent({ type: 'prompt', text: input.text });
+      } else if (input.media?.mimeType.startsWith('image/')) {
+        recordEvent({ type: 'frame', mimeType: input.media.mimeType, data: input.media.data });
+
+        // Bandwidth readout
+        const now = Date.now();
+        sentImagesRef.current = [
+          ...sentImagesRef.current.filter(image => now - image.at < ADAPTIVE_CAPTURE_CONFIG.RATE_WINDOW_MS),
+          { at: now, bytes: base64Bytes(input.media.data), isFrame: isStreamFrame }
+        ];
+      }
+      
       try {
+        if (input.text && pendingPromptAtRef.current === null) {
+          pendingPromptAtRef.current = Date.now();
+        }
         sessionRef.current.sendRealtimeInput(input);
       } catch (e) {
         console.error('[sendSafeInput] Error:', e);
       }
     }
-  }, []);
+  }, [recordEvent]);
 
   // ============================================
   // FRAME CAPTURE
   // ============================================
-  const captureFrame = useCallback((quality: 'high' | 'low' = 'high'): Promise<string | null> => {
+  // With `crop`, the region is cut from the native video frame instead of
+  // downscaling the whole frame to the quality's width. With `table`, the
+  // frame is the table's area of its capture and crops are relative to it;
+  // several tables get their label burnt in. Without, the main capture is used
+  const captureFrame = useCallback((
+    quality: CaptureQuality | FrameEncoding = 'high',
+    crop?: FrameCrop,
+    table?: TableDefinition
+  ): Promise<string | null> => {
     return new Promise((resolve) => {
       const canvas = canvasRef.current;
-      const video = videoRef.current;
+      const video = getCaptureVideo(table?.captureIndex ?? 0);
+      const area = table && !isFullRect(table.rect) ? table.rect : null;
       
       if (!canvas || !video || video.readyState !== 4) {
         return resolve(null);
@@ -175,18 +454,35 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
       const ctx = canvas.getContext('2d');
       if (!ctx) return resolve(null);
       
-      const targetWidth = quality === 'high' 
-        ? VIDEO_CONFIG.CAPTURE_WIDTH_HIGH 
-        : VIDEO_CONFIG.CAPTURE_WIDTH_LOW;
-      const scale = targetWidth / video.videoWidth;
-      
-      canvas.width = targetWidth;
-      canvas.height = video.videoHeight * scale;
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-      
-      const jpegQuality = quality === 'high' 
-        ? VIDEO_CONFIG.JPEG_QUALITY_HIGH 
-        : VIDEO_CONFIG.JPEG_QUALITY_LOW;
+      const encoding = typeof quality === 'string' ? CAPTURE_SETTINGS[quality] : quality;
+      let jpegQuality = encoding.jpegQuality;
+      if (crop) {
+        const source = getCropArea(area ? toCaptureRect(area, crop.rect) : crop.rect, video.videoWidth, video.videoHeight);
+        const size = getCropOutputSize(source, crop.upscale);
+
+        canvas.width = size.width;
+        canvas.height = size.height;
+        ctx.imageSmoothingEnabled = true;
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(video, source.sx, source.sy, source.sw, source.sh, 0, 0, canvas.width, canvas.height);
+
+        if (crop.sharpen) {
+          const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+          image.data.set(sharpenPixels(image.data, canvas.width, canvas.height));
+          ctx.putImageData(image, 0, 0);
+        }
+        jpegQuality = CROP_CONFIG.JPEG_QUALITY;
+      } else {
+        const targetWidth = encoding.width;
+        const scale = targetWidth / (video.videoWidth * (area?.width ?? 1));
+
+        canvas.width = targetWidth;
+        canvas.height = video.videoHeight * (area?.height ?? 1) * scale;
+        drawTableArea(ctx, video, area, canvas.width, canvas.height);
+        if (table && tablesRef.current.length > 1) {
+          drawTableLabel(ctx, table.id, canvas.height);
+        }
+      }
       
       canvas.toBlob(async (blob) => {
         if (blob) {
@@ -196,7 +492,130 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
         }
       }, 'image/jpeg', jpegQuality);
     });
-  }, [canvasRef, videoRef]);
+  }, [canvasRef, getCaptureVideo]);
+
+  // Tiny luminance copy of a table's area; null without pixel access
+  const captureSignature = useCallback((table: TableDefinition): FrameSignature | null => {
+    const video = getCaptureVideo(table.captureIndex);
+    if (!video || video.readyState !== 4) return null;
+
+    const canvas = signatureCanvasRef.current ?? document.createElement('canvas');
+    signatureCanvasRef.current = canvas;
+    const { SIGNATURE_WIDTH: width, SIGNATURE_HEIGHT: height } = FRAME_DIFF_CONFIG;
+    canvas.width = width;
+    canvas.height = height;
+
+    try {
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return null;
+      drawTableArea(ctx, video, isFullRect(table.rect) ? null : table.rect, width, height);
+      return computeLumaSignature(ctx.getImageData(0, 0, width, height).data, width, height);
+    } catch {
+      return null;
+    }
+  }, [getCaptureVideo]);
+
+  // Counters live in refs; the UI copy is refreshed on sends and at most once a second otherwise
+  const publishFrameState = useCallback((force: boolean) => {
+    const now = Date.now();
+    if (!force && now - frameStatsPublishedAtRef.current < FRAME_DIFF_CONFIG.STATS_PUBLISH_MS) return;
+
+    frameStatsPublishedAtRef.current = now;
+    setFrameStats(frameStatsRef.current);
+    setCaptureStatus({
+      profile: captureProfileRef.current,
+      level: captureLevelRef.current,
+      backpressure: backpressureRef.current,
+      ...computeCaptureRates(sentImagesRef.current, now, streamStartedAtRef.current)
+    });
+  }, []);
+
+  const setCaptureProfile = useCallback((profile: CaptureProfileId) => {
+    captureProfileRef.current = profile;
+    setCaptureStatus(prev => ({ ...prev, profile }));
+  }, []);
+
+  // One table per tick of the screen stream: pick its capture level from its
+  // activity, then send its frame only if it changed (or for the keepalive)
+  const sampleTable = useCallback(async (table: TableDefinition, now: number, backpressure: boolean): Promise<CaptureLevel> => {
+    const video = getCaptureVideo(table.captureIndex);
+    if (!video || video.readyState !== 4) return 'IDLE';
+
+    const capture = tableCapturesRef.current.get(table.id) ?? createTableCapture();
+    tableCapturesRef.current.set(table.id, capture);
+    const elapsed = now - capture.lastFrameSentAt;
+    const previous = capture.lastSentSignature;
+    const signature = captureSignature(table);
+
+    const reason = signature
+      ? decideFrameSend(previous, signature, regionsRef.current, elapsed)
+      : 'interval'; // Without pixel access (tainted canvas) every frame counts as changed
+    if (reason === 'first' || reason === 'changed' || reason === 'interval') {
+      capture.lastChangeAt = now;
+    }
+    if (reason === 'changed' && previous && signature && isFocusChange(previous, signature, regionsRef.current)) {
+      capture.lastFocusChangeAt = now;
+    }
+
+    const level = selectCaptureLevel({
+      now,
+      lastChangeAt: capture.lastChangeAt,
+      lastFocusChangeAt: capture.lastFocusChangeAt,
+      isHeroTurn: isHeroTurn(tableStatesRef.current[table.id] ?? null),
+      backpressure
+    });
+    const settings = getCaptureSettings(captureProfileRef.current, level);
+
+    if (elapsed < settings.minSendIntervalMs) return level; // Not due yet: neither sent nor skipped
+    if (!reason) {
+      frameStatsRef.current = { ...frameStatsRef.current, skipped: frameStatsRef.current.skipped + 1 };
+      return level;
+    }
+
+    const frame = await captureFrame(settings, undefined, table);
+    if (frame) {
+      sendSafeInput({ media: { mimeType: 'image/jpeg', data: frame } }, true);
+      capture.lastSentSignature = signature;
+      capture.lastFrameSentAt = now;
+      frameStatsRef.current = {
+        sent: frameStatsRef.current.sent + 1,
+        skipped: frameStatsRef.current.skipped,
+        lastSentAt: new Date(now),
+        lastReason: reason
+      };
+    }
+    return level;
+  }, [getCaptureVideo, captureSignature, captureFrame, sendSafeInput]);
+
+  const sampleFrame = useCallback(async () => {
+    if (!isActiveRef.current) return;
+    if (isSendingFrameRef.current) {
+      frameBacklogRef.current = true;
+      return;
+    }
+
+    const now = Date.now();
+    const pendingFor = pendingPromptAtRef.current !== null ? now - pendingPromptAtRef.current : 0;
+    const backpressure = frameBacklogRef.current
+      || pendingFor > ADAPTIVE_CAPTURE_CONFIG.BACKOFF_LATENCY_MS
+      || (lastLatencyMsRef.current ?? 0) > ADAPTIVE_CAPTURE_CONFIG.BACKOFF_LATENCY_MS;
+    frameBacklogRef.current = false;
+    backpressureRef.current = backpressure;
+
+    isSendingFrameRef.current = true;
+    const sentBefore = frameStatsRef.current.sent;
+    try {
+      // The status shows the busiest table's level
+      let level: CaptureLevel = 'IDLE';
+      for (const table of tablesRef.current) {
+        level = maxCaptureLevel(level, await sampleTable(table, now, backpressure));
+      }
+      captureLevelRef.current = level;
+    } finally {
+      isSendingFrameRef.current = false;
+    }
+    publishFrameState(frameStatsRef.current.sent !== sentBefore);
+  }, [sampleTable, publishFrameState]);
 
   // ============================================
   // MANUAL SCAN (with throttling)
@@ -204,12 +623,13 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
   const triggerManualScan = useCallback(async () => {
     if (!isActiveRef.current || !isStreamingScreenRef.current) return;
     
-    const frame = await captureFrame('high');
+    const table = getSelectedTable();
+    const frame = await captureFrame('high', undefined, table);
     if (frame) {
       sendSafeInput({ media: { mimeType: 'image/jpeg', data: frame } });
     }
-    sendSafeInput({ text: PROMPTS.SCAN_IMMEDIATE });
-  }, [sendSafeInput, captureFrame]);
+    sendSafeInput({ text: buildTablePrompt(tablesRef.current, table, PROMPTS.SCAN_IMMEDIATE) });
+  }, [sendSafeInput, captureFrame, getSelectedTable]);
 
   // ============================================
   // ANALYZE REGION (with throttling)
@@ -224,22 +644,40 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
     
     if (!isActiveRef.current || !isStreamingScreenRef.current) return;
 
-    const frame = await captureFrame('high');
-    if (frame) {
-      sendSafeInput({ media: { mimeType: 'image/jpeg', data: frame } });
+    // The click lands on a table of the main capture, then on one of its calibrated regions
+    const hit = findTableAt(tablesRef.current, 0, x, y);
+    if (!hit) {
+      const frame = await captureFrame('high');
+      if (frame) {
+        sendSafeInput({ media: { mimeType: 'image/jpeg', data: frame } });
+      }
+      sendSafeInput({ text: buildRegionPrompt(null) });
+      return;
     }
 
-    // Determine region based on Y coordinate
-    let prompt: string;
-    if (y > REGION_THRESHOLDS.HERO_AREA_Y) {
-      prompt = PROMPTS.FOCUS_HERO;
-    } else if (y > REGION_THRESHOLDS.BOARD_AREA_Y_MIN && y <= REGION_THRESHOLDS.BOARD_AREA_Y_MAX) {
-      prompt = PROMPTS.FOCUS_BOARD;
-    } else {
-      prompt = PROMPTS.FOCUS_GENERAL;
+    const { table } = hit;
+    const region = findRegionAt(regionsRef.current, hit.x, hit.y);
+    if (!region) {
+      const frame = await captureFrame('high', undefined, table);
+      if (frame) {
+        sendSafeInput({ media: { mimeType: 'image/jpeg', data: frame } });
+      }
+      sendSafeInput({ text: buildTablePrompt(tablesRef.current, table, buildRegionPrompt(null)) });
+      return;
+    }
+
+    // Native-resolution crop of the region, after an optional low-res view of the whole table
+    const thumbnail = CROP_CONFIG.SEND_CONTEXT_THUMBNAIL ? await captureFrame('thumbnail', undefined, table) : null;
+    const crop = await captureFrame('high', { rect: region.rect, upscale: CROP_CONFIG.UPSCALE, sharpen: CROP_CONFIG.SHARPEN }, table);
+    if (thumbnail) {
+      sendSafeInput({ media: { mimeType: 'image/jpeg', data: thumbnail } });
+    }
+    if (crop) {
+      sendSafeInput({ media: { mimeType: 'image/jpeg', data: crop } });
     }
 
-    sendSafeInput({ text: prompt });
+    const cropNote = !crop ? '' : thumbnail ? ` ${PROMPTS.FOCUS_CROP}` : ` ${PROMPTS.FOCUS_CROP_ONLY}`;
+    sendSafeInput({ text: buildTablePrompt(tablesRef.current, table, `${buildRegionPrompt(region)}${cropNote}`) });
   }, [captureFrame, sendSafeInput]);
 
   // ============================================
@@ -249,36 +687,29 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
     if (!isStreamingScreenRef.current) return;
     
     setIsDeepAnalyzing(true);
+    const table = getSelectedTable();
     try {
-      const apiKey = getApiKey();
-      const ai = new GoogleGenAI({ apiKey });
-      const frame = await captureFrame('high');
+      const frame = await captureFrame('high', undefined, table);
       
       if (!frame) {
         throw new Error("Impossibile catturare il frame");
       }
 
-      const response = await ai.models.generateContent({
-        model: PRO_MODEL_NAME,
-        contents: {
-          parts: [
-            { inlineData: { data: frame, mimeType: 'image/jpeg' } },
-            { text: PROMPTS.DEEP_ANALYSIS }
-          ]
-        },
-        config: { thinkingConfig: { thinkingBudget: 2000 } }
-      });
+      const analysis = await generateDeepAnalysis([
+        { inlineData: { data: frame, mimeType: 'image/jpeg' } },
+        { text: PROMPTS.DEEP_ANALYSIS }
+      ]);
 
-      setPokerState(prev => ({
-        ...prev!,
-        deepAnalysis: response.text || "Nessun risultato ricevuto."
-      }));
+      setTableState(table.id, {
+        ...tableStatesRef.current[table.id]!,
+        deepAnalysis: analysis
+      });
     } catch (err) {
       handleError(err, 'Deep Analysis');
     } finally {
       setIsDeepAnalyzing(false);
     }
-  }, [captureFrame, handleError]);
+  }, [captureFrame, getSelectedTable, setTableState, handleError]);
 
   // ============================================
   // AUTO ANALYSIS INTERVAL
@@ -302,6 +733,14 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
   // ============================================
   // SCREEN SHARE
   // ============================================
+  const stopExtraCaptures = useCallback(() => {
+    extraCapturesRef.current.forEach(({ stream, video }) => {
+      stream.getTracks().forEach(t => t.stop());
+      video.srcObject = null;
+    });
+    extraCapturesRef.current = [];
+  }, []);
+
   const stopScreenShare = useCallback(() => {
     stopAutoAnalysis();
     
@@ -309,6 +748,8 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
       mediaStreamRef.current.getTracks().forEach(t => t.stop());
       mediaStreamRef.current = null;
     }
+    stopExtraCaptures();
+    setCaptureCount(0);
     
     if (videoIntervalRef.current) {
       clearInterval(videoIntervalRef.current);
@@ -320,7 +761,7 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
     }
     
     setIsStreamingScreen(false);
-  }, [videoRef, stopAutoAnalysis]);
+  }, [videoRef, stopAutoAnalysis, stopExtraCaptures]);
 
   const startScreenShare = useCallback(async () => {
     resetError();
@@ -342,25 +783,60 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
       }
       
       setIsStreamingScreen(true);
+      setCaptureCount(1 + extraCapturesRef.current.length);
       
       // Handle stream end (user clicks "Stop sharing")
       stream.getVideoTracks()[0].onended = () => stopScreenShare();
       
-      // Start continuous low-res frame capture
-      videoIntervalRef.current = window.setInterval(async () => {
-        if (!isActiveRef.current) return;
-        
-        const frame = await captureFrame('low');
-        if (frame) {
-          sendSafeInput({ media: { mimeType: 'image/jpeg', data: frame } });
-        }
-      }, VIDEO_CONFIG.FRAME_INTERVAL_MS);
+      // Start continuous low-res frame capture, skipping unchanged frames
+      tableCapturesRef.current.clear();
+      frameStatsRef.current = INITIAL_FRAME_STATS;
+      sentImagesRef.current = [];
+      streamStartedAtRef.current = Date.now();
+      publishFrameState(true);
+      videoIntervalRef.current = window.setInterval(sampleFrame, FRAME_DIFF_CONFIG.SAMPLE_INTERVAL_MS);
       
       startAutoAnalysis();
     } catch (err) {
       handleError(err, 'Screen Share');
     }
-  }, [videoRef, startAutoAnalysis, resetError, captureFrame, sendSafeInput, stopScreenShare, handleError]);
+  }, [videoRef, startAutoAnalysis, resetError, sampleFrame, publishFrameState, stopScreenShare, handleError]);
+
+  // Another window or screen, for tables that are not on the main share.
+  // Its video stays off-screen: the frames are only sampled
+  const addCapture = useCallback(async () => {
+    if (!isStreamingScreenRef.current) {
+      setError('Screen Share: avvia la condivisione principale prima di aggiungere catture');
+      return;
+    }
+    resetError();
+
+    try {
+      const stream = await navigator.mediaDevices.getDisplayMedia({
+        video: {
+          width: { ideal: VIDEO_CONFIG.SCREEN_WIDTH },
+          height: { ideal: VIDEO_CONFIG.SCREEN_HEIGHT },
+          frameRate: { max: VIDEO_CONFIG.MAX_FRAME_RATE }
+        }
+      });
+      const video = document.createElement('video');
+      video.muted = true;
+      video.srcObject = stream;
+      await video.play();
+
+      const capture = { stream, video };
+      extraCapturesRef.current = [...extraCapturesRef.current, capture];
+      setCaptureCount(1 + extraCapturesRef.current.length);
+
+      // Later captures keep their index: tables refer to captures by position
+      stream.getVideoTracks()[0].onended = () => {
+        stream.getTracks().forEach(t => t.stop());
+        video.srcObject = null;
+      };
+    } catch (err) {
+      handleError(err, 'Screen Share');
+    }
+  }, [resetError, handleError]);
 
   // ============================================
   // AUDIO OUTPUT PLAYBACK
@@ -402,42 +878,183 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
   // ============================================
   // HANDLE TOOL CALLS
   // ============================================
+  const sendToolResult = useCallback((fc: { id: string; name: string }, result: unknown) => {
+    if (sessionRef.current) {
+      try {
+        sessionRef.current.sendToolResponse({
+          functionResponses: [{
+            id: fc.id,
+            name: fc.name,
+            response: { result }
+          }]
+        });
+      } catch (e) {
+        console.error('[handleToolCall] Error sending response:', e);
+      }
+    }
+  }, []);
+
+  // Rejected calls leave the HUD untouched: log them and ask the model to retry
+  const rejectToolCall = useCallback((fc: { id: string; name: string; args: unknown }, errors: string[]) => {
+    console.warn(`[handleToolCall] Rejected ${fc.name}:`, errors);
+    setToolDiagnostics(prev => [...prev, {
+      id: `${Date.now()}-${fc.id}`,
+      timestamp: new Date(),
+      callId: fc.id,
+      toolName: fc.name,
+      args: fc.args,
+      errors,
+    }].slice(-TOOL_DIAGNOSTICS_CONFIG.MAX_ENTRIES));
+    sendToolResult(fc, { success: false, errors });
+  }, [sendToolResult]);
+
+  const clearToolDiagnostics = useCallback(() => setToolDiagnostics([]), []);
+
+  // Second opinion on the reported cards: read the hero and board regions of
+  // the current frame with the user's templates (null until templates are learnt)
+  const checkCardsOnScreen = useCallback((holeCards: Card[], communityCards: Card[], table: TableDefinition): CardCrossCheck | null => {
+    const templates = cardTemplatesRef.current;
+    const video = getCaptureVideo(table.captureIndex);
+    if (!templates || !video || isSessionReplayingRef.current) return null;
+
+    const canvas = recognitionCanvasRef.current ?? document.createElement('canvas');
+    recognitionCanvasRef.current = canvas;
+
+    const check = (kind: RegionKind, cards: Card[]): CardCheck[] => {
+      const region = regionsRef.current.find(r => r.kind === kind);
+      const image = region ? readVideoRegion(video, toCaptureRect(table.rect, region.rect), canvas) : null;
+      return image
+        ? crossCheckCards(cards, recognizeCards(image, templates))
+        : cards.map(card => ({ card, status: 'unknown' }));
+    };
+
+    const result = { holeCards: check('HERO_CARDS', holeCards), communityCards: check('BOARD', communityCards) };
+    const mismatches = [...result.holeCards, ...result.communityCards].filter(c => c.status === 'mismatch');
+    if (mismatches.length > 0) {
+      console.warn('[checkCardsOnScreen] Local reading disagrees:', mismatches.map(c => `${c.card}→${c.localCard}`).join(', '));
+    }
+    return result;
+  }, [getCaptureVideo]);
+
   const handleToolCall = useCallback((functionCalls: Array<{ id: string; name: string; args: unknown }>) => {
     for (const fc of functionCalls) {
       if (fc.name === 'updatePokerState') {
-        const args = fc.args as PokerToolArgs;
+        const { args, errors } = validatePokerToolArgs(fc.args);
+        if (errors.length > 0) {
+          rejectToolCall(fc, errors);
+          continue;
+        }
+        
+        const target = resolveTable(tablesRef.current, args.tableId);
+        if ('errors' in target) {
+          rejectToolCall(fc, target.errors);
+          continue;
+        }
+        const { table } = target;
+        const isMultiTable = tablesRef.current.length > 1;
+        const prev = tableStatesRef.current[table.id] ?? null;
+        
+        // New hole cards start a new hand: the previous board and villain read don't carry over
+        const newHand = !!prev && args.holeCards !== undefined
+          && args.holeCards.map(card => parseCard(card) ?? card).join(',') !== prev.holeCards.join(',');
+        const carried = newHand ? null : prev;
+        
+        // Normalise and cross-check cards against the merged state (partial updates included)
+        const cards = validateCardSet({
+          holeCards: args.holeCards ?? prev?.holeCards,
+          communityCards: args.communityCards ?? carried?.communityCards,
+          opponentEstimatedCards: args.opponentEstimatedCards ?? carried?.opponentEstimatedCards,
+        });
+        
+        const seating = {
+          tableSize: args.tableSize ?? prev?.tableSize,
+          heroSeat: args.heroSeat ?? prev?.heroSeat,
+          dealerSeat: args.dealerSeat ?? prev?.dealerSeat,
+          players: args.players ?? prev?.players,
+        };
         
-        setPokerState(prev => ({
+        // Structured ranges come from the schema: every token must be valid notation
+        const rangeErrors = args.structuredRange
+          ? parseRangeGroups(args.structuredRange).unparsed.map(token => `structuredRange: notazione non valida "${token}"`)
+          : [];
+        
+        const stateErrors = [...cards.errors, ...validateTable(seating), ...rangeErrors];
+        if (stateErrors.length > 0) {
+          rejectToolCall(fc, stateErrors);
+          continue;
+        }
+        
+        const { holeCards, communityCards } = cards;
+        
+        // Only re-run the local engines when the cards actually changed
+        const cardsChanged = !prev
+          || holeCards.join(',') !== prev.holeCards.join(',')
+          || communityCards.join(',') !== prev.communityCards.join(',');
+        
+        const amounts = {
+          potSize: args.potSize ?? prev?.potSize,
+          amountToCall: args.amountToCall ?? prev?.amountToCall,
+          heroStack: args.heroStack ?? prev?.heroStack,
+          effectiveStack: args.effectiveStack ?? prev?.effectiveStack,
+          bigBlind: args.bigBlind ?? prev?.bigBlind,
+        };
+        
+        const structuredRange = args.structuredRange ?? prev?.structuredRange;
+        const opponentRange = args.opponentRange ?? prev?.opponentRange;
+        const rangeChanged = !prev || args.structuredRange !== undefined || opponentRange !== prev.opponentRange;
+        
+        const next: PokerGameState = {
           winProbability: args.winProbability ?? prev?.winProbability ?? 0,
           equity: args.equity ?? prev?.equity,
           potOdds: args.potOdds ?? prev?.potOdds,
-          suggestedAction: (args.suggestedAction as PokerGameState['suggestedAction']) ?? prev?.suggestedAction ?? 'WAITING',
+          suggestedAction: (args.suggestedAction as SuggestedAction | undefined) ?? prev?.suggestedAction ?? 'WAITING',
           reasoning: args.reasoning ?? prev?.reasoning ?? '',
           handStrength: args.handStrength ?? prev?.handStrength ?? '',
-          holeCards: args.holeCards ?? prev?.holeCards ?? [],
-          communityCards: args.communityCards ?? prev?.communityCards ?? [],
-          opponentEstimatedCards: args.opponentEstimatedCards ?? prev?.opponentEstimatedCards,
-          opponentRange: args.opponentRange ?? prev?.opponentRange,
+          holeCards,
+          communityCards,
+          opponentEstimatedCards: cards.opponentEstimatedCards.length > 0 ? cards.opponentEstimatedCards : undefined,
+          opponentRange,
+          structuredRange,
           deepAnalysis: prev?.deepAnalysis,
-        }));
+          ...seating,
+          ...amounts,
+          localPotMath: calculatePotMath(amounts),
+          localEquity: cardsChanged ? calculateEquity(holeCards, communityCards) : prev?.localEquity,
+          localHand: cardsChanged ? evaluateHand(holeCards, communityCards) : prev?.localHand,
+          localCardCheck: cardsChanged ? checkCardsOnScreen(holeCards, communityCards, table) : prev?.localCardCheck,
+          localRange: rangeChanged ? resolveStateRange(structuredRange, opponentRange) : prev?.localRange,
+        };
         
-        // Send tool response
-        if (sessionRef.current) {
-          try {
-            sessionRef.current.sendToolResponse({
-              functionResponses: [{
-                id: fc.id,
-                name: fc.name,
-                response: { result: { success: true } }
-              }]
-            });
-          } catch (e) {
-            console.error('[handleToolCall] Error sending response:', e);
-          }
+        setTableState(table.id, next);
+        recordEvent(isMultiTable ? { type: 'state', state: next, tableId: table.id } : { type: 'state', state: next });
+        
+        // Replayed sessions must not add hands to the history
+        if (!isSessionReplayingRef.current) {
+          recordHandState(next, undefined, isMultiTable ? table.id : undefined);
         }
+        
+        // Hero must act here while the selected table is waiting: bring this one to the front
+        const selected = getSelectedTable();
+        if (selected.id !== table.id && isHeroTurn(next) && !isHeroTurn(tableStatesRef.current[selected.id] ?? null)) {
+          selectTable(table.id);
+        }
+        
+        // Tournaments: the model weighs the decision in $EV (SYSTEM_INSTRUCTION rule 12)
+        const icm = tournamentRef.current ? analyzeTournament(tournamentRef.current, next) : null;
+        sendToolResult(fc, icm ? { success: true, icm: summarizeIcm(icm) } : { success: true });
+        continue;
+      }
+      
+      const local = runLocalTool(fc.name, fc.args, { hands: handsRef.current });
+      if (!local) {
+        rejectToolCall(fc, [`funzione sconosciuta: ${fc.name}`]);
+      } else if ('errors' in local) {
+        rejectToolCall(fc, local.errors);
+      } else {
+        sendToolResult(fc, local);
       }
     }
-  }, []);
+  }, [sendToolResult, rejectToolCall, setTableState, recordHandState, recordEvent, checkCardsOnScreen, getSelectedTable, selectTable]);
 
   // ============================================
   // HANDLE TRANSCRIPTION
@@ -462,147 +1079,61 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
   }, []);
 
   // ============================================
-  // CONNECT
+  // HANDLE SERVER MESSAGES (live and replayed)
   // ============================================
-  const connect = useCallback(async () => {
-    resetError();
+  const handleServerMessage = useCallback(async (msg: LiveServerMessage) => {
+    recordEvent({ type: 'server', message: msg });
     
-    try {
-      const apiKey = getApiKey();
-      const ai = new GoogleGenAI({ apiKey });
-      
-      // Create audio contexts
-      inputAudioContextRef.current = new AudioContext({ sampleRate: AUDIO_CONFIG.INPUT_SAMPLE_RATE });
-      outputAudioContextRef.current = new AudioContext({ sampleRate: AUDIO_CONFIG.OUTPUT_SAMPLE_RATE });
-      
-      // Setup output gain
-      gainNodeRef.current = outputAudioContextRef.current.createGain();
-      gainNodeRef.current.gain.value = volume;
-      gainNodeRef.current.connect(outputAudioContextRef.current.destination);
-      
-      // Get microphone
-      const micStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      audioStreamRef.current = micStream;
-      
-      // Connect to Gemini Live API
-      const sessionPromise = ai.live.connect({
-        model: MODEL_NAME,
-        config: {
-          systemInstruction: SYSTEM_INSTRUCTION,
-          tools: [{ functionDeclarations: [pokerToolDeclaration] }],
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: VOICE_NAME }
-            }
-          },
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-        },
-        callbacks: {
-          onopen: async () => {
-            // Store resolved session
-            sessionRef.current = await sessionPromise;
-            setIsActive(true);
-            retryCountRef.current = 0; // Reset retry count on successful connection
-            
-            // Setup AudioWorklet for audio input
-            try {
-              const inputCtx = inputAudioContextRef.current!;
-              await inputCtx.audioWorklet.addModule(AUDIO_CONFIG.WORKLET_PATH);
-              
-              const source = inputCtx.createMediaStreamSource(micStream);
-              workletNodeRef.current = new AudioWorkletNode(inputCtx, AUDIO_CONFIG.WORKLET_NAME);
-              
-              workletNodeRef.current.port.onmessage = (event) => {
-                if (event.data.type === 'audio') {
-                  const blob = pcmToGeminiAudioBlob(event.data.data, AUDIO_CONFIG.INPUT_SAMPLE_RATE);
-                  sendSafeInput({ media: blob });
-                }
-              };
-              
-              source.connect(workletNodeRef.current);
-              // Note: Don't connect to destination to avoid feedback
-            } catch (workletErr) {
-              // Fallback to ScriptProcessor if AudioWorklet fails
-              console.warn('[connect] AudioWorklet failed, falling back to ScriptProcessor:', workletErr);
-              
-              const inputCtx = inputAudioContextRef.current!;
-              const source = inputCtx.createMediaStreamSource(micStream);
-              const processor = inputCtx.createScriptProcessor(AUDIO_CONFIG.BUFFER_SIZE, 1, 1);
-              
-              processor.onaudioprocess = (e) => {
-                const blob = pcmToGeminiAudioBlob(e.inputBuffer.getChannelData(0), AUDIO_CONFIG.INPUT_SAMPLE_RATE);
-                sendSafeInput({ media: blob });
-              };
-              
-              source.connect(processor);
-              processor.connect(inputCtx.destination);
-            }
-          },
-          
-          onmessage: async (msg: LiveServerMessage) => {
-            // Handle tool calls
-            if (msg.toolCall?.functionCalls) {
-              handleToolCall(msg.toolCall.functionCalls);
-            }
-            
-            // Handle audio output
-            const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (audioData) {
-              await playAudioChunk(audioData);
-            }
-            
-            // Handle output transcription
-            const outputTranscript = msg.serverContent?.outputTranscription?.text;
-            if (outputTranscript) {
-              handleTranscription(outputTranscript, 'ai');
-            }
-            
-            // Handle input transcription
-            const inputTranscript = msg.serverContent?.inputTranscription?.text;
-            if (inputTranscript) {
-              handleTranscription(inputTranscript, 'user');
-            }
-          },
-          
-          onclose: () => {
-            sessionRef.current = null;
-            setIsActive(false);
-          },
-          
-          onerror: (e: any) => {
-            handleError(e, 'WebSocket');
-            sessionRef.current = null;
-            setIsActive(false);
-          }
-        }
-      });
-      
-    } catch (err) {
-      handleError(err, 'Connection');
-      
-      // Retry logic with exponential backoff
-      if (err instanceof GeminiConnectionError && !err.retryable) {
-        return; // Don't retry non-retryable errors
-      }
-      
-      if (retryCountRef.current < RETRY_CONFIG.MAX_RETRIES) {
-        retryCountRef.current++;
-        const delay = getBackoffDelay(retryCountRef.current);
-        console.log(`[connect] Retry ${retryCountRef.current}/${RETRY_CONFIG.MAX_RETRIES} in ${delay}ms`);
-        
-        retryTimeoutRef.current = window.setTimeout(() => {
-          connect();
-        }, delay);
-      }
+    if (pendingPromptAtRef.current !== null) {
+      const latencyMs = Date.now() - pendingPromptAtRef.current;
+      pendingPromptAtRef.current = null;
+      lastLatencyMsRef.current = latencyMs;
+      setConnectionMetrics(prev => ({ ...prev, latencyMs }));
+    }
+    
+    // Keep the latest handle to resume this session after a drop
+    const resumption = msg.sessionResumptionUpdate;
+    if (resumption?.resumable && resumption.newHandle) {
+      resumptionHandleRef.current = resumption.newHandle;
+    }
+    if (msg.goAway) {
+      console.warn('[handleServerMessage] Server closing the session in', msg.goAway.timeLeft);
+    }
+    
+    // Handle tool calls
+    if (msg.toolCall?.functionCalls) {
+      setConnectionMetrics(prev => ({ ...prev, lastToolCallAt: new Date() }));
+      handleToolCall(msg.toolCall.functionCalls);
     }
-  }, [volume, resetError, sendSafeInput, handleToolCall, playAudioChunk, handleTranscription, handleError]);
+    
+    // Handle audio output
+    const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (audioData) {
+      await playAudioChunk(audioData);
+    }
+    
+    // Handle output transcription
+    const outputTranscript = msg.serverContent?.outputTranscription?.text;
+    if (outputTranscript) {
+      handleTranscription(outputTranscript, 'ai');
+    }
+    
+    // Handle input transcription
+    const inputTranscript = msg.serverContent?.inputTranscription?.text;
+    if (inputTranscript) {
+      handleTranscription(inputTranscript, 'user');
+    }
+  }, [recordEvent, handleToolCall, playAudioChunk, handleTranscription]);
 
   // ============================================
   // DISCONNECT
   // ============================================
-  const disconnect = useCallback(() => {
+  const teardown = useCallback(() => {
+    // Stop reconnecting and ignore late callbacks from the old session
+    keepAliveRef.current = false;
+    sessionGenerationRef.current++;
+    resumptionHandleRef.current = null;
+    
     // Cancel any pending retry
     if (retryTimeoutRef.current) {
       clearTimeout(retryTimeoutRef.current);
@@ -633,12 +1164,17 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
     
     mediaStreamRef.current?.getTracks().forEach(t => t.stop());
     mediaStreamRef.current = null;
+    stopExtraCaptures();
     
-    // Disconnect worklet
+    // Disconnect worklet (or its ScriptProcessor fallback)
     if (workletNodeRef.current) {
       workletNodeRef.current.disconnect();
       workletNodeRef.current = null;
     }
+    if (scriptProcessorRef.current) {
+      scriptProcessorRef.current.disconnect();
+      scriptProcessorRef.current = null;
+    }
     
     // Close audio contexts
     inputAudioContextRef.current?.close();
@@ -658,9 +1194,300 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
     // Reset state
     setIsActive(false);
     setIsStreamingScreen(false);
+    setCaptureCount(0);
     setTranscripts([]);
     nextStartTimeRef.current = 0;
-  }, [stopAutoAnalysis]);
+    pendingPromptAtRef.current = null;
+  }, [stopAutoAnalysis, stopExtraCaptures]);
+
+  const disconnect = useCallback(() => {
+    teardown();
+    updateConnection({
+      status: ConnectionStatus.DISCONNECTED,
+      retryCount: 0,
+      nextRetryAt: null,
+      lastDisconnectReason: 'Disconnessione manuale'
+    });
+  }, [teardown, updateConnection]);
+
+  // ============================================
+  // MIC CAPTURE (started once, kept across reconnects)
+  // ============================================
+  const startMicCapture = useCallback(async (micStream: MediaStream) => {
+    const inputCtx = inputAudioContextRef.current;
+    if (!inputCtx || workletNodeRef.current || scriptProcessorRef.current) return;
+    
+    // Setup AudioWorklet for audio input
+    try {
+      await inputCtx.audioWorklet.addModule(AUDIO_CONFIG.WORKLET_PATH);
+      
+      const source = inputCtx.createMediaStreamSource(micStream);
+      workletNodeRef.current = new AudioWorkletNode(inputCtx, AUDIO_CONFIG.WORKLET_NAME);
+      
+      workletNodeRef.current.port.onmessage = (event) => {
+        if (event.data.type === 'audio') {
+          const blob = pcmToGeminiAudioBlob(event.data.data, AUDIO_CONFIG.INPUT_SAMPLE_RATE);
+          sendSafeInput({ media: blob });
+        }
+      };
+      
+      source.connect(workletNodeRef.current);
+      // Note: Don't connect to destination to avoid feedback
+    } catch (workletErr) {
+      // Fallback to ScriptProcessor if AudioWorklet fails
+      console.warn('[connect] AudioWorklet failed, falling back to ScriptProcessor:', workletErr);
+      
+      const source = inputCtx.createMediaStreamSource(micStream);
+      const processor = inputCtx.createScriptProcessor(AUDIO_CONFIG.BUFFER_SIZE, 1, 1);
+      
+      processor.onaudioprocess = (e) => {
+        const blob = pcmToGeminiAudioBlob(e.inputBuffer.getChannelData(0), AUDIO_CONFIG.INPUT_SAMPLE_RATE);
+        sendSafeInput({ media: blob });
+      };
+      
+      source.connect(processor);
+      processor.connect(inputCtx.destination);
+      scriptProcessorRef.current = processor;
+    }
+  }, [sendSafeInput]);
+
+  // ============================================
+  // SESSION LOSS & RECONNECT (exponential backoff)
+  // ============================================
+  const handleSessionLost = useCallback((err: unknown, context: string) => {
+    if (err) {
+      handleError(err, context);
+    } else {
+      console.warn(`[${context}] Session closed`);
+    }
+    if (!keepAliveRef.current) return; // Closed on purpose
+    
+    const reason = err ? `${context}: ${errorMessage(err)}` : context;
+    const retryable = !(err instanceof GeminiConnectionError && !err.retryable);
+    if (!retryable || retryCountRef.current >= RETRY_CONFIG.MAX_RETRIES) {
+      // Give up: release mic and screen, keep the error visible
+      teardown();
+      updateConnection({ status: ConnectionStatus.ERROR, error: reason, nextRetryAt: null, lastDisconnectReason: reason });
+      return;
+    }
+    
+    // Mic, screen and intervals stay alive: input is dropped until the new session opens
+    retryCountRef.current++;
+    const delay = getBackoffDelay(retryCountRef.current);
+    console.log(`[connect] Retry ${retryCountRef.current}/${RETRY_CONFIG.MAX_RETRIES} in ${delay}ms`);
+    updateConnection({
+      status: ConnectionStatus.RECONNECTING,
+      retryCount: retryCountRef.current,
+      nextRetryAt: new Date(Date.now() + delay),
+      lastDisconnectReason: reason
+    });
+    
+    retryTimeoutRef.current = window.setTimeout(() => {
+      retryTimeoutRef.current = null;
+      openSessionRef.current?.();
+    }, delay);
+  }, [handleError, teardown, updateConnection]);
+
+  // ============================================
+  // OPEN SESSION (first connect and reconnects)
+  // ============================================
+  const openSession = useCallback(async () => {
+    const generation = ++sessionGenerationRef.current;
+    const isCurrent = () => generation === sessionGenerationRef.current;
+    const resumptionHandle = resumptionHandleRef.current ?? undefined;
+    const isReconnect = hasConnectedRef.current;
+    let opened = false;
+    
+    // Each session reports its loss once (onerror is usually followed by onclose)
+    const lose = (err: unknown, context: string) => {
+      if (!isCurrent()) return;
+      sessionGenerationRef.current++;
+      sessionRef.current = null;
+      // A handle the server refused must not be reused
+      if (!opened) resumptionHandleRef.current = null;
+      handleSessionLost(err, context);
+    };
+    
+    try {
+      // Connect through the configured transport (Gemini Live API or local mock)
+      const sessionPromise = transport.connect({
+        model: MODEL_NAME,
+        systemInstruction: SYSTEM_INSTRUCTION,
+        voiceName: VOICE_NAME,
+        functionDeclarations: [pokerToolDeclaration, ...LOCAL_TOOL_DECLARATIONS],
+        resumptionHandle,
+        tableIds: tablesRef.current.map(t => t.id),
+      }, {
+        onopen: async () => {
+          if (!isCurrent()) return;
+          
+          // Store resolved session
+          sessionRef.current = await sessionPromise;
+          opened = true;
+          hasConnectedRef.current = true;
+          retryCountRef.current = 0; // Reset retry count on successful connection
+          tableCapturesRef.current.forEach(capture => {
+            capture.lastSentSignature = null; // The new session has seen no frame yet
+          });
+          setIsActive(true);
+          updateConnection({
+            status: ConnectionStatus.CONNECTED,
+            error: null,
+            retryCount: 0,
+            lastConnectedAt: new Date(),
+            nextRetryAt: null
+          });
+          
+          // Bring the new session up to date; a resumed one already has the conversation
+          if (isReconnect) {
+            sendSafeInput({
+              text: buildResumeContext(tableStatesRef.current, transcriptsRef.current, resumptionHandle !== undefined)
+            });
+          }
+          
+          if (audioStreamRef.current) {
+            await startMicCapture(audioStreamRef.current);
+          }
+        },
+        
+        onmessage: (msg: LiveServerMessage) => {
+          if (isCurrent()) handleServerMessage(msg);
+        },
+        
+        onclose: (event) => lose(null, event?.reason ? `WebSocket (${event.reason})` : 'WebSocket'),
+        
+        onerror: (e: unknown) => lose(e, 'WebSocket')
+      });
+      
+      // Surface connection failures (e.g. missing API key) to the retry logic
+      await sessionPromise;
+    } catch (err) {
+      lose(err, 'Connection');
+    }
+  }, [transport, sendSafeInput, startMicCapture, handleServerMessage, handleSessionLost, updateConnection]);
+
+  useEffect(() => {
+    openSessionRef.current = openSession;
+  }, [openSession]);
+
+  // ============================================
+  // CONNECT
+  // ============================================
+  const connect = useCallback(async () => {
+    if (isSessionReplayingRef.current) return;
+    resetError();
+    
+    keepAliveRef.current = true;
+    hasConnectedRef.current = false;
+    resumptionHandleRef.current = null;
+    retryCountRef.current = 0;
+    updateConnection({ status: ConnectionStatus.CONNECTING, error: null, retryCount: 0, nextRetryAt: null });
+    
+    try {
+      // Create audio contexts
+      inputAudioContextRef.current = new AudioContext({ sampleRate: AUDIO_CONFIG.INPUT_SAMPLE_RATE });
+      outputAudioContextRef.current = new AudioContext({ sampleRate: AUDIO_CONFIG.OUTPUT_SAMPLE_RATE });
+      
+      // Setup output gain
+      gainNodeRef.current = outputAudioContextRef.current.createGain();
+      gainNodeRef.current.gain.value = volume;
+      gainNodeRef.current.connect(outputAudioContextRef.current.destination);
+      
+      // Get microphone
+      audioStreamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      handleError(err, 'Connection');
+      teardown();
+      updateConnection({ status: ConnectionStatus.ERROR, error: errorMessage(err), nextRetryAt: null });
+      return;
+    }
+    
+    await openSession();
+  }, [volume, resetError, handleError, teardown, updateConnection, openSession]);
+
+  // ============================================
+  // RETRY NOW (skip the backoff wait)
+  // ============================================
+  const retryNow = useCallback(() => {
+    if (retryTimeoutRef.current) {
+      clearTimeout(retryTimeoutRef.current);
+      retryTimeoutRef.current = null;
+      updateConnection({ nextRetryAt: null });
+      openSessionRef.current?.();
+    } else if (!keepAliveRef.current) {
+      // Gave up (or never connected): start over
+      connect();
+    }
+  }, [updateConnection, connect]);
+
+  // ============================================
+  // SESSION REPLAY (offline, no network)
+  // ============================================
+  const stopSessionReplay = useCallback(() => {
+    stopSessionPlaybackRef.current?.();
+    stopSessionPlaybackRef.current = null;
+    isSessionReplayingRef.current = false;
+    
+    audioSourcesRef.current.forEach(source => {
+      try { source.stop(); } catch (e) {}
+    });
+    audioSourcesRef.current.clear();
+    outputAudioContextRef.current?.close();
+    outputAudioContextRef.current = null;
+    gainNodeRef.current = null;
+    nextStartTimeRef.current = 0;
+    
+    setIsSessionReplaying(false);
+    setSessionReplayFrame(null);
+  }, []);
+
+  const startSessionReplay = useCallback(async (file: File, speed: number) => {
+    if (isActiveRef.current) {
+      setError('Session Replay: disconnettiti prima di riprodurre una sessione');
+      return;
+    }
+    resetError();
+    stopSessionReplay();
+    
+    try {
+      const archive = parseSessionArchive(await file.text());
+      
+      // Audio output only: the replay is fed straight into the message handler
+      outputAudioContextRef.current = new AudioContext({ sampleRate: AUDIO_CONFIG.OUTPUT_SAMPLE_RATE });
+      gainNodeRef.current = outputAudioContextRef.current.createGain();
+      gainNodeRef.current.gain.value = volume;
+      gainNodeRef.current.connect(outputAudioContextRef.current.destination);
+      
+      tableStatesRef.current = {};
+      setTableStates({});
+      setTranscripts([]);
+      setSessionReplayProgress(0);
+      isSessionReplayingRef.current = true;
+      setIsSessionReplaying(true);
+      
+      stopSessionPlaybackRef.current = playSessionArchive(
+        archive,
+        speed,
+        (event, progress) => {
+          setSessionReplayProgress(progress);
+          if (event.type === 'server') {
+            handleServerMessage(event.message);
+          } else if (event.type === 'frame') {
+            setSessionReplayFrame(event.data);
+          }
+          // Recorded 'state' events are kept for comparison: the HUD state is
+          // rebuilt from the replayed tool calls by the current code
+        },
+        () => {
+          // Keep the last frame and HUD on screen until the replay is closed
+          stopSessionPlaybackRef.current = null;
+        }
+      );
+    } catch (err) {
+      stopSessionReplay();
+      handleError(err, 'Session Replay');
+    }
+  }, [volume, resetError, stopSessionReplay, handleServerMessage, handleError]);
 
   // ============================================
   // CLEANUP ON UNMOUNT
@@ -669,22 +1496,37 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
     return () => {
       // This runs when component unmounts
       disconnect();
+      stopSessionPlaybackRef.current?.();
     };
   }, [disconnect]);
 
   // ============================================
   // RETURN
   // ============================================
+  const selectedTable = tables.find(t => t.id === selectedTableId) ?? tables[0];
+
   return {
     connect,
     disconnect,
     isActive,
+    connectionState,
+    connectionMetrics,
+    retryNow,
+    frameStats,
+    captureStatus,
+    setCaptureProfile,
     isStreamingScreen,
     startScreenShare,
     stopScreenShare,
+    captureCount,
+    addCapture,
+    getCaptureVideo,
     volume,
     setVolume,
-    pokerState,
+    pokerState: tableStates[selectedTable.id] ?? null,
+    tableStates,
+    selectedTableId: selectedTable.id,
+    selectTable,
     error,
     isPermissionError,
     resetError,
@@ -692,6 +1534,18 @@ export const useLiveGemini = ({ videoRef, canvasRef }: UseLiveGeminiProps): UseL
     runDeepAnalysis,
     isDeepAnalyzing,
     analyzeRegion,
-    transcripts
+    transcripts,
+    toolDiagnostics,
+    clearToolDiagnostics,
+    hands,
+    deleteHand,
+    clearHandHistory,
+    transportBackend: transport.backend,
+    sessionRecorder,
+    startSessionReplay,
+    stopSessionReplay,
+    isSessionReplaying,
+    sessionReplayFrame,
+    sessionReplayProgress
   };
 };
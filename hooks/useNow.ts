@@ -0,0 +1,21 @@
+/**
+ * useNow Hook
+ *
+ * Returns the current time, refreshed on an interval while `enabled`,
+ * for countdowns and "time since" readouts.
+ */
+
+import { useState, useEffect } from 'react';
+
+export const useNow = (intervalMs: number = 1000, enabled: boolean = true): number => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!enabled) return;
+    setNow(Date.now());
+    const id = window.setInterval(() => setNow(Date.now()), intervalMs);
+    return () => window.clearInterval(id);
+  }, [intervalMs, enabled]);
+
+  return now;
+};
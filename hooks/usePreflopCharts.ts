@@ -0,0 +1,55 @@
+/**
+ * usePreflopCharts Hook
+ *
+ * Preflop charts (see preflopCharts.ts) persisted in localStorage as JSON,
+ * edited in the chart panel or imported from a file.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { PREFLOP_CHART_CONFIG } from '../constants.ts';
+import { PreflopChartSet, UsePreflopChartsReturn } from '../types.ts';
+import { DEFAULT_CHART_SET, loadChartSet, parseChartSet, serializeChartSet } from '../utils/preflopCharts.ts';
+import { readStorage, writeStorage } from '../utils/localStore.ts';
+import { downloadTextFile, fileTimestamp } from '../utils/fileUtils.ts';
+
+export const usePreflopCharts = (): UsePreflopChartsReturn => {
+  const [chartSet, setChartSet] = useState<PreflopChartSet>(
+    () => loadChartSet(readStorage(PREFLOP_CHART_CONFIG.STORAGE_KEY))
+  );
+
+  useEffect(() => {
+    writeStorage(PREFLOP_CHART_CONFIG.STORAGE_KEY, serializeChartSet(chartSet));
+  }, [chartSet]);
+
+  const saveCharts = useCallback((json: string): string[] => {
+    const parsed = parseChartSet(json);
+    if ('errors' in parsed) return parsed.errors;
+    setChartSet(parsed.chartSet);
+    return [];
+  }, []);
+
+  const importCharts = useCallback(async (file: File): Promise<string[]> => {
+    try {
+      return saveCharts(await file.text());
+    } catch (error) {
+      console.error('[usePreflopCharts] Import failed:', error);
+      return [`lettura del file non riuscita: ${file.name}`];
+    }
+  }, [saveCharts]);
+
+  const exportCharts = useCallback(() => {
+    downloadTextFile(serializeChartSet(chartSet), `pokerpro_charts_${fileTimestamp()}.json`, 'application/json');
+  }, [chartSet]);
+
+  const resetCharts = useCallback(() => {
+    setChartSet({ ...DEFAULT_CHART_SET }); // New object: the editor reloads even if nothing changed
+  }, []);
+
+  return {
+    chartSet,
+    saveCharts,
+    importCharts,
+    exportCharts,
+    resetCharts
+  };
+};
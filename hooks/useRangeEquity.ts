@@ -0,0 +1,90 @@
+/**
+ * useRangeEquity Hook
+ *
+ * Hero's equity against the opponent's parsed range (`localRange`) on the
+ * current board, computed in a Web Worker so the HUD stays responsive.
+ * Only the latest request is kept: a worker still busy with an older board
+ * is terminated and replaced, so stale runs never delay the current one.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { PokerGameState, RangeEquityJob, RangeEquityJobResult, RangeEquityRequest, RangeEquityResult, UseRangeEquityReturn } from '../types.ts';
+import { calculateRangeEquity } from '../utils/rangeEquity.ts';
+
+const buildRequest = (state: PokerGameState | null): RangeEquityRequest | null => {
+  if (!state?.localRange || state.holeCards.length !== 2) return null;
+  return { heroCards: state.holeCards, villainRange: state.localRange.range, board: state.communityCards };
+};
+
+export const useRangeEquity = (state: PokerGameState | null): UseRangeEquityReturn => {
+  const [rangeEquity, setRangeEquity] = useState<RangeEquityResult | null>(null);
+  const [isCalculating, setIsCalculating] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const isWorkerBusyRef = useRef(false);
+  const jobIdRef = useRef(0);
+
+  const request = buildRequest(state);
+  // Partial updates keep the same cards and range: don't recompute for them
+  const requestKey = request ? JSON.stringify(request) : null;
+
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    const id = ++jobIdRef.current;
+
+    // Superseded run: a fresh worker is cheaper than waiting for it to finish
+    if (isWorkerBusyRef.current) {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      isWorkerBusyRef.current = false;
+    }
+
+    if (!requestKey) {
+      setRangeEquity(null);
+      setIsCalculating(false);
+      return;
+    }
+
+    const job: RangeEquityJob = { id, request: JSON.parse(requestKey) };
+    const finish = (result: RangeEquityResult | null) => {
+      if (id !== jobIdRef.current) return;
+      setRangeEquity(result);
+      setIsCalculating(false);
+    };
+    setIsCalculating(true);
+
+    // No workers (tests, old browsers): compute after this render instead
+    if (typeof Worker === 'undefined') {
+      const timer = setTimeout(() => finish(calculateRangeEquity(job.request)), 0);
+      return () => clearTimeout(timer);
+    }
+
+    if (!workerRef.current) {
+      const worker = new Worker(new URL('../utils/rangeEquity.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<RangeEquityJobResult>) => {
+        isWorkerBusyRef.current = false;
+        if (event.data.id === jobIdRef.current) {
+          setRangeEquity(event.data.result);
+          setIsCalculating(false);
+        }
+      };
+      worker.onerror = (event) => {
+        console.warn('[useRangeEquity] Worker error:', event.message);
+        isWorkerBusyRef.current = false;
+        setRangeEquity(null); // The previous result belongs to another board
+        setIsCalculating(false);
+      };
+      workerRef.current = worker;
+    }
+    isWorkerBusyRef.current = true;
+    workerRef.current.postMessage(job);
+  }, [requestKey]);
+
+  return {
+    rangeEquity,
+    isCalculating
+  };
+};
@@ -0,0 +1,59 @@
+/**
+ * useRegionProfiles Hook
+ *
+ * Named table layouts (see regionProfiles.ts) persisted in localStorage,
+ * plus the profile currently in use.
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { REGION_PROFILES_CONFIG } from '../constants.ts';
+import { RegionProfile, TableRegion, UseRegionProfilesReturn } from '../types.ts';
+import { DEFAULT_REGION_PROFILE, parseRegionProfiles, serializeRegionProfiles } from '../utils/regionProfiles.ts';
+import { readStorage, writeStorage } from '../utils/localStore.ts';
+
+export const useRegionProfiles = (): UseRegionProfilesReturn => {
+  const [profiles, setProfiles] = useState<RegionProfile[]>(
+    () => parseRegionProfiles(readStorage(REGION_PROFILES_CONFIG.STORAGE_KEY))
+  );
+  const [activeName, setActiveName] = useState<string>(
+    () => readStorage(REGION_PROFILES_CONFIG.ACTIVE_KEY) ?? REGION_PROFILES_CONFIG.DEFAULT_PROFILE_NAME
+  );
+
+  useEffect(() => {
+    writeStorage(REGION_PROFILES_CONFIG.STORAGE_KEY, serializeRegionProfiles(profiles));
+  }, [profiles]);
+
+  useEffect(() => {
+    writeStorage(REGION_PROFILES_CONFIG.ACTIVE_KEY, activeName);
+  }, [activeName]);
+
+  const activeProfile = useMemo(
+    () => profiles.find(p => p.name === activeName) ?? DEFAULT_REGION_PROFILE,
+    [profiles, activeName]
+  );
+
+  const selectProfile = useCallback((name: string) => {
+    setActiveName(name);
+  }, []);
+
+  const saveProfile = useCallback((name: string, regions: TableRegion[]) => {
+    const profile: RegionProfile = { name: name.trim(), regions, updatedAt: Date.now() };
+    if (!profile.name) return;
+
+    setProfiles(prev => [...prev.filter(p => p.name !== profile.name), profile]);
+    setActiveName(profile.name);
+  }, []);
+
+  const deleteProfile = useCallback((name: string) => {
+    setProfiles(prev => prev.filter(p => p.name !== name));
+    setActiveName(prev => prev === name ? REGION_PROFILES_CONFIG.DEFAULT_PROFILE_NAME : prev);
+  }, []);
+
+  return {
+    profiles,
+    activeProfile,
+    selectProfile,
+    saveProfile,
+    deleteProfile
+  };
+};
@@ -0,0 +1,92 @@
+/**
+ * useSessionRecorder Hook
+ *
+ * Collects timestamped session events while recording is on and downloads
+ * them as a session archive (see sessionArchive.ts). Events are kept in a
+ * ref and the visible counter is refreshed at most once per
+ * COUNT_REFRESH_MS, so recording never re-renders on every frame.
+ */
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { SESSION_RECORDING_CONFIG } from '../constants.ts';
+import { SessionEvent, UseSessionRecorderReturn } from '../types.ts';
+import { serializeSessionArchive, trimSessionEvents } from '../utils/sessionArchive.ts';
+import { downloadTextFile, fileTimestamp } from '../utils/fileUtils.ts';
+
+export const useSessionRecorder = (): UseSessionRecorderReturn => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordedEventCount, setRecordedEventCount] = useState(0);
+
+  const isRecordingRef = useRef(false);
+  const startedAtRef = useRef(0);
+  const eventsRef = useRef<SessionEvent[]>([]);
+  const frameBytesRef = useRef(0);
+  const countTimerRef = useRef<number | null>(null);
+
+  const refreshCount = useCallback(() => {
+    if (countTimerRef.current !== null) clearTimeout(countTimerRef.current);
+    countTimerRef.current = null;
+    setRecordedEventCount(eventsRef.current.length);
+  }, []);
+
+  useEffect(() => () => {
+    if (countTimerRef.current !== null) clearTimeout(countTimerRef.current);
+  }, []);
+
+  // ============================================
+  // RECORD
+  // ============================================
+  const recordEvent = useCallback<UseSessionRecorderReturn['recordEvent']>((event) => {
+    if (!isRecordingRef.current) return;
+
+    const events = eventsRef.current;
+    events.push({ ...event, t: Date.now() - startedAtRef.current } as SessionEvent);
+    if (event.type === 'frame') frameBytesRef.current += event.data.length;
+
+    // Frames are by far the largest events: the oldest ones go first
+    frameBytesRef.current = trimSessionEvents(events, frameBytesRef.current);
+    if (countTimerRef.current === null) {
+      countTimerRef.current = window.setTimeout(refreshCount, SESSION_RECORDING_CONFIG.COUNT_REFRESH_MS);
+    }
+  }, [refreshCount]);
+
+  // ============================================
+  // START / STOP
+  // ============================================
+  const startRecording = useCallback(() => {
+    eventsRef.current = [];
+    frameBytesRef.current = 0;
+    startedAtRef.current = Date.now();
+    isRecordingRef.current = true;
+    refreshCount();
+    setIsRecording(true);
+  }, [refreshCount]);
+
+  const stopRecording = useCallback(() => {
+    isRecordingRef.current = false;
+    refreshCount(); // Final count, without waiting for the timer
+    setIsRecording(false);
+  }, [refreshCount]);
+
+  // ============================================
+  // DOWNLOAD
+  // ============================================
+  const downloadRecording = useCallback(() => {
+    if (eventsRef.current.length === 0) return;
+
+    downloadTextFile(
+      serializeSessionArchive(startedAtRef.current, eventsRef.current),
+      `pokerpro_session_${fileTimestamp(startedAtRef.current)}.json`,
+      'application/json'
+    );
+  }, []);
+
+  return {
+    isRecording,
+    recordedEventCount,
+    startRecording,
+    stopRecording,
+    downloadRecording,
+    recordEvent
+  };
+};
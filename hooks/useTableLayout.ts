@@ -0,0 +1,44 @@
+/**
+ * useTableLayout Hook
+ *
+ * Tables played at the same time (see tableLayout.ts), persisted in localStorage.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { MULTI_TABLE_CONFIG } from '../constants.ts';
+import { TableDefinition, UseTableLayoutReturn } from '../types.ts';
+import { createTable, parseTableLayout, serializeTableLayout } from '../utils/tableLayout.ts';
+import { readStorage, writeStorage } from '../utils/localStore.ts';
+
+export const useTableLayout = (): UseTableLayoutReturn => {
+  const [tables, setTables] = useState<TableDefinition[]>(
+    () => parseTableLayout(readStorage(MULTI_TABLE_CONFIG.STORAGE_KEY))
+  );
+
+  useEffect(() => {
+    writeStorage(MULTI_TABLE_CONFIG.STORAGE_KEY, serializeTableLayout(tables));
+  }, [tables]);
+
+  const addTable = useCallback(() => {
+    setTables(prev => {
+      const table = createTable(prev);
+      return table ? [...prev, table] : prev;
+    });
+  }, []);
+
+  const updateTable = useCallback((id: string, patch: Partial<Omit<TableDefinition, 'id'>>) => {
+    setTables(prev => prev.map(t => t.id === id ? { ...t, ...patch } : t));
+  }, []);
+
+  // The last table can't be removed
+  const removeTable = useCallback((id: string) => {
+    setTables(prev => prev.length > 1 ? prev.filter(t => t.id !== id) : prev);
+  }, []);
+
+  return {
+    tables,
+    addTable,
+    updateTable,
+    removeTable
+  };
+};
@@ -0,0 +1,30 @@
+/**
+ * useTournamentSettings Hook
+ *
+ * Tournament mode and its payout structure (see icm.ts), persisted in localStorage.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { TOURNAMENT_CONFIG } from '../constants.ts';
+import { TournamentSettings, UseTournamentSettingsReturn } from '../types.ts';
+import { parseTournamentSettings, serializeTournamentSettings } from '../utils/icm.ts';
+import { readStorage, writeStorage } from '../utils/localStore.ts';
+
+export const useTournamentSettings = (): UseTournamentSettingsReturn => {
+  const [settings, setSettings] = useState<TournamentSettings>(
+    () => parseTournamentSettings(readStorage(TOURNAMENT_CONFIG.STORAGE_KEY))
+  );
+
+  useEffect(() => {
+    writeStorage(TOURNAMENT_CONFIG.STORAGE_KEY, serializeTournamentSettings(settings));
+  }, [settings]);
+
+  const updateSettings = useCallback((patch: Partial<TournamentSettings>) => {
+    setSettings(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  return {
+    settings,
+    updateSettings
+  };
+};
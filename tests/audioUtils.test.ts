@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { pcmToGeminiAudioBlob, decodeBase64, decodeAudioData, uint8ArrayToBase64 } from '../utils/audioUtils.ts';
+import { FakeAudioContext } from './fakes.ts';
+
+// Encoding scales positives by 0x7FFF and decoding divides by 0x8000: allow two steps
+const TOLERANCE = 2 / 32768;
+
+describe('pcmToGeminiAudioBlob / decodeAudioData', () => {
+  it('round-trips samples within PCM16 precision', async () => {
+    const input = new Float32Array([0, 0.5, -0.5, 0.25, -1, 0.999]);
+    const blob = pcmToGeminiAudioBlob(input, 16000);
+
+    expect(blob.mimeType).toBe('audio/pcm;rate=16000');
+
+    const ctx = new FakeAudioContext();
+    const buffer = await decodeAudioData(decodeBase64(blob.data!), ctx as unknown as AudioContext, 16000);
+    const output = buffer.getChannelData(0);
+
+    expect(buffer.length).toBe(input.length);
+    expect(buffer.sampleRate).toBe(16000);
+    input.forEach((sample, i) => expect(Math.abs(output[i] - sample)).toBeLessThanOrEqual(TOLERANCE));
+  });
+
+  it('clamps samples outside [-1, 1]', () => {
+    const blob = pcmToGeminiAudioBlob(new Float32Array([2, -3]), 24000);
+    const bytes = decodeBase64(blob.data!);
+    const int16 = new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 2);
+
+    expect([...int16]).toEqual([0x7FFF, -0x8000]);
+  });
+
+  it('splits interleaved channels', async () => {
+    const pcm = new Int16Array([16384, -16384, 8192, -8192]);
+    const ctx = new FakeAudioContext();
+    const buffer = await decodeAudioData(new Uint8Array(pcm.buffer), ctx as unknown as AudioContext, 24000, 2);
+
+    expect([...buffer.getChannelData(0)]).toEqual([0.5, 0.25]);
+    expect([...buffer.getChannelData(1)]).toEqual([-0.5, -0.25]);
+  });
+});
+
+describe('uint8ArrayToBase64', () => {
+  it('round-trips buffers larger than one encoding chunk', () => {
+    const bytes = new Uint8Array(40_000).map((_, i) => (i * 31) % 256);
+    const decoded = decodeBase64(uint8ArrayToBase64(bytes));
+
+    expect(decoded).toEqual(bytes);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { ADAPTIVE_CAPTURE_CONFIG, CAPTURE_PROFILES } from '../constants.ts';
+import { CaptureActivity, FrameSignature, PlayerAction, PokerGameState, TableRegion } from '../types.ts';
+import {
+  base64Bytes,
+  computeCaptureRates,
+  getCaptureSettings,
+  isFocusChange,
+  isHeroTurn,
+  selectCaptureLevel,
+} from '../utils/captureController.ts';
+
+const NOW = 100_000;
+
+const activity = (overrides: Partial<CaptureActivity> = {}): CaptureActivity => ({
+  now: NOW,
+  lastChangeAt: null,
+  lastFocusChangeAt: null,
+  isHeroTurn: false,
+  backpressure: false,
+  ...overrides,
+});
+
+describe('selectCaptureLevel', () => {
+  it('goes idle when nothing changed recently', () => {
+    expect(selectCaptureLevel(activity())).toBe('IDLE');
+    expect(selectCaptureLevel(activity({ lastChangeAt: NOW - ADAPTIVE_CAPTURE_CONFIG.IDLE_AFTER_MS }))).toBe('IDLE');
+  });
+
+  it('stays normal while the table changes', () => {
+    expect(selectCaptureLevel(activity({ lastChangeAt: NOW - 1000 }))).toBe('NORMAL');
+  });
+
+  it("is active on hero's turn and right after a board or action change", () => {
+    expect(selectCaptureLevel(activity({ isHeroTurn: true }))).toBe('ACTIVE');
+    expect(selectCaptureLevel(activity({ lastFocusChangeAt: NOW - 1000 }))).toBe('ACTIVE');
+  });
+
+  it('steps one level down under backpressure', () => {
+    expect(selectCaptureLevel(activity({ isHeroTurn: true, backpressure: true }))).toBe('NORMAL');
+    expect(selectCaptureLevel(activity({ backpressure: true }))).toBe('IDLE');
+  });
+});
+
+describe('getCaptureSettings', () => {
+  it('sends faster and sharper frames when active', () => {
+    const idle = getCaptureSettings('BALANCED', 'IDLE');
+    const active = getCaptureSettings('BALANCED', 'ACTIVE');
+    expect(active.minSendIntervalMs).toBeLessThan(idle.minSendIntervalMs);
+    expect(active.width).toBeGreaterThan(idle.width);
+  });
+
+  it('orders the profiles by cost at every level', () => {
+    for (const level of ['IDLE', 'NORMAL', 'ACTIVE'] as const) {
+      const saver = CAPTURE_PROFILES.BATTERY_SAVER.levels[level];
+      const max = CAPTURE_PROFILES.MAX_ACCURACY.levels[level];
+      expect(saver.minSendIntervalMs).toBeGreaterThan(max.minSendIntervalMs);
+    }
+  });
+});
+
+describe('isHeroTurn', () => {
+  const state = (overrides: Partial<PokerGameState> = {}): PokerGameState => ({
+    winProbability: 50,
+    suggestedAction: 'CALL',
+    reasoning: '',
+    handStrength: '',
+    holeCards: ['As', 'Kd'],
+    communityCards: [],
+    ...overrides,
+  });
+
+  it('is true when hero faces a bet with cards', () => {
+    expect(isHeroTurn(state({ amountToCall: 2 }))).toBe(true);
+    expect(isHeroTurn(state({ amountToCall: 2, suggestedAction: 'WAITING' }))).toBe(false);
+    expect(isHeroTurn(state({ amountToCall: 2, holeCards: [] }))).toBe(false);
+    expect(isHeroTurn(null)).toBe(false);
+  });
+
+  it('is false once hero folded', () => {
+    expect(isHeroTurn(state({ amountToCall: 2, heroSeat: 2, players: [{ seat: 2, inHand: false }] }))).toBe(false);
+  });
+
+  it('follows the actions at the table when nothing is to call', () => {
+    const seats = (heroAction?: PlayerAction, villainAction?: PlayerAction) => ({
+      heroSeat: 1,
+      amountToCall: 0,
+      players: [{ seat: 1, inHand: true, lastAction: heroAction }, { seat: 2, inHand: true, lastAction: villainAction }],
+    });
+    expect(isHeroTurn(state(seats(undefined, 'CHECK')))).toBe(true); // Checked to hero
+    expect(isHeroTurn(state(seats('CHECK', 'NONE')))).toBe(false); // Hero checked, villain to act
+    expect(isHeroTurn(state(seats('POST', undefined)))).toBe(false); // Dealt in, others still to act
+    expect(isHeroTurn(state())).toBe(false); // Advice alone is not a turn
+  });
+
+  it('lets the level drop while hero is dealt in but waiting', () => {
+    // Hero called preflop, the flop is out and the villain has not acted yet
+    const waiting = state({
+      communityCards: ['2c', '7d', '9s'],
+      heroSeat: 1,
+      players: [{ seat: 1, inHand: true, lastAction: 'CALL' }, { seat: 2, inHand: true }],
+    });
+    expect(selectCaptureLevel(activity({ isHeroTurn: isHeroTurn(waiting), lastChangeAt: NOW - 1000 }))).toBe('NORMAL');
+    expect(selectCaptureLevel(activity({ isHeroTurn: isHeroTurn(waiting) }))).toBe('IDLE');
+  });
+});
+
+describe('isFocusChange', () => {
+  const grey = (value: number, changedIndex?: number): FrameSignature => {
+    const luma = new Uint8Array(100).fill(value);
+    if (changedIndex !== undefined) luma[changedIndex] = 255;
+    return { width: 10, height: 10, luma };
+  };
+  const board: TableRegion = { id: 'b', kind: 'BOARD', rect: { x: 0, y: 0, width: 0.2, height: 0.2 } };
+  const seat: TableRegion = { id: 's', kind: 'SEAT', seat: 1, rect: { x: 0, y: 0, width: 0.2, height: 0.2 } };
+
+  it('only looks at board, hero cards and action regions', () => {
+    expect(isFocusChange(grey(0), grey(0, 0), [board])).toBe(true);
+    expect(isFocusChange(grey(0), grey(0, 0), [seat])).toBe(false);
+    expect(isFocusChange(grey(0), grey(0, 99), [board])).toBe(false);
+  });
+});
+
+describe('computeCaptureRates', () => {
+  it('averages over the elapsed time at the start of the stream', () => {
+    const sent = [
+      { at: NOW - 1500, bytes: 30_000, isFrame: true },
+      { at: NOW - 500, bytes: 30_000, isFrame: true },
+      { at: NOW - 100, bytes: 60_000, isFrame: false },
+    ];
+    expect(computeCaptureRates(sent, NOW, NOW - 2000)).toEqual({ fps: 1, bytesPerMinute: 3_600_000 });
+  });
+
+  it('ignores images older than the window', () => {
+    const sent = [
+      { at: NOW - 70_000, bytes: 1_000_000, isFrame: true },
+      { at: NOW - 1000, bytes: 10_000, isFrame: true },
+    ];
+    expect(computeCaptureRates(sent, NOW, 0, 60_000)).toEqual({ fps: 0.02, bytesPerMinute: 10_000 });
+  });
+});
+
+describe('base64Bytes', () => {
+  it('accounts for padding', () => {
+    expect(base64Bytes(btoa('abc'))).toBe(3);
+    expect(base64Bytes(btoa('abcd'))).toBe(4);
+    expect(base64Bytes(btoa('abcde'))).toBe(5);
+  });
+});
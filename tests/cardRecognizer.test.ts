@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { CARD_RECOGNITION_CONFIG } from '../constants.ts';
+import { CardTemplateSet, LumaImage, RecognizedCard } from '../types.ts';
+import {
+  crossCheckCards,
+  emptyTemplateSet,
+  findCardBoxes,
+  parseCardTemplates,
+  recognizeCards,
+  serializeCardTemplates,
+  trainTemplates,
+} from '../utils/cardRecognizer.ts';
+
+// 5x5 rank and 4x4 suit glyphs, drawn at 2x in the card corner
+const GLYPHS: Record<string, string[]> = {
+  A: ['..#..', '.#.#.', '#####', '#...#', '#...#'],
+  K: ['#..#.', '#.#..', '##...', '#.#..', '#..#.'],
+  '7': ['#####', '...#.', '..#..', '.#...', '.#...'],
+  h: ['#.#.', '####', '.##.', '..#.'],
+  s: ['..#.', '.###', '####', '..#.'],
+};
+
+const CARD_WIDTH = 36;
+const CARD_HEIGHT = 50;
+const FELT = 40;
+const FACE = 250;
+const INK = 20;
+
+const blankRegion = (width: number, height = 60): LumaImage => ({ width, height, luma: new Uint8Array(width * height).fill(FELT) });
+
+const paint = (image: LumaImage, x: number, y: number, rows: string[], scale: number) => {
+  rows.forEach((row, gy) => [...row].forEach((cell, gx) => {
+    if (cell !== '#') return;
+    for (let dy = 0; dy < scale; dy++) {
+      for (let dx = 0; dx < scale; dx++) image.luma[(y + gy * scale + dy) * image.width + x + gx * scale + dx] = INK;
+    }
+  }));
+};
+
+// Paints cards like "Ah" at the given x positions
+const region = (cards: Array<[string, number]>, width = 140): LumaImage => {
+  const image = blankRegion(width);
+  for (const [card, x] of cards) {
+    for (let y = 5; y < 5 + CARD_HEIGHT; y++) image.luma.fill(FACE, y * width + x, y * width + x + CARD_WIDTH);
+    paint(image, x + 3, 8, GLYPHS[card[0]], 2);
+    paint(image, x + 3, 20, GLYPHS[card[1]], 2);
+  }
+  return image;
+};
+
+const trained = (): CardTemplateSet => {
+  const { set, errors } = trainTemplates(emptyTemplateSet('PokerStars'), region([['Ah', 10], ['Ks', 60]]), 'Ah Ks');
+  expect(errors).toEqual([]);
+  return set;
+};
+
+describe('findCardBoxes', () => {
+  it('finds separate cards left to right', () => {
+    const boxes = findCardBoxes(region([['Ah', 90], ['Ks', 10], ['7s', 50]]));
+    expect(boxes.map(b => b.x)).toEqual([10, 50, 90]);
+    expect(boxes[0]).toMatchObject({ y: 5, width: CARD_WIDTH, height: CARD_HEIGHT });
+  });
+
+  it('splits touching cards by the card aspect ratio', () => {
+    const boxes = findCardBoxes(region([['Ah', 10], ['Ks', 10 + CARD_WIDTH]]));
+    expect(boxes.map(b => b.x)).toEqual([10, 10 + CARD_WIDTH]);
+  });
+
+  it('ignores an empty region', () => {
+    expect(findCardBoxes(blankRegion(100))).toEqual([]);
+  });
+});
+
+describe('trainTemplates / recognizeCards', () => {
+  it('reads cards made of learnt ranks and suits in any combination', () => {
+    const recognized = recognizeCards(region([['Kh', 10], ['As', 50]]), trained());
+    expect(recognized.map(r => r.card)).toEqual(['Kh', 'As']);
+    expect(recognized[0].confidence).toBeGreaterThan(CARD_RECOGNITION_CONFIG.MIN_MATCH_SCORE);
+  });
+
+  it('leaves cards with an unknown rank unread', () => {
+    expect(recognizeCards(region([['7h', 10]]), trained())).toEqual([{ card: null, confidence: 0 }]);
+  });
+
+  it('rejects labels that do not fit the region', () => {
+    const image = region([['Ah', 10], ['Ks', 60]]);
+    const set = emptyTemplateSet('PokerStars');
+    expect(trainTemplates(set, image, 'Ah').errors).toEqual(['rilevate 2 carte nella regione, indicate 1']);
+    expect(trainTemplates(set, image, 'Ah Kx').errors).toEqual(['carta non valida: "Kx"']);
+    expect(trainTemplates(set, image, 'Ah Kx').set).toBe(set);
+  });
+
+  it('keeps a bounded number of templates per label', () => {
+    let set = emptyTemplateSet('PokerStars');
+    for (let i = 0; i < CARD_RECOGNITION_CONFIG.MAX_TEMPLATES_PER_LABEL + 2; i++) {
+      set = trainTemplates(set, region([['Ah', 10]]), 'Ah').set;
+    }
+    expect(set.ranks).toHaveLength(CARD_RECOGNITION_CONFIG.MAX_TEMPLATES_PER_LABEL);
+  });
+});
+
+describe('crossCheckCards', () => {
+  const read = (...cards: Array<string | null>): RecognizedCard[] =>
+    cards.map(card => ({ card: card as RecognizedCard['card'], confidence: card ? 0.9 : 0 }));
+
+  it('confirms cards read anywhere in the region', () => {
+    expect(crossCheckCards(['Ah', 'Ks'], read('Ks', 'Ah')).map(c => c.status)).toEqual(['confirmed', 'confirmed']);
+  });
+
+  it('flags a card the recogniser read differently', () => {
+    expect(crossCheckCards(['Ah', 'Kd'], read('Ah', 'Ks'))).toEqual([
+      { card: 'Ah', status: 'confirmed' },
+      { card: 'Kd', status: 'mismatch', localCard: 'Ks' },
+    ]);
+  });
+
+  it('stays neutral when the card could not be read', () => {
+    expect(crossCheckCards(['Ah', 'Kd'], read('Ah', null))[1]).toEqual({ card: 'Kd', status: 'unknown' });
+  });
+});
+
+describe('parseCardTemplates', () => {
+  it('round-trips and drops malformed templates', () => {
+    const set = trained();
+    const stored = JSON.parse(serializeCardTemplates([set]));
+    stored[0].ranks.push({ label: 'X', pixels: set.ranks[0].pixels }, { label: 'Q', pixels: [1, 2] });
+    stored.push({ profileName: 'broken' });
+
+    expect(parseCardTemplates(JSON.stringify(stored))).toEqual([set]);
+    expect(parseCardTemplates('not json')).toEqual([]);
+  });
+});
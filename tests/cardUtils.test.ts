@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { validateCardSet } from '../utils/cardUtils.ts';
+
+describe('validateCardSet', () => {
+  it('normalises every field', () => {
+    const result = validateCardSet({ holeCards: ['a♠', '10h'], communityCards: ['kd', '7C', '2 h'], opponentEstimatedCards: ['Q♥️', 'Jh'] });
+
+    expect(result).toEqual({
+      holeCards: ['As', 'Th'],
+      communityCards: ['Kd', '7c', '2h'],
+      opponentEstimatedCards: ['Qh', 'Jh'],
+      errors: [],
+    });
+  });
+
+  it('treats omitted fields as empty', () => {
+    expect(validateCardSet({})).toEqual({ holeCards: [], communityCards: [], opponentEstimatedCards: [], errors: [] });
+  });
+
+  it('reports cards it cannot parse', () => {
+    const result = validateCardSet({ holeCards: ['As', 'Xz'] });
+
+    expect(result.holeCards).toEqual(['As']);
+    expect(result.errors).toEqual(['holeCards: carta non valida "Xz"']);
+  });
+
+  it('reports a card used twice, across fields too', () => {
+    expect(validateCardSet({ holeCards: ['As', 'as'] }).errors).toEqual(['holeCards: carta duplicata As (già presente in holeCards)']);
+    expect(validateCardSet({ holeCards: ['As', 'Ks'], communityCards: ['Qd', 'Ks', '2h'] }).errors)
+      .toEqual(['communityCards: carta duplicata Ks (già presente in holeCards)']);
+    expect(validateCardSet({ holeCards: ['As', 'Ks'], opponentEstimatedCards: ['As', 'Qd'] }).errors)
+      .toEqual(['opponentEstimatedCards: carta duplicata As (già presente in holeCards)']);
+  });
+
+  it('only accepts card counts that can occur at the table', () => {
+    expect(validateCardSet({ holeCards: ['As'] }).errors).toEqual(['holeCards: 1 carte non possibili (ammesse: 0, 2)']);
+    expect(validateCardSet({ holeCards: ['As', 'Ks'], communityCards: ['Qd', '7c'] }).errors)
+      .toEqual(['communityCards: 2 carte non possibili (ammesse: 0, 3, 4, 5)']);
+    expect(validateCardSet({ holeCards: ['As', 'Ks'], communityCards: ['Qd', '7c', '2h', '3h', '4h'] }).errors).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { calculateEquity, createRandom } from '../utils/equityCalculator.ts';
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const first = createRandom(42);
+    const second = createRandom(42);
+    const values = Array.from({ length: 5 }, first);
+
+    expect(Array.from({ length: 5 }, second)).toEqual(values);
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+    expect(createRandom(43)()).not.toBe(values[0]);
+  });
+});
+
+describe('calculateEquity', () => {
+  it('gives AA about 85% against a random hand', () => {
+    const result = calculateEquity(['Ah', 'Ad'], [])!;
+
+    expect(result.method).toBe('monte-carlo');
+    expect(result.equity).toBeGreaterThan(83);
+    expect(result.equity).toBeLessThan(87.5);
+  });
+
+  it('enumerates the turn exactly and simulates earlier streets', () => {
+    const turn = calculateEquity(['Ah', 'Kd'], ['7s', '2c', 'Qh', 'Kc'])!;
+
+    expect(turn.method).toBe('exact');
+    expect(turn.samples).toBe(46 * 990); // Every river times every opponent hand
+    expect(calculateEquity(['Ah', 'Kd'], ['7s', '2c', 'Qh'])!.method).toBe('monte-carlo');
+    // Two random opponents on the turn are past the enumeration limit
+    expect(calculateEquity(['Ah', 'Kd'], ['7s', '2c', 'Qh', 'Kc'], { opponentCount: 2 })!.method).toBe('monte-carlo');
+  });
+
+  it('settles the river against a range without sampling', () => {
+    const board = ['Kc', '7d', '2s', '9h', '3c'];
+
+    expect(calculateEquity(['Ah', 'Ad'], board, { opponentRange: [['Qc', 'Qs']] })).toMatchObject({ equity: 100, win: 100, samples: 1, method: 'exact' });
+    expect(calculateEquity(['Ah', 'Ad'], board, { opponentRange: [['Kd', 'Ks']] })).toMatchObject({ equity: 0, win: 0 });
+  });
+
+  it('splits the pot when the board plays', () => {
+    const result = calculateEquity(['2c', '3d'], ['Ac', 'Kd', 'Qs', 'Jh', 'Tc'], { opponentRange: [['4h', '5h']] })!;
+
+    expect(result).toMatchObject({ equity: 50, win: 0, tie: 100 });
+  });
+
+  it('returns the same numbers for the same cards and seed', () => {
+    const cards: [string[], string[]] = [['9s', '8s'], ['7s', '6d', '2s']];
+    const first = calculateEquity(...cards, { iterations: 2000 });
+
+    expect(calculateEquity(...cards, { iterations: 2000 })).toEqual(first);
+    expect(calculateEquity(...cards, { iterations: 2000, seed: 7 })).toEqual(calculateEquity(...cards, { iterations: 2000, seed: 7 }));
+    expect(calculateEquity(...cards, { iterations: 2000, seed: 7 })).not.toEqual(first);
+  });
+
+  it('rejects cards it cannot evaluate', () => {
+    expect(calculateEquity(['Ah'], [])).toBeNull();
+    expect(calculateEquity(['Ah', 'Kd'], ['7s', '2c'])).toBeNull();
+    expect(calculateEquity(['Ah', 'Ah'], [])).toBeNull();
+    expect(calculateEquity(['Ah', 'Kd'], ['Ah', '2c', '3d'])).toBeNull();
+    expect(calculateEquity(['Ah', 'Xx'], [])).toBeNull();
+    expect(calculateEquity(['Ah', 'Ad'], [], { opponentRange: [['Ah', 'Ks']] })).toBeNull(); // Every combo is blocked
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Test Fakes
+ *
+ * Minimal stand-ins for the browser APIs the live hook touches
+ * (Web Audio, media streams, canvas) and for the live transport, so the
+ * hook can run headless under jsdom with no network.
+ */
+
+import { vi } from 'vitest';
+import type { LiveServerMessage } from '@google/genai';
+import { LiveSession, LiveTransport, LiveTransportCallbacks, LiveSessionConfig } from '../types.ts';
+
+// ============================================
+// WEB AUDIO
+// ============================================
+export class FakeAudioBuffer {
+  readonly duration: number;
+  private readonly channels: Float32Array[];
+
+  constructor(public readonly numberOfChannels: number, public readonly length: number, public readonly sampleRate: number) {
+    this.duration = length / sampleRate;
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+
+  getChannelData(channel: number): Float32Array {
+    return this.channels[channel];
+  }
+}
+
+const fakeNode = () => ({ connect: vi.fn(), disconnect: vi.fn() });
+
+export class FakeAudioContext {
+  static instances: FakeAudioContext[] = [];
+
+  state: AudioContextState = 'running';
+  currentTime = 0;
+  readonly sampleRate: number;
+  readonly destination = fakeNode();
+  readonly audioWorklet = { addModule: vi.fn(async () => {}) };
+  readonly sources: Array<ReturnType<typeof fakeNode> & { buffer: FakeAudioBuffer | null; start: ReturnType<typeof vi.fn>; stop: ReturnType<typeof vi.fn>; onended: (() => void) | null }> = [];
+
+  constructor(options?: { sampleRate?: number }) {
+    this.sampleRate = options?.sampleRate ?? 44100;
+    FakeAudioContext.instances.push(this);
+  }
+
+  createGain() {
+    return { ...fakeNode(), gain: { value: 1 } };
+  }
+
+  createBuffer(channels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(channels, length, sampleRate);
+  }
+
+  createBufferSource() {
+    const source = { ...fakeNode(), buffer: null, start: vi.fn(), stop: vi.fn(), onended: null };
+    this.sources.push(source);
+    return source;
+  }
+
+  createMediaStreamSource() {
+    return fakeNode();
+  }
+
+  createScriptProcessor() {
+    return { ...fakeNode(), onaudioprocess: null };
+  }
+
+  resume = vi.fn(async () => {
+    this.state = 'running';
+  });
+
+  close = vi.fn(async () => {
+    this.state = 'closed';
+  });
+}
+
+export class FakeAudioWorkletNode {
+  static instances: FakeAudioWorkletNode[] = [];
+
+  readonly port: { onmessage: ((event: { data: unknown }) => void) | null } = { onmessage: null };
+  connect = vi.fn();
+  disconnect = vi.fn();
+
+  constructor() {
+    FakeAudioWorkletNode.instances.push(this);
+  }
+}
+
+// ============================================
+// MEDIA STREAMS
+// ============================================
+export class FakeMediaStreamTrack {
+  onended: (() => void) | null = null;
+  stop = vi.fn();
+}
+
+export class FakeMediaStream {
+  readonly tracks = [new FakeMediaStreamTrack()];
+
+  getTracks() {
+    return this.tracks;
+  }
+
+  getVideoTracks() {
+    return this.tracks;
+  }
+}
+
+// ============================================
+// LIVE TRANSPORT
+// ============================================
+export interface FakeSession extends LiveSession {
+  sendRealtimeInput: ReturnType<typeof vi.fn>;
+  sendToolResponse: ReturnType<typeof vi.fn>;
+  close: ReturnType<typeof vi.fn>;
+}
+
+/**
+ * Transport whose sessions are driven by the test: `open()` and `emit()`
+ * play the server side, the session methods record what the hook sent.
+ */
+export class FakeTransport implements LiveTransport {
+  readonly backend = 'mock' as const;
+  connectCalls: LiveSessionConfig[] = [];
+  callbacks: LiveTransportCallbacks | null = null;
+  session: FakeSession | null = null;
+  failWith: Error | null = null;
+
+  connect = async (config: LiveSessionConfig, callbacks: LiveTransportCallbacks): Promise<LiveSession> => {
+    this.connectCalls.push(config);
+    if (this.failWith) throw this.failWith;
+
+    this.callbacks = callbacks;
+    this.session = {
+      sendRealtimeInput: vi.fn(),
+      sendToolResponse: vi.fn(),
+      close: vi.fn(() => callbacks.onclose({ code: 1000, reason: 'closed by client' })),
+    };
+    return this.session;
+  };
+
+  async open(): Promise<void> {
+    await this.callbacks!.onopen();
+  }
+
+  /** Server-side close, as on a network drop */
+  drop(reason = 'network lost'): void {
+    this.callbacks!.onclose({ code: 1006, reason });
+  }
+
+  async emit(message: Partial<LiveServerMessage>): Promise<void> {
+    await this.callbacks!.onmessage(message as LiveServerMessage);
+  }
+
+  /** Result payloads of every tool response sent so far */
+  toolResults(): unknown[] {
+    return this.session!.sendToolResponse.mock.calls.map(([response]) => response.functionResponses[0].response.result);
+  }
+}
+
+// ============================================
+// INSTALL
+// ============================================
+
+/**
+ * Installs the browser fakes on the jsdom globals.
+ */
+export function installBrowserFakes(): void {
+  FakeAudioContext.instances = [];
+  FakeAudioWorkletNode.instances = [];
+
+  vi.stubGlobal('AudioContext', FakeAudioContext);
+  vi.stubGlobal('AudioWorkletNode', FakeAudioWorkletNode);
+
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: {
+      getUserMedia: vi.fn(async () => new FakeMediaStream()),
+      getDisplayMedia: vi.fn(async () => new FakeMediaStream()),
+    },
+  });
+
+  // jsdom has no canvas backend: draw nothing and encode a fixed payload
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+    () => ({ drawImage: vi.fn() }) as unknown as CanvasRenderingContext2D
+  );
+  vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(function (callback: BlobCallback) {
+    callback(new Blob(['frame'], { type: 'image/jpeg' }));
+  });
+}
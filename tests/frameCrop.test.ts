@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { CROP_CONFIG } from '../constants.ts';
+import { getCropArea, getCropOutputSize, sharpenPixels } from '../utils/frameCrop.ts';
+
+describe('getCropArea', () => {
+  it('maps the region to video pixels', () => {
+    expect(getCropArea({ x: 0.4, y: 0.7, width: 0.2, height: 0.2 }, 1920, 1080, 0)).toEqual({ sx: 768, sy: 756, sw: 384, sh: 216 });
+  });
+
+  it('pads the region and clamps it to the frame', () => {
+    expect(getCropArea({ x: 0, y: 0.9, width: 0.5, height: 0.1 }, 1000, 500, 0.05)).toEqual({ sx: 0, sy: 425, sw: 550, sh: 75 });
+  });
+});
+
+describe('getCropOutputSize', () => {
+  it('upscales small crops', () => {
+    expect(getCropOutputSize({ sx: 0, sy: 0, sw: 300, sh: 100 }, 2)).toEqual({ width: 600, height: 200 });
+  });
+
+  it('caps the factor and the output width', () => {
+    expect(getCropOutputSize({ sx: 0, sy: 0, sw: 100, sh: 50 }, 10).width).toBe(100 * CROP_CONFIG.MAX_UPSCALE);
+    expect(getCropOutputSize({ sx: 0, sy: 0, sw: 1000, sh: 500 }, 2, 1500)).toEqual({ width: 1500, height: 750 });
+  });
+
+  it('scales crops wider than the limit down to it', () => {
+    expect(getCropOutputSize({ sx: 0, sy: 0, sw: 2000, sh: 400 }, 2, 1500)).toEqual({ width: 1500, height: 300 });
+    expect(getCropOutputSize({ sx: 0, sy: 0, sw: 3840, sh: 1000 }).width).toBe(CROP_CONFIG.MAX_OUTPUT_WIDTH);
+  });
+});
+
+describe('sharpenPixels', () => {
+  const grey = (values: number[]) => new Uint8ClampedArray(values.flatMap(v => [v, v, v, 255]));
+
+  it('boosts a bright pixel against its neighbours and keeps alpha', () => {
+    const pixels = grey([50, 50, 50, 50, 100, 50, 50, 50, 50]);
+    const result = sharpenPixels(pixels, 3, 3, 0.5);
+    expect(result[4 * 4]).toBe(200); // 3 * 100 - 0.5 * 200
+    expect(result[4 * 4 + 3]).toBe(255);
+    expect(result[0]).toBe(50);
+  });
+
+  it('leaves flat areas unchanged', () => {
+    const pixels = grey(Array(9).fill(80));
+    expect(sharpenPixels(pixels, 3, 3, 1)).toEqual(pixels);
+  });
+});
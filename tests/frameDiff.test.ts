@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { FRAME_DIFF_CONFIG } from '../constants.ts';
+import { FrameSignature, TableRegion } from '../types.ts';
+import { compareSignatures, computeLumaSignature, decideFrameSend } from '../utils/frameDiff.ts';
+
+const WIDTH = 10;
+const HEIGHT = 10;
+
+// Flat grey signature, optionally with a brighter block
+const signature = (grey: number, block?: { x: number; y: number; size: number; grey: number }): FrameSignature => {
+  const luma = new Uint8Array(WIDTH * HEIGHT).fill(grey);
+  if (block) {
+    for (let y = block.y; y < block.y + block.size; y++) {
+      for (let x = block.x; x < block.x + block.size; x++) luma[y * WIDTH + x] = block.grey;
+    }
+  }
+  return { width: WIDTH, height: HEIGHT, luma };
+};
+
+const corner: TableRegion = { id: 'hero', kind: 'HERO_CARDS', rect: { x: 0, y: 0, width: 0.2, height: 0.2 } };
+
+describe('computeLumaSignature', () => {
+  it('weights the channels like BT.601', () => {
+    const pixels = new Uint8ClampedArray([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 255, 255, 255, 255]);
+    expect([...computeLumaSignature(pixels, 2, 2).luma]).toEqual([76, 150, 29, 255]);
+  });
+});
+
+describe('compareSignatures', () => {
+  it('ignores changes below the pixel delta', () => {
+    const diff = compareSignatures(signature(100), signature(100 + FRAME_DIFF_CONFIG.PIXEL_DELTA - 1));
+    expect(diff.changedRatio).toBe(0);
+  });
+
+  it('measures the changed share of the frame and of each region', () => {
+    const diff = compareSignatures(signature(100), signature(100, { x: 0, y: 0, size: 1, grey: 200 }), [corner]);
+    expect(diff.changedRatio).toBeCloseTo(0.01);
+    expect(diff.regionRatio).toBeCloseTo(0.25);
+  });
+
+  it('treats a size change as a full change', () => {
+    const other = { width: 5, height: 5, luma: new Uint8Array(25) };
+    expect(compareSignatures(signature(0), other)).toEqual({ changedRatio: 1, regionRatio: 1 });
+  });
+});
+
+describe('decideFrameSend', () => {
+  const small = signature(100, { x: 0, y: 0, size: 1, grey: 200 });
+
+  it('always sends the first frame', () => {
+    expect(decideFrameSend(null, signature(100), [], 0)).toBe('first');
+  });
+
+  it('skips a small change outside the regions', () => {
+    expect(decideFrameSend(signature(100), small, [], 1000)).toBeNull();
+  });
+
+  it('sends a small change inside a calibrated region', () => {
+    expect(decideFrameSend(signature(100), small, [corner], 1000)).toBe('changed');
+  });
+
+  it('resends an unchanged frame after the keepalive delay', () => {
+    expect(decideFrameSend(signature(100), signature(100), [], FRAME_DIFF_CONFIG.KEEPALIVE_MS)).toBe('keepalive');
+  });
+});
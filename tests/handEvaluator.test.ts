@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateCards, evaluateHand, HAND_CATEGORY, scoreCategory, straightHigh } from '../utils/handEvaluator.ts';
+import { cardToIndex, RANKS } from '../utils/cardUtils.ts';
+import { Card, CardRank } from '../types.ts';
+
+const score = (cards: Card[]) => evaluateCards(cards.map(cardToIndex));
+const mask = (ranks: string) => [...ranks].reduce((bits, rank) => bits | (1 << RANKS.indexOf(rank as CardRank)), 0);
+
+describe('straightHigh', () => {
+  it('finds the top card of the highest straight', () => {
+    expect(straightHigh(mask('TJQKA'))).toBe(12); // Ace
+    expect(straightHigh(mask('456789'))).toBe(7); // Nine
+    expect(straightHigh(mask('2345A'))).toBe(3); // Wheel: five-high, the ace plays low
+    expect(straightHigh(mask('JQKA2'))).toBe(-1); // No wrap-around
+    expect(straightHigh(mask('2346A'))).toBe(-1);
+  });
+});
+
+describe('evaluateCards', () => {
+  it('ranks the wheel as the lowest straight', () => {
+    const wheel = score(['Ah', '2c', '3d', '4s', '5h', 'Kc', 'Kd']);
+    const sixHigh = score(['2c', '3d', '4s', '5h', '6c', 'Kc', 'Kd']);
+
+    expect(scoreCategory(wheel)).toBe(HAND_CATEGORY.STRAIGHT);
+    expect(sixHigh).toBeGreaterThan(wheel);
+    expect(wheel).toBeGreaterThan(score(['Kh', 'Kc', 'Ks', '9d', '2h']));
+  });
+
+  it('ranks the steel wheel as a straight flush', () => {
+    const steelWheel = score(['Ah', '2h', '3h', '4h', '5h', 'Kh', 'Ks']);
+
+    expect(scoreCategory(steelWheel)).toBe(HAND_CATEGORY.STRAIGHT_FLUSH);
+    expect(steelWheel).toBeLessThan(score(['2h', '3h', '4h', '5h', '6h']));
+    expect(steelWheel).toBeGreaterThan(score(['Ac', 'Ad', 'Ah', 'As', 'Kc']));
+  });
+
+  it('lets a flush beat a straight on the same board', () => {
+    const board: Card[] = ['6h', '7h', '8c', '9h', '2d'];
+    const flush = score(['Ah', '3h', ...board]);
+    const straight = score(['Ts', 'Jd', ...board]);
+
+    expect(scoreCategory(flush)).toBe(HAND_CATEGORY.FLUSH);
+    expect(scoreCategory(straight)).toBe(HAND_CATEGORY.STRAIGHT);
+    expect(flush).toBeGreaterThan(straight);
+  });
+
+  it('decides equal pairs on the kicker', () => {
+    const board: Card[] = ['Ac', '9d', '7s', '4h', '2c'];
+
+    expect(score(['Ah', 'Kd', ...board])).toBeGreaterThan(score(['As', 'Qd', ...board]));
+  });
+
+  it('chops when the best five cards only differ by suit or unused cards', () => {
+    const board: Card[] = ['Ac', 'Kd', 'Qs', 'Jh', '9c'];
+
+    expect(score(['Ah', '3d', ...board])).toBe(score(['As', '2h', ...board])); // Kickers play from the board
+    expect(score(['Tc', '2d', ...board])).toBe(score(['Td', '3h', ...board])); // Same straight
+  });
+
+  it('scores a full house from two sets of trips', () => {
+    const full = score(['Kc', 'Kd', 'Ks', '7c', '7d', '7h', '2s']);
+
+    expect(scoreCategory(full)).toBe(HAND_CATEGORY.FULL_HOUSE);
+    expect(full).toBeGreaterThan(score(['Qc', 'Qd', 'Qs', 'Jc', 'Jd', '2h', '3s']));
+  });
+});
+
+describe('evaluateHand', () => {
+  it('needs two hole cards and a flop', () => {
+    expect(evaluateHand(['Ah', 'Kd'], [])).toBeNull();
+    expect(evaluateHand(['Ah'], ['As', '7c', '2d'])).toBeNull();
+  });
+
+  it('describes the hand relative to the board', () => {
+    expect(evaluateHand(['Ah', 'Kd'], ['As', '7c', '2d'])).toMatchObject({ category: 'PAIR', description: 'Top Pair (kicker K)' });
+    expect(evaluateHand(['Qh', 'Qd'], ['Js', '7c', '2d'])?.description).toBe('Overpair (Q)');
+    expect(evaluateHand(['7h', '7d'], ['Js', '7c', '2d'])?.description).toBe('Set di 7');
+    expect(evaluateHand(['Ah', '3h'], ['Kh', '9h', '2h'])?.description).toBe('Nut Flush');
+    expect(evaluateHand(['Ah', '2c'], ['3d', '4s', '5h'])).toMatchObject({ category: 'STRAIGHT', description: 'Scala al 5' });
+  });
+
+  it('returns the best five cards, bigger groups first', () => {
+    expect(evaluateHand(['Kh', 'Kd'], ['Ks', '7c', '7d', '2h', '3s'])?.bestFive).toEqual(['Kh', 'Kd', 'Ks', '7c', '7d']);
+  });
+
+  it('notices when the board plays', () => {
+    expect(evaluateHand(['2c', '3d'], ['Ac', 'Kd', 'Qs', 'Jh', 'Tc'])?.description).toBe('Scala sul board');
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { Card, HandRecord, HandStreet, PokerGameState } from '../types.ts';
+import { exportHandsAsText, formatPokerStarsHand, getMissingData } from '../utils/handHistoryExport.ts';
+import { parseHandHistoryFile } from '../utils/handHistoryImport.ts';
+
+const STARTED_AT = Date.UTC(2026, 0, 15, 20, 30, 5);
+
+const state = (communityCards: Card[], fields: Partial<PokerGameState> = {}): PokerGameState => ({
+  winProbability: 60,
+  suggestedAction: 'CALL',
+  reasoning: '',
+  handStrength: '',
+  holeCards: ['As', 'Kd'],
+  communityCards,
+  ...fields,
+});
+
+const street = (name: HandStreet, index: number, snapshot: PokerGameState) => ({
+  street: name,
+  startedAt: STARTED_AT + index,
+  snapshots: [{ timestamp: STARTED_AT + index, state: snapshot }],
+});
+
+const board: Card[] = ['Kc', '7d', '2s', '9h', '3c'];
+
+const riverHand: HandRecord = {
+  id: 'hand-1',
+  startedAt: STARTED_AT,
+  updatedAt: STARTED_AT + 3,
+  endedAt: STARTED_AT + 3,
+  holeCards: ['As', 'Kd'],
+  communityCards: board,
+  streets: [
+    street('PREFLOP', 0, state([], { suggestedAction: 'RAISE', reasoning: 'AK in apertura', heroStack: 100, bigBlind: 1, potSize: 1.5 })),
+    street('FLOP', 1, state(board.slice(0, 3), { suggestedAction: 'RAISE', reasoning: 'Top pair', potSize: 6 })),
+    street('TURN', 2, state(board.slice(0, 4), { potSize: 14 })),
+    street('RIVER', 3, state(board, { suggestedAction: 'CHECK', potSize: 14.5 })),
+  ],
+};
+
+describe('formatPokerStarsHand', () => {
+  it('writes the observed streets, board and advice, marking the rest unknown', () => {
+    expect(formatPokerStarsHand(riverHand, { heroName: 'Hero', currency: '$' })).toBe([
+      "PokerStars Hand #1768509005000: Hold'em No Limit ($0.50/$1) - 2026/01/15 20:30:05 UTC",
+      "Table 'PokerPro' Seat [unknown] is the button",
+      'Seat [unknown]: Hero ($100 in chips)',
+      '[unknown] Other seats not recorded',
+      '*** HOLE CARDS ***',
+      'Dealt to Hero [As Kd]',
+      '[unknown] Actions not recorded',
+      '[PokerPro advice] RAISE - AK in apertura',
+      '*** FLOP *** [Kc 7d 2s]',
+      '[unknown] Actions not recorded',
+      '[PokerPro advice] RAISE - Top pair',
+      '*** TURN *** [Kc 7d 2s] [9h]',
+      '[unknown] Actions not recorded',
+      '[PokerPro advice] CALL',
+      '*** RIVER *** [Kc 7d 2s 9h] [3c]',
+      '[unknown] Actions not recorded',
+      '[PokerPro advice] CHECK',
+      '*** SUMMARY ***',
+      'Total pot $14.50 | Rake [unknown]',
+      'Board [Kc 7d 2s 9h 3c]',
+      'Seat [unknown]: Hero [As Kd] - result [unknown]',
+    ].join('\n'));
+  });
+
+  it('marks stakes, stack and pot unknown when they were never seen', () => {
+    const preflop: HandRecord = { ...riverHand, communityCards: [], streets: [street('PREFLOP', 0, state([]))] };
+    const text = formatPokerStarsHand(preflop, { heroName: 'Hero', tableName: 'Tavolo 1' });
+
+    expect(text).toContain("Hold'em No Limit (stakes [unknown])");
+    expect(text).toContain("Table 'Tavolo 1' Seat [unknown] is the button");
+    expect(text).toContain('Seat [unknown]: Hero ([unknown] in chips)');
+    expect(text).toContain('Total pot [unknown] | Rake [unknown]');
+    expect(text).toContain('Board []');
+    expect(text).not.toContain('*** FLOP ***');
+    expect(getMissingData(preflop, { heroName: 'Hero' })).toEqual(['heroActions', 'opponentActions', 'seats', 'showdown', 'stakes', 'heroStack', 'potSize', 'runout']);
+  });
+});
+
+describe('exportHandsAsText', () => {
+  it('reads back hero, board and streets through the PokerStars importer', () => {
+    const flopHand: HandRecord = {
+      ...riverHand,
+      id: 'hand-2',
+      startedAt: STARTED_AT + 60000,
+      holeCards: ['Qh', 'Qd'],
+      communityCards: ['Jc', '8c', '4d'],
+      streets: [
+        street('PREFLOP', 0, state([], { holeCards: ['Qh', 'Qd'], bigBlind: 1 })),
+        street('FLOP', 1, state(['Jc', '8c', '4d'], { holeCards: ['Qh', 'Qd'] })),
+      ],
+    };
+
+    const imported = parseHandHistoryFile(exportHandsAsText([riverHand, flopHand], { heroName: 'Hero' }));
+
+    expect(imported.map(h => h.startedAt)).toEqual([riverHand.startedAt, flopHand.startedAt]);
+    expect(imported.map(h => h.holeCards)).toEqual([['As', 'Kd'], ['Qh', 'Qd']]);
+    expect(imported.map(h => h.communityCards)).toEqual([board, ['Jc', '8c', '4d']]);
+    expect(imported[0].streets.map(s => [s.street, s.snapshots[0].state.communityCards])).toEqual([
+      ['PREFLOP', []],
+      ['FLOP', board.slice(0, 3)],
+      ['TURN', board.slice(0, 4)],
+      ['RIVER', board],
+    ]);
+    expect(imported[0].streets[0].snapshots[0].state.bigBlind).toBe(1);
+    // Advice and unknown markers are notes, not actions
+    expect(imported[0].streets.every(s => s.snapshots[0].state.reasoning === 'Nessuna azione')).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Card, HandRecord, PokerGameState } from '../types.ts';
+import { exportHandsAsJson } from '../utils/handHistoryExport.ts';
+import { parseHandHistoryFile } from '../utils/handHistoryImport.ts';
+
+const state = (communityCards: Card[]): PokerGameState => ({
+  winProbability: 60,
+  suggestedAction: 'CALL',
+  reasoning: '',
+  handStrength: '',
+  holeCards: ['As', 'Kd'],
+  communityCards,
+});
+
+const hand = (id: string, startedAt: number): HandRecord => ({
+  id,
+  startedAt,
+  updatedAt: startedAt + 1,
+  endedAt: startedAt + 1,
+  holeCards: ['As', 'Kd'],
+  communityCards: ['2c', '7d', '9s'],
+  streets: [
+    { street: 'PREFLOP', startedAt, snapshots: [{ timestamp: startedAt, state: state([]) }] },
+    { street: 'FLOP', startedAt: startedAt + 1, snapshots: [{ timestamp: startedAt + 1, state: state(['2c', '7d', '9s']) }] },
+  ],
+});
+
+const exportFile = (hands: HandRecord[]) => exportHandsAsJson(hands, { heroName: 'Hero' });
+
+describe('parseHandHistoryFile (app JSON)', () => {
+  it('reads back its own export in chronological order', () => {
+    const hands = parseHandHistoryFile(exportFile([hand('b', 2000), hand('a', 1000)]));
+    expect(hands).toEqual([hand('a', 1000), hand('b', 2000)]);
+  });
+
+  it('drops hands with a street that cannot be replayed', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const payload = JSON.parse(exportFile([hand('ok', 1000)]));
+    const broken = [
+      { ...hand('empty', 2000), streets: [{ street: 'PREFLOP', startedAt: 2000, snapshots: [] }] },
+      { ...hand('street', 3000), streets: [{ ...hand('street', 3000).streets[0], street: 'SHOWDOWN' }] },
+      { ...hand('cards', 4000), streets: [{ street: 'PREFLOP', startedAt: 4000, snapshots: [{ timestamp: 4000, state: { holeCards: ['Xx'], communityCards: [] } }] }] },
+    ];
+    payload.hands.push(...broken);
+
+    expect(parseHandHistoryFile(JSON.stringify(payload)).map(h => h.id)).toEqual(['ok']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('3 mani non valide'));
+  });
+
+  it('rejects a file without any valid hand', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const payload = JSON.parse(exportFile([]));
+    payload.hands = [{ id: 'x', startedAt: 1, holeCards: [], communityCards: [], streets: [{ street: 'PREFLOP', snapshots: [] }] }];
+    expect(() => parseHandHistoryFile(JSON.stringify(payload))).toThrow('Nessuna mano valida');
+    expect(() => parseHandHistoryFile('{ "schema": "other" }')).toThrow('Schema JSON non riconosciuto');
+  });
+});
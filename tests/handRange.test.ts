@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  expandClass,
+  gridHand,
+  HAND_CLASSES,
+  handClassOf,
+  parseRange,
+  parseRangeGroups,
+  rangeToCombos,
+  resolveStateRange,
+  topPercentRange,
+  TOTAL_COMBOS,
+} from '../utils/handRange.ts';
+
+const hands = (text: string) => Object.keys(parseRange(text).range).sort();
+
+describe('hand classes', () => {
+  it('lays out the 13x13 grid with pairs on the diagonal', () => {
+    expect([gridHand(0, 0), gridHand(0, 1), gridHand(1, 0), gridHand(12, 12), gridHand(11, 12)]).toEqual(['AA', 'AKs', 'AKo', '22', '32s']);
+    expect(new Set(HAND_CLASSES).size).toBe(169);
+  });
+
+  it('expands classes to their combos', () => {
+    expect(expandClass('QQ')).toHaveLength(6);
+    expect(expandClass('AKs')).toEqual([['Ac', 'Kc'], ['Ad', 'Kd'], ['Ah', 'Kh'], ['As', 'Ks']]);
+    expect(expandClass('AKo')).toHaveLength(12);
+    expect(HAND_CLASSES.reduce((sum, hand) => sum + expandClass(hand).length, 0)).toBe(TOTAL_COMBOS);
+  });
+
+  it('names the class of two hole cards', () => {
+    expect(handClassOf(['Kh', 'Ah'])).toBe('AKs');
+    expect(handClassOf(['7c', '7d'])).toBe('77');
+    expect(handClassOf(['2s', 'Td'])).toBe('T2o');
+    expect(handClassOf(['As'])).toBeNull();
+  });
+});
+
+describe('parseRange', () => {
+  it('expands pairs, plus and dash notation', () => {
+    expect(hands('QQ+')).toEqual(['AA', 'KK', 'QQ']);
+    expect(hands('22-55')).toEqual(['22', '33', '44', '55']);
+    expect(hands('ATs+')).toEqual(['AJs', 'AKs', 'AQs', 'ATs']);
+    expect(hands('A2s-A4s')).toEqual(['A2s', 'A3s', 'A4s']);
+    expect(hands('KQ')).toEqual(['KQo', 'KQs']);
+    expect(hands('10Js')).toEqual(['JTs']);
+  });
+
+  it('counts weighted combos, keeping the highest weight of overlapping hands', () => {
+    const parsed = parseRange('QQ+, AKs, ATs+:0.5, 22-55');
+    expect(parsed.range.AKs).toBe(1);
+    expect(parsed.range.AQs).toBe(0.5);
+    expect(parsed.combos).toBe(52);
+    expect(parsed.percent).toBe(3.9);
+    expect(parsed.unparsed).toEqual([]);
+  });
+
+  it('ranks percentage shorthands from the strongest hands', () => {
+    expect(topPercentRange(0)).toEqual([]);
+    expect(topPercentRange(1)).toEqual(['AA', 'KK', 'QQ']);
+    const top10 = parseRange('top 10%');
+    expect(top10.percent).toBeGreaterThanOrEqual(10);
+    expect(top10.percent).toBeLessThan(11);
+    expect(top10.range).toMatchObject({ AA: 1, AKs: 1, JJ: 1 });
+    expect(top10.range['72o']).toBeUndefined();
+    expect(parseRange('100%').combos).toBe(TOTAL_COMBOS);
+  });
+
+  it('collects free text and invalid tokens instead of failing', () => {
+    const parsed = parseRange('Top 10%, high pairs, AAs, AK:2');
+    expect(parsed.unparsed).toEqual(['high', 'pairs', 'AAs', 'AK:2']);
+    expect(parsed.combos).toBeGreaterThan(0);
+  });
+});
+
+describe('structured ranges', () => {
+  it('merges weighted groups', () => {
+    const parsed = parseRangeGroups([{ hands: 'QQ+, AKs' }, { hands: 'JJ, AKs', weight: 0.5 }]);
+    expect(parsed.range).toEqual({ QQ: 1, KK: 1, AA: 1, AKs: 1, JJ: 0.5 });
+    expect(parsed.combos).toBe(25);
+  });
+
+  it('prefers the structured range over the free text and drops empty ranges', () => {
+    expect(resolveStateRange([{ hands: 'AA' }], 'KK')?.range).toEqual({ AA: 1 });
+    expect(resolveStateRange(undefined, 'KK, tight')?.range).toEqual({ KK: 1 });
+    expect(resolveStateRange(undefined, 'tight aggressive')).toBeNull();
+    expect(resolveStateRange([], undefined)).toBeNull();
+  });
+
+  it('removes combos blocked by known cards', () => {
+    const combos = rangeToCombos({ AA: 1, AKs: 0.5 }, ['As', 'Kh']);
+    expect(combos.filter(c => c.weight === 1)).toHaveLength(3);
+    expect(combos.filter(c => c.weight === 0.5).map(c => c.cards)).toEqual([['Ac', 'Kc'], ['Ad', 'Kd']]);
+  });
+});
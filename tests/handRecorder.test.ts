@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { Card, PokerGameState } from '../types.ts';
+import { recordSnapshot } from '../utils/handRecorder.ts';
+
+const state = (holeCards: Card[], communityCards: Card[] = []): PokerGameState => ({
+  winProbability: 50,
+  suggestedAction: 'CALL',
+  reasoning: '',
+  handStrength: '',
+  holeCards,
+  communityCards,
+});
+
+describe('recordSnapshot', () => {
+  it('splits hands on new hole cards and streets on the board', () => {
+    const first = recordSnapshot(null, state(['As', 'Kd']), 1000).current!;
+    const flop = recordSnapshot(first, state(['As', 'Kd'], ['2c', '7d', '9s']), 2000).current!;
+    expect(flop.streets.map(s => s.street)).toEqual(['PREFLOP', 'FLOP']);
+
+    const { current, finished } = recordSnapshot(flop, state(['Qh', 'Qc']), 3000);
+    expect(finished).toMatchObject({ id: first.id, endedAt: 3000 });
+    expect(current!.startedAt).toBe(3000);
+  });
+
+  it('gives hands started in the same millisecond different ids', () => {
+    const first = recordSnapshot(null, state(['As', 'Kd']), 1000).current!;
+    const { current, finished } = recordSnapshot(first, state(['Qh', 'Qc']), 1000);
+    expect(current!.id).not.toBe(finished!.id);
+    expect(recordSnapshot(null, state(['As', 'Kd']), 1000, 'T2').current!.id).toContain('T2');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { PokerGameState, TablePlayer, TournamentSettings } from '../types.ts';
+import {
+  DEFAULT_TOURNAMENT_SETTINGS,
+  analyzeTournament,
+  calculateIcm,
+  parseAmounts,
+  parseTournamentSettings,
+  serializeTournamentSettings,
+} from '../utils/icm.ts';
+
+const settings = (overrides: Partial<TournamentSettings> = {}): TournamentSettings => ({
+  ...DEFAULT_TOURNAMENT_SETTINGS,
+  enabled: true,
+  ...overrides,
+});
+
+// Hero (seat 1, 2000 chips) facing a 5000 shove from seat 2; seat 3 (3000) folded
+const facingShove = (players: Partial<TablePlayer>[] = []): PokerGameState => ({
+  winProbability: 50,
+  suggestedAction: 'CALL',
+  reasoning: '',
+  handStrength: '',
+  holeCards: ['As', 'Qd'],
+  communityCards: [],
+  heroSeat: 1,
+  potSize: 5000,
+  amountToCall: 5000,
+  players: [
+    { seat: 1, stack: 2000, currentBet: 0, inHand: true },
+    { seat: 2, stack: 0, currentBet: 5000, inHand: true },
+    { seat: 3, stack: 3000, currentBet: 0, inHand: false },
+    ...players,
+  ] as TablePlayer[],
+});
+
+describe('calculateIcm', () => {
+  it('follows Malmuth-Harville and pays out the whole prize pool', () => {
+    const equities = calculateIcm([5000, 3000, 2000], [50, 30, 20])!;
+    expect(equities.map(ev => Number(ev.toFixed(2)))).toEqual([38.39, 32.75, 28.86]);
+    expect(equities.reduce((sum, ev) => sum + ev, 0)).toBeCloseTo(100);
+    expect(calculateIcm([1000, 1000], [65, 35])).toEqual([50, 50]);
+  });
+
+  it('gives busted players the last places and refuses too many players', () => {
+    expect(calculateIcm([7000, 0, 3000], [50, 30, 20])![1]).toBe(20);
+    expect(calculateIcm(new Array(13).fill(1000), [50, 30, 20])).toBeNull();
+  });
+});
+
+describe('analyzeTournament', () => {
+  it('needs more than chip-EV equity to call an all-in', () => {
+    const analysis = analyzeTournament(settings(), facingShove())!;
+    expect(analysis).toMatchObject({ playerCount: 3, prizePool: 100, heroChipShare: 20 });
+    expect(analysis.call!.chipRequiredEquity).toBe(50); // 2000 to win 4000 (3000 returned)
+    expect(analysis.call!.loseEv).toBe(20);
+    expect(analysis.call!.requiredEquity).toBeGreaterThan(50);
+    expect(analysis.call!.riskPremium).toBeCloseTo(analysis.call!.requiredEquity - 50);
+  });
+
+  it('takes the field from the typed-in stacks, the villain being the closest one', () => {
+    const analysis = analyzeTournament(settings({ stackSource: 'MANUAL', manualStacks: [2000, 5000, 3000, 4000] }), facingShove())!;
+    expect(analysis.playerCount).toBe(4);
+    expect(analysis.call!.foldEv).toBeCloseTo(calculateIcm([2000, 5000, 3000, 4000], [50, 30, 20])![0]);
+  });
+
+  it("bases Hero's outcomes on the typed-in stack", () => {
+    // Table says 2000, but Hero typed 1500: every outcome starts from 1500
+    const { call } = analyzeTournament(settings({ stackSource: 'MANUAL', manualStacks: [1500, 5000, 3000] }), facingShove())!;
+    expect(call!.chipRequiredEquity).toBe(50); // 1500 to win 3000 (3500 returned)
+    expect(call!.winEv).toBeCloseTo(calculateIcm([3000, 3500, 3000], [50, 30, 20])![0]);
+    expect(call!.loseEv).toBe(20);
+  });
+
+  it('skips the call when chips are left behind or more players are in', () => {
+    const deep = facingShove();
+    deep.players![0].stack = 20000;
+    deep.players![1].stack = 10000;
+    expect(analyzeTournament(settings(), deep)!.call).toBeNull();
+    expect(analyzeTournament(settings(), facingShove([{ seat: 4, stack: 4000, currentBet: 0, inHand: true }]))!.call).toBeNull();
+  });
+
+  it('is off when disabled or without Hero', () => {
+    expect(analyzeTournament(settings({ enabled: false }), facingShove())).toBeNull();
+    expect(analyzeTournament(settings(), { ...facingShove(), heroSeat: undefined })).toBeNull();
+  });
+});
+
+describe('settings', () => {
+  it('parse amount lists and fall back field by field', () => {
+    expect(parseAmounts('50, 30;20 x -5')).toEqual([50, 30, 20]);
+    expect(parseTournamentSettings('{"enabled": true, "payouts": "50"}')).toEqual({ ...DEFAULT_TOURNAMENT_SETTINGS, enabled: true });
+    expect(parseTournamentSettings('{ broken')).toEqual(DEFAULT_TOURNAMENT_SETTINGS);
+    const custom = settings({ payouts: [65, 35], stackSource: 'MANUAL', manualStacks: [1500, 2500] });
+    expect(parseTournamentSettings(serializeTournamentSettings(custom))).toEqual(custom);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { Card, HandRecord, PokerGameState } from '../types.ts';
+import { LOCAL_TOOL_DECLARATIONS, parseCombo, runLocalTool } from '../utils/localTools.ts';
+
+const state = (overrides: Partial<PokerGameState>): PokerGameState => ({
+  winProbability: 50,
+  suggestedAction: 'CHECK',
+  reasoning: '',
+  handStrength: '',
+  holeCards: ['As', 'Ks'],
+  communityCards: [],
+  ...overrides,
+});
+
+// One hand per entry: the states are the last snapshot of each street, preflop first
+const hand = (startedAt: number, states: Array<Partial<PokerGameState>>): HandRecord => {
+  const streets = (['PREFLOP', 'FLOP', 'TURN', 'RIVER'] as const).slice(0, states.length).map((street, i) => ({
+    street,
+    startedAt: startedAt + i,
+    snapshots: [{ timestamp: startedAt + i, state: state(states[i]) }],
+  }));
+  const last = streets[streets.length - 1].snapshots[0].state;
+  return { id: `hand-${startedAt}`, startedAt, updatedAt: startedAt, endedAt: null, holeCards: last.holeCards, communityCards: last.communityCards, streets };
+};
+
+const run = (name: string, args: unknown, hands: HandRecord[] = []) => runLocalTool(name, args, { hands });
+
+describe('parseCombo', () => {
+  it('splits two adjacent cards in any supported notation', () => {
+    expect(parseCombo('QcQs')).toEqual(['Qc', 'Qs']);
+    expect(parseCombo('10h9h')).toEqual(['Th', '9h']);
+    expect(parseCombo('ah kd')).toEqual(['Ah', 'Kd']);
+    expect(parseCombo('QcQc')).toBeNull();
+    expect(parseCombo('QQ')).toBeNull();
+  });
+});
+
+describe('runLocalTool', () => {
+  it('declares every registered tool', () => {
+    expect(LOCAL_TOOL_DECLARATIONS.map(d => d.name)).toEqual(['calculateEquity', 'evaluateHand', 'getRecentHands', 'getOpponentStats']);
+  });
+
+  it('returns null for names it does not know', () => {
+    expect(run('updatePokerState', {})).toBeNull();
+    expect(run('toString', {})).toBeNull();
+  });
+
+  it('computes equity against a combo range', () => {
+    const result = run('calculateEquity', {
+      holeCards: ['Ah', 'Ad'], communityCards: ['2c', '7d', '9s', 'Jh', '3c'], opponentRange: ['KcKs'],
+    });
+
+    expect(result).toEqual({ success: true, result: expect.objectContaining({ equity: 100, method: 'exact' }) });
+  });
+
+  it('reports invalid combos and missing required fields', () => {
+    expect(run('calculateEquity', { holeCards: ['Ah', 'Ad'], opponentRange: ['KK'] }))
+      .toEqual({ success: false, errors: ['opponentRange: combo non valide "KK"'] });
+    expect(run('calculateEquity', {}))
+      .toEqual({ success: false, errors: ['holeCards: campo obbligatorio mancante'] });
+  });
+
+  it('evaluates the best hand and explains when it cannot', () => {
+    const result = run('evaluateHand', { holeCards: ['Ah', 'Kd'], communityCards: ['As', '7c', '2d'] });
+    expect(result).toEqual({ success: true, result: expect.objectContaining({ category: 'PAIR', description: 'Top Pair (kicker K)' }) });
+
+    expect(run('evaluateHand', { holeCards: ['Ah', 'Kd'], communityCards: ['As'] })!.success).toBe(false);
+  });
+
+  it('returns the latest hands, newest first', () => {
+    const hands = [hand(1000, [{ suggestedAction: 'FOLD' }]), hand(3000, [{}, { communityCards: ['Kd', '7c', '2h'], potSize: 6 }]), hand(2000, [{}])];
+    const result = run('getRecentHands', { count: 2 }, hands) as { success: true; result: { hands: Array<{ id: string; streets: unknown[] }> } };
+
+    expect(result.result.hands.map(h => h.id)).toEqual(['hand-3000', 'hand-2000']);
+    expect(result.result.hands[0].streets).toEqual([
+      { street: 'PREFLOP', suggestedAction: 'CHECK', potSize: undefined, amountToCall: undefined },
+      { street: 'FLOP', suggestedAction: 'CHECK', potSize: 6, amountToCall: undefined },
+    ]);
+  });
+
+  it('aggregates opponent tendencies from the hand history', () => {
+    const flop: Card[] = ['Kd', '7c', '2h'];
+    const hands = [
+      hand(1000, [{}, { communityCards: flop, potSize: 9, amountToCall: 3 }]),
+      hand(2000, [{}, { communityCards: flop, potSize: 6, amountToCall: 0 }]),
+      hand(3000, [{ opponentRange: 'Top 10%', opponentEstimatedCards: ['Qc', 'Qs'] }]),
+      hand(4000, [{}, { communityCards: flop, potSize: 12, amountToCall: 6 }]),
+    ];
+    const { result } = run('getOpponentStats', {}, hands) as { success: true; result: Record<string, unknown> };
+
+    expect(result).toMatchObject({
+      handsAnalyzed: 4,
+      streetReachedPct: { PREFLOP: 100, FLOP: 75, TURN: 0, RIVER: 0 },
+      facedBetPct: { PREFLOP: 0, FLOP: 66.7, TURN: null, RIVER: null },
+      avgBetToPot: { PREFLOP: null, FLOP: 0.75, TURN: null, RIVER: null },
+      recentRanges: ['Top 10%'],
+      estimatedHands: [['Qc', 'Qs']],
+    });
+
+    const lastTwo = run('getOpponentStats', { lastHands: 2 }, hands) as { success: true; result: { handsAnalyzed: number } };
+    expect(lastTwo.result.handsAnalyzed).toBe(2);
+  });
+});
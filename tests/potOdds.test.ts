@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePotMath, formatPotOdds } from '../utils/potOdds.ts';
+
+describe('calculatePotMath', () => {
+  it('turns the bet to call into pot odds and required equity', () => {
+    const math = calculatePotMath({ potSize: 150, amountToCall: 50 })!;
+
+    expect(math.potOdds).toBe(3);
+    expect(math.requiredEquity).toBe(25);
+  });
+
+  it('needs a third of the final pot to call a pot-sized bet', () => {
+    // 100 in the middle, villain bets 100: hero calls 100 into 200
+    expect(calculatePotMath({ potSize: 200, amountToCall: 100 })!.requiredEquity).toBeCloseTo(100 / 3);
+  });
+
+  it('measures SPR and the effective stack in big blinds', () => {
+    const math = calculatePotMath({ potSize: 20, effectiveStack: 180, heroStack: 500, bigBlind: 2 })!;
+
+    expect(math.spr).toBe(9);
+    expect(math.effectiveStackBb).toBe(90);
+  });
+
+  it("falls back to hero's stack without an effective stack", () => {
+    const math = calculatePotMath({ potSize: 20, heroStack: 60, bigBlind: 2 })!;
+
+    expect(math.spr).toBe(3);
+    expect(math.effectiveStackBb).toBe(30);
+  });
+
+  it('leaves out what the amounts cannot tell', () => {
+    const math = calculatePotMath({ potSize: 20, amountToCall: 0, bigBlind: 0, heroStack: 100 })!;
+
+    expect(math.potOdds).toBeNull();
+    expect(math.requiredEquity).toBeNull();
+    expect(math.effectiveStackBb).toBeNull();
+    expect(calculatePotMath({ potSize: 20 })).toMatchObject({ potOdds: null, requiredEquity: null, spr: null, effectiveStackBb: null });
+    expect(calculatePotMath({ potSize: 20, amountToCall: -5, heroStack: NaN })).toMatchObject({ potOdds: null, spr: null });
+  });
+
+  it('needs a pot', () => {
+    expect(calculatePotMath({})).toBeNull();
+    expect(calculatePotMath({ potSize: 0, amountToCall: 10 })).toBeNull();
+    expect(calculatePotMath({ potSize: -10, amountToCall: 10 })).toBeNull();
+  });
+
+  it('lists the fold percentage each bet size needs to break even', () => {
+    const folds = calculatePotMath({ potSize: 10 })!.breakEvenFolds;
+
+    expect(folds.find(f => f.betFraction === 1)?.foldPct).toBe(50);
+    expect(folds.find(f => f.betFraction === 0.5)?.foldPct).toBeCloseTo(100 / 3);
+  });
+});
+
+describe('formatPotOdds', () => {
+  it('rounds to one decimal', () => {
+    expect(formatPotOdds(3)).toBe('3:1');
+    expect(formatPotOdds(2.46)).toBe('2.5:1');
+  });
+});
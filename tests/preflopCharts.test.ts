@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { PokerGameState, PreflopChartSet, TablePlayer } from '../types.ts';
+import {
+  DEFAULT_CHART_SET,
+  findChart,
+  getPreflopAdvice,
+  loadChartSet,
+  parseChartSet,
+  serializeChartSet,
+  validateChartSet,
+} from '../utils/preflopCharts.ts';
+import { parseRange } from '../utils/handRange.ts';
+
+// 6-max, hero on the button (seat 4)
+const seats = (actions: Record<number, TablePlayer['lastAction']> = {}): TablePlayer[] =>
+  [1, 2, 3, 4, 5, 6].map(seat => ({ seat, inHand: true, lastAction: actions[seat] }));
+
+const preflop = (overrides: Partial<PokerGameState>): PokerGameState => ({
+  winProbability: 50,
+  suggestedAction: 'RAISE',
+  reasoning: '',
+  handStrength: '',
+  holeCards: ['As', 'Kd'],
+  communityCards: [],
+  heroSeat: 4,
+  dealerSeat: 4,
+  players: seats(),
+  ...overrides,
+});
+
+describe('default charts', () => {
+  it('are valid notation and round-trip as JSON', () => {
+    for (const chart of DEFAULT_CHART_SET.charts) {
+      expect(parseRange(chart.raise).unparsed).toEqual([]);
+      expect(parseRange(chart.call ?? '').unparsed).toEqual([]);
+    }
+    expect(parseChartSet(serializeChartSet(DEFAULT_CHART_SET))).toEqual({ chartSet: DEFAULT_CHART_SET });
+  });
+
+  it('pick the chart for the stack depth', () => {
+    expect(findChart(DEFAULT_CHART_SET, 'CO', undefined, 100)?.minStackBb).toBe(40);
+    expect(findChart(DEFAULT_CHART_SET, 'CO', undefined, 15)?.minStackBb).toBe(0);
+    expect(findChart(DEFAULT_CHART_SET, 'BB', undefined, 100)).toBeNull();
+  });
+});
+
+describe('getPreflopAdvice', () => {
+  it('flags a fold of AKo on the button', () => {
+    expect(getPreflopAdvice(DEFAULT_CHART_SET, preflop({ suggestedAction: 'FOLD' }))).toEqual({
+      action: 'RAISE', frequency: 1, hand: 'AKo', position: 'BTN', vs: undefined, stackBb: 100, deviation: true,
+    });
+    expect(getPreflopAdvice(DEFAULT_CHART_SET, preflop({ suggestedAction: 'ALL-IN' }))?.deviation).toBe(false);
+  });
+
+  it('uses the call-vs-open chart against a single raiser', () => {
+    // Seat 3 is the CO
+    const advice = getPreflopAdvice(DEFAULT_CHART_SET, preflop({ holeCards: ['Ts', 'Td'], players: seats({ 3: 'RAISE' }), suggestedAction: 'CALL' }));
+    expect(advice).toMatchObject({ action: 'CALL', hand: 'TT', vs: 'CO', deviation: false });
+  });
+
+  it('accepts every action of a mixed hand', () => {
+    const chartSet: PreflopChartSet = { name: 'Test', charts: [{ positions: ['BTN'], minStackBb: 0, raise: 'AKo:0.5' }] };
+    const advice = getPreflopAdvice(chartSet, preflop({ suggestedAction: 'FOLD' }));
+    expect(advice).toMatchObject({ action: 'RAISE', frequency: 0.5, deviation: false });
+  });
+
+  it('gives no advice after the flop or in spots the charts do not cover', () => {
+    expect(getPreflopAdvice(DEFAULT_CHART_SET, preflop({ communityCards: ['2c', '7d', '9s'] }))).toBeNull();
+    expect(getPreflopAdvice(DEFAULT_CHART_SET, preflop({ players: seats({ 2: 'CALL' }) }))).toBeNull(); // Limped pot
+    expect(getPreflopAdvice(DEFAULT_CHART_SET, preflop({ players: seats({ 2: 'RAISE', 3: 'RAISE' }) }))).toBeNull();
+    expect(getPreflopAdvice(DEFAULT_CHART_SET, preflop({ heroSeat: undefined }))).toBeNull();
+  });
+});
+
+describe('user charts', () => {
+  it('report every invalid field', () => {
+    const result = validateChartSet({
+      name: 'Mie',
+      charts: [
+        { positions: ['BTN', 'BUTTON'], minStackBb: 20, raise: 'AKs, AXs' },
+        { positions: [], vs: ['CO'], minStackBb: -1, raise: 'QQ+', call: 7 },
+      ],
+    });
+    expect(result).toEqual({
+      errors: [
+        'charts[0].positions: posizione sconosciuta "BUTTON"',
+        'charts[0].raise: notazione non valida "AXs"',
+        'charts[1].positions: attesa una lista di posizioni',
+        'charts[1].minStackBb: atteso un numero ≥ 0',
+        'charts[1].call: atteso un range in notazione standard',
+      ],
+    });
+    expect(parseChartSet('{ "name": ')).toEqual({ errors: [expect.stringContaining('JSON non valido')] });
+  });
+
+  it('fall back to the defaults when the stored charts are unusable', () => {
+    expect(loadChartSet(null)).toBe(DEFAULT_CHART_SET);
+    expect(loadChartSet('{"name": "x", "charts": []}')).toBe(DEFAULT_CHART_SET);
+    const custom: PreflopChartSet = { name: 'Mie', charts: [{ positions: ['SB'], vs: ['BTN'], minStackBb: 0, raise: 'TT+' }] };
+    expect(loadChartSet(serializeChartSet(custom))).toEqual(custom);
+  });
+});
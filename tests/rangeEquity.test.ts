@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { calculateRangeEquity } from '../utils/rangeEquity.ts';
+import { Card } from '../types.ts';
+
+const river: Card[] = ['Kc', '7d', '2s', '9h', '3c'];
+
+describe('calculateRangeEquity', () => {
+  it('breaks the range down into the classes hero beats and loses to', () => {
+    const result = calculateRangeEquity({ heroCards: ['Ah', 'Ad'], villainRange: { KK: 1, QQ: 1 }, board: river })!;
+
+    expect(result.method).toBe('exact');
+    expect(result.combos).toBe(9); // Kc on the board blocks three KK combos
+    expect(result.classes).toEqual([
+      { hand: 'QQ', combos: 6, win: 100, tie: 0, lose: 0 },
+      { hand: 'KK', combos: 3, win: 0, tie: 0, lose: 100 },
+    ]);
+    expect(result.equity).toBeCloseTo(200 / 3);
+  });
+
+  it('weights the combos and splits chopped pots', () => {
+    const weighted = calculateRangeEquity({ heroCards: ['Ah', 'Ad'], villainRange: { KK: 1, QQ: 0.5 }, board: river })!;
+    expect(weighted.win).toBeCloseTo(50);
+
+    const chop = calculateRangeEquity({ heroCards: ['2c', '3c'], villainRange: { '44': 1 }, board: ['Ts', 'Js', 'Qd', 'Kc', 'Ah'] })!;
+    expect(chop).toMatchObject({ equity: 50, tie: 100 });
+  });
+
+  it("removes villain combos blocked by hero's cards", () => {
+    const result = calculateRangeEquity({ heroCards: ['As', 'Ks'], villainRange: { AA: 1, AKs: 1 }, board: [] })!;
+    expect(result.classes.map(c => [c.hand, c.combos])).toEqual([['AA', 3], ['AKs', 3]]);
+    expect(calculateRangeEquity({ heroCards: ['As', 'Ah'], villainRange: { AA: 1 }, board: ['Ad', '7c', '2h'] })).toBeNull();
+  });
+
+  it('samples preflop runouts deterministically', () => {
+    const request = { heroCards: ['Ah', 'Ad'] as Card[], villainRange: { KK: 1 }, board: [] };
+    const result = calculateRangeEquity(request)!;
+
+    expect(result.method).toBe('monte-carlo');
+    expect(result.equity).toBeGreaterThan(78);
+    expect(result.equity).toBeLessThan(86);
+    expect(calculateRangeEquity(request)).toEqual(result);
+  });
+
+  it("accepts hero's range instead of a hand", () => {
+    const result = calculateRangeEquity({ heroRange: { AA: 1 }, villainRange: { KK: 1 }, board: river })!;
+    expect(result.win).toBe(0);
+    expect(result.lose).toBe(100); // Every KK left holds a set
+  });
+
+  it('rejects invalid boards and missing hands', () => {
+    expect(calculateRangeEquity({ heroCards: ['Ah', 'Ad'], villainRange: { KK: 1 }, board: ['Kc', '7d'] })).toBeNull();
+    expect(calculateRangeEquity({ heroCards: ['Ah', 'Ah'], villainRange: { KK: 1 }, board: [] })).toBeNull();
+    expect(calculateRangeEquity({ villainRange: { KK: 1 }, board: [] })).toBeNull();
+  });
+});
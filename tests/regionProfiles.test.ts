@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { PROMPTS } from '../constants.ts';
+import { TableRegion } from '../types.ts';
+import {
+  buildRegionPrompt,
+  DEFAULT_REGION_PROFILE,
+  findRegionAt,
+  parseRegionProfiles,
+  rectFromPoints,
+  serializeRegionProfiles,
+  toFrameCoords,
+} from '../utils/regionProfiles.ts';
+
+const seat3: TableRegion = { id: 'seat-3', kind: 'SEAT', seat: 3, rect: { x: 0.1, y: 0.1, width: 0.2, height: 0.1 } };
+const pot: TableRegion = { id: 'pot', kind: 'POT', rect: { x: 0.45, y: 0.4, width: 0.1, height: 0.05 } };
+
+describe('findRegionAt', () => {
+  it('uses the default layout bands', () => {
+    expect(findRegionAt(DEFAULT_REGION_PROFILE.regions, 0.5, 0.8)?.kind).toBe('HERO_CARDS');
+    expect(findRegionAt(DEFAULT_REGION_PROFILE.regions, 0.5, 0.4)?.kind).toBe('BOARD');
+    expect(findRegionAt(DEFAULT_REGION_PROFILE.regions, 0.5, 0.1)).toBeNull();
+  });
+
+  it('prefers the smallest region containing the point', () => {
+    const regions = [...DEFAULT_REGION_PROFILE.regions, pot];
+    expect(findRegionAt(regions, 0.5, 0.42)?.kind).toBe('POT');
+    expect(findRegionAt(regions, 0.2, 0.42)?.kind).toBe('BOARD');
+  });
+});
+
+describe('toFrameCoords', () => {
+  const element = { left: 100, top: 50, width: 800, height: 600 };
+
+  it('maps clicks across the whole element when the video size is unknown', () => {
+    expect(toFrameCoords(500, 350, element, 0, 0)).toEqual({ x: 0.5, y: 0.5 });
+  });
+
+  it('skips the letterbox bars of a wide video', () => {
+    // 1600x900 in 800x600 → drawn 800x450, bars of 75px above and below
+    expect(toFrameCoords(500, 100, element, 1600, 900)).toBeNull();
+    const point = toFrameCoords(300, 125, element, 1600, 900);
+    expect(point?.x).toBeCloseTo(0.25);
+    expect(point?.y).toBeCloseTo(0);
+  });
+});
+
+describe('rectFromPoints', () => {
+  it('orders the corners and clamps them to the frame', () => {
+    expect(rectFromPoints(0.5, 0.75, -0.2, 0.25)).toEqual({ x: 0, y: 0.25, width: 0.5, height: 0.5 });
+  });
+});
+
+describe('buildRegionPrompt', () => {
+  it('falls back to the general prompt outside every region', () => {
+    expect(buildRegionPrompt(null)).toBe(PROMPTS.FOCUS_GENERAL);
+  });
+
+  it('names the seat and its area on the frame', () => {
+    const prompt = buildRegionPrompt(seat3);
+    expect(prompt.startsWith(PROMPTS.FOCUS_SEAT)).toBe(true);
+    expect(prompt).toContain('Posto 3.');
+    expect(prompt).toContain('x 10-30%, y 10-20%');
+  });
+});
+
+describe('parseRegionProfiles', () => {
+  it('round-trips serialised profiles', () => {
+    const profiles = [{ name: 'PokerStars', regions: [seat3, pot], updatedAt: 42 }];
+    expect(parseRegionProfiles(serializeRegionProfiles(profiles))).toEqual(profiles);
+  });
+
+  it('drops malformed profiles and regions', () => {
+    const content = JSON.stringify([
+      { name: 'GG', regions: [pot, { id: 'bad', kind: 'CHAT', rect: pot.rect }, { id: 'big', kind: 'BOARD', rect: { x: 0, y: 0, width: 2, height: 1 } }] },
+      { name: '', regions: [] },
+      { regions: [pot] },
+    ]);
+    expect(parseRegionProfiles(content)).toEqual([{ name: 'GG', regions: [pot], updatedAt: 0 }]);
+  });
+
+  it('returns nothing for missing or corrupted storage', () => {
+    expect(parseRegionProfiles(null)).toEqual([]);
+    expect(parseRegionProfiles('{not json')).toEqual([]);
+    expect(parseRegionProfiles('{"name":"x"}')).toEqual([]);
+  });
+});
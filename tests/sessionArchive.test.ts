@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SESSION_RECORDING_CONFIG } from '../constants.ts';
+import { SessionArchive, SessionEvent } from '../types.ts';
+import { parseSessionArchive, playSessionArchive, serializeSessionArchive, trimSessionEvents } from '../utils/sessionArchive.ts';
+
+const frame = (t: number, data = 'x'.repeat(10)): SessionEvent => ({ t, type: 'frame', mimeType: 'image/jpeg', data });
+const prompt = (t: number): SessionEvent => ({ t, type: 'prompt', text: `p${t}` });
+
+const archive = (events: SessionEvent[]): SessionArchive => ({
+  format: SESSION_RECORDING_CONFIG.FORMAT,
+  version: SESSION_RECORDING_CONFIG.VERSION,
+  startedAt: 1000,
+  events,
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('trimSessionEvents', () => {
+  it('drops the oldest frames past the byte budget, keeping the other events', () => {
+    const events = [frame(0), prompt(1), frame(2), frame(3)];
+    const bytes = trimSessionEvents(events, 30, { maxEvents: 100, maxFrameBytes: 20 });
+    expect(bytes).toBe(20);
+    expect(events.map(e => e.t)).toEqual([1, 2, 3]);
+  });
+
+  it('drops the oldest frame, or event without frames, past the event cap', () => {
+    const events = [prompt(0), frame(1), prompt(2)];
+    expect(trimSessionEvents(events, 10, { maxEvents: 2, maxFrameBytes: 100 })).toBe(0);
+    expect(events.map(e => e.t)).toEqual([0, 2]);
+
+    trimSessionEvents(events, 0, { maxEvents: 1, maxFrameBytes: 100 });
+    expect(events.map(e => e.t)).toEqual([2]);
+  });
+});
+
+describe('parseSessionArchive', () => {
+  it('reads back a serialised session, sorted and without unknown events', () => {
+    const content = JSON.stringify({ ...archive([prompt(20), frame(10)]), events: [prompt(20), frame(10), { t: 5, type: 'noise' }] });
+    expect(parseSessionArchive(content)).toEqual(archive([frame(10), prompt(20)]));
+    expect(parseSessionArchive(serializeSessionArchive(1000, [prompt(0)]))).toEqual(archive([prompt(0)]));
+  });
+
+  it('rejects malformed, foreign, newer and empty files', () => {
+    expect(() => parseSessionArchive('{ "format": ')).toThrow('File JSON non valido');
+    expect(() => parseSessionArchive('{ "format": "other" }')).toThrow('non è una registrazione');
+    expect(() => parseSessionArchive(JSON.stringify({ ...archive([prompt(0)]), version: SESSION_RECORDING_CONFIG.VERSION + 1 })))
+      .toThrow('Versione registrazione non supportata');
+    expect(() => parseSessionArchive(JSON.stringify(archive([])))).toThrow('non contiene eventi');
+  });
+});
+
+describe('playSessionArchive', () => {
+  const events = [prompt(100), prompt(1100), prompt(2100)];
+
+  it('keeps the recorded spacing at 1x and divides it at 4x', () => {
+    vi.useFakeTimers();
+    for (const [speed, step] of [[1, 1000], [4, 250]]) {
+      const onEvent = vi.fn();
+      const onEnd = vi.fn();
+      playSessionArchive(archive(events), speed, onEvent, onEnd);
+
+      vi.advanceTimersByTime(0);
+      expect(onEvent).toHaveBeenCalledTimes(1);
+      vi.advanceTimersByTime(step - 1);
+      expect(onEvent).toHaveBeenCalledTimes(1);
+      vi.advanceTimersByTime(1);
+      expect(onEvent).toHaveBeenLastCalledWith(events[1], 2 / 3);
+      vi.advanceTimersByTime(step);
+      expect(onEvent).toHaveBeenCalledTimes(3);
+      expect(onEnd).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it('stops mid-replay without calling onEnd', () => {
+    vi.useFakeTimers();
+    const onEvent = vi.fn();
+    const onEnd = vi.fn();
+    const stop = playSessionArchive(archive(events), 1, onEvent, onEnd);
+
+    vi.advanceTimersByTime(1000);
+    stop();
+    vi.advanceTimersByTime(5000);
+    expect(onEvent).toHaveBeenCalledTimes(2);
+    expect(onEnd).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,13 @@
+import { afterEach, beforeEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { installBrowserFakes } from './fakes.ts';
+
+beforeEach(() => {
+  installBrowserFakes();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
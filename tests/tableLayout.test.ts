@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { MULTI_TABLE_CONFIG, TABLE_AREA_PRESETS } from '../constants.ts';
+import { TableDefinition, TableRegion } from '../types.ts';
+import {
+  buildTablePrompt,
+  createTable,
+  DEFAULT_TABLE,
+  findTableAt,
+  mapRegionsToCapture,
+  parseTableLayout,
+  resolveTable,
+  serializeTableLayout,
+  toCaptureRect,
+} from '../utils/tableLayout.ts';
+
+const left: TableDefinition = { id: 'T1', name: 'Tavolo 1', captureIndex: 0, rect: TABLE_AREA_PRESETS.LEFT.rect };
+const right: TableDefinition = { id: 'T2', name: 'Tavolo 2', captureIndex: 0, rect: TABLE_AREA_PRESETS.RIGHT.rect };
+const window2: TableDefinition = { id: 'T3', name: 'Tavolo 3', captureIndex: 1, rect: TABLE_AREA_PRESETS.FULL.rect };
+const hero: TableRegion = { id: 'hero', kind: 'HERO_CARDS', rect: { x: 0.4, y: 0.7, width: 0.2, height: 0.2 } };
+
+describe('geometry', () => {
+  it('maps table-relative rectangles to the capture', () => {
+    expect(toCaptureRect(right.rect, hero.rect)).toEqual({ x: 0.7, y: 0.7, width: 0.1, height: 0.2 });
+    expect(toCaptureRect(DEFAULT_TABLE.rect, hero.rect)).toEqual(hero.rect);
+  });
+
+  it('finds the table under a point and converts it to table coordinates', () => {
+    const hit = findTableAt([left, right, window2], 0, 0.75, 0.8);
+    expect(hit?.table.id).toBe('T2');
+    expect(hit?.x).toBeCloseTo(0.5);
+    expect(hit?.y).toBeCloseTo(0.8);
+    expect(findTableAt([window2], 0, 0.5, 0.5)).toBeNull();
+  });
+
+  it('places the regions on every table of a capture', () => {
+    expect(mapRegionsToCapture([DEFAULT_TABLE], [hero], 0)).toEqual([hero]);
+
+    const mapped = mapRegionsToCapture([left, right, window2], [hero], 0);
+    expect(mapped.map(r => r.id)).toEqual(['T1-hero', 'T2-hero']);
+    expect(mapped[0].rect).toEqual({ x: 0.2, y: 0.7, width: 0.1, height: 0.2 });
+  });
+});
+
+describe('createTable', () => {
+  it('takes the lowest free label and the first free area of the main capture', () => {
+    expect(createTable([left])).toMatchObject({ id: 'T2', captureIndex: 0, rect: TABLE_AREA_PRESETS.RIGHT.rect });
+    expect(createTable([right])?.id).toBe('T1');
+  });
+
+  it('stops at the maximum number of tables', () => {
+    let tables: TableDefinition[] = [];
+    for (let i = 0; i < MULTI_TABLE_CONFIG.MAX_TABLES; i++) tables = [...tables, createTable(tables)!];
+    expect(createTable(tables)).toBeNull();
+  });
+});
+
+describe('resolveTable', () => {
+  it('accepts a missing label with a single table only', () => {
+    expect(resolveTable([DEFAULT_TABLE], undefined)).toEqual({ table: DEFAULT_TABLE });
+    expect(resolveTable([left, right], undefined)).toEqual({ errors: [expect.stringContaining('obbligatorio')] });
+  });
+
+  it('rejects unknown labels', () => {
+    expect(resolveTable([left, right], 'T2')).toEqual({ table: right });
+    expect(resolveTable([left, right], 'T4')).toEqual({ errors: [expect.stringContaining('"T4" inesistente')] });
+  });
+});
+
+describe('buildTablePrompt', () => {
+  it('names the table only when several are played', () => {
+    expect(buildTablePrompt([DEFAULT_TABLE], DEFAULT_TABLE, 'SCAN')).toBe('SCAN');
+    expect(buildTablePrompt([left, right], right, 'SCAN')).toMatch(/^Tavolo T2 \(Tavolo 2\).*SCAN$/);
+  });
+});
+
+describe('persistence', () => {
+  it('round-trips the layout', () => {
+    const tables = [left, right, window2];
+    expect(parseTableLayout(serializeTableLayout(tables))).toEqual(tables);
+  });
+
+  it('falls back to the default table and drops malformed or duplicate entries', () => {
+    expect(parseTableLayout(null)).toEqual([DEFAULT_TABLE]);
+    expect(parseTableLayout('not json')).toEqual([DEFAULT_TABLE]);
+    expect(parseTableLayout(JSON.stringify([
+      left,
+      { ...right, id: 'T1' },
+      { ...right, captureIndex: -1 },
+      { ...right, rect: { x: 0, y: 0, width: 0, height: 1 } },
+    ]))).toEqual([left]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { TablePlayer } from '../types.ts';
+import { seatPositions, validateTable, withDerivedPositions } from '../utils/tableUtils.ts';
+
+const seated = (...seats: number[]): TablePlayer[] => seats.map(seat => ({ seat, inHand: true }));
+
+describe('seatPositions', () => {
+  it('names 6-max positions clockwise from the button', () => {
+    expect(Object.fromEntries(seatPositions([1, 2, 3, 4, 5, 6], 4))).toEqual({
+      4: 'BTN', 5: 'SB', 6: 'BB', 1: 'UTG', 2: 'HJ', 3: 'CO',
+    });
+  });
+
+  it('names 9-max positions and skips empty seats', () => {
+    const positions = seatPositions([1, 2, 3, 4, 5, 6, 7, 9, 10], 9);
+    expect([...positions.entries()]).toEqual([
+      [9, 'BTN'], [10, 'SB'], [1, 'BB'], [2, 'UTG'], [3, 'UTG+1'], [4, 'UTG+2'], [5, 'LJ'], [6, 'HJ'], [7, 'CO'],
+    ]);
+  });
+
+  it('gives the button and the big blind heads-up', () => {
+    expect(Object.fromEntries(seatPositions([2, 5], 5))).toEqual({ 5: 'BTN', 2: 'BB' });
+  });
+
+  it('returns nothing when the button seat is empty', () => {
+    expect(seatPositions([1, 2, 3], 4).size).toBe(0);
+  });
+});
+
+describe('withDerivedPositions', () => {
+  it('fills only the positions the model left out', () => {
+    const players: TablePlayer[] = [{ seat: 1, inHand: true }, { seat: 2, inHand: true, position: 'SB' }, { seat: 3, inHand: true }];
+    expect(withDerivedPositions(players, 1).map(p => p.position)).toEqual(['BTN', 'SB', 'BB']);
+    expect(withDerivedPositions(players, undefined)).toBe(players);
+  });
+});
+
+describe('validateTable', () => {
+  it('accepts a consistent table', () => {
+    expect(validateTable({ tableSize: 6, heroSeat: 4, dealerSeat: 4, players: seated(1, 4, 6) })).toEqual([]);
+  });
+
+  it('reports seats out of range, duplicates and missing hero or button', () => {
+    expect(validateTable({ tableSize: 6, heroSeat: 2, dealerSeat: 7, players: seated(1, 1, 8) })).toEqual([
+      'dealerSeat: posto 7 oltre i 6 posti del tavolo',
+      'players: posto 1 ripetuto',
+      'players: posto 8 oltre i 6 posti del tavolo',
+      'heroSeat: nessun giocatore al posto 2',
+      'dealerSeat: nessun giocatore al posto 7',
+    ]);
+  });
+
+  it('reports repeated positions and a button that disagrees with dealerSeat', () => {
+    const players: TablePlayer[] = [
+      { seat: 1, inHand: true, position: 'BTN' },
+      { seat: 2, inHand: true, position: 'BB' },
+      { seat: 3, inHand: true, position: 'BB' },
+    ];
+    expect(validateTable({ dealerSeat: 2, players })).toEqual([
+      'players: posizione BB assegnata ai posti 2 e 3',
+      'players: BTN al posto 1 ma dealerSeat è 2',
+    ]);
+  });
+});
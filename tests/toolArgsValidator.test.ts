@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { validatePokerToolArgs } from '../utils/toolArgsValidator.ts';
+
+describe('validatePokerToolArgs', () => {
+  it('accepts a full valid payload unchanged', () => {
+    const raw = {
+      winProbability: 67, equity: 55.5, potOdds: '2.5:1', suggestedAction: 'RAISE',
+      reasoning: 'Open raise', handStrength: 'AKs', holeCards: ['As', '10s'], communityCards: [],
+      potSize: 1.5, amountToCall: 0, bigBlind: 1,
+    };
+
+    expect(validatePokerToolArgs(raw)).toEqual({ args: raw, errors: [] });
+  });
+
+  it('accepts partial updates', () => {
+    expect(validatePokerToolArgs({ communityCards: ['Kd', '7c', '2h'] }).errors).toEqual([]);
+  });
+
+  it('checks enums, ranges and patterns', () => {
+    const { args, errors } = validatePokerToolArgs({
+      winProbability: 150, equity: -5, suggestedAction: 'BET', potOdds: '3 to 1', heroStack: -10, reasoning: 'ok',
+    });
+
+    expect(args).toEqual({ reasoning: 'ok' });
+    expect(errors).toEqual([
+      'winProbability: 150 sopra il massimo 100',
+      'equity: -5 sotto il minimo 0',
+      'suggestedAction: "BET" non ammesso (valori: FOLD, CHECK, CALL, RAISE, ALL-IN, WAITING)',
+      expect.stringContaining('potOdds: "3 to 1" non rispetta il formato'),
+      'heroStack: -10 sotto il minimo 0',
+    ]);
+  });
+
+  it('checks types and rejects non-finite numbers', () => {
+    const { errors } = validatePokerToolArgs({ winProbability: '67', potSize: NaN, reasoning: 42, holeCards: 'AsKs' });
+
+    expect(errors).toEqual([
+      'winProbability: atteso un numero, ricevuto "67"',
+      'potSize: atteso un numero, ricevuto NaN',
+      'reasoning: attesa una stringa, ricevuto 42',
+      'holeCards: atteso un array, ricevuto "AsKs"',
+    ]);
+  });
+
+  it('checks array lengths, item types and card notation', () => {
+    const { errors } = validatePokerToolArgs({
+      holeCards: ['As', 'Ks', 'Qs'],
+      communityCards: ['Kd', 7, '2h'],
+      opponentEstimatedCards: ['Xx', 'Qc'],
+    });
+
+    expect(errors).toEqual([
+      'holeCards: 3 elementi, massimo 2',
+      'communityCards[1]: attesa una stringa, ricevuto 7',
+      'opponentEstimatedCards: carta non valida "Xx"',
+    ]);
+  });
+
+  it('checks the nested player objects', () => {
+    const { args, errors } = validatePokerToolArgs({
+      heroSeat: 4,
+      players: [
+        { seat: 4, inHand: true, position: 'BTN', stack: 100 },
+        { seat: 11, inHand: 'yes', position: 'MP', lastAction: 'LIMP', hat: 'red' },
+        { name: 'villain' },
+      ],
+    });
+
+    expect(args).toEqual({ heroSeat: 4 });
+    expect(errors).toEqual([
+      'players[1].seat: 11 sopra il massimo 10',
+      'players[1].inHand: atteso un booleano, ricevuto "yes"',
+      expect.stringContaining('players[1].position: "MP" non ammesso'),
+      expect.stringContaining('players[1].lastAction: "LIMP" non ammesso'),
+      'players[1].hat: campo non previsto dallo schema',
+      'players[2].seat: campo obbligatorio mancante',
+      'players[2].inHand: campo obbligatorio mancante',
+    ]);
+  });
+
+  it('rejects undeclared fields, nulls and non-object payloads', () => {
+    expect(validatePokerToolArgs({ stack: 100, equity: null }).errors).toEqual([
+      'stack: campo non previsto dallo schema',
+      'equity: valore null non ammesso',
+    ]);
+    expect(validatePokerToolArgs(['As']).errors).toHaveLength(1);
+    expect(validatePokerToolArgs(undefined).errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,767 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { createRef } from 'react';
+import { CAPTURE_PROFILES, CROP_CONFIG, FRAME_DIFF_CONFIG, LIVE_TRANSPORT_CONFIG, PROMPTS, RETRY_CONFIG, TABLE_AREA_PRESETS, UI_CONFIG } from '../constants.ts';
+import { ConnectionStatus, GeminiConnectionError, TableDefinition, TableRegion } from '../types.ts';
+import { getBackoffDelay, useLiveGemini } from '../hooks/useLiveGemini.ts';
+import { getCropArea } from '../utils/frameCrop.ts';
+import { mockTransport } from '../utils/mockLiveTransport.ts';
+import * as handStore from '../utils/handHistoryStore.ts';
+import { FakeAudioContext, FakeAudioWorkletNode, FakeMediaStream, FakeTransport } from './fakes.ts';
+
+const transport = vi.hoisted(() => ({ current: null as FakeTransport | null }));
+
+vi.mock('../utils/liveTransport.ts', () => ({
+  getLiveTransport: () => transport.current,
+}));
+
+// jsdom has no IndexedDB
+vi.mock('../utils/handHistoryStore.ts', () => ({
+  saveHand: vi.fn(async () => {}),
+  loadHands: vi.fn(async () => []),
+  deleteHand: vi.fn(async () => {}),
+  clearHands: vi.fn(async () => {}),
+}));
+
+const renderLiveHook = () => renderHook(() => useLiveGemini({
+  videoRef: createRef<HTMLVideoElement>(),
+  canvasRef: createRef<HTMLCanvasElement>(),
+}));
+
+type Hook = ReturnType<typeof renderLiveHook>['result'];
+
+const connectAndOpen = async (result: Hook) => {
+  await act(() => result.current.connect());
+  await act(() => transport.current!.open());
+};
+
+const toolCall = (...argsList: Array<Record<string, unknown>>) => ({
+  toolCall: {
+    functionCalls: argsList.map((args, i) => ({ id: `call-${i}`, name: 'updatePokerState', args })),
+  },
+});
+
+beforeEach(() => {
+  transport.current = new FakeTransport();
+});
+
+// ============================================
+// BACKOFF
+// ============================================
+describe('getBackoffDelay', () => {
+  it('doubles from the base delay and caps at the maximum', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+
+    expect(getBackoffDelay(0)).toBe(RETRY_CONFIG.BASE_DELAY_MS);
+    expect(getBackoffDelay(1)).toBe(RETRY_CONFIG.BASE_DELAY_MS * 2);
+    expect(getBackoffDelay(2)).toBe(RETRY_CONFIG.BASE_DELAY_MS * 4);
+    expect(getBackoffDelay(10)).toBe(RETRY_CONFIG.MAX_DELAY_MS);
+  });
+
+  it('adds up to one second of jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(getBackoffDelay(0)).toBe(RETRY_CONFIG.BASE_DELAY_MS + 500);
+  });
+});
+
+// ============================================
+// TOOL CALLS
+// ============================================
+describe('handleToolCall', () => {
+  it('applies a full update and acknowledges it', async () => {
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+
+    await act(() => transport.current!.emit(toolCall({
+      winProbability: 65, suggestedAction: 'RAISE', reasoning: 'Apri', handStrength: 'AKs',
+      holeCards: ['As', 'Ks'], communityCards: [], potSize: 1.5, amountToCall: 1, bigBlind: 1,
+    })));
+
+    const state = result.current.pokerState!;
+    expect(state.suggestedAction).toBe('RAISE');
+    expect(state.holeCards).toEqual(['As', 'Ks']);
+    expect(state.localEquity).not.toBeNull();
+    expect(state.localPotMath?.potOdds).toBeCloseTo(1.5);
+    expect(transport.current!.toolResults()).toEqual([{ success: true }]);
+  });
+
+  it('keeps previous fields on partial updates', async () => {
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+
+    await act(() => transport.current!.emit(toolCall({
+      winProbability: 65, suggestedAction: 'RAISE', reasoning: 'Apri', handStrength: 'AKs',
+      holeCards: ['As', 'Ks'], communityCards: [], potSize: 3,
+    })));
+    await act(() => transport.current!.emit(toolCall({
+      communityCards: ['Kd', '7c', '2h'], reasoning: 'Top pair',
+    })));
+
+    const state = result.current.pokerState!;
+    expect(state.holeCards).toEqual(['As', 'Ks']);
+    expect(state.communityCards).toEqual(['Kd', '7c', '2h']);
+    expect(state.reasoning).toBe('Top pair');
+    expect(state.winProbability).toBe(65);
+    expect(state.suggestedAction).toBe('RAISE');
+    expect(state.potSize).toBe(3);
+    expect(state.localHand?.category).toBe('PAIR');
+  });
+
+  it('drops the previous board and villain cards when new hole cards arrive', async () => {
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+
+    await act(() => transport.current!.emit(toolCall({
+      holeCards: ['As', 'Ks'], communityCards: ['Qd', '7c', '2h'], opponentEstimatedCards: ['Qh', 'Jh'],
+    })));
+    await act(() => transport.current!.emit(toolCall({ holeCards: ['Qd', 'Qh'] })));
+
+    const state = result.current.pokerState!;
+    expect(state.holeCards).toEqual(['Qd', 'Qh']);
+    expect(state.communityCards).toEqual([]);
+    expect(state.opponentEstimatedCards).toBeUndefined();
+    expect(transport.current!.toolResults()).toEqual([{ success: true }, { success: true }]);
+  });
+
+  it('merges several calls in one message in order', async () => {
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+
+    await act(() => transport.current!.emit(toolCall(
+      { holeCards: ['Qh', 'Qd'], communityCards: [], suggestedAction: 'RAISE' },
+      { suggestedAction: 'CALL' }
+    )));
+
+    expect(result.current.pokerState!.holeCards).toEqual(['Qh', 'Qd']);
+    expect(result.current.pokerState!.suggestedAction).toBe('CALL');
+    expect(transport.current!.toolResults()).toHaveLength(2);
+  });
+
+  it('rejects invalid cards and keeps the last valid state', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+
+    await act(() => transport.current!.emit(toolCall({ holeCards: ['As', 'Ks'], communityCards: [] })));
+    await act(() => transport.current!.emit(toolCall({ communityCards: ['As', '7c', '2h'] })));
+
+    expect(result.current.pokerState!.communityCards).toEqual([]);
+    const [, rejected] = transport.current!.toolResults() as Array<{ success: boolean; errors?: string[] }>;
+    expect(rejected.success).toBe(false);
+    expect(rejected.errors!.length).toBeGreaterThan(0);
+  });
+
+  it('rejects payloads that break the schema and logs them for diagnostics', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+
+    const payload = { holeCards: ['As', 'Ks'], communityCards: [], winProbability: 150, suggestedAction: 'BET' };
+    await act(() => transport.current!.emit(toolCall(payload)));
+
+    expect(result.current.pokerState).toBeNull();
+    const [rejected] = transport.current!.toolResults() as Array<{ success: boolean; errors: string[] }>;
+    expect(rejected.success).toBe(false);
+    expect(rejected.errors).toHaveLength(2);
+
+    expect(result.current.toolDiagnostics).toHaveLength(1);
+    expect(result.current.toolDiagnostics[0]).toMatchObject({ callId: 'call-0', args: payload, errors: rejected.errors });
+
+    act(() => result.current.clearToolDiagnostics());
+    expect(result.current.toolDiagnostics).toEqual([]);
+  });
+});
+
+describe('table model', () => {
+  const players = [
+    { seat: 1, name: 'villain', stack: 95, currentBet: 5, lastAction: 'RAISE', inHand: true },
+    { seat: 4, stack: 100, inHand: true },
+  ];
+
+  it('keeps the seats across partial updates', async () => {
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+
+    await act(() => transport.current!.emit(toolCall({ holeCards: ['As', 'Ks'], communityCards: [], tableSize: 6, heroSeat: 4, dealerSeat: 4, players })));
+    await act(() => transport.current!.emit(toolCall({ suggestedAction: 'CALL' })));
+
+    expect(result.current.pokerState).toMatchObject({ tableSize: 6, heroSeat: 4, dealerSeat: 4, players, suggestedAction: 'CALL' });
+  });
+
+  it('rejects seat data that does not add up', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+
+    await act(() => transport.current!.emit(toolCall({ holeCards: ['As', 'Ks'], communityCards: [], heroSeat: 3, players })));
+
+    expect(result.current.pokerState).toBeNull();
+    expect(transport.current!.toolResults()).toEqual([{ success: false, errors: ['heroSeat: nessun giocatore al posto 3'] }]);
+  });
+});
+
+describe('opponent range', () => {
+  it('parses the structured range and keeps it across partial updates', async () => {
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+
+    await act(() => transport.current!.emit(toolCall({
+      holeCards: ['As', 'Ks'], communityCards: [], opponentRange: 'Tight', structuredRange: [{ hands: 'QQ+' }, { hands: 'AKs', weight: 0.5 }],
+    })));
+    await act(() => transport.current!.emit(toolCall({ suggestedAction: 'CALL' })));
+
+    expect(result.current.pokerState!.localRange).toMatchObject({ range: { QQ: 1, KK: 1, AA: 1, AKs: 0.5 }, combos: 20 });
+  });
+
+  it('falls back to the notation in the free-text range and rejects invalid structured notation', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+
+    await act(() => transport.current!.emit(toolCall({ holeCards: ['As', 'Ks'], communityCards: [], opponentRange: 'JJ+, AK' })));
+    await act(() => transport.current!.emit(toolCall({ structuredRange: [{ hands: 'QQ+, premium' }] })));
+
+    expect(result.current.pokerState!.localRange!.combos).toBe(40);
+    expect(transport.current!.toolResults()[1]).toEqual({ success: false, errors: ['structuredRange: notazione non valida "premium"'] });
+  });
+});
+
+describe('tournament', () => {
+  it('returns the ICM figures with each state update', async () => {
+    const { result } = renderHook(() => useLiveGemini({
+      videoRef: createRef<HTMLVideoElement>(),
+      canvasRef: createRef<HTMLCanvasElement>(),
+      tournament: { enabled: true, payouts: [50, 30, 20], stackSource: 'MANUAL', manualStacks: [5000, 3000, 2000] },
+    }));
+    await connectAndOpen(result);
+
+    await act(() => transport.current!.emit(toolCall({
+      holeCards: ['As', 'Ks'], communityCards: [],
+    })));
+
+    expect(transport.current!.toolResults()[0]).toEqual({
+      success: true,
+      icm: { heroEv: 38.4, prizePool: 100, heroPrizeShare: 38.4, heroChipShare: 50 },
+    });
+  });
+});
+
+describe('hand history', () => {
+  it('shows the error and restores the hand when the database refuses a delete', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+    await act(() => transport.current!.emit(toolCall({ holeCards: ['As', 'Ks'], communityCards: [] })));
+    const [hand] = result.current.hands;
+
+    vi.mocked(handStore.deleteHand).mockRejectedValueOnce(new Error('quota superata'));
+    vi.mocked(handStore.loadHands).mockResolvedValueOnce([hand]);
+    await act(() => result.current.deleteHand(hand.id));
+
+    expect(result.current.error).toBe('Hand History: quota superata');
+    expect(result.current.hands.map(h => h.id)).toEqual([hand.id]);
+  });
+});
+
+describe('local tools', () => {
+  it('declares the local tools and answers their calls with computed results', async () => {
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+
+    expect(transport.current!.connectCalls[0].functionDeclarations.map(d => d.name)).toContain('evaluateHand');
+
+    await act(() => transport.current!.emit({
+      toolCall: { functionCalls: [{ id: 'eval-1', name: 'evaluateHand', args: { holeCards: ['Ah', 'Kd'], communityCards: ['As', '7c', '2d'] } }] },
+    }));
+
+    const [response] = transport.current!.session!.sendToolResponse.mock.calls[0];
+    expect(response.functionResponses[0]).toMatchObject({
+      id: 'eval-1',
+      name: 'evaluateHand',
+      response: { result: { success: true, result: { description: 'Top Pair (kicker K)' } } },
+    });
+    expect(result.current.pokerState).toBeNull();
+  });
+
+  it('rejects unknown functions', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+
+    await act(() => transport.current!.emit({ toolCall: { functionCalls: [{ id: 'x', name: 'placeBet', args: {} }] } }));
+
+    expect(transport.current!.toolResults()).toEqual([{ success: false, errors: ['funzione sconosciuta: placeBet'] }]);
+    expect(result.current.toolDiagnostics).toHaveLength(1);
+  });
+});
+
+// ============================================
+// TRANSCRIPTION
+// ============================================
+describe('handleTranscription', () => {
+  const say = (text: string) => transport.current!.emit({ serverContent: { outputTranscription: { text } } });
+  const hear = (text: string) => transport.current!.emit({ serverContent: { inputTranscription: { text } } });
+
+  it('merges chunks from the same source inside the merge window', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+
+    await act(() => say('Ciao'));
+    vi.setSystemTime(Date.now() + UI_CONFIG.TRANSCRIPT_MERGE_WINDOW_MS - 1);
+    await act(() => say(' mondo'));
+
+    expect(result.current.transcripts.map(t => t.text)).toEqual(['Ciao mondo']);
+  });
+
+  it('starts a new entry after the window or on a source change', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+
+    await act(() => say('Uno'));
+    vi.setSystemTime(Date.now() + UI_CONFIG.TRANSCRIPT_MERGE_WINDOW_MS + 1);
+    await act(() => say('Due'));
+    await act(() => hear('Tre'));
+
+    expect(result.current.transcripts.map(t => [t.source, t.text])).toEqual([
+      ['ai', 'Uno'], ['ai', 'Due'], ['user', 'Tre'],
+    ]);
+  });
+});
+
+// ============================================
+// AUDIO OUTPUT
+// ============================================
+describe('audio playback', () => {
+  it('schedules chunks back to back on the output context', async () => {
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+
+    // 2400 PCM16 samples at 24 kHz = 100 ms
+    const chunk = btoa(String.fromCharCode(...new Uint8Array(4800)));
+    const audio = { serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: 'audio/pcm', data: chunk } }] } } };
+    await act(() => transport.current!.emit(audio));
+    await act(() => transport.current!.emit(audio));
+
+    const output = FakeAudioContext.instances.find(ctx => ctx.sampleRate === 24000)!;
+    expect(output.sources.map(s => s.start.mock.calls[0][0])).toEqual([0, expect.closeTo(0.1)]);
+  });
+});
+
+// ============================================
+// RETRIES
+// ============================================
+describe('connect retries', () => {
+  it('retries with backoff up to the configured limit', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    transport.current!.failWith = new Error('network down');
+    const { result } = renderLiveHook();
+
+    await act(() => result.current.connect());
+    for (let i = 0; i < RETRY_CONFIG.MAX_RETRIES + 2; i++) {
+      await act(() => vi.advanceTimersByTimeAsync(RETRY_CONFIG.MAX_DELAY_MS + 1000));
+    }
+
+    expect(transport.current!.connectCalls).toHaveLength(1 + RETRY_CONFIG.MAX_RETRIES);
+    expect(result.current.error).toContain('network down');
+  });
+
+  it('does not retry non-retryable errors', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    transport.current!.failWith = new GeminiConnectionError('API Key non configurata', 'NO_API_KEY', false);
+    const { result } = renderLiveHook();
+
+    await act(() => result.current.connect());
+    await act(() => vi.advanceTimersByTimeAsync(RETRY_CONFIG.MAX_DELAY_MS * 2));
+
+    expect(transport.current!.connectCalls).toHaveLength(1);
+  });
+});
+
+// ============================================
+// RECONNECT
+// ============================================
+describe('mid-session reconnect', () => {
+  const dropAndReopen = async () => {
+    act(() => transport.current!.drop());
+    await act(() => vi.advanceTimersByTimeAsync(RETRY_CONFIG.MAX_DELAY_MS + 1000));
+    await act(() => transport.current!.open());
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('reconnects with backoff, keeps the streams and resends the last state', async () => {
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+    await act(() => transport.current!.emit(toolCall({ holeCards: ['As', 'Ks'], communityCards: [], suggestedAction: 'RAISE' })));
+    await act(() => transport.current!.emit({ serverContent: { outputTranscription: { text: 'Rilancia' } } }));
+    const mic: FakeMediaStream = await vi.mocked(navigator.mediaDevices.getUserMedia).mock.results[0].value;
+
+    act(() => transport.current!.drop());
+    expect(result.current.isActive).toBe(true);
+    expect(result.current.connectionState.status).toBe(ConnectionStatus.RECONNECTING);
+
+    await act(() => vi.advanceTimersByTimeAsync(RETRY_CONFIG.MAX_DELAY_MS + 1000));
+    await act(() => transport.current!.open());
+
+    expect(transport.current!.connectCalls).toHaveLength(2);
+    expect(transport.current!.connectCalls[1].resumptionHandle).toBeUndefined();
+    expect(result.current.connectionState.status).toBe(ConnectionStatus.CONNECTED);
+    expect(mic.tracks[0].stop).not.toHaveBeenCalled();
+    expect(FakeAudioWorkletNode.instances).toHaveLength(1);
+
+    const [[{ text }]] = transport.current!.session!.sendRealtimeInput.mock.calls;
+    expect(text).toContain('As Ks');
+    expect(text).toContain('RAISE');
+    expect(text).toContain('Rilancia');
+  });
+
+  it('resumes with the latest handle and skips the transcript replay', async () => {
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+    await act(() => transport.current!.emit({ sessionResumptionUpdate: { newHandle: 'handle-1', resumable: true } }));
+    await act(() => transport.current!.emit({ serverContent: { outputTranscription: { text: 'Rilancia' } } }));
+
+    await dropAndReopen();
+
+    expect(transport.current!.connectCalls[1].resumptionHandle).toBe('handle-1');
+    const [[{ text }]] = transport.current!.session!.sendRealtimeInput.mock.calls;
+    expect(text).not.toContain('Rilancia');
+  });
+
+  it('does not reconnect after a manual disconnect', async () => {
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+
+    act(() => result.current.disconnect());
+    await act(() => vi.advanceTimersByTimeAsync(RETRY_CONFIG.MAX_DELAY_MS * 2));
+
+    expect(transport.current!.connectCalls).toHaveLength(1);
+    expect(result.current.connectionState.status).toBe(ConnectionStatus.DISCONNECTED);
+  });
+});
+
+// ============================================
+// CONNECTION STATE & METRICS
+// ============================================
+describe('connection state', () => {
+  it('moves from connecting to connected', async () => {
+    const { result } = renderLiveHook();
+
+    await act(() => result.current.connect());
+    expect(result.current.connectionState.status).toBe(ConnectionStatus.CONNECTING);
+
+    await act(() => transport.current!.open());
+    expect(result.current.connectionState.status).toBe(ConnectionStatus.CONNECTED);
+    expect(result.current.connectionState.lastConnectedAt).toBeInstanceOf(Date);
+  });
+
+  it('reports the countdown and reason, and gives up with an error', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    transport.current!.failWith = new Error('network down');
+    const { result } = renderLiveHook();
+
+    await act(() => result.current.connect());
+    const state = result.current.connectionState;
+    expect(state.status).toBe(ConnectionStatus.RECONNECTING);
+    expect(state.retryCount).toBe(1);
+    expect(state.nextRetryAt!.getTime()).toBeGreaterThan(Date.now());
+    expect(state.lastDisconnectReason).toContain('network down');
+
+    for (let i = 0; i < RETRY_CONFIG.MAX_RETRIES; i++) {
+      await act(() => vi.advanceTimersByTimeAsync(RETRY_CONFIG.MAX_DELAY_MS + 1000));
+    }
+    expect(result.current.connectionState.status).toBe(ConnectionStatus.ERROR);
+    expect(result.current.connectionState.nextRetryAt).toBeNull();
+  });
+
+  it('retries immediately on retryNow', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    transport.current!.failWith = new Error('network down');
+    const { result } = renderLiveHook();
+
+    await act(() => result.current.connect());
+    transport.current!.failWith = null;
+    await act(async () => result.current.retryNow());
+    await act(() => transport.current!.open());
+
+    expect(transport.current!.connectCalls).toHaveLength(2);
+    expect(result.current.connectionState.status).toBe(ConnectionStatus.CONNECTED);
+  });
+
+  it('measures prompt latency and the last tool call time', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+
+    await act(() => result.current.startScreenShare());
+    // jsdom video never becomes playable: the scan sends only the prompt
+    await act(() => result.current.triggerManualScan());
+    vi.setSystemTime(Date.now() + 250);
+    await act(() => transport.current!.emit(toolCall({ holeCards: ['As', 'Ks'], communityCards: [] })));
+
+    expect(result.current.connectionMetrics.latencyMs).toBe(250);
+    expect(result.current.connectionMetrics.lastToolCallAt!.getTime()).toBe(Date.now());
+  });
+});
+
+// ============================================
+// SCREEN FRAMES
+// ============================================
+const heroRegion: TableRegion = { id: 'hero', kind: 'HERO_CARDS', rect: { x: 0.4, y: 0.7, width: 0.2, height: 0.2 } };
+
+// jsdom videos never load: fake a playing 1080p stream
+const renderWithVideo = (tables?: TableDefinition[]) => {
+  const video = document.createElement('video');
+  Object.defineProperties(video, {
+    readyState: { value: 4 },
+    videoWidth: { value: 1920 },
+    videoHeight: { value: 1080 },
+  });
+  video.play = vi.fn(async () => {});
+  return renderHook(() => useLiveGemini({
+    videoRef: { current: video },
+    canvasRef: { current: document.createElement('canvas') },
+    regions: [heroRegion],
+    tables,
+  }));
+};
+
+// Canvas whose pixels all have the given grey level
+const mockCanvas = (grey: () => number) => {
+  const ctx = {
+    drawImage: vi.fn(),
+    getImageData: (_x: number, _y: number, w: number, h: number) => ({ data: new Uint8ClampedArray(w * h * 4).fill(grey()) }),
+    putImageData: vi.fn(),
+    fillRect: vi.fn(),
+    fillText: vi.fn(),
+    measureText: () => ({ width: 20 }),
+  };
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => ctx as unknown as CanvasRenderingContext2D);
+  return ctx;
+};
+
+const sentMedia = () => transport.current!.session!.sendRealtimeInput.mock.calls.filter(([input]) => input.media);
+
+describe('analyzeRegion', () => {
+  let drawImage: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    // Keep the frame loop still: only the click draws on the canvas
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    drawImage = mockCanvas(() => 0).drawImage;
+  });
+
+  it('sends a context thumbnail and a native-resolution crop of the clicked region', async () => {
+    const { result } = renderWithVideo();
+    await connectAndOpen(result);
+    await act(() => result.current.startScreenShare());
+
+    await act(() => result.current.analyzeRegion(0.5, 0.8));
+
+    const sent = transport.current!.session!.sendRealtimeInput.mock.calls.map(([input]) => input);
+    expect(sent.filter(input => input.media)).toHaveLength(2);
+    const prompt = sent.at(-1).text as string;
+    expect(prompt.startsWith(PROMPTS.FOCUS_HERO)).toBe(true);
+    expect(prompt.endsWith(PROMPTS.FOCUS_CROP)).toBe(true);
+
+    const [thumbnailDraw, cropDraw] = drawImage.mock.calls;
+    expect(thumbnailDraw.slice(3)).toEqual([CROP_CONFIG.THUMBNAIL_WIDTH, 1080 * CROP_CONFIG.THUMBNAIL_WIDTH / 1920]);
+    const { sx, sy, sw, sh } = getCropArea(heroRegion.rect, 1920, 1080);
+    expect(cropDraw.slice(1, 5)).toEqual([sx, sy, sw, sh]);
+    expect(cropDraw[7]).toBe(sw * CROP_CONFIG.UPSCALE);
+  });
+
+  it('sends the whole frame outside every region', async () => {
+    const { result } = renderWithVideo();
+    await connectAndOpen(result);
+    await act(() => result.current.startScreenShare());
+
+    await act(() => result.current.analyzeRegion(0.5, 0.2));
+
+    const sent = transport.current!.session!.sendRealtimeInput.mock.calls.map(([input]) => input);
+    expect(sent.filter(input => input.media)).toHaveLength(1);
+    expect(sent.at(-1).text).toBe(PROMPTS.FOCUS_GENERAL);
+    expect(drawImage.mock.calls[0]).toHaveLength(5);
+  });
+});
+
+describe('frame change detection', () => {
+  it('skips unchanged frames and sends a changed one at the next sample', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+    let grey = 100;
+    mockCanvas(() => grey);
+    const { result } = renderWithVideo();
+    await connectAndOpen(result);
+    await act(() => result.current.startScreenShare());
+
+    await act(() => vi.advanceTimersByTimeAsync(FRAME_DIFF_CONFIG.SAMPLE_INTERVAL_MS));
+    await vi.waitFor(() => expect(sentMedia()).toHaveLength(1));
+
+    await act(() => vi.advanceTimersByTimeAsync(FRAME_DIFF_CONFIG.SAMPLE_INTERVAL_MS * 8));
+    expect(sentMedia()).toHaveLength(1);
+
+    grey = 200;
+    await act(() => vi.advanceTimersByTimeAsync(FRAME_DIFF_CONFIG.SAMPLE_INTERVAL_MS));
+    await vi.waitFor(() => expect(sentMedia()).toHaveLength(2));
+
+    await vi.waitFor(() => expect(result.current.frameStats).toMatchObject({ sent: 2, lastReason: 'changed' }));
+    expect(result.current.frameStats.skipped).toBeGreaterThan(0);
+  });
+
+  it("sends larger frames on hero's turn and follows the selected profile", async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+    let grey = 100;
+    const { drawImage } = mockCanvas(() => grey);
+    // Stream frames, not the signature samples
+    const frameWidths = () => drawImage.mock.calls.map(args => args[3]).filter(width => width !== FRAME_DIFF_CONFIG.SIGNATURE_WIDTH);
+    const { result } = renderWithVideo();
+    await connectAndOpen(result);
+    await act(() => result.current.startScreenShare());
+    act(() => result.current.setCaptureProfile('MAX_ACCURACY'));
+    expect(result.current.captureStatus.profile).toBe('MAX_ACCURACY');
+
+    await act(() => transport.current!.emit(toolCall({ holeCards: ['As', 'Ks'], communityCards: [], amountToCall: 2, suggestedAction: 'RAISE' })));
+    await act(() => vi.advanceTimersByTimeAsync(FRAME_DIFF_CONFIG.SAMPLE_INTERVAL_MS));
+    await vi.waitFor(() => expect(sentMedia()).toHaveLength(1));
+
+    expect(frameWidths()).toEqual([CAPTURE_PROFILES.MAX_ACCURACY.levels.ACTIVE.width]);
+    await vi.waitFor(() => expect(result.current.captureStatus.level).toBe('ACTIVE'));
+    expect(result.current.captureStatus.bytesPerMinute).toBeGreaterThan(0);
+
+    grey = 200;
+    await act(() => vi.advanceTimersByTimeAsync(FRAME_DIFF_CONFIG.SAMPLE_INTERVAL_MS));
+    await vi.waitFor(() => expect(sentMedia()).toHaveLength(2));
+  });
+
+  it('resends an idle table after the keepalive delay', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+    mockCanvas(() => 100);
+    const { result } = renderWithVideo();
+    await connectAndOpen(result);
+    await act(() => result.current.startScreenShare());
+
+    await act(() => vi.advanceTimersByTimeAsync(FRAME_DIFF_CONFIG.SAMPLE_INTERVAL_MS));
+    await vi.waitFor(() => expect(sentMedia()).toHaveLength(1));
+
+    await act(() => vi.advanceTimersByTimeAsync(FRAME_DIFF_CONFIG.KEEPALIVE_MS));
+    await vi.waitFor(() => expect(sentMedia()).toHaveLength(2));
+    await vi.waitFor(() => expect(result.current.frameStats.lastReason).toBe('keepalive'));
+  });
+});
+
+// ============================================
+// MULTI-TABLE
+// ============================================
+describe('multi-table', () => {
+  const tables: TableDefinition[] = [
+    { id: 'T1', name: 'Tavolo 1', captureIndex: 0, rect: TABLE_AREA_PRESETS.LEFT.rect },
+    { id: 'T2', name: 'Tavolo 2', captureIndex: 0, rect: TABLE_AREA_PRESETS.RIGHT.rect },
+  ];
+
+  it('keeps one state per table and brings forward the table where hero must act', async () => {
+    const { result } = renderWithVideo(tables);
+    await connectAndOpen(result);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await act(() => transport.current!.emit(toolCall({ holeCards: ['As', 'Ks'], communityCards: [], suggestedAction: 'WAITING' })));
+    expect(result.current.toolDiagnostics[0].errors[0]).toContain('tableId');
+
+    await act(() => transport.current!.emit(toolCall(
+      { tableId: 'T1', holeCards: ['As', 'Ks'], communityCards: [], suggestedAction: 'WAITING' },
+      { tableId: 'T2', holeCards: ['7h', '7d'], communityCards: [], amountToCall: 2, suggestedAction: 'CALL' },
+    )));
+
+    expect(result.current.tableStates.T1.holeCards).toEqual(['As', 'Ks']);
+    expect(result.current.tableStates.T2.holeCards).toEqual(['7h', '7d']);
+    expect(result.current.selectedTableId).toBe('T2');
+    expect(result.current.pokerState?.suggestedAction).toBe('CALL');
+
+    act(() => result.current.selectTable('T1'));
+    expect(result.current.pokerState?.holeCards).toEqual(['As', 'Ks']);
+  });
+
+  it('plays the mock script on the first table', async () => {
+    vi.useFakeTimers();
+    transport.current = mockTransport as unknown as FakeTransport;
+    const { result } = renderHook(() => useLiveGemini({
+      videoRef: createRef<HTMLVideoElement>(),
+      canvasRef: createRef<HTMLCanvasElement>(),
+      tables,
+    }));
+
+    await act(() => result.current.connect());
+    // Open, then the first steps of the script: greeting heard, answer spoken, first tool call
+    await act(() => vi.advanceTimersByTimeAsync(LIVE_TRANSPORT_CONFIG.MOCK_OPEN_DELAY_MS + 3 * LIVE_TRANSPORT_CONFIG.MOCK_STEP_INTERVAL_MS));
+
+    expect(result.current.toolDiagnostics).toEqual([]);
+    expect(result.current.tableStates.T1.holeCards).toEqual(['As', 'Ks']);
+    act(() => result.current.disconnect());
+  });
+
+  it("streams each table's area with its label burnt in", async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+    const ctx = mockCanvas(() => 100);
+    const { result } = renderWithVideo(tables);
+    await connectAndOpen(result);
+    await act(() => result.current.startScreenShare());
+
+    await act(() => vi.advanceTimersByTimeAsync(FRAME_DIFF_CONFIG.SAMPLE_INTERVAL_MS));
+    await vi.waitFor(() => expect(sentMedia()).toHaveLength(2));
+
+    expect(ctx.fillText.mock.calls.map(([label]) => label)).toEqual(['T1', 'T2']);
+    const sourceX = ctx.drawImage.mock.calls.filter(args => args.length === 9).map(args => args[1]);
+    expect(new Set(sourceX)).toEqual(new Set([0, 960]));
+  });
+});
+
+// ============================================
+// DISCONNECT
+// ============================================
+describe('disconnect', () => {
+  it('closes the session and releases audio and media resources', async () => {
+    const { result } = renderLiveHook();
+    await connectAndOpen(result);
+    await act(() => transport.current!.emit({ serverContent: { outputTranscription: { text: 'Ciao' } } }));
+
+    const mic: FakeMediaStream = await vi.mocked(navigator.mediaDevices.getUserMedia).mock.results[0].value;
+    const session = transport.current!.session!;
+    expect(result.current.isActive).toBe(true);
+
+    act(() => result.current.disconnect());
+
+    expect(session.close).toHaveBeenCalledTimes(1);
+    expect(mic.tracks[0].stop).toHaveBeenCalled();
+    expect(FakeAudioContext.instances.every(ctx => ctx.state === 'closed')).toBe(true);
+    expect(FakeAudioWorkletNode.instances[0].disconnect).toHaveBeenCalled();
+    expect(result.current.isActive).toBe(false);
+    expect(result.current.transcripts).toEqual([]);
+  });
+
+  it('cancels a pending retry', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    transport.current!.failWith = new Error('network down');
+    const { result } = renderLiveHook();
+
+    await act(() => result.current.connect());
+    act(() => result.current.disconnect());
+    await act(() => vi.advanceTimersByTimeAsync(RETRY_CONFIG.MAX_DELAY_MS * 2));
+
+    expect(transport.current!.connectCalls).toHaveLength(1);
+  });
+});
@@ -1,4 +1,5 @@
 import { RefObject } from 'react';
+import type { FunctionDeclaration, LiveServerMessage } from '@google/genai';
 
 // ============================================
 // CONNECTION & STATUS
@@ -16,6 +17,13 @@ export interface ConnectionState {
   error: string | null;
   retryCount: number;
   lastConnectedAt: Date | null;
+  nextRetryAt: Date | null; // Set while a reconnect is scheduled
+  lastDisconnectReason: string | null;
+}
+
+export interface ConnectionMetrics {
+  latencyMs: number | null; // Last prompt → first server message round trip
+  lastToolCallAt: Date | null;
 }
 
 // ============================================
@@ -23,6 +31,26 @@ export interface ConnectionState {
 // ============================================
 export type SuggestedAction = 'FOLD' | 'CHECK' | 'CALL' | 'RAISE' | 'ALL-IN' | 'WAITING';
 
+// Canonical card notation, e.g. "Ah", "Ts", "2c"
+export type CardRank = '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | 'T' | 'J' | 'Q' | 'K' | 'A';
+export type CardSuit = 'c' | 'd' | 'h' | 's';
+export type Card = `${CardRank}${CardSuit}`;
+
+// Seats and positions (6-max and 9-max tables)
+export type TablePosition = 'BTN' | 'SB' | 'BB' | 'UTG' | 'UTG+1' | 'UTG+2' | 'LJ' | 'HJ' | 'CO';
+export type PlayerAction = 'FOLD' | 'CHECK' | 'CALL' | 'BET' | 'RAISE' | 'ALL-IN' | 'POST' | 'NONE';
+
+export interface TablePlayer {
+  seat: number; // 1-based, clockwise as shown on screen
+  name?: string;
+  position?: TablePosition;
+  stack?: number;
+  currentBet?: number; // Chips put in on the current street
+  lastAction?: PlayerAction;
+  inHand: boolean; // False once folded (or sitting out)
+  estimatedRange?: string; // e.g. "22+, A2s+, KTo+"
+}
+
 export interface PokerGameState {
   winProbability: number; // 0-100
   equity?: number; // Technical equity %
@@ -30,11 +58,123 @@ export interface PokerGameState {
   suggestedAction: SuggestedAction;
   reasoning: string;
   handStrength: string; // e.g., "Coppia d'assi", "Progetto di colore"
-  holeCards: string[]; // e.g., ["Ah", "Kd"]
-  communityCards: string[]; // e.g., ["7s", "2c", "Qh"]
-  opponentEstimatedCards?: string[]; // e.g., ["Qc", "Qs"]
-  opponentRange?: string; // e.g., "Top 10% hands, high pairs"
+  holeCards: Card[]; // e.g., ["Ah", "Kd"]
+  communityCards: Card[]; // e.g., ["7s", "2c", "Qh"]
+  opponentEstimatedCards?: Card[]; // e.g., ["Qc", "Qs"]
+  opponentRange?: string; // e.g., "Top 10% hands, high pairs" (main opponent)
+  structuredRange?: RangeGroup[]; // Main opponent's range in standard notation, when the model provides it
+  tableSize?: number; // Seats at the table, e.g. 6 or 9
+  heroSeat?: number;
+  dealerSeat?: number;
+  players?: TablePlayer[]; // Every occupied seat, hero included
   deepAnalysis?: string; // Detailed strategy from Pro model
+  potSize?: number; // Chips in the middle, current street bets included
+  amountToCall?: number; // 0 when hero can check
+  heroStack?: number;
+  effectiveStack?: number;
+  bigBlind?: number;
+  localPotMath?: PotMath | null; // Computed locally from the numeric fields above
+  localEquity?: EquityResult | null; // Computed locally from holeCards/communityCards
+  localHand?: HandEvaluation | null; // Best five-card hand computed locally
+  localCardCheck?: CardCrossCheck | null; // Cards read on screen by the local recogniser
+  localRange?: ParsedRange | null; // structuredRange (or the parsable part of opponentRange) as weighted hands
+}
+
+// ============================================
+// LOCAL ENGINE RESULTS
+// ============================================
+export interface EquityResult {
+  equity: number; // 0-100, wins plus split-pot share
+  win: number; // 0-100
+  tie: number; // 0-100
+  samples: number; // Showdowns evaluated
+  method: 'exact' | 'monte-carlo';
+}
+
+export interface PotMath {
+  potOdds: number | null; // Pot-to-call ratio, 2.5 means 2.5:1
+  requiredEquity: number | null; // 0-100, equity needed to break even on a call
+  spr: number | null; // Stack-to-pot ratio
+  effectiveStackBb: number | null;
+  breakEvenFolds: Array<{ betFraction: number; foldPct: number }>; // Folds needed for a 0EV bluff
+}
+
+export type HandCategory =
+  | 'HIGH_CARD'
+  | 'PAIR'
+  | 'TWO_PAIR'
+  | 'TRIPS'
+  | 'STRAIGHT'
+  | 'FLUSH'
+  | 'FULL_HOUSE'
+  | 'QUADS'
+  | 'STRAIGHT_FLUSH';
+
+export interface HandEvaluation {
+  category: HandCategory;
+  label: string; // Category name, e.g. "Doppia Coppia"
+  description: string; // Relative strength, e.g. "Top Pair (kicker K)", "Nut Flush"
+  bestFive: Card[];
+}
+
+// ============================================
+// HAND RANGES (see utils/handRange.ts)
+// ============================================
+// Starting hand class: pair "QQ", suited "AKs" or offsuit "AKo"
+export type HandClass = string;
+
+// Weight (0-1) of each hand class in a range; classes not listed are out
+export type HandRange = Record<HandClass, number>;
+
+// Hands in standard notation sharing one weight, e.g. { hands: "QQ+, AKs", weight: 1 }
+export interface RangeGroup {
+  hands: string;
+  weight?: number; // 0-1, default 1
+}
+
+export interface ParsedRange {
+  range: HandRange;
+  combos: number; // Weighted combos out of 1326
+  percent: number; // 0-100, share of all starting hands
+  unparsed: string[]; // Tokens that are not range notation (free-text descriptions)
+}
+
+// Equity of Hero's hand (or range) against a weighted range (see utils/rangeEquity.ts)
+export interface RangeEquityRequest {
+  heroCards?: Card[];
+  heroRange?: HandRange; // Used when heroCards is omitted
+  villainRange: HandRange;
+  board: Card[];
+}
+
+export interface RangeEquityClass {
+  hand: HandClass;
+  combos: number; // Villain's weighted combos left after dead cards
+  win: number; // 0-100, share of these combos Hero beats
+  tie: number; // 0-100
+  lose: number; // 0-100
+}
+
+export interface RangeEquityResult {
+  equity: number; // 0-100, wins plus split-pot share
+  win: number; // 0-100, share of villain's range Hero beats
+  tie: number;
+  lose: number;
+  combos: number; // Villain's weighted combos left after dead cards
+  samples: number; // Showdowns evaluated
+  method: EquityResult['method'];
+  classes: RangeEquityClass[]; // Heaviest first
+}
+
+// Messages exchanged with utils/rangeEquity.worker.ts
+export interface RangeEquityJob {
+  id: number;
+  request: RangeEquityRequest;
+}
+
+export interface RangeEquityJobResult {
+  id: number;
+  result: RangeEquityResult | null;
 }
 
 // Type guard for PokerGameState
@@ -51,6 +191,58 @@ export function isPokerGameState(obj: unknown): obj is PokerGameState {
   );
 }
 
+// ============================================
+// HAND HISTORY
+// ============================================
+export type HandStreet = 'PREFLOP' | 'FLOP' | 'TURN' | 'RIVER';
+
+export interface HandSnapshot {
+  timestamp: number;
+  state: PokerGameState; // Includes the advice and reasoning given at that moment
+}
+
+export interface StreetRecord {
+  street: HandStreet;
+  startedAt: number;
+  snapshots: HandSnapshot[];
+}
+
+export interface HandRecord {
+  id: string;
+  startedAt: number;
+  updatedAt: number;
+  endedAt: number | null; // Set when the next hand starts
+  holeCards: Card[];
+  communityCards: Card[]; // Board as last seen
+  streets: StreetRecord[];
+  tableId?: string; // Set when several tables are played (see MULTI-TABLE)
+}
+
+// Compact view of a recorded hand, returned to the model by getRecentHands
+export interface HandSummary {
+  id: string;
+  startedAt: string; // ISO timestamp
+  holeCards: Card[];
+  communityCards: Card[];
+  handStrength: string; // As last reported
+  streets: Array<{
+    street: HandStreet;
+    suggestedAction: SuggestedAction;
+    potSize?: number;
+    amountToCall?: number;
+  }>;
+}
+
+// Opponent tendencies inferred from the recorded hands (no per-player tracking)
+export interface OpponentStats {
+  handsAnalyzed: number;
+  streetReachedPct: Record<HandStreet, number>; // 0-100, hands that got to each street
+  facedBetPct: Record<HandStreet, number | null>; // 0-100, of the hands on that street
+  avgBetToPot: Record<HandStreet, number | null>; // Average bet faced, as a fraction of the pot before it
+  recentRanges: string[]; // Latest estimated ranges, newest first
+  estimatedHands: Card[][]; // Opponent cards estimated at the end of each hand
+}
+
 // ============================================
 // TOOL ARGUMENTS (from Gemini)
 // ============================================
@@ -65,8 +257,50 @@ export interface PokerToolArgs {
   communityCards?: string[];
   opponentEstimatedCards?: string[];
   opponentRange?: string;
+  potSize?: number;
+  amountToCall?: number;
+  heroStack?: number;
+  effectiveStack?: number;
+  bigBlind?: number;
+  tableSize?: number;
+  heroSeat?: number;
+  dealerSeat?: number;
+  players?: TablePlayer[]; // Shape checked against the schema before use
+  structuredRange?: RangeGroup[];
+  tableId?: string; // Table label burnt into the frames, required with several tables
+}
+
+export interface ToolArgsValidation {
+  args: PokerToolArgs; // Only the fields that passed validation
+  errors: string[]; // Human-readable, sent back to the model so it can retry
 }
 
+// A tool call rejected by validation, kept for the diagnostics log
+export interface ToolDiagnostic {
+  id: string;
+  timestamp: Date;
+  callId: string;
+  toolName: string;
+  args: unknown; // Raw payload as received
+  errors: string[];
+}
+
+// ============================================
+// LOCAL TOOLS (computed in the browser, see utils/localTools.ts)
+// ============================================
+export interface LocalToolContext {
+  hands: HandRecord[];
+}
+
+export interface LocalTool {
+  declaration: FunctionDeclaration;
+  execute: (args: Record<string, unknown>, context: LocalToolContext) => unknown;
+}
+
+export type LocalToolResult =
+  | { success: true; result: unknown }
+  | { success: false; errors: string[] };
+
 // ============================================
 // TRANSCRIPTS
 // ============================================
@@ -112,6 +346,245 @@ export interface FrameData {
   timestamp: number;
 }
 
+// Region of interest captured at native video resolution
+export interface FrameCrop {
+  rect: RegionRect; // Normalised to the frame, see TABLE REGIONS
+  upscale?: number; // Output scale factor (capped by CROP_CONFIG)
+  sharpen?: boolean;
+}
+
+// Source rectangle in video pixels
+export interface CropArea {
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+}
+
+// Grayscale pixels (0-255), row by row
+export interface LumaImage {
+  width: number;
+  height: number;
+  luma: Uint8Array;
+}
+
+// Downscaled luminance of a frame, compared to skip unchanged frames
+export type FrameSignature = LumaImage;
+
+export interface FrameDiff {
+  changedRatio: number; // Share of the whole frame that changed (0-1)
+  regionRatio: number; // Highest share among the calibrated regions (0-1)
+}
+
+// first: nothing sent yet · changed: diff over threshold · keepalive: idle too long ·
+// interval: no pixel access, sent at the capture level's rate
+export type FrameSendReason = 'first' | 'changed' | 'keepalive' | 'interval';
+
+export interface FrameStats {
+  sent: number;
+  skipped: number; // Samples not sent because nothing changed
+  lastSentAt: Date | null;
+  lastReason: FrameSendReason | null;
+}
+
+// Adaptive capture: the profile is chosen by the user, the level by activity
+export type CaptureProfileId = 'BATTERY_SAVER' | 'BALANCED' | 'MAX_ACCURACY';
+export type CaptureLevel = 'IDLE' | 'NORMAL' | 'ACTIVE';
+
+export interface FrameEncoding {
+  width: number;
+  jpegQuality: number; // 0-1
+}
+
+export interface CaptureSettings extends FrameEncoding {
+  minSendIntervalMs: number; // Fastest frame rate allowed at this level
+}
+
+export interface CaptureActivity {
+  now: number;
+  lastChangeAt: number | null; // Last frame that differed from the previous one sent
+  lastFocusChangeAt: number | null; // Same, inside the board, hero cards or action regions
+  isHeroTurn: boolean;
+  backpressure: boolean; // Sends are piling up: step one level down
+}
+
+export interface CaptureStatus {
+  profile: CaptureProfileId;
+  level: CaptureLevel;
+  backpressure: boolean;
+  fps: number; // Frames sent per second over the rate window
+  bytesPerMinute: number; // Image bytes sent, frames and focused captures
+}
+
+// ============================================
+// CARD RECOGNITION (template matching)
+// ============================================
+// Rank or suit glyph from a card corner, resampled to GLYPH_WIDTH x GLYPH_HEIGHT ink coverage (0-255)
+export interface GlyphTemplate {
+  label: string; // CardRank or CardSuit
+  pixels: number[];
+}
+
+// Templates learnt for one poker client, keyed by its region profile
+export interface CardTemplateSet {
+  profileName: string;
+  ranks: GlyphTemplate[];
+  suits: GlyphTemplate[];
+  updatedAt: number;
+}
+
+export interface RecognizedCard {
+  card: Card | null; // Null when a glyph matched no template well enough
+  confidence: number; // 0-1, worst of the rank and suit matches
+}
+
+export type CardCheckStatus = 'confirmed' | 'mismatch' | 'unknown';
+
+export interface CardCheck {
+  card: Card; // As reported by the model
+  status: CardCheckStatus;
+  localCard?: Card; // What the recogniser read instead (mismatch only)
+}
+
+export interface CardCrossCheck {
+  holeCards: CardCheck[];
+  communityCards: CardCheck[];
+}
+
+export interface UseCardTemplatesReturn {
+  templates: CardTemplateSet | null; // For the active region profile
+  // `video` is the capture showing the region's table
+  countCards: (region: TableRegion, video: HTMLVideoElement | null) => number | null; // Null without a readable frame
+  trainFromRegion: (region: TableRegion, labels: string, video: HTMLVideoElement | null) => string[]; // Errors, empty on success
+  clearTemplates: () => void;
+}
+
+// ============================================
+// TABLE REGIONS (user calibration)
+// ============================================
+export type RegionKind = 'HERO_CARDS' | 'BOARD' | 'POT' | 'SEAT' | 'ACTIONS';
+
+// Normalised to the video frame: 0-1 from the top-left corner
+export interface RegionRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TableRegion {
+  id: string;
+  kind: RegionKind;
+  seat?: number; // SEAT regions only
+  rect: RegionRect;
+}
+
+export interface RegionProfile {
+  name: string;
+  regions: TableRegion[];
+  updatedAt: number;
+}
+
+export interface UseRegionProfilesReturn {
+  profiles: RegionProfile[];
+  activeProfile: RegionProfile; // Falls back to the built-in default layout
+  selectProfile: (name: string) => void;
+  saveProfile: (name: string, regions: TableRegion[]) => void;
+  deleteProfile: (name: string) => void;
+}
+
+// ============================================
+// MULTI-TABLE
+// ============================================
+// A table played at the same time as others: a whole capture or an area of one.
+// Calibrated regions are relative to the table area.
+export interface TableDefinition {
+  id: string; // 'T1', 'T2'...: label burnt into the frames and passed back as tableId
+  name: string;
+  captureIndex: number; // 0: main screen share · 1+: extra captures
+  rect: RegionRect; // Table area, normalised to its capture
+}
+
+export interface UseTableLayoutReturn {
+  tables: TableDefinition[]; // Never empty
+  addTable: () => void;
+  updateTable: (id: string, patch: Partial<Omit<TableDefinition, 'id'>>) => void;
+  removeTable: (id: string) => void;
+}
+
+// ============================================
+// PREFLOP CHARTS (see utils/preflopCharts.ts)
+// ============================================
+export type PreflopChartAction = 'RAISE' | 'CALL' | 'FOLD';
+
+// Hero's ranges in one spot, from a stack depth up to the next deeper chart
+export interface PreflopChart {
+  positions: TablePosition[]; // Hero's positions
+  vs?: TablePosition[]; // Opener's positions; omitted for unopened pots
+  minStackBb: number; // Effective stack in big blinds
+  raise: string; // Open or 3-bet range, standard notation (e.g. "QQ+, AKs, A5s:0.5")
+  call?: string; // Flat calls against the open
+}
+
+export interface PreflopChartSet {
+  name: string;
+  charts: PreflopChart[];
+}
+
+export interface PreflopAdvice {
+  action: PreflopChartAction;
+  frequency: number; // 0-1, weight of Hero's hand in the chart range (1 for folds)
+  hand: HandClass;
+  position: TablePosition;
+  vs?: TablePosition; // Opener, when facing an open
+  stackBb: number; // Depth the chart was picked for
+  deviation: boolean; // The model's suggestedAction disagrees with the chart
+}
+
+export interface UsePreflopChartsReturn {
+  chartSet: PreflopChartSet;
+  saveCharts: (json: string) => string[]; // Errors; nothing is saved unless empty
+  importCharts: (file: File) => Promise<string[]>;
+  exportCharts: () => void;
+  resetCharts: () => void;
+}
+
+// ============================================
+// TOURNAMENT (ICM, see utils/icm.ts)
+// ============================================
+export type TournamentStackSource = 'TABLE' | 'MANUAL';
+
+export interface TournamentSettings {
+  enabled: boolean; // Off: chip-EV cash game
+  payouts: number[]; // Prize per finishing place, 1st first (any currency)
+  stackSource: TournamentStackSource; // TABLE: per-seat stacks of the current state
+  manualStacks: number[]; // Every player left, Hero first (MANUAL)
+}
+
+// Hero facing a bet that puts one of the two players all-in
+export interface IcmCallAnalysis {
+  requiredEquity: number; // 0-100, equity a call needs under ICM
+  chipRequiredEquity: number; // 0-100, the same call in chip EV
+  riskPremium: number; // Percentage points ICM adds to the chip-EV requirement
+  foldEv: number; // Hero's $EV after folding
+  winEv: number; // ... after calling and winning
+  loseEv: number; // ... after calling and losing
+}
+
+export interface TournamentAnalysis {
+  playerCount: number;
+  prizePool: number;
+  heroEv: number; // Hero's prize equity ($EV) with the current stacks
+  heroShare: number; // 0-100, of the prize pool
+  heroChipShare: number; // 0-100, of the chips in play
+  call: IcmCallAnalysis | null;
+}
+
+export interface UseTournamentSettingsReturn {
+  settings: TournamentSettings;
+  updateSettings: (patch: Partial<TournamentSettings>) => void;
+}
+
 // ============================================
 // LIVE SESSION (Gemini API)
 // ============================================
@@ -119,6 +592,9 @@ export interface LiveSessionConfig {
   model: string;
   systemInstruction: string;
   voiceName: string;
+  functionDeclarations: FunctionDeclaration[];
+  resumptionHandle?: string; // Resume a previous session (ignored by backends without resumption)
+  tableIds?: string[]; // Tables played, first one first (the mock addresses its tool calls to the first)
 }
 
 export interface RealtimeInput {
@@ -143,12 +619,66 @@ export interface ToolResponse {
   }>;
 }
 
+// ============================================
+// LIVE TRANSPORT (Gemini or local mock)
+// ============================================
+export type LiveTransportBackend = 'gemini' | 'mock';
+
+export interface LiveTransportCallbacks {
+  onopen: () => void;
+  onmessage: (msg: LiveServerMessage) => void;
+  onclose: (event?: { code?: number; reason?: string }) => void;
+  onerror: (error: unknown) => void;
+}
+
+// The operations the hook performs on an open session
+export interface LiveSession {
+  sendRealtimeInput: (input: RealtimeInput) => void;
+  sendToolResponse: (response: ToolResponse) => void;
+  close: () => void;
+}
+
+export interface LiveTransport {
+  readonly backend: LiveTransportBackend;
+  connect: (config: LiveSessionConfig, callbacks: LiveTransportCallbacks) => Promise<LiveSession>;
+}
+
+// ============================================
+// SESSION RECORDING
+// ============================================
+// `t` is the offset in ms from the start of the recording
+export type SessionEvent =
+  | { t: number; type: 'frame'; mimeType: string; data: string } // Outbound frame (base64)
+  | { t: number; type: 'prompt'; text: string } // Outbound text prompt
+  | { t: number; type: 'server'; message: LiveServerMessage } // Inbound message
+  | { t: number; type: 'state'; state: PokerGameState; tableId?: string }; // HUD state after a tool call
+
+export interface SessionArchive {
+  format: string;
+  version: number;
+  startedAt: number; // ms since epoch
+  events: SessionEvent[];
+}
+
+export interface UseSessionRecorderReturn {
+  isRecording: boolean;
+  recordedEventCount: number;
+  startRecording: () => void;
+  stopRecording: () => void;
+  downloadRecording: () => void;
+  recordEvent: (event: DistributiveOmit<SessionEvent, 't'>) => void;
+}
+
 // ============================================
 // HOOK PROPS & RETURNS
 // ============================================
 export interface UseLiveGeminiProps {
   videoRef: RefObject<HTMLVideoElement>;
   canvasRef: RefObject<HTMLCanvasElement>;
+  regions?: TableRegion[]; // Calibrated layout used by analyzeRegion (default layout if omitted)
+  cardTemplates?: CardTemplateSet | null; // Enables the local second opinion on cards
+  tables?: TableDefinition[]; // Tables played at once (one table on the whole screen if omitted)
+  tournament?: TournamentSettings | null; // ICM figures are returned with every state update when enabled
 }
 
 export interface UseLiveGeminiReturn {
@@ -156,18 +686,30 @@ export interface UseLiveGeminiReturn {
   connect: () => Promise<void>;
   disconnect: () => void;
   isActive: boolean;
+  connectionState: ConnectionState; // RECONNECTING keeps mic and screen streams alive
+  connectionMetrics: ConnectionMetrics;
+  retryNow: () => void; // Skip the backoff wait (or reconnect after giving up)
+  frameStats: FrameStats; // Change detection on the screen stream
+  captureStatus: CaptureStatus;
+  setCaptureProfile: (profile: CaptureProfileId) => void;
   
   // Screen sharing
   isStreamingScreen: boolean;
   startScreenShare: () => Promise<void>;
   stopScreenShare: () => void;
+  captureCount: number; // Main screen share plus extra captures (0 when not sharing)
+  addCapture: () => Promise<void>; // Extra window/screen for tables not on the main share
+  getCaptureVideo: (captureIndex: number) => HTMLVideoElement | null; // 0: main screen share
   
   // Audio
   volume: number;
   setVolume: (val: number) => void;
   
   // Game state
-  pokerState: PokerGameState | null;
+  pokerState: PokerGameState | null; // Selected table
+  tableStates: Record<string, PokerGameState>; // By table id
+  selectedTableId: string;
+  selectTable: (id: string) => void;
   
   // Errors
   error: string | null;
@@ -182,6 +724,56 @@ export interface UseLiveGeminiReturn {
   
   // Transcripts
   transcripts: Transcript[];
+  
+  // Tool calls rejected by validation
+  toolDiagnostics: ToolDiagnostic[];
+  clearToolDiagnostics: () => void;
+  
+  // Hand history
+  hands: HandRecord[];
+  deleteHand: (id: string) => Promise<void>;
+  clearHandHistory: () => Promise<void>;
+  
+  // Live transport in use (see LIVE_TRANSPORT_CONFIG)
+  transportBackend: LiveTransportBackend;
+  
+  // Session recording & offline replay
+  sessionRecorder: UseSessionRecorderReturn;
+  startSessionReplay: (file: File, speed: number) => Promise<void>;
+  stopSessionReplay: () => void;
+  isSessionReplaying: boolean;
+  sessionReplayFrame: string | null; // Latest replayed frame (base64 JPEG)
+  sessionReplayProgress: number; // 0-1
+}
+
+export interface UseHandReplayReturn {
+  isReplaying: boolean;
+  replayHands: HandRecord[];
+  handIndex: number;
+  stepIndex: number;
+  stepCount: number;
+  currentStreet: HandStreet | null;
+  replayState: PokerGameState | null;
+  loadFile: (file: File) => Promise<void>;
+  selectHand: (index: number) => void;
+  nextStep: () => void;
+  prevStep: () => void;
+  closeReplay: () => void;
+  requestReview: () => Promise<void>;
+  isReviewing: boolean;
+  replayError: string | null;
+}
+
+export interface UseHandHistoryReturn {
+  hands: HandRecord[];
+  recordState: (state: PokerGameState, timestamp?: number, tableId?: string) => void; // One hand in progress per table
+  deleteHand: (id: string) => Promise<void>;
+  clearHands: () => Promise<void>;
+}
+
+export interface UseRangeEquityReturn {
+  rangeEquity: RangeEquityResult | null; // Hero's hand against localRange on the current board
+  isCalculating: boolean;
 }
 
 // ============================================
@@ -190,14 +782,26 @@ export interface UseLiveGeminiReturn {
 export interface ControlBarProps {
   isActive: boolean;
   isStreamingScreen: boolean;
+  connectionState: ConnectionState;
+  connectionMetrics: ConnectionMetrics;
+  onRetryNow: () => void;
   onConnect: () => void;
   onDisconnect: () => void;
   onStartScreen: () => void;
   onStopScreen: () => void;
+  captureStatus: CaptureStatus;
+  onCaptureProfileChange: (profile: CaptureProfileId) => void;
   volume: number;
   setVolume: (val: number) => void;
 }
 
+export interface ConnectionIndicatorProps {
+  connectionState: ConnectionState;
+  connectionMetrics?: ConnectionMetrics; // Detailed view (latency, last tool call) when given
+  onRetryNow?: () => void;
+  compact?: boolean; // Header badge: status, retry countdown and retry button only
+}
+
 export interface AudioVisualizerProps {
   isActive: boolean;
   inputLevel?: number;
@@ -207,15 +811,139 @@ export interface AudioVisualizerProps {
 export interface PokerStatsDisplayProps {
   state: PokerGameState | null;
   isStreaming: boolean;
-  onManualScan: () => void;
+  onManualScan?: () => void; // Omitted in replay: nothing to scan
   onDeepAnalysis: () => void;
   isDeepAnalyzing: boolean;
+  tables?: TableTab[]; // Tabs shown with two or more tables
+  selectedTableId?: string;
+  onSelectTable?: (id: string) => void;
+  rangeEquity?: RangeEquityResult | null;
+  isRangeEquityCalculating?: boolean;
+  preflopAdvice?: PreflopAdvice | null;
+  tournament?: TournamentAnalysis | null;
+}
+
+export interface TableTab {
+  table: TableDefinition;
+  state: PokerGameState | null;
+}
+
+export interface PreflopChartPanelProps {
+  chartSet: PreflopChartSet;
+  onSave: UsePreflopChartsReturn['saveCharts'];
+  onImport: UsePreflopChartsReturn['importCharts'];
+  onExport: () => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+export interface TournamentPanelProps {
+  settings: TournamentSettings;
+  onChange: UseTournamentSettingsReturn['updateSettings'];
+  onClose: () => void;
+}
+
+export interface TableSetupPanelProps {
+  tables: TableDefinition[];
+  captureCount: number;
+  canAddCapture: boolean; // Extra captures need the main screen share
+  onAddTable: () => void;
+  onUpdateTable: UseTableLayoutReturn['updateTable'];
+  onRemoveTable: (id: string) => void;
+  onAddCapture: () => void;
+  onClose: () => void;
+}
+
+export interface TableDiagramProps {
+  players: TablePlayer[];
+  tableSize?: number;
+  heroSeat?: number;
+  dealerSeat?: number;
+}
+
+export interface RangeEquityBreakdownProps {
+  result: RangeEquityResult;
+  isCalculating: boolean; // A newer board or range is being computed
+}
+
+export interface RangeGridProps {
+  range: ParsedRange;
+  heroCards?: Card[]; // Outlines Hero's hand class
+}
+
+export interface PotMathTilesProps {
+  potMath: PotMath;
+  engineEquity?: number;
+}
+
+export interface HandHistoryPanelProps {
+  hands: HandRecord[];
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+export interface DiagnosticsPanelProps {
+  diagnostics: ToolDiagnostic[];
+  frameStats: FrameStats;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+export interface ReplayControlsProps {
+  hands: HandRecord[];
+  handIndex: number;
+  stepIndex: number;
+  stepCount: number;
+  currentStreet: HandStreet | null;
+  error: string | null;
+  onSelectHand: (index: number) => void;
+  onNext: () => void;
+  onPrev: () => void;
+  onClose: () => void;
+}
+
+export interface SessionControlsProps {
+  isRecording: boolean;
+  recordedEventCount: number;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onDownloadRecording: () => void;
+  isReplaying: boolean;
+  replayProgress: number;
+  replaySpeed: number;
+  onReplaySpeedChange: (speed: number) => void;
+  onStartReplay: (file: File) => void;
+  onStopReplay: () => void;
+  disabled: boolean; // Replay is offline-only
 }
 
 export interface VideoPreviewProps {
   videoRef: RefObject<HTMLVideoElement>;
   isStreaming: boolean;
-  onVideoClick?: (x: number, y: number) => void;
+  onVideoClick?: (x: number, y: number) => void; // Frame coordinates, 0-1
+  replayFrame?: string | null; // Shown instead of the live video during session replay
+  regions: TableRegion[]; // Names the clicked region
+}
+
+export interface CardTrainingPanelProps {
+  regions: TableRegion[]; // Hero and board regions are used
+  profileName: string;
+  templates: CardTemplateSet | null;
+  onCountCards: (region: TableRegion) => number | null;
+  onTrain: (region: TableRegion, labels: string) => string[];
+  onClear: () => void;
+  onClose: () => void;
+}
+
+export interface RegionCalibratorProps {
+  videoRef: RefObject<HTMLVideoElement>;
+  profiles: RegionProfile[];
+  activeProfile: RegionProfile;
+  onSelectProfile: (name: string) => void;
+  onSaveProfile: (name: string, regions: TableRegion[]) => void;
+  onDeleteProfile: (name: string) => void;
+  onClose: () => void;
 }
 
 export interface TranscriptionLogProps {
@@ -254,6 +982,20 @@ export class ScreenCaptureError extends Error {
   }
 }
 
+export class SessionArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionArchiveError';
+  }
+}
+
+export class HandHistoryImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HandHistoryImportError';
+  }
+}
+
 // ============================================
 // UTILITY TYPES
 // ============================================
@@ -262,3 +1004,6 @@ export type DeepPartial<T> = {
 };
 
 export type AsyncFunction<T = void> = () => Promise<T>;
+
+// Omit that keeps union members apart
+export type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
@@ -0,0 +1,121 @@
+/**
+ * Capture Controller
+ *
+ * Adapts the screen stream to what is happening at the table:
+ * - ACTIVE while hero faces a decision or the board/action area just changed
+ * - NORMAL while the table keeps changing elsewhere
+ * - IDLE once nothing has changed for a while
+ * Backpressure (slow replies, encodes still running) steps one level down.
+ * The user-selected profile maps each level to a frame rate, size and quality.
+ */
+
+import { ADAPTIVE_CAPTURE_CONFIG, CAPTURE_PROFILES, FRAME_DIFF_CONFIG } from '../constants.ts';
+import {
+  CaptureActivity,
+  CaptureLevel,
+  CaptureProfileId,
+  CaptureSettings,
+  FrameSignature,
+  PokerGameState,
+  RegionKind,
+  TablePlayer,
+  TableRegion
+} from '../types.ts';
+import { compareSignatures } from './frameDiff.ts';
+
+const LEVELS: CaptureLevel[] = ['IDLE', 'NORMAL', 'ACTIVE'];
+
+// Regions whose changes mean a decision is coming
+const FOCUS_REGION_KINDS: RegionKind[] = ['BOARD', 'ACTIONS', 'HERO_CARDS'];
+
+export interface SentImage {
+  at: number;
+  bytes: number;
+  isFrame: boolean; // Stream frame (counted in fps) rather than a focused capture
+}
+
+export function getCaptureSettings(profile: CaptureProfileId, level: CaptureLevel): CaptureSettings {
+  return CAPTURE_PROFILES[profile].levels[level];
+}
+
+/**
+ * Hero has to act, from the table rather than the advice (given for the whole hand):
+ * dealt in and not folded, and either facing a bet or checked to after the others
+ * acted while hero has not. Hero's turn with nothing before it (first to act) shows
+ * up as a change in the action area instead (see isFocusChange).
+ */
+export function isHeroTurn(state: PokerGameState | null): boolean {
+  if (!state || state.holeCards.length !== 2 || state.suggestedAction === 'WAITING') return false;
+  const hero = state.players?.find(p => p.seat === state.heroSeat);
+  if (hero && !hero.inHand) return false;
+  if ((state.amountToCall ?? 0) > 0) return true;
+
+  if (!hero) return false;
+  const hasActed = (action: TablePlayer['lastAction']) => action !== undefined && action !== 'NONE' && action !== 'POST';
+  return !hasActed(hero.lastAction) && state.players!.some(p => p !== hero && p.inHand && hasActed(p.lastAction));
+}
+
+/**
+ * True when the board, hero cards or action buttons changed between two signatures.
+ */
+export function isFocusChange(previous: FrameSignature, next: FrameSignature, regions: TableRegion[]): boolean {
+  const focus = regions.filter(r => FOCUS_REGION_KINDS.includes(r.kind));
+  if (focus.length === 0) return false;
+  return compareSignatures(previous, next, focus).regionRatio >= FRAME_DIFF_CONFIG.REGION_CHANGED_RATIO;
+}
+
+/**
+ * Picks the capture level for the current activity.
+ *
+ * @example
+ * ```ts
+ * selectCaptureLevel({ now, lastChangeAt: now - 1000, lastFocusChangeAt: null, isHeroTurn: false, backpressure: false });
+ * // 'NORMAL'
+ * ```
+ */
+export function selectCaptureLevel({ now, lastChangeAt, lastFocusChangeAt, isHeroTurn, backpressure }: CaptureActivity): CaptureLevel {
+  let level: CaptureLevel = 'IDLE';
+  if (isHeroTurn || (lastFocusChangeAt !== null && now - lastFocusChangeAt < ADAPTIVE_CAPTURE_CONFIG.ACTIVE_HOLD_MS)) {
+    level = 'ACTIVE';
+  } else if (lastChangeAt !== null && now - lastChangeAt < ADAPTIVE_CAPTURE_CONFIG.IDLE_AFTER_MS) {
+    level = 'NORMAL';
+  }
+
+  return backpressure ? LEVELS[Math.max(0, LEVELS.indexOf(level) - 1)] : level;
+}
+
+/** The busier of two levels (the stream runs at its busiest table's level) */
+export function maxCaptureLevel(a: CaptureLevel, b: CaptureLevel): CaptureLevel {
+  return LEVELS.indexOf(a) >= LEVELS.indexOf(b) ? a : b;
+}
+
+/** Decoded size of a base64 payload */
+export function base64Bytes(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+/**
+ * Effective frame rate and image bandwidth over the rate window.
+ * Right after the stream starts the rates are averaged over the time elapsed so far.
+ *
+ * @param sent - Images sent, oldest first
+ * @param startedAt - When the stream started
+ */
+export function computeCaptureRates(
+  sent: SentImage[],
+  now: number,
+  startedAt: number,
+  windowMs: number = ADAPTIVE_CAPTURE_CONFIG.RATE_WINDOW_MS
+): { fps: number; bytesPerMinute: number } {
+  const span = Math.min(windowMs, now - startedAt);
+  if (span <= 0) return { fps: 0, bytesPerMinute: 0 };
+
+  const recent = sent.filter(image => now - image.at < windowMs);
+  const frames = recent.filter(image => image.isFrame).length;
+  const bytes = recent.reduce((sum, image) => sum + image.bytes, 0);
+  return {
+    fps: Math.round((frames / (span / 1000)) * 100) / 100,
+    bytesPerMinute: Math.round(bytes / (span / 60000)),
+  };
+}
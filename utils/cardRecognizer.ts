@@ -0,0 +1,309 @@
+/**
+ * Card Recognizer
+ *
+ * Offline second opinion on the cards read by the live model, by template
+ * matching on the calibrated hero and board regions:
+ * - Finds the card faces (bright columns) in a grayscale region
+ * - Cuts the rank and suit glyphs from each card's top-left corner
+ * - Learns glyph templates from a few cards labelled by the user
+ * - Matches glyphs against the templates and cross-checks the model's cards
+ *
+ * Templates are specific to a poker client's deck, so they are stored per
+ * region profile. Overlapping cards are split by the usual card aspect
+ * ratio, which is only approximate.
+ */
+
+import { CARD_RECOGNITION_CONFIG } from '../constants.ts';
+import {
+  Card,
+  CardCheck,
+  CardRank,
+  CardSuit,
+  CardTemplateSet,
+  GlyphTemplate,
+  LumaImage,
+  RecognizedCard
+} from '../types.ts';
+import { RANKS, SUITS, parseCard } from './cardUtils.ts';
+
+export interface CardBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CardGlyphs {
+  rank: number[];
+  suit: number[];
+}
+
+// ============================================
+// SEGMENTATION
+// ============================================
+
+/**
+ * Finds the card faces in a region, left to right.
+ */
+export function findCardBoxes(image: LumaImage): CardBox[] {
+  const { width, height, luma } = image;
+  const isFace = (x: number, y: number) => luma[y * width + x] >= CARD_RECOGNITION_CONFIG.CARD_FACE_LUMA;
+
+  // Runs of columns mostly covered by card faces
+  const runs: Array<[number, number]> = [];
+  let runStart = -1;
+  for (let x = 0; x <= width; x++) {
+    let filled = 0;
+    if (x < width) {
+      for (let y = 0; y < height; y++) filled += isFace(x, y) ? 1 : 0;
+    }
+    const isCardColumn = x < width && filled / height >= CARD_RECOGNITION_CONFIG.MIN_COLUMN_FILL;
+    if (isCardColumn && runStart === -1) runStart = x;
+    if (!isCardColumn && runStart !== -1) {
+      runs.push([runStart, x]);
+      runStart = -1;
+    }
+  }
+
+  const boxes: CardBox[] = [];
+  for (const [left, right] of runs) {
+    // Vertical extent: rows mostly covered within the run
+    let top = -1;
+    let bottom = -1;
+    for (let y = 0; y < height; y++) {
+      let filled = 0;
+      for (let x = left; x < right; x++) filled += isFace(x, y) ? 1 : 0;
+      if (filled / (right - left) >= CARD_RECOGNITION_CONFIG.MIN_ROW_FILL) {
+        if (top === -1) top = y;
+        bottom = y + 1;
+      }
+    }
+    const cardHeight = bottom - top;
+    if (top === -1 || cardHeight < CARD_RECOGNITION_CONFIG.MIN_CARD_HEIGHT) continue;
+
+    // Touching or overlapping cards form one run: split it by the card aspect ratio
+    const count = Math.max(1, Math.round((right - left) / (cardHeight * CARD_RECOGNITION_CONFIG.CARD_ASPECT)));
+    const cardWidth = (right - left) / count;
+    for (let i = 0; i < count; i++) {
+      boxes.push({ x: Math.round(left + i * cardWidth), y: top, width: Math.round(cardWidth), height: cardHeight });
+    }
+  }
+  return boxes;
+}
+
+// Ink coverage of a source rectangle, resampled to the glyph size
+function resampleInk(image: LumaImage, x0: number, y0: number, w: number, h: number): number[] {
+  const { GLYPH_WIDTH, GLYPH_HEIGHT, INK_LUMA } = CARD_RECOGNITION_CONFIG;
+  const pixels: number[] = [];
+  for (let gy = 0; gy < GLYPH_HEIGHT; gy++) {
+    const ys = y0 + Math.floor((gy * h) / GLYPH_HEIGHT);
+    const ye = Math.max(ys + 1, y0 + Math.ceil(((gy + 1) * h) / GLYPH_HEIGHT));
+    for (let gx = 0; gx < GLYPH_WIDTH; gx++) {
+      const xs = x0 + Math.floor((gx * w) / GLYPH_WIDTH);
+      const xe = Math.max(xs + 1, x0 + Math.ceil(((gx + 1) * w) / GLYPH_WIDTH));
+      let ink = 0;
+      for (let y = ys; y < ye; y++) {
+        for (let x = xs; x < xe; x++) ink += image.luma[y * image.width + x] < INK_LUMA ? 1 : 0;
+      }
+      pixels.push(Math.round((ink / ((ye - ys) * (xe - xs))) * 255));
+    }
+  }
+  return pixels;
+}
+
+/**
+ * Cuts the rank (first ink band) and suit (second ink band) from a card's corner.
+ *
+ * @returns Resampled glyphs, or null if the corner does not hold two glyphs
+ */
+export function extractGlyphs(image: LumaImage, box: CardBox): CardGlyphs | null {
+  const cornerWidth = Math.max(1, Math.round(box.width * CARD_RECOGNITION_CONFIG.CORNER_WIDTH));
+  const cornerHeight = Math.max(1, Math.round(box.height * CARD_RECOGNITION_CONFIG.CORNER_HEIGHT));
+  const isInk = (x: number, y: number) => image.luma[y * image.width + x] < CARD_RECOGNITION_CONFIG.INK_LUMA;
+
+  // Bands of rows containing ink, separated by blank rows
+  const bands: Array<[number, number]> = [];
+  let bandStart = -1;
+  for (let y = box.y; y <= box.y + cornerHeight; y++) {
+    let hasInk = false;
+    if (y < box.y + cornerHeight) {
+      for (let x = box.x; x < box.x + cornerWidth && !hasInk; x++) hasInk = isInk(x, y);
+    }
+    if (hasInk && bandStart === -1) bandStart = y;
+    if (!hasInk && bandStart !== -1) {
+      bands.push([bandStart, y]);
+      bandStart = -1;
+    }
+  }
+  if (bands.length < 2) return null;
+
+  const glyph = ([top, bottom]: [number, number]) => {
+    let left = box.x + cornerWidth;
+    let right = box.x;
+    for (let y = top; y < bottom; y++) {
+      for (let x = box.x; x < box.x + cornerWidth; x++) {
+        if (isInk(x, y)) {
+          left = Math.min(left, x);
+          right = Math.max(right, x + 1);
+        }
+      }
+    }
+    return resampleInk(image, left, top, right - left, bottom - top);
+  };
+
+  return { rank: glyph(bands[0]), suit: glyph(bands[1]) };
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Finds the template closest to a glyph (1 - mean absolute difference).
+ *
+ * @returns Best label and score, or null if no template scores MIN_MATCH_SCORE
+ */
+export function matchGlyph(pixels: number[], templates: GlyphTemplate[]): { label: string; score: number } | null {
+  let best: { label: string; score: number } | null = null;
+  for (const template of templates) {
+    if (template.pixels.length !== pixels.length) continue;
+    let diff = 0;
+    for (let i = 0; i < pixels.length; i++) diff += Math.abs(pixels[i] - template.pixels[i]);
+    const score = 1 - diff / (pixels.length * 255);
+    if (!best || score > best.score) best = { label: template.label, score };
+  }
+  return best && best.score >= CARD_RECOGNITION_CONFIG.MIN_MATCH_SCORE ? best : null;
+}
+
+/**
+ * Reads every card in a region.
+ *
+ * @example
+ * ```ts
+ * recognizeCards(boardImage, templates);
+ * // [{ card: 'Qh', confidence: 0.94 }, { card: '7s', confidence: 0.91 }, { card: null, confidence: 0 }]
+ * ```
+ */
+export function recognizeCards(image: LumaImage, templates: CardTemplateSet): RecognizedCard[] {
+  return findCardBoxes(image).map(box => {
+    const glyphs = extractGlyphs(image, box);
+    const rank = glyphs && matchGlyph(glyphs.rank, templates.ranks);
+    const suit = glyphs && matchGlyph(glyphs.suit, templates.suits);
+    if (!rank || !suit) return { card: null, confidence: 0 };
+    return { card: `${rank.label as CardRank}${suit.label as CardSuit}`, confidence: Math.min(rank.score, suit.score) };
+  });
+}
+
+/**
+ * Compares the model's cards with the ones read locally. Order is ignored:
+ * a model card is confirmed if it was read anywhere in the region, and a
+ * mismatch when the region holds a card the model did not report.
+ */
+export function crossCheckCards(modelCards: Card[], recognized: RecognizedCard[]): CardCheck[] {
+  const read = recognized.flatMap(r => r.card ? [r.card] : []);
+  const unexplained = read.filter(card => !modelCards.includes(card));
+
+  return modelCards.map(card => {
+    if (read.includes(card)) return { card, status: 'confirmed' };
+    const localCard = unexplained.shift();
+    return localCard ? { card, status: 'mismatch', localCard } : { card, status: 'unknown' };
+  });
+}
+
+// ============================================
+// TRAINING
+// ============================================
+
+export function emptyTemplateSet(profileName: string): CardTemplateSet {
+  return { profileName, ranks: [], suits: [], updatedAt: 0 };
+}
+
+// Keeps the newest templates of each label
+const addTemplate = (templates: GlyphTemplate[], template: GlyphTemplate): GlyphTemplate[] => {
+  const sameLabel = templates.filter(t => t.label === template.label);
+  const dropped = sameLabel.length >= CARD_RECOGNITION_CONFIG.MAX_TEMPLATES_PER_LABEL ? sameLabel[0] : null;
+  return [...templates.filter(t => t !== dropped), template];
+};
+
+/**
+ * Learns glyph templates from the cards visible in a region.
+ *
+ * @param labels - The visible cards left to right, e.g. "Ah Kd" or "Q♥ 7s 2c"
+ * @returns Updated templates, plus errors (templates unchanged) if the labels don't fit the region
+ */
+export function trainTemplates(
+  set: CardTemplateSet,
+  image: LumaImage,
+  labels: string
+): { set: CardTemplateSet; errors: string[] } {
+  const tokens = labels.split(/[\s,]+/).filter(Boolean);
+  const cards = tokens.map(parseCard);
+  const errors = tokens.flatMap((token, i) => cards[i] ? [] : [`carta non valida: "${token}"`]);
+  if (tokens.length === 0) errors.push('nessuna carta indicata');
+  if (errors.length > 0) return { set, errors };
+
+  const boxes = findCardBoxes(image);
+  if (boxes.length !== cards.length) {
+    return { set, errors: [`rilevate ${boxes.length} carte nella regione, indicate ${cards.length}`] };
+  }
+
+  let { ranks, suits } = set;
+  for (let i = 0; i < boxes.length; i++) {
+    const glyphs = extractGlyphs(image, boxes[i]);
+    if (!glyphs) {
+      return { set, errors: [`carta ${i + 1}: rank e seme non leggibili nell'angolo`] };
+    }
+    const card = cards[i] as Card;
+    ranks = addTemplate(ranks, { label: card[0], pixels: glyphs.rank });
+    suits = addTemplate(suits, { label: card[1], pixels: glyphs.suit });
+  }
+
+  return { set: { ...set, ranks, suits, updatedAt: Date.now() }, errors: [] };
+}
+
+// ============================================
+// PERSISTENCE FORMAT
+// ============================================
+
+const GLYPH_SIZE = CARD_RECOGNITION_CONFIG.GLYPH_WIDTH * CARD_RECOGNITION_CONFIG.GLYPH_HEIGHT;
+
+const isTemplate = (labels: readonly string[]) => (value: unknown): value is GlyphTemplate => {
+  if (typeof value !== 'object' || value === null) return false;
+  const template = value as Record<string, unknown>;
+  return labels.includes(template.label as string)
+    && Array.isArray(template.pixels)
+    && template.pixels.length === GLYPH_SIZE
+    && template.pixels.every(p => typeof p === 'number');
+};
+
+/**
+ * Parses stored template sets, dropping malformed entries instead of failing.
+ */
+export function parseCardTemplates(content: string | null): CardTemplateSet[] {
+  if (!content) return [];
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(content);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(payload)) return [];
+
+  return payload
+    .filter((set): set is CardTemplateSet =>
+      typeof set === 'object' && set !== null
+      && typeof set.profileName === 'string'
+      && Array.isArray(set.ranks) && Array.isArray(set.suits)
+    )
+    .map(set => ({
+      profileName: set.profileName,
+      ranks: set.ranks.filter(isTemplate(RANKS)),
+      suits: set.suits.filter(isTemplate(SUITS)),
+      updatedAt: typeof set.updatedAt === 'number' ? set.updatedAt : 0,
+    }));
+}
+
+export function serializeCardTemplates(sets: CardTemplateSet[]): string {
+  return JSON.stringify(sets);
+}
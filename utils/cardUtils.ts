@@ -0,0 +1,140 @@
+/**
+ * Card Utilities
+ *
+ * Single place where card notation coming from the model is parsed:
+ * - Accepts "Ah", "AH", "ah", "10s", "Ts", "10♠", "A♥" ...
+ * - Normalises to the canonical `Card` form: rank (2-9, T, J, Q, K, A) + suit (c, d, h, s)
+ * - Validates card sets for duplicates and impossible Hold'em counts
+ */
+
+import { Card, CardRank, CardSuit } from '../types.ts';
+
+export const RANKS: readonly CardRank[] = ['2', '3', '4', '5', '6', '7', '8', '9', 'T', 'J', 'Q', 'K', 'A'];
+export const SUITS: readonly CardSuit[] = ['c', 'd', 'h', 's'];
+
+// Valid card counts per hand section (Texas Hold'em)
+export const HOLE_CARD_COUNTS = [0, 2] as const;
+export const BOARD_CARD_COUNTS = [0, 3, 4, 5] as const;
+
+const SUIT_ALIASES: Record<string, CardSuit> = {
+  c: 'c', '♣': 'c', '♧': 'c',
+  d: 'd', '♦': 'd', '♢': 'd',
+  h: 'h', '♥': 'h', '♡': 'h',
+  s: 's', '♠': 's', '♤': 's',
+};
+
+const SUIT_SYMBOLS: Record<CardSuit, string> = {
+  c: '♣',
+  d: '♦',
+  h: '♥',
+  s: '♠',
+};
+
+/**
+ * Parses any supported card notation into a canonical card.
+ *
+ * @param input - Card as sent by the model (e.g. "10♠", "AH", "Ts")
+ * @returns Canonical card (e.g. "Ts"), or null if it cannot be parsed
+ *
+ * @example
+ * ```ts
+ * parseCard('10♠'); // 'Ts'
+ * parseCard('AH');  // 'Ah'
+ * parseCard('?');   // null
+ * ```
+ */
+export function parseCard(input: string): Card | null {
+  // Drop whitespace and the emoji variation selector some fonts attach to suits
+  const compact = input.replace(/[\s\uFE0F]/g, '');
+  if (compact.length < 2) return null;
+
+  const suit = SUIT_ALIASES[compact.slice(-1).toLowerCase()];
+  let rank = compact.slice(0, -1).toUpperCase();
+  if (rank === '10') rank = 'T';
+
+  if (!suit || !RANKS.includes(rank as CardRank)) return null;
+  return `${rank as CardRank}${suit}`;
+}
+
+/**
+ * Encodes a canonical card as an integer (rank index * 4 + suit index),
+ * the format used by the hand evaluator.
+ */
+export function cardToIndex(card: Card): number {
+  return RANKS.indexOf(card[0] as CardRank) * 4 + SUITS.indexOf(card[1] as CardSuit);
+}
+
+/**
+ * Decodes an integer produced by `cardToIndex` back to a canonical card.
+ */
+export function indexToCard(index: number): Card {
+  return `${RANKS[index >> 2]}${SUITS[index & 3]}`;
+}
+
+/**
+ * Returns rank and suit symbol for rendering (e.g. "Ts" → { rank: '10', suit: '♠' }).
+ */
+export function formatCard(card: Card): { rank: string; suit: string; isRed: boolean } {
+  const rank = card[0] === 'T' ? '10' : card[0];
+  const suit = card[1] as CardSuit;
+  return { rank, suit: SUIT_SYMBOLS[suit], isRed: suit === 'h' || suit === 'd' };
+}
+
+// ============================================
+// CARD SET VALIDATION
+// ============================================
+export interface CardSetInput {
+  holeCards?: string[];
+  communityCards?: string[];
+  opponentEstimatedCards?: string[];
+}
+
+export interface CardSetResult {
+  holeCards: Card[];
+  communityCards: Card[];
+  opponentEstimatedCards: Card[];
+  errors: string[];
+}
+
+/**
+ * Parses and cross-checks every card field of a game state.
+ * Fields that are omitted are treated as empty.
+ *
+ * @returns Normalised cards plus a list of human-readable errors (empty if valid)
+ */
+export function validateCardSet(input: CardSetInput): CardSetResult {
+  const errors: string[] = [];
+  const seen = new Map<Card, string>();
+
+  const parseField = (field: keyof CardSetInput, allowedCounts: readonly number[]): Card[] => {
+    const raw = input[field] ?? [];
+    const cards: Card[] = [];
+
+    for (const value of raw) {
+      const card = parseCard(String(value));
+      if (!card) {
+        errors.push(`${field}: carta non valida "${value}"`);
+        continue;
+      }
+      const previous = seen.get(card);
+      if (previous) {
+        errors.push(`${field}: carta duplicata ${card} (già presente in ${previous})`);
+        continue;
+      }
+      seen.set(card, field);
+      cards.push(card);
+    }
+
+    if (!allowedCounts.includes(raw.length)) {
+      errors.push(`${field}: ${raw.length} carte non possibili (ammesse: ${allowedCounts.join(', ')})`);
+    }
+    return cards;
+  };
+
+  return {
+    holeCards: parseField('holeCards', HOLE_CARD_COUNTS),
+    communityCards: parseField('communityCards', BOARD_CARD_COUNTS),
+    opponentEstimatedCards: parseField('opponentEstimatedCards', HOLE_CARD_COUNTS),
+    errors,
+  };
+}
@@ -0,0 +1,288 @@
+/**
+ * Equity Calculator for Texas Hold'em
+ *
+ * Deterministic local equity engine used to cross-check the numbers the
+ * Live model reports:
+ * - Turn/River: exact enumeration of every remaining runout and opponent hand
+ * - Preflop/Flop: seeded Monte Carlo simulation (same input → same output)
+ */
+
+import { EQUITY_CONFIG } from '../constants.ts';
+import { Card, EquityResult } from '../types.ts';
+import { parseCard, cardToIndex } from './cardUtils.ts';
+import { evaluateCards } from './handEvaluator.ts';
+
+export interface EquityOptions {
+  /** Number of opponents still in the hand (default 1) */
+  opponentCount?: number;
+  /** Hole-card combos every opponent is drawn from, e.g. [['Qc', 'Qs'], ['Ah', 'Kh']]. Omit for random hands. */
+  opponentRange?: string[][];
+  /** Monte Carlo iterations on early streets */
+  iterations?: number;
+  /** PRNG seed, derived from the cards when omitted */
+  seed?: number;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+const parseCards = (cards: string[]): number[] | null => {
+  const parsed = cards.map(parseCard);
+  if (parsed.some(c => c === null)) return null;
+  return (parsed as Card[]).map(cardToIndex);
+};
+
+/**
+ * Mulberry32 - small, fast seeded PRNG returning floats in [0, 1).
+ */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const seedFromCards = (cards: number[]): number => {
+  return cards.reduce((hash, card) => Math.imul(hash ^ (card + 1), 0x01000193) >>> 0, 0x811C9DC5);
+};
+
+const binomial = (n: number, k: number): number => {
+  if (k < 0 || k > n) return 0;
+  let result = 1;
+  for (let i = 0; i < k; i++) {
+    result = (result * (n - i)) / (i + 1);
+  }
+  return result;
+};
+
+/**
+ * Accumulates hero's showdown results across boards.
+ */
+class ShowdownTally {
+  wins = 0;
+  ties = 0;
+  share = 0;
+  samples = 0;
+
+  record(heroScore: number, opponentScores: number[]) {
+    this.samples++;
+    if (opponentScores.some(score => score > heroScore)) return; // Hero loses
+    const winners = 1 + opponentScores.filter(score => score === heroScore).length;
+    if (winners === 1) {
+      this.wins++;
+    } else {
+      this.ties++;
+    }
+    this.share += 1 / winners;
+  }
+
+  toResult(method: EquityResult['method']): EquityResult {
+    const pct = (value: number) => this.samples > 0 ? (value / this.samples) * 100 : 0;
+    return {
+      equity: pct(this.share),
+      win: pct(this.wins),
+      tie: pct(this.ties),
+      samples: this.samples,
+      method,
+    };
+  }
+}
+
+// ============================================
+// EXACT ENUMERATION
+// ============================================
+const enumerateExact = (
+  hero: number[],
+  board: number[],
+  deck: number[],
+  opponentCount: number,
+  range: number[][] | null
+): EquityResult => {
+  const tally = new ShowdownTally();
+  const missing = 5 - board.length;
+  const used = new Set<number>();
+
+  const opponentHands = (available: number[]): number[][] => {
+    if (range) return range;
+    const hands: number[][] = [];
+    for (let i = 0; i < available.length; i++) {
+      for (let j = i + 1; j < available.length; j++) {
+        hands.push([available[i], available[j]]);
+      }
+    }
+    return hands;
+  };
+
+  const dealOpponents = (fullBoard: number[], heroScore: number, seat: number, scores: number[]) => {
+    if (seat === opponentCount) {
+      tally.record(heroScore, scores);
+      return;
+    }
+    const available = deck.filter(c => !used.has(c));
+    for (const hand of opponentHands(available)) {
+      if (used.has(hand[0]) || used.has(hand[1])) continue;
+      used.add(hand[0]);
+      used.add(hand[1]);
+      scores.push(evaluateCards([...hand, ...fullBoard]));
+      dealOpponents(fullBoard, heroScore, seat + 1, scores);
+      scores.pop();
+      used.delete(hand[0]);
+      used.delete(hand[1]);
+    }
+  };
+
+  const dealBoard = (start: number, runout: number[]) => {
+    if (runout.length === missing) {
+      const fullBoard = [...board, ...runout];
+      dealOpponents(fullBoard, evaluateCards([...hero, ...fullBoard]), 0, []);
+      return;
+    }
+    for (let i = start; i < deck.length; i++) {
+      used.add(deck[i]);
+      runout.push(deck[i]);
+      dealBoard(i + 1, runout);
+      runout.pop();
+      used.delete(deck[i]);
+    }
+  };
+
+  dealBoard(0, []);
+  return tally.toResult('exact');
+};
+
+// ============================================
+// MONTE CARLO
+// ============================================
+const simulate = (
+  hero: number[],
+  board: number[],
+  deck: number[],
+  opponentCount: number,
+  range: number[][] | null,
+  iterations: number,
+  seed: number
+): EquityResult => {
+  const tally = new ShowdownTally();
+  const random = createRandom(seed);
+  const missing = 5 - board.length;
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const live = deck.slice();
+    const dead = new Set<number>();
+    const draw = (): number => {
+      // Partial Fisher-Yates: swap a random live card to the end
+      let card: number;
+      do {
+        const idx = Math.floor(random() * live.length);
+        card = live[idx];
+        live[idx] = live[live.length - 1];
+        live.pop();
+      } while (dead.has(card));
+      dead.add(card);
+      return card;
+    };
+
+    const opponents: number[][] = [];
+    let dealt = true;
+    for (let seat = 0; seat < opponentCount; seat++) {
+      if (range) {
+        let hand: number[] | null = null;
+        for (let attempt = 0; attempt < EQUITY_CONFIG.RANGE_DRAW_ATTEMPTS && !hand; attempt++) {
+          const candidate = range[Math.floor(random() * range.length)];
+          if (!dead.has(candidate[0]) && !dead.has(candidate[1])) hand = candidate;
+        }
+        if (!hand) {
+          dealt = false;
+          break;
+        }
+        dead.add(hand[0]);
+        dead.add(hand[1]);
+        opponents.push(hand);
+      } else {
+        opponents.push([draw(), draw()]);
+      }
+    }
+    if (!dealt) continue;
+
+    const fullBoard = board.slice();
+    for (let i = 0; i < missing; i++) {
+      fullBoard.push(draw());
+    }
+
+    const heroScore = evaluateCards([...hero, ...fullBoard]);
+    tally.record(heroScore, opponents.map(hand => evaluateCards([...hand, ...fullBoard])));
+  }
+
+  return tally.toResult('monte-carlo');
+};
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Calculates hero's equity against one or more opponents.
+ *
+ * @param holeCards - Hero's two hole cards (e.g. ['Ah', 'Kd'])
+ * @param communityCards - 0, 3, 4 or 5 board cards
+ * @param options - Opponent count/range and simulation settings
+ * @returns Equity breakdown, or null if the cards cannot be evaluated
+ *
+ * @example
+ * ```ts
+ * const result = calculateEquity(['Ah', 'Kd'], ['7s', '2c', 'Qh', 'Kc']);
+ * console.log(result?.equity); // exact equity vs one random hand
+ * ```
+ */
+export function calculateEquity(
+  holeCards: string[],
+  communityCards: string[],
+  options: EquityOptions = {}
+): EquityResult | null {
+  const hero = parseCards(holeCards);
+  const board = parseCards(communityCards);
+  if (!hero || !board || hero.length !== 2 || board.length > 5 || board.length === 1 || board.length === 2) {
+    return null;
+  }
+
+  const known = [...hero, ...board];
+  if (new Set(known).size !== known.length) return null;
+
+  const opponentCount = Math.max(1, Math.floor(options.opponentCount ?? 1));
+  const deck: number[] = [];
+  for (let card = 0; card < 52; card++) {
+    if (!known.includes(card)) deck.push(card);
+  }
+
+  let range: number[][] | null = null;
+  if (options.opponentRange) {
+    range = options.opponentRange
+      .map(parseCards)
+      .filter((hand): hand is number[] => !!hand && hand.length === 2 && hand[0] !== hand[1])
+      .filter(hand => !known.includes(hand[0]) && !known.includes(hand[1]));
+    if (range.length === 0) return null;
+  }
+
+  if (board.length >= 4) {
+    const runouts = binomial(deck.length, 5 - board.length);
+    const handsPerOpponent = range ? range.length : binomial(deck.length - 2, 2);
+    const workload = runouts * Math.pow(handsPerOpponent, opponentCount);
+    if (workload <= EQUITY_CONFIG.EXACT_ENUMERATION_LIMIT) {
+      return enumerateExact(hero, board, deck, opponentCount, range);
+    }
+  }
+
+  return simulate(
+    hero,
+    board,
+    deck,
+    opponentCount,
+    range,
+    options.iterations ?? EQUITY_CONFIG.MONTE_CARLO_ITERATIONS,
+    options.seed ?? seedFromCards(known)
+  );
+}
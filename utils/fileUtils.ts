@@ -0,0 +1,34 @@
+/**
+ * File Utilities
+ *
+ * Browser helpers for saving generated content as a download.
+ */
+
+/**
+ * Triggers a download of text content as a file.
+ *
+ * @param content - File contents
+ * @param filename - Suggested file name (e.g. "hands.txt")
+ * @param mimeType - MIME type of the content
+ */
+export function downloadTextFile(content: string, filename: string, mimeType: string = 'text/plain'): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Formats a timestamp for use in file names (e.g. "2026-10-19_14-03").
+ */
+export function fileTimestamp(timestamp: number = Date.now()): string {
+  return new Date(timestamp).toISOString().slice(0, 16).replace('T', '_').replace(':', '-');
+}
@@ -0,0 +1,115 @@
+/**
+ * Frame Crop
+ *
+ * Geometry and pixel helpers for the focused captures sent by analyzeRegion:
+ * - Mapping a normalised region to a padded pixel rectangle of the video
+ * - Sizing the upscaled output within the configured limits
+ * - Sharpening the upscaled pixels so small card glyphs stay legible
+ * - Reading a region's native pixels as grayscale (local card recogniser)
+ *
+ * The canvas work for the captures sent to the model stays in useLiveGemini's captureFrame.
+ */
+
+import { CROP_CONFIG } from '../constants.ts';
+import { CropArea, LumaImage, RegionRect } from '../types.ts';
+import { computeLumaSignature } from './frameDiff.ts';
+
+/**
+ * Converts a normalised region to whole video pixels, grown by `padding` on
+ * every side and clamped to the frame.
+ *
+ * @param padding - Margin as a fraction of the frame size
+ *
+ * @example
+ * ```ts
+ * getCropArea({ x: 0.4, y: 0.7, width: 0.2, height: 0.2 }, 1920, 1080, 0);
+ * // { sx: 768, sy: 756, sw: 384, sh: 216 }
+ * ```
+ */
+export function getCropArea(
+  rect: RegionRect,
+  videoWidth: number,
+  videoHeight: number,
+  padding: number = CROP_CONFIG.PADDING
+): CropArea {
+  const left = Math.max(0, Math.round((rect.x - padding) * videoWidth));
+  const top = Math.max(0, Math.round((rect.y - padding) * videoHeight));
+  const right = Math.min(videoWidth, Math.round((rect.x + rect.width + padding) * videoWidth));
+  const bottom = Math.min(videoHeight, Math.round((rect.y + rect.height + padding) * videoHeight));
+
+  return {
+    sx: left,
+    sy: top,
+    sw: Math.max(1, right - left),
+    sh: Math.max(1, bottom - top),
+  };
+}
+
+/**
+ * Size of the upscaled crop. The factor is capped by `MAX_UPSCALE` and the
+ * width by `maxWidth` (the aspect ratio is kept): crops wider than `maxWidth`
+ * (large regions, 4K captures) are scaled down to it.
+ */
+export function getCropOutputSize(
+  area: CropArea,
+  upscale: number = CROP_CONFIG.UPSCALE,
+  maxWidth: number = CROP_CONFIG.MAX_OUTPUT_WIDTH
+): { width: number; height: number } {
+  const factor = Math.min(Math.max(1, upscale), CROP_CONFIG.MAX_UPSCALE, maxWidth / area.sw);
+  return {
+    width: Math.round(area.sw * factor),
+    height: Math.round(area.sh * factor),
+  };
+}
+
+/**
+ * Applies a 3x3 sharpening kernel to RGBA pixels (alpha and the 1px border
+ * are left untouched).
+ *
+ * @param pixels - RGBA data as returned by `getImageData`
+ * @param amount - Strength; 0 returns an identical copy
+ * @returns New pixel buffer
+ */
+export function sharpenPixels(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  amount: number = CROP_CONFIG.SHARPEN_AMOUNT
+): Uint8ClampedArray {
+  const output = new Uint8ClampedArray(pixels);
+  if (amount <= 0 || width < 3 || height < 3) return output;
+
+  const center = 1 + 4 * amount;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const neighbours = pixels[i - 4 + c] + pixels[i + 4 + c] + pixels[i - width * 4 + c] + pixels[i + width * 4 + c];
+        output[i + c] = center * pixels[i + c] - amount * neighbours;
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Reads a region of the current video frame at native resolution, in grayscale.
+ *
+ * @param canvas - Scratch canvas (resized and overwritten)
+ * @returns Pixels, or null if the video has no frame or the canvas cannot be read
+ */
+export function readVideoRegion(video: HTMLVideoElement, rect: RegionRect, canvas: HTMLCanvasElement): LumaImage | null {
+  if (video.readyState !== 4 || video.videoWidth === 0) return null;
+
+  const { sx, sy, sw, sh } = getCropArea(rect, video.videoWidth, video.videoHeight, 0);
+  canvas.width = sw;
+  canvas.height = sh;
+  try {
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(video, sx, sy, sw, sh, 0, 0, sw, sh);
+    return computeLumaSignature(ctx.getImageData(0, 0, sw, sh).data, sw, sh);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Frame Diff
+ *
+ * Perceptual change detection for the continuous screen stream:
+ * - A tiny luminance signature per sampled frame
+ * - Per-pixel deltas against the last frame actually sent, over the whole
+ *   frame and inside each calibrated region
+ * - The decision to send (first frame, changed, keepalive) or skip
+ *
+ * Regions matter because a new hole card or pot amount changes only a small
+ * share of the frame, below the whole-frame threshold.
+ */
+
+import { FRAME_DIFF_CONFIG } from '../constants.ts';
+import { FrameDiff, FrameSendReason, FrameSignature, TableRegion } from '../types.ts';
+
+/**
+ * Reduces RGBA pixels (already drawn at signature size) to luminance.
+ *
+ * @param pixels - RGBA data as returned by `getImageData`
+ */
+export function computeLumaSignature(pixels: Uint8ClampedArray, width: number, height: number): FrameSignature {
+  const luma = new Uint8Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    const p = i * 4;
+    // ITU-R BT.601 weights
+    luma[i] = Math.round(0.299 * pixels[p] + 0.587 * pixels[p + 1] + 0.114 * pixels[p + 2]);
+  }
+  return { width, height, luma };
+}
+
+/**
+ * Measures how much of the frame, and of each region, changed between two signatures.
+ * Signatures of different sizes count as fully changed.
+ *
+ * @example
+ * ```ts
+ * const diff = compareSignatures(lastSent, sample, regions);
+ * diff.changedRatio; // 0.004 → cursor moved
+ * diff.regionRatio;  // 0.35  → hero cards dealt
+ * ```
+ */
+export function compareSignatures(
+  previous: FrameSignature,
+  next: FrameSignature,
+  regions: TableRegion[] = [],
+  pixelDelta: number = FRAME_DIFF_CONFIG.PIXEL_DELTA
+): FrameDiff {
+  if (previous.width !== next.width || previous.height !== next.height) {
+    return { changedRatio: 1, regionRatio: 1 };
+  }
+
+  const { width, height } = next;
+  const changed = new Uint8Array(width * height);
+  let changedCount = 0;
+  for (let i = 0; i < changed.length; i++) {
+    if (Math.abs(previous.luma[i] - next.luma[i]) >= pixelDelta) {
+      changed[i] = 1;
+      changedCount++;
+    }
+  }
+
+  let regionRatio = 0;
+  for (const { rect } of regions) {
+    const left = Math.floor(rect.x * width);
+    const top = Math.floor(rect.y * height);
+    const right = Math.min(width, Math.max(left + 1, Math.ceil((rect.x + rect.width) * width)));
+    const bottom = Math.min(height, Math.max(top + 1, Math.ceil((rect.y + rect.height) * height)));
+
+    let count = 0;
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) count += changed[y * width + x];
+    }
+    const area = (right - left) * (bottom - top);
+    if (area > 0) regionRatio = Math.max(regionRatio, count / area);
+  }
+
+  return { changedRatio: changedCount / changed.length, regionRatio };
+}
+
+/**
+ * Decides whether a sampled frame should be sent.
+ *
+ * @param previous - Signature of the last frame sent, null if none yet
+ * @param elapsedMs - Time since the last frame was sent
+ * @returns Why to send, or null to skip the frame
+ */
+export function decideFrameSend(
+  previous: FrameSignature | null,
+  next: FrameSignature,
+  regions: TableRegion[],
+  elapsedMs: number
+): FrameSendReason | null {
+  if (!previous) return 'first';
+
+  const diff = compareSignatures(previous, next, regions);
+  if (diff.changedRatio >= FRAME_DIFF_CONFIG.FRAME_CHANGED_RATIO || diff.regionRatio >= FRAME_DIFF_CONFIG.REGION_CHANGED_RATIO) {
+    return 'changed';
+  }
+  return elapsedMs >= FRAME_DIFF_CONFIG.KEEPALIVE_MS ? 'keepalive' : null;
+}
@@ -0,0 +1,81 @@
+/**
+ * Gemini Client Helpers
+ *
+ * Shared by the live hook and the offline review tools:
+ * - API key lookup with validation
+ * - Live API transport (see liveTransport.ts)
+ * - One-shot deep analysis requests to the Pro model
+ */
+
+import { GoogleGenAI, Modality, Part } from '@google/genai';
+import { PRO_MODEL_NAME } from '../constants.ts';
+import { GeminiConnectionError, LiveTransport } from '../types.ts';
+
+/**
+ * Returns the configured API key.
+ *
+ * @throws GeminiConnectionError (not retryable) if no key is configured
+ */
+export const getApiKey = (): string => {
+  const key = process.env.API_KEY;
+  if (!key) {
+    throw new GeminiConnectionError('API Key non configurata', 'NO_API_KEY', false);
+  }
+  return key;
+};
+
+/**
+ * Live transport backed by the Gemini Live API.
+ */
+export const geminiTransport: LiveTransport = {
+  backend: 'gemini',
+
+  connect: async (config, callbacks) => {
+    const ai = new GoogleGenAI({ apiKey: getApiKey() });
+    const session = await ai.live.connect({
+      model: config.model,
+      config: {
+        systemInstruction: config.systemInstruction,
+        tools: [{ functionDeclarations: config.functionDeclarations }],
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: config.voiceName }
+          }
+        },
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        // Always enabled so the server keeps sending fresh resumption handles
+        sessionResumption: { handle: config.resumptionHandle },
+      },
+      callbacks: {
+        onopen: callbacks.onopen,
+        onmessage: callbacks.onmessage,
+        onclose: (e: CloseEvent) => callbacks.onclose({ code: e.code, reason: e.reason }),
+        onerror: callbacks.onerror,
+      }
+    });
+
+    return {
+      sendRealtimeInput: input => session.sendRealtimeInput(input),
+      sendToolResponse: response => session.sendToolResponse(response),
+      close: () => session.close(),
+    };
+  }
+};
+
+/**
+ * Sends a deep analysis request to the Pro model.
+ *
+ * @param parts - Content parts (a frame and/or a text description plus the prompt)
+ * @returns The model's analysis text
+ */
+export async function generateDeepAnalysis(parts: Part[]): Promise<string> {
+  const ai = new GoogleGenAI({ apiKey: getApiKey() });
+  const response = await ai.models.generateContent({
+    model: PRO_MODEL_NAME,
+    contents: { parts },
+    config: { thinkingConfig: { thinkingBudget: 2000 } }
+  });
+  return response.text || "Nessun risultato ricevuto.";
+}
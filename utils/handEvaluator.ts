@@ -0,0 +1,327 @@
+/**
+ * Hand Evaluator for Texas Hold'em
+ *
+ * Ranks 5 to 7 card hands locally so the HUD does not have to trust
+ * the model's maths. Cards are encoded as integers:
+ * - rank index 0-12 (2 ... A) * 4 + suit index 0-3 (see `cardToIndex`)
+ *
+ * Scores are plain numbers: a higher score always beats a lower one,
+ * equal scores split the pot. `evaluateHand` builds on top of them to
+ * describe hero's hand the way a player would ("Top Pair", "Nut Flush").
+ */
+
+import { Card, HandCategory, HandEvaluation } from '../types.ts';
+import { RANKS, cardToIndex, indexToCard } from './cardUtils.ts';
+
+// Hand categories, ordered from weakest to strongest
+export const HAND_CATEGORY = {
+  HIGH_CARD: 0,
+  PAIR: 1,
+  TWO_PAIR: 2,
+  TRIPS: 3,
+  STRAIGHT: 4,
+  FLUSH: 5,
+  FULL_HOUSE: 6,
+  QUADS: 7,
+  STRAIGHT_FLUSH: 8,
+} as const;
+
+const RANK_COUNT = 13;
+const ACE = 12;
+
+/**
+ * Returns the rank index of the highest card of a straight contained
+ * in the given rank bitmask, or -1 if there is none.
+ * The wheel (A-2-3-4-5) returns 3 (the five).
+ */
+export function straightHigh(rankMask: number): number {
+  // Bit 0 = ace played low, bit i+1 = rank i
+  const extended = (rankMask << 1) | ((rankMask >> ACE) & 1);
+  for (let top = RANK_COUNT; top >= 4; top--) {
+    if (((extended >> (top - 4)) & 0x1f) === 0x1f) {
+      return top - 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Packs a category and up to five kicker ranks into a comparable score.
+ */
+function packScore(category: number, kickers: number[]): number {
+  let score = category;
+  for (let i = 0; i < 5; i++) {
+    score = score * 16 + (kickers[i] ?? 0);
+  }
+  return score;
+}
+
+/**
+ * Returns the top `count` ranks of a bitmask, highest first.
+ */
+function topRanks(rankMask: number, count: number, exclude: number[] = []): number[] {
+  const ranks: number[] = [];
+  for (let r = ACE; r >= 0 && ranks.length < count; r--) {
+    if ((rankMask >> r) & 1 && !exclude.includes(r)) {
+      ranks.push(r);
+    }
+  }
+  return ranks;
+}
+
+/**
+ * Scores the best five-card hand that can be made from 5 to 7 cards.
+ *
+ * @param cards - Encoded cards (rank * 4 + suit)
+ * @returns Comparable score, higher is better
+ */
+export function evaluateCards(cards: number[]): number {
+  const rankCounts = new Array<number>(RANK_COUNT).fill(0);
+  const suitCounts = [0, 0, 0, 0];
+  const suitMasks = [0, 0, 0, 0];
+  let rankMask = 0;
+
+  for (const card of cards) {
+    const rank = card >> 2;
+    const suit = card & 3;
+    rankCounts[rank]++;
+    suitCounts[suit]++;
+    suitMasks[suit] |= 1 << rank;
+    rankMask |= 1 << rank;
+  }
+
+  // Flushes and straight flushes
+  const flushSuit = suitCounts.findIndex(count => count >= 5);
+  if (flushSuit !== -1) {
+    const high = straightHigh(suitMasks[flushSuit]);
+    if (high !== -1) {
+      return packScore(HAND_CATEGORY.STRAIGHT_FLUSH, [high]);
+    }
+  }
+
+  // Group ranks by multiplicity, highest rank first
+  let quad = -1;
+  const trips: number[] = [];
+  const pairs: number[] = [];
+  for (let r = ACE; r >= 0; r--) {
+    const count = rankCounts[r];
+    if (count === 4) quad = r;
+    else if (count === 3) trips.push(r);
+    else if (count === 2) pairs.push(r);
+  }
+
+  if (quad !== -1) {
+    return packScore(HAND_CATEGORY.QUADS, [quad, ...topRanks(rankMask, 1, [quad])]);
+  }
+
+  if (trips.length > 0 && (trips.length > 1 || pairs.length > 0)) {
+    // Second set of trips counts as the pair of a full house
+    const pairRank = Math.max(trips[1] ?? -1, pairs[0] ?? -1);
+    return packScore(HAND_CATEGORY.FULL_HOUSE, [trips[0], pairRank]);
+  }
+
+  if (flushSuit !== -1) {
+    return packScore(HAND_CATEGORY.FLUSH, topRanks(suitMasks[flushSuit], 5));
+  }
+
+  const high = straightHigh(rankMask);
+  if (high !== -1) {
+    return packScore(HAND_CATEGORY.STRAIGHT, [high]);
+  }
+
+  if (trips.length > 0) {
+    return packScore(HAND_CATEGORY.TRIPS, [trips[0], ...topRanks(rankMask, 2, [trips[0]])]);
+  }
+
+  if (pairs.length >= 2) {
+    const [first, second] = pairs;
+    return packScore(HAND_CATEGORY.TWO_PAIR, [first, second, ...topRanks(rankMask, 1, [first, second])]);
+  }
+
+  if (pairs.length === 1) {
+    return packScore(HAND_CATEGORY.PAIR, [pairs[0], ...topRanks(rankMask, 3, [pairs[0]])]);
+  }
+
+  return packScore(HAND_CATEGORY.HIGH_CARD, topRanks(rankMask, 5));
+}
+
+/**
+ * Extracts the hand category from a score returned by `evaluateCards`.
+ */
+export function scoreCategory(score: number): number {
+  return Math.floor(score / 0x100000);
+}
+
+// ============================================
+// HAND DESCRIPTION
+// ============================================
+const CATEGORY_NAMES: HandCategory[] = [
+  'HIGH_CARD',
+  'PAIR',
+  'TWO_PAIR',
+  'TRIPS',
+  'STRAIGHT',
+  'FLUSH',
+  'FULL_HOUSE',
+  'QUADS',
+  'STRAIGHT_FLUSH',
+];
+
+export const HAND_CATEGORY_LABELS: Record<HandCategory, string> = {
+  HIGH_CARD: 'Carta Alta',
+  PAIR: 'Coppia',
+  TWO_PAIR: 'Doppia Coppia',
+  TRIPS: 'Tris',
+  STRAIGHT: 'Scala',
+  FLUSH: 'Colore',
+  FULL_HOUSE: 'Full',
+  QUADS: 'Poker',
+  STRAIGHT_FLUSH: 'Scala Colore',
+};
+
+const rankName = (rank: number): string => RANKS[rank] === 'T' ? '10' : RANKS[rank];
+
+/**
+ * Decodes the kicker ranks packed into a score.
+ */
+const scoreKickers = (score: number): number[] => {
+  return [4, 3, 2, 1, 0].map(shift => Math.floor(score / Math.pow(16, shift)) % 16);
+};
+
+/**
+ * Orders five cards for display: bigger groups first, then by rank.
+ */
+const sortForDisplay = (cards: number[]): number[] => {
+  const counts = new Map<number, number>();
+  cards.forEach(card => counts.set(card >> 2, (counts.get(card >> 2) ?? 0) + 1));
+  return cards.slice().sort((a, b) => {
+    const byCount = counts.get(b >> 2)! - counts.get(a >> 2)!;
+    return byCount !== 0 ? byCount : (b >> 2) - (a >> 2);
+  });
+};
+
+/**
+ * Describes hero's hand relative to the board.
+ */
+const describeHand = (category: HandCategory, hole: number[], board: number[], score: number): string => {
+  const kickers = scoreKickers(score);
+  const holeRanks = hole.map(card => card >> 2);
+  const boardRanks = [...new Set(board.map(card => card >> 2))].sort((a, b) => b - a);
+  const isPocketPair = holeRanks[0] === holeRanks[1];
+
+  // Hero adds nothing to a five-card board
+  if (board.length === 5 && evaluateCards(board) === score) {
+    return `${HAND_CATEGORY_LABELS[category]} sul board`;
+  }
+
+  switch (category) {
+    case 'HIGH_CARD':
+      return `Carta alta ${rankName(kickers[0])}`;
+
+    case 'PAIR': {
+      const pairRank = kickers[0];
+      if (isPocketPair && holeRanks[0] === pairRank) {
+        return pairRank > boardRanks[0] ? `Overpair (${rankName(pairRank)})` : `Underpair (${rankName(pairRank)})`;
+      }
+      if (!holeRanks.includes(pairRank)) return 'Coppia sul board';
+      const kicker = holeRanks.find(rank => rank !== pairRank)!;
+      const position = boardRanks.indexOf(pairRank);
+      const name = position === 0
+        ? 'Top Pair'
+        : position === 1
+          ? 'Second Pair'
+          : position === boardRanks.length - 1 ? 'Bottom Pair' : 'Middle Pair';
+      return `${name} (kicker ${rankName(kicker)})`;
+    }
+
+    case 'TWO_PAIR': {
+      const [high, low] = kickers;
+      const used = new Set(holeRanks.filter(rank => rank === high || rank === low));
+      if (isPocketPair && used.size === 1) return `${rankName(holeRanks[0])} + coppia sul board`;
+      if (used.size === 2) {
+        return high === boardRanks[0] && low === boardRanks[1] ? 'Top Two Pair' : `Doppia coppia ${rankName(high)}-${rankName(low)}`;
+      }
+      return used.size === 1 ? `Doppia coppia (board appaiato)` : 'Doppia coppia sul board';
+    }
+
+    case 'TRIPS': {
+      const tripsRank = kickers[0];
+      if (isPocketPair && holeRanks[0] === tripsRank) return `Set di ${rankName(tripsRank)}`;
+      return holeRanks.includes(tripsRank) ? `Trips di ${rankName(tripsRank)}` : 'Tris sul board';
+    }
+
+    case 'STRAIGHT':
+      return `Scala al ${rankName(kickers[0])}`;
+
+    case 'FLUSH': {
+      const suitCounts = [0, 0, 0, 0];
+      [...hole, ...board].forEach(card => suitCounts[card & 3]++);
+      const suit = suitCounts.findIndex(count => count >= 5);
+      const heroFlushRanks = hole.filter(card => (card & 3) === suit).map(card => card >> 2);
+      const boardSuitRanks = board.filter(card => (card & 3) === suit).map(card => card >> 2);
+      let nutRank = ACE;
+      while (boardSuitRanks.includes(nutRank)) nutRank--;
+      if (heroFlushRanks.includes(nutRank)) return 'Nut Flush';
+      return `Colore non-nut (${rankName(Math.max(...heroFlushRanks))} alto)`;
+    }
+
+    case 'FULL_HOUSE':
+      return `Full di ${rankName(kickers[0])} su ${rankName(kickers[1])}`;
+
+    case 'QUADS':
+      return `Poker di ${rankName(kickers[0])}`;
+
+    case 'STRAIGHT_FLUSH':
+      return kickers[0] === ACE ? 'Scala Reale' : `Scala colore al ${rankName(kickers[0])}`;
+  }
+};
+
+/**
+ * Finds hero's best five-card hand and describes it relative to the board.
+ *
+ * @param holeCards - Hero's two hole cards
+ * @param communityCards - 3 to 5 board cards
+ * @returns Best hand, or null before the flop
+ *
+ * @example
+ * ```ts
+ * const hand = evaluateHand(['Ah', 'Kd'], ['As', '7c', '2d']);
+ * console.log(hand?.description); // "Top Pair (kicker K)"
+ * ```
+ */
+export function evaluateHand(holeCards: Card[], communityCards: Card[]): HandEvaluation | null {
+  if (holeCards.length !== 2 || communityCards.length < 3) return null;
+
+  const hole = holeCards.map(cardToIndex);
+  const board = communityCards.map(cardToIndex);
+  const all = [...hole, ...board];
+
+  // Try every five-card subset (at most 21) to recover the exact cards
+  let bestScore = -1;
+  let bestFive: number[] = [];
+  const combo: number[] = [];
+  const search = (start: number) => {
+    if (combo.length === 5) {
+      const score = evaluateCards(combo);
+      if (score > bestScore) {
+        bestScore = score;
+        bestFive = combo.slice();
+      }
+      return;
+    }
+    for (let i = start; i < all.length; i++) {
+      combo.push(all[i]);
+      search(i + 1);
+      combo.pop();
+    }
+  };
+  search(0);
+
+  const category = CATEGORY_NAMES[scoreCategory(bestScore)];
+  return {
+    category,
+    label: HAND_CATEGORY_LABELS[category],
+    description: describeHand(category, hole, board, bestScore),
+    bestFive: sortForDisplay(bestFive).map(indexToCard),
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * Hand History Export
+ *
+ * Converts recorded hands into:
+ * - PokerStars-style hand-history text (header, seats, streets, board, summary)
+ * - A versioned JSON document the app can import again
+ *
+ * Only data that was actually observed is written. Anything the recorder
+ * never saw (opponent actions, seats, stakes ...) is marked as unknown.
+ */
+
+import { HAND_EXPORT_CONFIG } from '../constants.ts';
+import { HandRecord, PokerGameState } from '../types.ts';
+import { getFinalStreetStates } from './handRecorder.ts';
+
+export interface HandExportOptions {
+  heroName: string;
+  smallBlind?: number;
+  bigBlind?: number;
+  currency?: string; // Symbol prefixed to amounts, e.g. "$" (empty for chips)
+  tableName?: string;
+}
+
+export interface HandHistoryJson {
+  schema: typeof HAND_EXPORT_CONFIG.JSON_SCHEMA;
+  version: typeof HAND_EXPORT_CONFIG.JSON_VERSION;
+  exportedAt: string;
+  hero: string;
+  stakes: { smallBlind: number | null; bigBlind: number | null; currency: string };
+  hands: Array<HandRecord & { missing: string[] }>;
+}
+
+const UNKNOWN = HAND_EXPORT_CONFIG.UNKNOWN_MARKER;
+
+// ============================================
+// HELPERS
+// ============================================
+const lastState = (hand: HandRecord): PokerGameState => {
+  const street = hand.streets[hand.streets.length - 1];
+  return street.snapshots[street.snapshots.length - 1].state;
+};
+
+const firstKnown = <K extends keyof PokerGameState>(hand: HandRecord, key: K): PokerGameState[K] | undefined => {
+  for (const street of hand.streets) {
+    for (const { state } of street.snapshots) {
+      if (state[key] !== undefined) return state[key];
+    }
+  }
+  return undefined;
+};
+
+const formatAmount = (amount: number | undefined, currency: string): string => {
+  if (amount === undefined) return UNKNOWN;
+  return `${currency}${Number.isInteger(amount) ? amount : amount.toFixed(2)}`;
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const formatDate = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${d.getUTCFullYear()}/${pad(d.getUTCMonth() + 1)}/${pad(d.getUTCDate())} ${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())} UTC`;
+};
+
+const formatCards = (cards: string[]) => `[${cards.join(' ')}]`;
+
+/**
+ * Lists the pieces of a hand the recorder could not observe.
+ */
+export function getMissingData(hand: HandRecord, options: HandExportOptions): string[] {
+  const missing = ['heroActions', 'opponentActions', 'seats', 'showdown'];
+  if (options.bigBlind === undefined && firstKnown(hand, 'bigBlind') === undefined) missing.push('stakes');
+  if (firstKnown(hand, 'heroStack') === undefined) missing.push('heroStack');
+  if (lastState(hand).potSize === undefined) missing.push('potSize');
+  if (hand.communityCards.length < 5) missing.push('runout');
+  return missing;
+}
+
+// ============================================
+// POKERSTARS TEXT
+// ============================================
+
+/**
+ * Formats one hand as PokerStars-style hand-history text.
+ * Advice given by the assistant is written as notes, never as actions.
+ */
+export function formatPokerStarsHand(hand: HandRecord, options: HandExportOptions): string {
+  const currency = options.currency ?? '';
+  const bigBlind = options.bigBlind ?? firstKnown(hand, 'bigBlind');
+  const smallBlind = options.smallBlind ?? (bigBlind !== undefined ? bigBlind / 2 : undefined);
+  const stakes = bigBlind !== undefined
+    ? `${formatAmount(smallBlind, currency)}/${formatAmount(bigBlind, currency)}`
+    : `stakes ${UNKNOWN}`;
+  const board = hand.communityCards;
+  const final = lastState(hand);
+
+  const lines: string[] = [
+    `PokerStars Hand #${hand.startedAt}: Hold'em No Limit (${stakes}) - ${formatDate(hand.startedAt)}`,
+    `Table '${options.tableName ?? HAND_EXPORT_CONFIG.DEFAULT_TABLE_NAME}' Seat ${UNKNOWN} is the button`,
+    `Seat ${UNKNOWN}: ${options.heroName} (${formatAmount(firstKnown(hand, 'heroStack'), currency)} in chips)`,
+    `${UNKNOWN} Other seats not recorded`,
+    '*** HOLE CARDS ***',
+    `Dealt to ${options.heroName} ${formatCards(hand.holeCards)}`,
+  ];
+
+  const streetHeaders: Record<string, string> = {
+    FLOP: `*** FLOP *** ${formatCards(board.slice(0, 3))}`,
+    TURN: `*** TURN *** ${formatCards(board.slice(0, 3))} ${formatCards(board.slice(3, 4))}`,
+    RIVER: `*** RIVER *** ${formatCards(board.slice(0, 4))} ${formatCards(board.slice(4, 5))}`,
+  };
+
+  for (const { street, state } of getFinalStreetStates(hand)) {
+    if (streetHeaders[street]) lines.push(streetHeaders[street]);
+    lines.push(`${UNKNOWN} Actions not recorded`);
+    lines.push(`${HAND_EXPORT_CONFIG.ADVICE_MARKER} ${state.suggestedAction}${state.reasoning ? ` - ${state.reasoning}` : ''}`);
+  }
+
+  lines.push(
+    '*** SUMMARY ***',
+    `Total pot ${formatAmount(final.potSize, currency)} | Rake ${UNKNOWN}`,
+    `Board ${formatCards(board)}`,
+    `Seat ${UNKNOWN}: ${options.heroName} ${formatCards(hand.holeCards)} - result ${UNKNOWN}`
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Formats several hands as one PokerStars-style text file.
+ */
+export function exportHandsAsText(hands: HandRecord[], options: HandExportOptions): string {
+  return hands.map(hand => formatPokerStarsHand(hand, options)).join('\n\n\n') + '\n';
+}
+
+// ============================================
+// JSON
+// ============================================
+
+/**
+ * Serialises hands into the app's versioned JSON schema.
+ */
+export function exportHandsAsJson(hands: HandRecord[], options: HandExportOptions): string {
+  const payload: HandHistoryJson = {
+    schema: HAND_EXPORT_CONFIG.JSON_SCHEMA,
+    version: HAND_EXPORT_CONFIG.JSON_VERSION,
+    exportedAt: new Date().toISOString(),
+    hero: options.heroName,
+    stakes: {
+      smallBlind: options.smallBlind ?? null,
+      bigBlind: options.bigBlind ?? null,
+      currency: options.currency ?? '',
+    },
+    hands: hands.map(hand => ({ ...hand, missing: getMissingData(hand, options) })),
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+// ============================================
+// SELECTION
+// ============================================
+
+/**
+ * Returns hands started within [from, to] (inclusive, ms since epoch).
+ */
+export function filterHandsByDateRange(hands: HandRecord[], from: number, to: number): HandRecord[] {
+  return hands.filter(hand => hand.startedAt >= from && hand.startedAt <= to);
+}
+
+/**
+ * Returns the most recent session: hands separated by less than the session gap.
+ */
+export function getLatestSession(hands: HandRecord[]): HandRecord[] {
+  const sorted = [...hands].sort((a, b) => a.startedAt - b.startedAt);
+  let start = sorted.length - 1;
+  while (start > 0 && sorted[start].startedAt - sorted[start - 1].updatedAt < HAND_EXPORT_CONFIG.SESSION_GAP_MS) {
+    start--;
+  }
+  return sorted.slice(Math.max(start, 0));
+}
+
+// ============================================
+// TEXT DESCRIPTION (for model review)
+// ============================================
+
+/**
+ * Describes a hand up to and including the given street, in plain text,
+ * so the Pro model can review it without a screenshot.
+ *
+ * @param hand - Recorded or imported hand
+ * @param streetIndex - Index into `hand.streets` of the decision to review
+ */
+export function describeHandForReview(hand: HandRecord, streetIndex: number): string {
+  const streets = getFinalStreetStates(hand).slice(0, streetIndex + 1);
+  const first = streets[0].state;
+  const bigBlind = firstKnown(hand, 'bigBlind');
+
+  const lines = [
+    `Texas Hold'em No Limit${bigBlind !== undefined ? `, big blind ${bigBlind}` : ''}.`,
+    `Carte Hero: ${hand.holeCards.join(' ')}${first.heroStack !== undefined ? `, stack ${first.heroStack}` : ''}.`,
+  ];
+
+  for (const { street, state } of streets) {
+    const details = [
+      state.communityCards.length > 0 ? `board ${state.communityCards.join(' ')}` : null,
+      state.potSize !== undefined ? `pot ${state.potSize}` : null,
+      state.amountToCall ? `da chiamare ${state.amountToCall}` : null,
+    ].filter(Boolean).join(', ');
+    lines.push(`${street}${details ? ` (${details})` : ''}: ${state.reasoning || UNKNOWN}`);
+  }
+
+  lines.push(`Decisione da analizzare: ${streets[streets.length - 1].street}.`);
+  return lines.join('\n');
+}
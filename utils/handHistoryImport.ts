@@ -0,0 +1,250 @@
+/**
+ * Hand History Import
+ *
+ * Reads hand-history files back into `HandRecord`s for replay:
+ * - The app's own versioned JSON export
+ * - PokerStars text hand histories (cash and tournament)
+ *
+ * PokerStars hands become one snapshot per street, taken at hero's first
+ * decision on that street (pot, amount to call and stack at that moment).
+ */
+
+import { HAND_EXPORT_CONFIG } from '../constants.ts';
+import { Card, HandRecord, HandHistoryImportError, HandStreet, PokerGameState, StreetRecord } from '../types.ts';
+import { parseCard } from './cardUtils.ts';
+
+// ============================================
+// FORMAT DETECTION
+// ============================================
+
+/**
+ * Parses a hand-history file in any supported format.
+ *
+ * @param content - File contents
+ * @returns Hands in chronological order
+ * @throws HandHistoryImportError if the format is unknown or no hand could be read
+ */
+export function parseHandHistoryFile(content: string): HandRecord[] {
+  const trimmed = content.trim();
+  const hands = trimmed.startsWith('{') ? parseAppJson(trimmed) : parsePokerStarsText(trimmed);
+
+  if (hands.length === 0) {
+    throw new HandHistoryImportError('Nessuna mano valida trovata nel file');
+  }
+  return hands.sort((a, b) => a.startedAt - b.startedAt);
+}
+
+// ============================================
+// APP JSON
+// ============================================
+const parseAppJson = (content: string): HandRecord[] => {
+  let payload: { schema?: unknown; version?: unknown; hands?: unknown };
+  try {
+    payload = JSON.parse(content);
+  } catch {
+    throw new HandHistoryImportError('File JSON non valido');
+  }
+
+  if (payload.schema !== HAND_EXPORT_CONFIG.JSON_SCHEMA) {
+    throw new HandHistoryImportError('Schema JSON non riconosciuto');
+  }
+  if (typeof payload.version !== 'number' || payload.version > HAND_EXPORT_CONFIG.JSON_VERSION) {
+    throw new HandHistoryImportError(`Versione JSON non supportata: ${String(payload.version)}`);
+  }
+  if (!Array.isArray(payload.hands)) {
+    throw new HandHistoryImportError('Il file JSON non contiene mani');
+  }
+
+  const hands = payload.hands.filter(isImportableHand);
+  if (hands.length < payload.hands.length) {
+    console.warn(`[handHistoryImport] ${payload.hands.length - hands.length} mani non valide scartate`);
+  }
+  return hands.map(({ missing: _missing, ...hand }) => hand);
+};
+
+// Stored hands are replayed, exported and summarised: every street needs a readable snapshot
+const HAND_STREETS: readonly HandStreet[] = ['PREFLOP', 'FLOP', 'TURN', 'RIVER'];
+
+const isCardList = (value: unknown): boolean =>
+  Array.isArray(value) && value.every(card => typeof card === 'string' && parseCard(card) !== null);
+
+const isSnapshot = (value: unknown): boolean => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { timestamp, state } = value as { timestamp?: unknown; state?: { holeCards?: unknown; communityCards?: unknown } | null };
+  return typeof timestamp === 'number' && typeof state === 'object' && state !== null
+    && isCardList(state.holeCards) && isCardList(state.communityCards);
+};
+
+const isStreetRecord = (value: unknown): boolean => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { street, snapshots } = value as { street?: unknown; snapshots?: unknown };
+  return HAND_STREETS.includes(street as HandStreet)
+    && Array.isArray(snapshots) && snapshots.length > 0 && snapshots.every(isSnapshot);
+};
+
+const isImportableHand = (value: unknown): value is HandRecord & { missing?: string[] } => {
+  if (typeof value !== 'object' || value === null) return false;
+  const hand = value as Partial<Record<keyof HandRecord, unknown>>;
+  return typeof hand.id === 'string' && typeof hand.startedAt === 'number'
+    && isCardList(hand.holeCards) && isCardList(hand.communityCards)
+    && Array.isArray(hand.streets) && hand.streets.length > 0 && hand.streets.every(isStreetRecord);
+};
+
+// ============================================
+// POKERSTARS TEXT
+// ============================================
+const HEADER_PATTERN = /^PokerStars (?:Zoom )?(?:Hand|Game) #(\d+)/;
+const STAKES_PATTERN = /\([$€£]?([\d.]+)\/[$€£]?([\d.]+)/;
+const DATE_PATTERN = /(\d{4})\/(\d{2})\/(\d{2}) (\d{1,2}):(\d{2}):(\d{2})/;
+const SEAT_PATTERN = /^Seat \d+: (.+?) \([$€£]?([\d.,]+) in chips/;
+const DEALT_PATTERN = /^Dealt to (.+?) \[(\S+) (\S+)\]/;
+const STREET_PATTERN = /^\*\*\* (FLOP|TURN|RIVER) \*\*\* \[([^\]]*)\](?: \[([^\]]*)\])?/;
+const ACTION_PATTERN = /^(.+?): (posts|folds|checks|calls|bets|raises)\b(.*)$/;
+const UNCALLED_PATTERN = /^Uncalled bet \([$€£]?([\d.,]+)\) returned to (.+)$/;
+
+const parseAmounts = (text: string): number[] => {
+  return [...text.matchAll(/[$€£]?(\d[\d,]*(?:\.\d+)?)/g)].map(m => parseFloat(m[1].replace(/,/g, '')));
+};
+
+const parseCardList = (text: string): Card[] => {
+  return text.split(/\s+/).map(parseCard).filter((card): card is Card => card !== null);
+};
+
+interface StreetDraft {
+  street: HandStreet;
+  board: Card[];
+  actions: string[];
+  decision: { pot: number; toCall: number; heroStack: number | undefined } | null;
+  potAtStart: number;
+}
+
+/**
+ * Parses one PokerStars hand. Returns null for hands without hero's cards.
+ */
+const parsePokerStarsHand = (block: string): HandRecord | null => {
+  const lines = block.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const header = lines[0];
+  if (!header || !HEADER_PATTERN.test(header)) return null;
+
+  const stakes = header.match(STAKES_PATTERN);
+  const bigBlind = stakes ? parseFloat(stakes[2]) : undefined;
+  const date = header.match(DATE_PATTERN);
+  const startedAt = date
+    ? Date.UTC(+date[1], +date[2] - 1, +date[3], +date[4], +date[5], +date[6])
+    : Date.now();
+
+  let heroName: string | null = null;
+  let holeCards: Card[] = [];
+  const stacks = new Map<string, number>();
+  for (const line of lines) {
+    const seat = line.match(SEAT_PATTERN);
+    if (seat) stacks.set(seat[1], parseFloat(seat[2].replace(/,/g, '')));
+    const dealt = line.match(DEALT_PATTERN);
+    if (dealt && !heroName) {
+      heroName = dealt[1];
+      holeCards = parseCardList(`${dealt[2]} ${dealt[3]}`);
+    }
+  }
+  if (!heroName || holeCards.length !== 2) return null;
+
+  // Walk the action lines, tracking pot and per-street commitments
+  const streets: StreetDraft[] = [{ street: 'PREFLOP', board: [], actions: [], decision: null, potAtStart: 0 }];
+  let pot = 0;
+  let heroInvested = 0;
+  let committed = new Map<string, number>();
+
+  for (const line of lines.slice(1)) {
+    if (line.startsWith('*** SUMMARY') || line.startsWith('*** SHOW DOWN')) break;
+
+    const streetMatch = line.match(STREET_PATTERN);
+    if (streetMatch) {
+      const board = parseCardList(`${streetMatch[2]} ${streetMatch[3] ?? ''}`);
+      streets.push({ street: streetMatch[1] as HandStreet, board, actions: [], decision: null, potAtStart: pot });
+      committed = new Map();
+      continue;
+    }
+
+    const current = streets[streets.length - 1];
+    const uncalled = line.match(UNCALLED_PATTERN);
+    if (uncalled) {
+      const amount = parseFloat(uncalled[1].replace(/,/g, ''));
+      pot -= amount;
+      if (uncalled[2] === heroName) heroInvested -= amount;
+      continue;
+    }
+
+    const action = line.match(ACTION_PATTERN);
+    if (!action) continue;
+    const [, player, verb, rest] = action;
+    const amounts = parseAmounts(rest);
+    const already = committed.get(player) ?? 0;
+
+    // Hero's first voluntary action on this street is the replay decision point
+    if (player === heroName && verb !== 'posts' && !current.decision) {
+      const maxCommitted = Math.max(0, ...committed.values());
+      const startStack = stacks.get(heroName);
+      current.decision = {
+        pot,
+        toCall: maxCommitted - already,
+        heroStack: startStack !== undefined ? startStack - heroInvested : undefined,
+      };
+    }
+
+    let added = 0;
+    if (verb === 'posts' || verb === 'calls' || verb === 'bets') {
+      added = amounts[0] ?? 0;
+    } else if (verb === 'raises') {
+      // "raises $2 to $6": the second amount is the new total for this street
+      added = (amounts[1] ?? amounts[0] ?? 0) - already;
+    }
+
+    // Antes are dead money and do not count towards the street commitment
+    if (!(verb === 'posts' && rest.includes('ante'))) {
+      committed.set(player, already + added);
+    }
+    pot += added;
+    if (player === heroName) heroInvested += added;
+    current.actions.push(`${player}: ${verb}${rest}`);
+  }
+
+  const streetRecords: StreetRecord[] = streets.map((draft, index) => {
+    const timestamp = startedAt + index;
+    const state: PokerGameState = {
+      winProbability: 0,
+      suggestedAction: 'WAITING',
+      reasoning: draft.actions.join(' · ') || 'Nessuna azione',
+      handStrength: '',
+      holeCards,
+      communityCards: draft.board,
+      potSize: draft.decision?.pot ?? draft.potAtStart,
+      amountToCall: draft.decision?.toCall,
+      heroStack: draft.decision?.heroStack,
+      bigBlind,
+    };
+    return { street: draft.street, startedAt: timestamp, snapshots: [{ timestamp, state }] };
+  });
+
+  const lastBoard = streets[streets.length - 1].board;
+  return {
+    id: `import-${header.match(HEADER_PATTERN)![1]}`,
+    startedAt,
+    updatedAt: startedAt + streets.length - 1,
+    endedAt: startedAt + streets.length - 1,
+    holeCards,
+    communityCards: lastBoard,
+    streets: streetRecords,
+  };
+};
+
+const parsePokerStarsText = (content: string): HandRecord[] => {
+  // Hands start with a "PokerStars Hand #" header line
+  const blocks = content.split(/\r?\n(?=PokerStars (?:Zoom )?(?:Hand|Game) #)/);
+  const hands = blocks
+    .map(parsePokerStarsHand)
+    .filter((hand): hand is HandRecord => hand !== null);
+
+  if (hands.length === 0 && !HEADER_PATTERN.test(content)) {
+    throw new HandHistoryImportError('Formato file non riconosciuto');
+  }
+  return hands;
+};
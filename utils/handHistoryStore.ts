@@ -0,0 +1,75 @@
+/**
+ * Hand History Store
+ *
+ * Persists recorded hands in IndexedDB so they survive a reload.
+ * Thin promise wrappers around the IndexedDB request API.
+ */
+
+import { HAND_HISTORY_CONFIG } from '../constants.ts';
+import { HandRecord } from '../types.ts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(HAND_HISTORY_CONFIG.DB_NAME, HAND_HISTORY_CONFIG.DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HAND_HISTORY_CONFIG.STORE_NAME)) {
+          const store = db.createObjectStore(HAND_HISTORY_CONFIG.STORE_NAME, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a later retry
+        reject(request.error ?? new Error('Failed to open hand history database'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(HAND_HISTORY_CONFIG.STORE_NAME, mode);
+    const request = operation(transaction.objectStore(HAND_HISTORY_CONFIG.STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Hand history request failed'));
+  });
+};
+
+/**
+ * Inserts or replaces a hand.
+ */
+export async function saveHand(hand: HandRecord): Promise<void> {
+  await runRequest('readwrite', store => store.put(hand));
+}
+
+/**
+ * Loads every stored hand, oldest first.
+ */
+export async function loadHands(): Promise<HandRecord[]> {
+  return runRequest<HandRecord[]>('readonly', store => store.index('startedAt').getAll());
+}
+
+/**
+ * Deletes a single hand by id.
+ */
+export async function deleteHand(id: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(id));
+}
+
+/**
+ * Deletes every stored hand.
+ */
+export async function clearHands(): Promise<void> {
+  await runRequest('readwrite', store => store.clear());
+}
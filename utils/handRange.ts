@@ -0,0 +1,268 @@
+/**
+ * Hand Ranges
+ *
+ * Parses preflop ranges written in standard notation into weighted hand classes:
+ * - Pairs "QQ", "QQ+", "22-55"
+ * - Suited/offsuit hands "AKs", "KQo", "AK" (both), "ATs+", "A2s-A5s"
+ * - Weights "AKs:0.5"
+ * - Percentage shorthands "top 10%", "15%" (hands ranked by the Chen formula)
+ *
+ * Free text mixed in ("Top 10%, high pairs") is reported as unparsed instead
+ * of failing, so the model's descriptive ranges still show what they can.
+ */
+
+import { Card, CardRank, HandClass, HandRange, ParsedRange, RangeGroup } from '../types.ts';
+import { RANKS, SUITS } from './cardUtils.ts';
+
+export const TOTAL_COMBOS = 1326;
+
+// Strongest first, as in the 13x13 grid
+const GRID_RANKS: CardRank[] = [...RANKS].reverse();
+
+const rankValue = (rank: CardRank): number => RANKS.indexOf(rank);
+
+// ============================================
+// HAND CLASSES
+// ============================================
+
+/**
+ * Hand class of a grid cell: pairs on the diagonal, suited above, offsuit below.
+ *
+ * @example
+ * ```ts
+ * gridHand(0, 1); // 'AKs'
+ * gridHand(1, 0); // 'AKo'
+ * gridHand(12, 12); // '22'
+ * ```
+ */
+export function gridHand(row: number, col: number): HandClass {
+  const high = GRID_RANKS[Math.min(row, col)];
+  const low = GRID_RANKS[Math.max(row, col)];
+  if (row === col) return `${high}${low}`;
+  return `${high}${low}${row < col ? 's' : 'o'}`;
+}
+
+/** Every hand class, strongest grid position first */
+export const HAND_CLASSES: HandClass[] = GRID_RANKS.flatMap((_, row) => GRID_RANKS.map((__, col) => gridHand(row, col)));
+
+/**
+ * Hand class of two hole cards.
+ *
+ * @example
+ * ```ts
+ * handClassOf(['Kh', 'Ah']); // 'AKs'
+ * ```
+ */
+export function handClassOf(cards: Card[]): HandClass | null {
+  if (cards.length !== 2) return null;
+  const [a, b] = [...cards].sort((x, y) => rankValue(y[0] as CardRank) - rankValue(x[0] as CardRank));
+  if (a[0] === b[0]) return `${a[0]}${b[0]}`;
+  return `${a[0]}${b[0]}${a[1] === b[1] ? 's' : 'o'}`;
+}
+
+export function classCombos(hand: HandClass): number {
+  if (hand.length === 2) return 6;
+  return hand[2] === 's' ? 4 : 12;
+}
+
+/**
+ * Every two-card combo of a hand class.
+ */
+export function expandClass(hand: HandClass): Array<[Card, Card]> {
+  const [high, low, kind] = hand as unknown as [CardRank, CardRank, string?];
+  const combos: Array<[Card, Card]> = [];
+  for (let i = 0; i < SUITS.length; i++) {
+    for (let j = 0; j < SUITS.length; j++) {
+      if (kind === 's' && i !== j) continue;
+      if (kind === 'o' && i === j) continue;
+      if (!kind && j <= i) continue; // Pairs: each suit pair once
+      combos.push([`${high}${SUITS[i]}`, `${low}${SUITS[j]}`]);
+    }
+  }
+  return combos;
+}
+
+// ============================================
+// PRE-FLOP RANKING (Chen formula)
+// ============================================
+const CHEN_HIGH_CARD: Record<string, number> = { A: 10, K: 8, Q: 7, J: 6 };
+
+/**
+ * Bill Chen's quick preflop score: high card, pair, suit, gap and straight bonuses.
+ */
+export function chenScore(hand: HandClass): number {
+  const [high, low, kind] = hand as unknown as [CardRank, CardRank, string?];
+  const points = (rank: CardRank) => CHEN_HIGH_CARD[rank] ?? (rankValue(rank) + 2) / 2;
+
+  if (high === low) return Math.ceil(Math.max(5, points(high) * 2));
+
+  let score = points(high);
+  if (kind === 's') score += 2;
+  const gap = rankValue(high) - rankValue(low) - 1;
+  score -= [0, 1, 2, 4][gap] ?? 5;
+  if (gap <= 1 && rankValue(high) < rankValue('Q')) score += 1;
+  return Math.ceil(score);
+}
+
+// Strongest first; ties go to pairs, then suited hands, then the higher cards
+const RANKED_CLASSES: HandClass[] = [...HAND_CLASSES].sort((a, b) => {
+  const kind = (hand: HandClass) => hand.length === 2 ? 2 : hand[2] === 's' ? 1 : 0;
+  return chenScore(b) - chenScore(a)
+    || kind(b) - kind(a)
+    || rankValue(b[0] as CardRank) - rankValue(a[0] as CardRank)
+    || rankValue(b[1] as CardRank) - rankValue(a[1] as CardRank);
+});
+
+/**
+ * The strongest hand classes covering a share of all starting hands.
+ *
+ * @param percent - 0-100; the class crossing the target is included
+ */
+export function topPercentRange(percent: number): HandClass[] {
+  const target = (Math.min(100, Math.max(0, percent)) / 100) * TOTAL_COMBOS;
+  const hands: HandClass[] = [];
+  let combos = 0;
+  for (const hand of RANKED_CLASSES) {
+    if (combos >= target) break;
+    hands.push(hand);
+    combos += classCombos(hand);
+  }
+  return hands;
+}
+
+// ============================================
+// PARSING
+// ============================================
+const RANK = '[2-9TJQKA]';
+const PERCENT_TOKEN = /^(?:top)?(\d+(?:\.\d+)?)%$/i;
+const HAND_TOKEN = new RegExp(`^(${RANK})(${RANK})([so])?(\\+)?$`, 'i');
+const SPAN_TOKEN = new RegExp(`^(${RANK})(${RANK})([so])?-(${RANK})(${RANK})([so])?$`, 'i');
+
+const normaliseRanks = (token: string) => token.replace(/10/g, 'T').replace(/[2-9tjqka]/gi, c => c.toUpperCase());
+
+const pairsBetween = (from: CardRank, to: CardRank): HandClass[] => {
+  const [low, high] = [rankValue(from), rankValue(to)].sort((a, b) => a - b);
+  return RANKS.slice(low, high + 1).map(rank => `${rank}${rank}`);
+};
+
+// Same high card, kickers from `from` to `to` (either order)
+const kickersBetween = (high: CardRank, from: CardRank, to: CardRank, kinds: string[]): HandClass[] => {
+  const [low, top] = [rankValue(from), rankValue(to)].sort((a, b) => a - b);
+  return RANKS.slice(low, Math.min(top, rankValue(high) - 1) + 1)
+    .flatMap(kicker => kinds.map(kind => `${high}${kicker}${kind}`));
+};
+
+/**
+ * Expands one notation token (weight already removed) to hand classes.
+ *
+ * @returns Hand classes, or null if the token is not range notation
+ */
+function expandToken(token: string): HandClass[] | null {
+  const percent = token.match(PERCENT_TOKEN);
+  if (percent) return topPercentRange(Number(percent[1]));
+
+  const normalised = normaliseRanks(token);
+  const hand = normalised.match(HAND_TOKEN);
+  if (hand) {
+    let [high, low] = [hand[1], hand[2]] as CardRank[];
+    const kind = hand[3]?.toLowerCase();
+    if (high === low) {
+      if (kind) return null; // "AAs"
+      return hand[4] ? pairsBetween(high, 'A') : [`${high}${low}`];
+    }
+    if (rankValue(low) > rankValue(high)) [high, low] = [low, high];
+    const kinds = kind ? [kind] : ['s', 'o'];
+    // "ATs+": raise the kicker up to just below the high card
+    return hand[4] ? kickersBetween(high, low, RANKS[rankValue(high) - 1], kinds) : kinds.map(k => `${high}${low}${k}`);
+  }
+
+  const span = normalised.match(SPAN_TOKEN);
+  if (span) {
+    const [, a1, a2, aKind, b1, b2, bKind] = span;
+    if (a1 === a2 && b1 === b2 && !aKind && !bKind) return pairsBetween(a1 as CardRank, b1 as CardRank);
+    if (a1 !== b1 || a1 === a2 || b1 === b2 || aKind?.toLowerCase() !== bKind?.toLowerCase()) return null;
+    const kinds = aKind ? [aKind.toLowerCase()] : ['s', 'o'];
+    return kickersBetween(a1 as CardRank, a2 as CardRank, b2 as CardRank, kinds);
+  }
+
+  return null;
+}
+
+const summarise = (range: HandRange, unparsed: string[]): ParsedRange => {
+  const combos = Object.entries(range).reduce((sum, [hand, weight]) => sum + classCombos(hand) * weight, 0);
+  return {
+    range,
+    combos: Math.round(combos * 10) / 10,
+    percent: Math.round((combos / TOTAL_COMBOS) * 1000) / 10,
+    unparsed,
+  };
+};
+
+// Overlapping entries keep the highest weight
+const addHands = (range: HandRange, hands: HandClass[], weight: number) => {
+  for (const hand of hands) range[hand] = Math.max(range[hand] ?? 0, weight);
+};
+
+/**
+ * Parses a range written in standard notation, separated by commas or spaces.
+ *
+ * @param weight - Weight of the tokens without their own ":w" suffix
+ *
+ * @example
+ * ```ts
+ * parseRange('QQ+, AKs, ATs+:0.5, 22-55');
+ * // { range: { QQ: 1, KK: 1, AA: 1, AKs: 1, ATs: 0.5, ..., 55: 1 }, combos: 52, percent: 3.9, unparsed: [] }
+ * parseRange('Top 10%, high pairs').unparsed; // ['high', 'pairs']
+ * ```
+ */
+export function parseRange(text: string, weight: number = 1): ParsedRange {
+  const range: HandRange = {};
+  const unparsed: string[] = [];
+  // "top 10 %" → "top10%" so the shorthand stays one token
+  const tokens = text.replace(/top\s*(\d)/gi, 'top$1').replace(/(\d)\s+%/g, '$1%').split(/[\s,;]+/).filter(Boolean);
+
+  for (const token of tokens) {
+    const [notation, suffix] = token.split(':');
+    const tokenWeight = suffix === undefined ? weight : Number(suffix);
+    const hands = expandToken(notation);
+    if (!hands || !Number.isFinite(tokenWeight) || tokenWeight < 0 || tokenWeight > 1) {
+      unparsed.push(token);
+      continue;
+    }
+    if (tokenWeight > 0) addHands(range, hands, tokenWeight);
+  }
+  return summarise(range, unparsed);
+}
+
+/**
+ * Merges the groups of a structured range.
+ */
+export function parseRangeGroups(groups: RangeGroup[]): ParsedRange {
+  const range: HandRange = {};
+  const unparsed: string[] = [];
+  for (const group of groups) {
+    const parsed = parseRange(group.hands, group.weight ?? 1);
+    Object.entries(parsed.range).forEach(([hand, weight]) => addHands(range, [hand], weight));
+    unparsed.push(...parsed.unparsed);
+  }
+  return summarise(range, unparsed);
+}
+
+/**
+ * Range shown in the HUD: the structured one, else the notation found in the free text.
+ *
+ * @returns null when neither yields any hand
+ */
+export function resolveStateRange(structured: RangeGroup[] | undefined, text: string | undefined): ParsedRange | null {
+  const parsed = structured?.length ? parseRangeGroups(structured) : text ? parseRange(text) : null;
+  return parsed && parsed.combos > 0 ? parsed : null;
+}
+
+/**
+ * Weighted combos of a range, without the ones blocked by known cards.
+ */
+export function rangeToCombos(range: HandRange, deadCards: Card[] = []): Array<{ cards: [Card, Card]; weight: number }> {
+  return Object.entries(range).flatMap(([hand, weight]) => expandClass(hand)
+    .filter(([a, b]) => !deadCards.includes(a) && !deadCards.includes(b))
+    .map(cards => ({ cards, weight })));
+}
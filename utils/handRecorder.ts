@@ -0,0 +1,117 @@
+/**
+ * Hand Recorder
+ *
+ * Splits the stream of `updatePokerState` snapshots into hands and streets:
+ * - New hand: hero's hole cards change, or the board shrinks (reset)
+ * - New street: community cards go 0 → 3 → 4 → 5
+ *
+ * Pure functions only: persistence lives in handHistoryStore.ts.
+ */
+
+import { Card, HandRecord, HandStreet, PokerGameState } from '../types.ts';
+
+/**
+ * Maps a board size to its street. Partial boards count as the previous street.
+ */
+export function getStreet(communityCount: number): HandStreet {
+  if (communityCount >= 5) return 'RIVER';
+  if (communityCount === 4) return 'TURN';
+  if (communityCount === 3) return 'FLOP';
+  return 'PREFLOP';
+}
+
+const sameCards = (a: Card[], b: Card[]): boolean => {
+  return a.length === b.length && a.every(card => b.includes(card));
+};
+
+/**
+ * Returns true if the state belongs to a different hand than the record.
+ */
+export function isNewHand(record: HandRecord, state: PokerGameState): boolean {
+  if (!sameCards(record.holeCards, state.holeCards)) return true;
+  return state.communityCards.length < record.communityCards.length;
+}
+
+// Hands can start in the same millisecond (one tool message, several tables):
+// the counter keeps their ids, the IndexedDB keys, apart. Order by `startedAt`.
+let handCounter = 0;
+
+const createRecord = (state: PokerGameState, timestamp: number, tableId?: string): HandRecord => ({
+  id: `hand-${tableId ? `${tableId}-` : ''}${timestamp}-${++handCounter}`,
+  ...(tableId ? { tableId } : {}),
+  startedAt: timestamp,
+  updatedAt: timestamp,
+  endedAt: null,
+  holeCards: state.holeCards,
+  communityCards: state.communityCards,
+  streets: [{
+    street: getStreet(state.communityCards.length),
+    startedAt: timestamp,
+    snapshots: [{ timestamp, state }],
+  }],
+});
+
+export interface RecordSnapshotResult {
+  current: HandRecord | null; // Hand in progress after this snapshot
+  finished: HandRecord | null; // Previous hand, closed by this snapshot
+}
+
+/**
+ * Adds a game state snapshot to the hand in progress.
+ *
+ * @param record - Hand in progress, or null if none
+ * @param state - Latest merged game state
+ * @param timestamp - Snapshot time (ms since epoch)
+ * @param tableId - Table the snapshot comes from, when several are played
+ * @returns Updated hand plus the hand that just finished, if any
+ *
+ * @example
+ * ```ts
+ * const { current, finished } = recordSnapshot(currentHand, pokerState, Date.now());
+ * if (finished) saveHand(finished);
+ * ```
+ */
+export function recordSnapshot(
+  record: HandRecord | null,
+  state: PokerGameState,
+  timestamp: number,
+  tableId?: string
+): RecordSnapshotResult {
+  // Without hole cards there is no hand to attach the snapshot to
+  if (state.holeCards.length === 0) {
+    return { current: record, finished: null };
+  }
+
+  if (!record || isNewHand(record, state)) {
+    return {
+      current: createRecord(state, timestamp, tableId),
+      finished: record ? { ...record, endedAt: timestamp } : null,
+    };
+  }
+
+  const street = getStreet(state.communityCards.length);
+  const lastStreet = record.streets[record.streets.length - 1];
+  const streets = lastStreet.street === street
+    ? [...record.streets.slice(0, -1), { ...lastStreet, snapshots: [...lastStreet.snapshots, { timestamp, state }] }]
+    : [...record.streets, { street, startedAt: timestamp, snapshots: [{ timestamp, state }] }];
+
+  return {
+    current: {
+      ...record,
+      updatedAt: timestamp,
+      communityCards: state.communityCards,
+      streets,
+    },
+    finished: null,
+  };
+}
+
+/**
+ * Returns the last snapshot recorded on each street of a hand.
+ */
+export function getFinalStreetStates(record: HandRecord): Array<{ street: HandStreet; state: PokerGameState }> {
+  return record.streets.map(({ street, snapshots }) => ({
+    street,
+    state: snapshots[snapshots.length - 1].state,
+  }));
+}
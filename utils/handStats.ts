@@ -0,0 +1,96 @@
+/**
+ * Hand Statistics
+ *
+ * Summaries and aggregate stats over the recorded hand history, served to
+ * the live model by the local tools:
+ * - `summarizeHand`: one compact entry per hand, last snapshot of each street
+ * - `computeOpponentStats`: how far hands go, how often and how big hero is bet into
+ *
+ * The recorder only sees hero's HUD, so opponents are aggregated, not tracked per seat.
+ */
+
+import { LOCAL_TOOLS_CONFIG } from '../constants.ts';
+import { Card, HandRecord, HandStreet, HandSummary, OpponentStats } from '../types.ts';
+import { getFinalStreetStates } from './handRecorder.ts';
+
+const round = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const perStreet = <T>(value: (street: HandStreet) => T): Record<HandStreet, T> => ({
+  PREFLOP: value('PREFLOP'),
+  FLOP: value('FLOP'),
+  TURN: value('TURN'),
+  RIVER: value('RIVER'),
+});
+
+/**
+ * Summarises a hand with the last snapshot of every street it reached.
+ */
+export function summarizeHand(hand: HandRecord): HandSummary {
+  const finals = getFinalStreetStates(hand);
+
+  return {
+    id: hand.id,
+    startedAt: new Date(hand.startedAt).toISOString(),
+    holeCards: hand.holeCards,
+    communityCards: hand.communityCards,
+    handStrength: finals[finals.length - 1]?.state.handStrength ?? '',
+    streets: finals.map(({ street, state }) => ({
+      street,
+      suggestedAction: state.suggestedAction,
+      potSize: state.potSize,
+      amountToCall: state.amountToCall,
+    })),
+  };
+}
+
+/**
+ * Aggregates opponent tendencies over a set of hands.
+ *
+ * @param hands - Recorded hands, any order
+ * @returns Street reach rates, bets faced and their sizing, estimated ranges
+ *
+ * @example
+ * ```ts
+ * const stats = computeOpponentStats(hands);
+ * console.log(stats.facedBetPct.FLOP); // 40 → hero faced a flop bet in 40% of the flops seen
+ * ```
+ */
+export function computeOpponentStats(hands: HandRecord[]): OpponentStats {
+  const ordered = [...hands].sort((a, b) => b.startedAt - a.startedAt);
+  const finals = ordered.map(getFinalStreetStates);
+
+  const reached = perStreet(street => finals.filter(streets => streets.some(s => s.street === street)).length);
+  const betsFaced = perStreet(street => finals
+    .flatMap(streets => streets.filter(s => s.street === street).map(s => s.state))
+    .filter(state => (state.amountToCall ?? 0) > 0)
+  );
+
+  const avgBetToPot = perStreet(street => {
+    // potSize includes the bet being faced: the pot before it is potSize - amountToCall
+    const fractions = betsFaced[street]
+      .filter(state => state.potSize !== undefined && state.potSize > state.amountToCall!)
+      .map(state => state.amountToCall! / (state.potSize! - state.amountToCall!));
+    return fractions.length > 0 ? round(fractions.reduce((sum, f) => sum + f, 0) / fractions.length, 2) : null;
+  });
+
+  const lastStates = finals.map(streets => streets[streets.length - 1].state);
+  const recentRanges = lastStates
+    .map(state => state.opponentRange)
+    .filter((range): range is string => !!range)
+    .slice(0, LOCAL_TOOLS_CONFIG.RECENT_RANGES);
+  const estimatedHands = lastStates
+    .map(state => state.opponentEstimatedCards)
+    .filter((cards): cards is Card[] => !!cards && cards.length > 0);
+
+  return {
+    handsAnalyzed: hands.length,
+    streetReachedPct: perStreet(street => hands.length > 0 ? round(reached[street] / hands.length * 100, 1) : 0),
+    facedBetPct: perStreet(street => reached[street] > 0 ? round(betsFaced[street].length / reached[street] * 100, 1) : null),
+    avgBetToPot,
+    recentRanges,
+    estimatedHands,
+  };
+}
@@ -0,0 +1,224 @@
+/**
+ * ICM (Independent Chip Model)
+ *
+ * Tournament equity for the HUD and the model:
+ * - Malmuth-Harville: a player finishes next with probability stack / chips left,
+ *   computed exactly over every finishing order (memoised on who has finished)
+ * - Hero's $EV with the current stacks, from the table seats or typed-in stacks
+ * - ICM-adjusted equity needed to call an all-in, against the chip-EV one
+ *
+ * Only heads-up all-ins are analysed: with more players or chips behind, the
+ * hand does not end at this decision and the stacks after it are unknown.
+ */
+
+import { TOURNAMENT_CONFIG } from '../constants.ts';
+import { IcmCallAnalysis, PokerGameState, TablePlayer, TournamentAnalysis, TournamentSettings } from '../types.ts';
+
+/**
+ * Each player's expected prize.
+ *
+ * @param stacks - Chips of every player still in the tournament (0: busted, takes the last places)
+ * @param payouts - Prize per finishing place, 1st first
+ * @returns $EV per player (same order as `stacks`), or null beyond MAX_ICM_PLAYERS
+ *
+ * @example
+ * ```ts
+ * calculateIcm([5000, 3000, 2000], [50, 30, 20]);
+ * // [38.39, 32.75, 28.86] (approximately)
+ * ```
+ */
+export function calculateIcm(stacks: number[], payouts: number[]): number[] | null {
+  const count = stacks.length;
+  if (count > TOURNAMENT_CONFIG.MAX_ICM_PLAYERS) return null;
+
+  const memo = new Map<number, number[]>();
+  // Expected prizes from the next place on, given the players (bitmask) already placed
+  const fromPlace = (finished: number, place: number): number[] => {
+    const cached = memo.get(finished);
+    if (cached) return cached;
+
+    const result = new Array<number>(count).fill(0);
+    const left = stacks.reduce((sum, stack, i) => finished & (1 << i) ? sum : sum + stack, 0);
+    if (place < payouts.length && left > 0) {
+      for (let i = 0; i < count; i++) {
+        if (finished & (1 << i) || stacks[i] <= 0) continue;
+        const chance = stacks[i] / left;
+        result[i] += chance * payouts[place];
+        fromPlace(finished | (1 << i), place + 1).forEach((ev, j) => { result[j] += chance * ev; });
+      }
+    }
+    memo.set(finished, result);
+    return result;
+  };
+
+  const result = fromPlace(0, 0);
+
+  // Busted players split the places after everyone with chips
+  const busted = stacks.flatMap((stack, i) => stack > 0 ? [] : [i]);
+  const bustedShare = payouts.slice(count - busted.length, count).reduce((sum, prize) => sum + prize, 0) / (busted.length || 1);
+  return result.map((ev, i) => busted.includes(i) ? bustedShare : ev);
+}
+
+/**
+ * Equity Hero needs to call under ICM, from the stacks after each outcome.
+ *
+ * @param heroIndex - Hero's position in the stack arrays
+ */
+export function analyzeIcmCall(
+  outcomes: { fold: number[]; win: number[]; lose: number[] },
+  heroIndex: number,
+  payouts: number[],
+  chipRequiredEquity: number
+): IcmCallAnalysis | null {
+  const [fold, win, lose] = [outcomes.fold, outcomes.win, outcomes.lose].map(stacks => calculateIcm(stacks, payouts)?.[heroIndex]);
+  if (fold === undefined || win === undefined || lose === undefined || win <= lose) return null;
+
+  const requiredEquity = Math.min(100, Math.max(0, ((fold - lose) / (win - lose)) * 100));
+  return {
+    requiredEquity,
+    chipRequiredEquity,
+    riskPremium: requiredEquity - chipRequiredEquity,
+    foldEv: fold,
+    winEv: win,
+    loseEv: lose,
+  };
+}
+
+// ============================================
+// FROM THE GAME STATE
+// ============================================
+const standing = (player: TablePlayer) => (player.stack ?? 0) + (player.currentBet ?? 0);
+
+/**
+ * Hero's tournament equity, and the ICM call requirement when Hero faces an all-in.
+ *
+ * @returns null when disabled, without payouts, or when Hero's stack is unknown
+ */
+export function analyzeTournament(settings: TournamentSettings, state: PokerGameState | null): TournamentAnalysis | null {
+  const payouts = settings.payouts.filter(prize => prize > 0);
+  if (!settings.enabled || !state || payouts.length === 0) return null;
+
+  const seated = (state.players ?? []).filter(p => p.stack !== undefined && standing(p) > 0);
+  const hero = seated.find(p => p.seat === state.heroSeat);
+
+  // Field: every player left, Hero at index 0
+  const field = settings.stackSource === 'MANUAL'
+    ? settings.manualStacks.filter(stack => stack > 0)
+    : hero ? [standing(hero), ...seated.filter(p => p !== hero).map(standing)] : [];
+  if (field.length < 2) return null;
+
+  const equities = calculateIcm(field, payouts);
+  if (!equities) return null;
+
+  const prizePool = payouts.slice(0, field.length).reduce((sum, prize) => sum + prize, 0);
+  const chips = field.reduce((sum, stack) => sum + stack, 0);
+  return {
+    playerCount: field.length,
+    prizePool,
+    heroEv: equities[0],
+    heroShare: (equities[0] / prizePool) * 100,
+    heroChipShare: (field[0] / chips) * 100,
+    call: hero ? analyzeAllInCall(field, hero, seated, state, payouts, settings.stackSource) : null,
+  };
+}
+
+const analyzeAllInCall = (
+  field: number[],
+  hero: TablePlayer,
+  seated: TablePlayer[],
+  state: PokerGameState,
+  payouts: number[],
+  source: TournamentSettings['stackSource']
+): IcmCallAnalysis | null => {
+  const toCall = state.amountToCall ?? 0;
+  const villains = seated.filter(p => p !== hero && p.inHand);
+  if (toCall <= 0 || state.potSize === undefined || villains.length !== 1) return null;
+
+  const villain = villains[0];
+  // Typed-in stacks include what Hero has already put in this hand, like `standing`
+  const heroStack = source === 'MANUAL' ? field[0] - (hero.currentBet ?? 0) : hero.stack!;
+  if (heroStack <= 0) return null;
+  const call = Math.min(toCall, heroStack);
+  if (call < heroStack && villain.stack! > 0) return null; // Chips behind: more betting to come
+
+  const refund = toCall - call; // Villain's bet beyond what Hero can match
+  const pot = state.potSize - refund + call;
+
+  // Typed-in stacks don't name the villain: take the closest stack to theirs
+  const villainStanding = standing(villain);
+  const villainIndex = source === 'MANUAL'
+    ? field.reduce((best, stack, i) => i > 0 && Math.abs(stack - villainStanding) < Math.abs(field[best] - villainStanding) ? i : best, 1)
+    : 1 + seated.filter(p => p !== hero).indexOf(villain);
+
+  const after = (heroChips: number, villainChips: number) => field.map((stack, i) =>
+    i === 0 ? heroChips : i === villainIndex ? villainChips : stack);
+
+  return analyzeIcmCall({
+    fold: after(heroStack, villain.stack! + state.potSize),
+    win: after(heroStack - call + pot, villain.stack! + refund),
+    lose: after(heroStack - call, villain.stack! + refund + pot),
+  }, 0, payouts, (call / pot) * 100);
+};
+
+/**
+ * ICM figures returned to the model with each state update, rounded to 0.1.
+ */
+export function summarizeIcm(analysis: TournamentAnalysis) {
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    heroEv: round(analysis.heroEv),
+    prizePool: analysis.prizePool,
+    heroPrizeShare: round(analysis.heroShare),
+    heroChipShare: round(analysis.heroChipShare),
+    ...(analysis.call && {
+      callRequiredEquity: round(analysis.call.requiredEquity),
+      chipRequiredEquity: round(analysis.call.chipRequiredEquity),
+    }),
+  };
+}
+
+// ============================================
+// SETTINGS (persisted in localStorage)
+// ============================================
+export const DEFAULT_TOURNAMENT_SETTINGS: TournamentSettings = {
+  enabled: false,
+  payouts: [50, 30, 20],
+  stackSource: 'TABLE',
+  manualStacks: [],
+};
+
+/**
+ * Amounts typed as a list, e.g. "50, 30, 20" or "12000 8500 3000".
+ * Entries that are not positive numbers are dropped.
+ */
+export function parseAmounts(text: string): number[] {
+  return text
+    .split(/[\s,;]+/)
+    .map(token => Number(token))
+    .filter(amount => Number.isFinite(amount) && amount > 0);
+}
+
+const isAmountList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(amount => typeof amount === 'number' && Number.isFinite(amount) && amount > 0);
+
+/** Stored settings, field by field: anything unusable keeps its default. */
+export function parseTournamentSettings(content: string | null): TournamentSettings {
+  let payload: Record<string, unknown> = {};
+  try {
+    const parsed = content ? JSON.parse(content) : null;
+    if (parsed && typeof parsed === 'object') payload = parsed;
+  } catch {
+    payload = {};
+  }
+
+  return {
+    enabled: typeof payload.enabled === 'boolean' ? payload.enabled : DEFAULT_TOURNAMENT_SETTINGS.enabled,
+    payouts: isAmountList(payload.payouts) ? payload.payouts : DEFAULT_TOURNAMENT_SETTINGS.payouts,
+    stackSource: payload.stackSource === 'MANUAL' ? 'MANUAL' : 'TABLE',
+    manualStacks: isAmountList(payload.manualStacks) ? payload.manualStacks : DEFAULT_TOURNAMENT_SETTINGS.manualStacks,
+  };
+}
+
+export function serializeTournamentSettings(settings: TournamentSettings): string {
+  return JSON.stringify(settings);
+}
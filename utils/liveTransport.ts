@@ -0,0 +1,32 @@
+/**
+ * Live Transport Selection
+ *
+ * The live hook only talks to a `LiveTransport`, so the Gemini Live API can
+ * be swapped for the scripted local mock (see LIVE_TRANSPORT_CONFIG).
+ */
+
+/// <reference types="vite/client" />
+
+import { LiveTransport, LiveTransportBackend } from '../types.ts';
+import { geminiTransport } from './geminiClient.ts';
+import { mockTransport } from './mockLiveTransport.ts';
+
+const TRANSPORTS: Record<LiveTransportBackend, LiveTransport> = {
+  gemini: geminiTransport,
+  mock: mockTransport,
+};
+
+/**
+ * Backend named by VITE_LIVE_TRANSPORT ('mock' or 'gemini', from .env.local or the shell).
+ * Vite inlines it in the bundle; without Vite there is no env and the Live API is used.
+ */
+export function getConfiguredBackend(): LiveTransportBackend {
+  return import.meta.env?.VITE_LIVE_TRANSPORT === 'mock' ? 'mock' : 'gemini';
+}
+
+/**
+ * Returns the transport for a backend (defaults to the configured one).
+ */
+export function getLiveTransport(backend: LiveTransportBackend = getConfiguredBackend()): LiveTransport {
+  return TRANSPORTS[backend];
+}
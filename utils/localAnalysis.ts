@@ -0,0 +1,26 @@
+/**
+ * Local Analysis
+ *
+ * Runs every local engine (equity, hand ranking, pot maths, range) on a game
+ * state. Used where a state does not come through the live tool call,
+ * e.g. hands replayed from a file.
+ */
+
+import { PokerGameState } from '../types.ts';
+import { calculateEquity } from './equityCalculator.ts';
+import { evaluateHand } from './handEvaluator.ts';
+import { resolveStateRange } from './handRange.ts';
+import { calculatePotMath } from './potOdds.ts';
+
+/**
+ * Returns a copy of the state with `localEquity`, `localHand`, `localPotMath` and `localRange` filled in.
+ */
+export function withLocalAnalysis(state: PokerGameState): PokerGameState {
+  return {
+    ...state,
+    localEquity: calculateEquity(state.holeCards, state.communityCards),
+    localHand: evaluateHand(state.holeCards, state.communityCards),
+    localPotMath: calculatePotMath(state),
+    localRange: resolveStateRange(state.structuredRange, state.opponentRange),
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Local Store
+ *
+ * Guarded localStorage access for small user settings (region profiles,
+ * card templates). Storage can be unavailable (privacy mode, quota): the
+ * settings then live for the session only.
+ */
+
+export const readStorage = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch (err) {
+    console.warn('[localStore] localStorage unavailable:', err);
+    return null;
+  }
+};
+
+export const writeStorage = (key: string, value: string): void => {
+  try {
+    localStorage.setItem(key, value);
+  } catch (err) {
+    console.warn(`[localStore] Error saving ${key}:`, err);
+  }
+};
@@ -0,0 +1,122 @@
+/**
+ * Local Tools
+ *
+ * Functions the live model can call besides `updatePokerState`, answered by
+ * the local engines instead of the model's own estimates:
+ * - calculateEquity: exact/Monte Carlo equity (equityCalculator.ts)
+ * - evaluateHand: best five-card hand (handEvaluator.ts)
+ * - getRecentHands / getOpponentStats: recorded hand history (handStats.ts)
+ *
+ * Adding a tool = one declaration in constants.ts plus one registry entry.
+ *
+ * @example
+ * const result = runLocalTool(fc.name, fc.args, { hands: handsRef.current });
+ * if (result) sendToolResult(fc, result);
+ */
+
+import {
+  LOCAL_TOOLS_CONFIG,
+  equityToolDeclaration,
+  handEvaluationToolDeclaration,
+  recentHandsToolDeclaration,
+  opponentStatsToolDeclaration,
+} from '../constants.ts';
+import { Card, LocalTool, LocalToolContext, LocalToolResult } from '../types.ts';
+import { parseCard } from './cardUtils.ts';
+import { calculateEquity } from './equityCalculator.ts';
+import { evaluateHand } from './handEvaluator.ts';
+import { computeOpponentStats, summarizeHand } from './handStats.ts';
+import { validateToolArgs } from './toolArgsValidator.ts';
+
+// Card fields are validated against the schema before `execute` runs
+const toCards = (value: unknown): Card[] => ((value as string[] | undefined) ?? []).map(card => parseCard(card)!);
+
+const byNewest = <T extends { startedAt: number }>(items: T[]): T[] => [...items].sort((a, b) => b.startedAt - a.startedAt);
+
+/**
+ * Splits a combo written as two adjacent cards ("QcQs", "10h9h", "Qc Qs").
+ */
+export function parseCombo(combo: string): [Card, Card] | null {
+  const match = combo.replace(/\s/g, '').match(/^(10|[2-9TJQKA])([cdhs])(10|[2-9TJQKA])([cdhs])$/i);
+  if (!match) return null;
+  const first = parseCard(match[1] + match[2]);
+  const second = parseCard(match[3] + match[4]);
+  return first && second && first !== second ? [first, second] : null;
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+const TOOLS: LocalTool[] = [
+  {
+    declaration: equityToolDeclaration,
+    execute: (args) => {
+      const range = args.opponentRange as string[] | undefined;
+      const combos = range?.map(parseCombo);
+      const invalid = range?.filter((_, i) => !combos![i]) ?? [];
+      if (invalid.length > 0) {
+        throw new Error(`opponentRange: combo non valide ${invalid.map(c => `"${c}"`).join(', ')}`);
+      }
+
+      const result = calculateEquity(toCards(args.holeCards), toCards(args.communityCards), {
+        opponentCount: args.opponentCount as number | undefined,
+        opponentRange: combos as string[][] | undefined,
+      });
+      if (!result) {
+        throw new Error('Carte non valutabili: servono 2 carte Hero, board di 0/3/4/5 carte, nessun duplicato e almeno una combo del range libera');
+      }
+      return result;
+    },
+  },
+
+  {
+    declaration: handEvaluationToolDeclaration,
+    execute: (args) => {
+      const hand = evaluateHand(toCards(args.holeCards), toCards(args.communityCards));
+      if (!hand) throw new Error('Servono 2 carte Hero e almeno 3 carte sul board');
+      return hand;
+    },
+  },
+
+  {
+    declaration: recentHandsToolDeclaration,
+    execute: (args, { hands }) => {
+      const count = (args.count as number | undefined) ?? LOCAL_TOOLS_CONFIG.DEFAULT_RECENT_HANDS;
+      return { hands: byNewest(hands).slice(0, count).map(summarizeHand) };
+    },
+  },
+
+  {
+    declaration: opponentStatsToolDeclaration,
+    execute: (args, { hands }) => {
+      const lastHands = args.lastHands as number | undefined;
+      return computeOpponentStats(lastHands ? byNewest(hands).slice(0, lastHands) : hands);
+    },
+  },
+];
+
+export const LOCAL_TOOLS: ReadonlyMap<string, LocalTool> = new Map(TOOLS.map(tool => [tool.declaration.name!, tool]));
+
+export const LOCAL_TOOL_DECLARATIONS = TOOLS.map(tool => tool.declaration);
+
+/**
+ * Validates and runs a local tool call.
+ *
+ * @param name - Function name from the tool call
+ * @param rawArgs - Arguments as received
+ * @param context - Data the tools read (hand history)
+ * @returns Tool response payload, or null if no local tool has that name
+ */
+export function runLocalTool(name: string, rawArgs: unknown, context: LocalToolContext): LocalToolResult | null {
+  const tool = LOCAL_TOOLS.get(name);
+  if (!tool) return null;
+
+  const { args, errors } = validateToolArgs(rawArgs, tool.declaration);
+  if (errors.length > 0) return { success: false, errors };
+
+  try {
+    return { success: true, result: tool.execute(args, context) };
+  } catch (err) {
+    return { success: false, errors: [err instanceof Error ? err.message : String(err)] };
+  }
+}
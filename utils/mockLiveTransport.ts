@@ -0,0 +1,177 @@
+/**
+ * Mock Live Transport
+ *
+ * Scripted local stand-in for the Gemini Live WebSocket. It opens
+ * asynchronously like the real socket, then plays a looping script of
+ * canned `LiveServerMessage`s (tool calls, audio chunks, transcriptions).
+ * A text prompt (scan, focus, refresh) skips ahead to the next tool call,
+ * as the real model would answer it. No key and no network are needed.
+ *
+ * @example
+ * const session = await mockTransport.connect(config, callbacks);
+ * session.sendRealtimeInput({ text: PROMPTS.SCAN_IMMEDIATE });
+ */
+
+import { LiveServerMessage } from '@google/genai';
+import { AUDIO_CONFIG, LIVE_TRANSPORT_CONFIG } from '../constants.ts';
+import { LiveTransport, PokerToolArgs } from '../types.ts';
+import { pcmToGeminiAudioBlob } from './audioUtils.ts';
+
+// ============================================
+// SCRIPT
+// ============================================
+type MockStep =
+  | { kind: 'tool'; args: PokerToolArgs }
+  | { kind: 'say'; text: string }
+  | { kind: 'hear'; text: string };
+
+const MOCK_SCRIPT: MockStep[] = [
+  { kind: 'hear', text: 'Analizza il tavolo' },
+  { kind: 'say', text: 'Tavolo pronto, attendo la mano.' },
+  {
+    kind: 'tool',
+    args: {
+      winProbability: 67, suggestedAction: 'RAISE', handStrength: 'AKs',
+      reasoning: 'Mano premium in posizione, apri a 2.5bb',
+      holeCards: ['As', 'Ks'], communityCards: [],
+      potSize: 1.5, amountToCall: 1, heroStack: 100, effectiveStack: 100, bigBlind: 1,
+      tableSize: 6, heroSeat: 4, dealerSeat: 4,
+      players: [
+        { seat: 1, name: 'fish_77', stack: 84, lastAction: 'FOLD', inHand: false },
+        { seat: 2, name: 'nitro', stack: 120, lastAction: 'FOLD', inHand: false },
+        { seat: 3, name: 'reg_CO', stack: 100, lastAction: 'FOLD', inHand: false },
+        { seat: 4, name: 'Arkangelzzz', stack: 100, inHand: true },
+        { seat: 5, name: 'tight_sb', stack: 99.5, currentBet: 0.5, lastAction: 'POST', inHand: true, estimatedRange: 'Range di difesa SB' },
+        { seat: 6, name: 'villain_bb', stack: 99, currentBet: 1, lastAction: 'POST', inHand: true, estimatedRange: 'Range di difesa BB ampio' },
+      ],
+    },
+  },
+  { kind: 'say', text: 'Raise, asso re suited.' },
+  {
+    kind: 'tool',
+    args: {
+      winProbability: 58, suggestedAction: 'RAISE', handStrength: 'Top Pair',
+      reasoning: 'Top pair top kicker su board secco, c-bet 1/3 pot',
+      communityCards: ['Kd', '7c', '2h'],
+      potSize: 6, amountToCall: 0, heroStack: 97.5,
+      players: [
+        { seat: 1, name: 'fish_77', stack: 84, lastAction: 'FOLD', inHand: false },
+        { seat: 2, name: 'nitro', stack: 120, lastAction: 'FOLD', inHand: false },
+        { seat: 3, name: 'reg_CO', stack: 100, lastAction: 'FOLD', inHand: false },
+        { seat: 4, name: 'Arkangelzzz', stack: 97.5, inHand: true },
+        { seat: 5, name: 'tight_sb', stack: 99.5, lastAction: 'FOLD', inHand: false },
+        { seat: 6, name: 'villain_bb', stack: 97.5, lastAction: 'CHECK', inHand: true, estimatedRange: 'Kx debole, coppie medie, draw' },
+      ],
+    },
+  },
+  { kind: 'say', text: 'Punta un terzo del piatto.' },
+  {
+    kind: 'tool',
+    args: {
+      winProbability: 71, suggestedAction: 'CALL', handStrength: 'Top Pair',
+      reasoning: 'Il villain punta mezzo piatto, pot odds sufficienti',
+      communityCards: ['Kd', '7c', '2h', '9s'],
+      potSize: 12, amountToCall: 4, heroStack: 95.5,
+    },
+  },
+  {
+    kind: 'tool',
+    args: {
+      winProbability: 74, suggestedAction: 'CHECK', handStrength: 'Top Pair',
+      reasoning: 'River neutro, check per controllare il piatto',
+      communityCards: ['Kd', '7c', '2h', '9s', '3d'],
+      potSize: 20, amountToCall: 0, heroStack: 91.5,
+    },
+  },
+  { kind: 'say', text: 'Check, mano finita.' },
+];
+
+let toolCallCounter = 0;
+
+const toneChunk = (): string => {
+  const rate = AUDIO_CONFIG.OUTPUT_SAMPLE_RATE;
+  const samples = new Float32Array(Math.round(rate * LIVE_TRANSPORT_CONFIG.MOCK_TONE_DURATION_MS / 1000));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = 0.2 * Math.sin(2 * Math.PI * LIVE_TRANSPORT_CONFIG.MOCK_TONE_HZ * i / rate);
+  }
+  return pcmToGeminiAudioBlob(samples, rate).data!;
+};
+
+// Plain objects: the SDK class only adds convenience getters (text, data)
+const stepToMessages = (step: MockStep, tableId: string | undefined): LiveServerMessage[] => {
+  switch (step.kind) {
+    case 'tool': {
+      const args: PokerToolArgs = { ...step.args, tableId };
+      return [{
+        toolCall: {
+          functionCalls: [{ id: `mock-${++toolCallCounter}`, name: 'updatePokerState', args }]
+        }
+      }] as LiveServerMessage[];
+    }
+    case 'say':
+      // Spoken answer: one audio chunk plus its transcription
+      return [
+        { serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${AUDIO_CONFIG.OUTPUT_SAMPLE_RATE}`, data: toneChunk() } }] } } },
+        { serverContent: { outputTranscription: { text: step.text } } },
+      ] as LiveServerMessage[];
+    case 'hear':
+      return [{ serverContent: { inputTranscription: { text: step.text } } }] as LiveServerMessage[];
+  }
+};
+
+// ============================================
+// TRANSPORT
+// ============================================
+export const mockTransport: LiveTransport = {
+  backend: 'mock',
+
+  // The script plays on the first table: with several tables every call must name one
+  connect: async (config, callbacks) => {
+    const tableId = config.tableIds?.[0];
+    let stepIndex = 0;
+    let isOpen = true;
+    let timerId: number | null = null;
+
+    const emitStep = () => {
+      if (!isOpen) return;
+      const step = MOCK_SCRIPT[stepIndex];
+      stepIndex = (stepIndex + 1) % MOCK_SCRIPT.length;
+      stepToMessages(step, tableId).forEach(msg => callbacks.onmessage(msg));
+    };
+
+    const schedule = () => {
+      timerId = window.setTimeout(() => {
+        emitStep();
+        if (isOpen) schedule();
+      }, LIVE_TRANSPORT_CONFIG.MOCK_STEP_INTERVAL_MS);
+    };
+
+    // Open after the session is returned, like the real WebSocket
+    window.setTimeout(() => {
+      if (!isOpen) return;
+      callbacks.onopen();
+      schedule();
+    }, LIVE_TRANSPORT_CONFIG.MOCK_OPEN_DELAY_MS);
+
+    return {
+      sendRealtimeInput: (input) => {
+        if (!isOpen || !input.text) return;
+        // Answer a prompt right away with the next tool call in the script
+        while (MOCK_SCRIPT[stepIndex].kind !== 'tool') {
+          stepIndex = (stepIndex + 1) % MOCK_SCRIPT.length;
+        }
+        emitStep();
+      },
+
+      // The script does not depend on the answers (rejected calls show up in the tool diagnostics)
+      sendToolResponse: () => {},
+
+      close: () => {
+        if (!isOpen) return;
+        isOpen = false;
+        if (timerId !== null) clearTimeout(timerId);
+        callbacks.onclose({ code: 1000, reason: 'closed by client' });
+      }
+    };
+  }
+};
@@ -0,0 +1,66 @@
+/**
+ * Pot Odds Utilities
+ *
+ * Turns the numeric pot/bet/stack fields reported by the model into the
+ * numbers a player actually decides with:
+ * - Pot odds and the equity required to call
+ * - Stack-to-pot ratio (SPR) and effective stack in big blinds
+ * - Break-even fold percentages for common bet sizes
+ */
+
+import { BET_SIZE_FRACTIONS } from '../constants.ts';
+import { PotMath } from '../types.ts';
+
+export interface PotMathInput {
+  potSize?: number;
+  amountToCall?: number;
+  heroStack?: number;
+  effectiveStack?: number;
+  bigBlind?: number;
+}
+
+const isAmount = (value: number | undefined): value is number => {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+};
+
+/**
+ * Calculates pot odds, required call equity, SPR and bluff break-evens.
+ *
+ * @param input - Chip amounts, all in the same unit
+ * @returns Pot maths, or null if the pot size is unknown
+ *
+ * @example
+ * ```ts
+ * const math = calculatePotMath({ potSize: 150, amountToCall: 50 });
+ * console.log(math?.potOdds);        // 3 (3:1)
+ * console.log(math?.requiredEquity); // 25
+ * ```
+ */
+export function calculatePotMath(input: PotMathInput): PotMath | null {
+  const { potSize, amountToCall, bigBlind } = input;
+  if (!isAmount(potSize) || potSize === 0) return null;
+
+  // Without a reported effective stack, hero's stack is the best upper bound we have
+  const effectiveStack = isAmount(input.effectiveStack) ? input.effectiveStack : input.heroStack;
+  const hasCall = isAmount(amountToCall) && amountToCall > 0;
+
+  return {
+    potOdds: hasCall ? potSize / amountToCall : null,
+    requiredEquity: hasCall ? (amountToCall / (potSize + amountToCall)) * 100 : null,
+    spr: isAmount(effectiveStack) ? effectiveStack / potSize : null,
+    effectiveStackBb: isAmount(effectiveStack) && isAmount(bigBlind) && bigBlind > 0
+      ? effectiveStack / bigBlind
+      : null,
+    breakEvenFolds: BET_SIZE_FRACTIONS.map(betFraction => ({
+      betFraction,
+      foldPct: (betFraction / (1 + betFraction)) * 100,
+    })),
+  };
+}
+
+/**
+ * Formats a pot-to-call ratio the way players read it (e.g. 2.5 → "2.5:1").
+ */
+export function formatPotOdds(ratio: number): string {
+  return `${Number(ratio.toFixed(1))}:1`;
+}
@@ -0,0 +1,221 @@
+/**
+ * Preflop Charts
+ *
+ * Opening, 3-bet and call-vs-open ranges by position and effective stack,
+ * kept as editable JSON (localStorage, import/export):
+ * - Finding Hero's spot from the seats (unopened pot or a single open)
+ * - The chart action for Hero's hand, and whether the model's advice deviates
+ * - Validating user charts, with the errors shown in the editor
+ *
+ * Spots the charts don't cover (limped pots, 3-bets against Hero, the big
+ * blind's option) give no advice rather than a wrong one.
+ */
+
+import { PREFLOP_CHART_CONFIG, TABLE_CONFIG } from '../constants.ts';
+import {
+  PokerGameState,
+  PreflopAdvice,
+  PreflopChart,
+  PreflopChartSet,
+  SuggestedAction,
+  TablePosition,
+} from '../types.ts';
+import { handClassOf, parseRange } from './handRange.ts';
+import { withDerivedPositions } from './tableUtils.ts';
+
+const EARLY: TablePosition[] = ['UTG', 'UTG+1', 'UTG+2', 'LJ'];
+const NOT_BLINDS: TablePosition[] = [...EARLY, 'HJ', 'CO', 'BTN'];
+
+/**
+ * Built-in 6-max/9-max charts: 100bb ranges from 40bb, tighter ranges (mostly all-in) below.
+ */
+export const DEFAULT_CHART_SET: PreflopChartSet = {
+  name: 'Default',
+  charts: [
+    // Open raise
+    { positions: ['UTG', 'UTG+1'], minStackBb: 40, raise: '77+, ATs+, A5s:0.5, KTs+, QTs+, JTs, T9s:0.5, AJo+, KQo' },
+    { positions: ['UTG+2', 'LJ'], minStackBb: 40, raise: '55+, A9s+, A5s-A4s, KTs+, QTs+, J9s+, T9s, 98s, 87s:0.5, ATo+, KJo+' },
+    { positions: ['HJ'], minStackBb: 40, raise: '44+, A2s+, K9s+, Q9s+, J9s+, T8s+, 97s+, 87s, 76s, ATo+, KJo+, QJo' },
+    { positions: ['CO'], minStackBb: 40, raise: '22+, A2s+, K7s+, Q8s+, J8s+, T8s+, 97s+, 86s+, 75s+, 65s, 54s, A8o+, KTo+, QTo+, JTo' },
+    { positions: ['BTN'], minStackBb: 40, raise: '22+, A2s+, K2s+, Q5s+, J7s+, T7s+, 96s+, 85s+, 74s+, 64s+, 53s+, 43s, A2o+, K8o+, Q9o+, J9o+, T9o, 98o' },
+    { positions: ['SB'], minStackBb: 40, raise: '22+, A2s+, K5s+, Q7s+, J7s+, T7s+, 96s+, 85s+, 75s+, 64s+, 54s, A5o+, K9o+, Q9o+, J9o+, T9o' },
+    { positions: EARLY, minStackBb: 0, raise: '66+, A9s+, KTs+, QJs, ATo+, KQo' },
+    { positions: ['HJ', 'CO'], minStackBb: 0, raise: '22+, A2s+, K9s+, Q9s+, J9s+, T9s, A7o+, KTo+, QJo' },
+    { positions: ['BTN', 'SB'], minStackBb: 0, raise: '22+, A2s+, K5s+, Q8s+, J8s+, T8s+, 98s, 87s, A2o+, K9o+, QTo+, JTo' },
+
+    // Facing an open: 3-bet or call
+    { positions: ['UTG+1', 'UTG+2', 'LJ', 'HJ', 'CO', 'BTN'], vs: EARLY, minStackBb: 40, raise: 'QQ+, AK, A5s-A4s:0.5', call: 'JJ-66, AQs-ATs, KQs-KJs, QJs, JTs, T9s, AQo' },
+    { positions: ['CO', 'BTN'], vs: ['HJ', 'CO'], minStackBb: 40, raise: 'JJ+, AQs+, AKo, A5s-A2s, KJs:0.5', call: 'TT-22, AJs-ATs, KQs-KTs, QJs-QTs, JTs, T9s, 98s, 87s, AQo, KQo' },
+    { positions: ['SB'], vs: NOT_BLINDS, minStackBb: 40, raise: 'TT+, AJs+, KQs, AQo+, A5s-A2s, K9s:0.5' },
+    { positions: ['BB'], vs: EARLY, minStackBb: 40, raise: 'QQ+, AK', call: 'JJ-22, A2s+, K9s+, Q9s+, J9s+, T8s+, 97s+, 86s+, 75s+, 65s, 54s, AJo+, KQo' },
+    { positions: ['BB'], vs: ['HJ', 'CO'], minStackBb: 40, raise: 'JJ+, AQs+, AKo, A5s-A4s', call: 'TT-22, A2s+, K6s+, Q8s+, J8s+, T7s+, 96s+, 85s+, 75s+, 64s+, 54s, ATo+, KTo+, QTo+, JTo' },
+    { positions: ['BB'], vs: ['BTN'], minStackBb: 40, raise: 'TT+, AJs+, KQs, AJo+, A5s-A2s, K9s-K8s:0.5, 76s:0.5', call: '99-22, A2s+, K2s+, Q5s+, J7s+, T7s+, 96s+, 85s+, 74s+, 64s+, 53s+, 43s, A2o+, K8o+, Q9o+, J9o+, T9o, 98o' },
+    { positions: ['BB'], vs: ['SB'], minStackBb: 40, raise: '99+, ATs+, KJs+, ATo+, KQo, A5s-A2s', call: '88-22, A2s+, K2s+, Q2s+, J5s+, T6s+, 96s+, 85s+, 74s+, 63s+, 53s+, 43s, A2o+, K5o+, Q8o+, J8o+, T8o+, 98o' },
+    { positions: [...NOT_BLINDS, 'SB', 'BB'], vs: [...NOT_BLINDS, 'SB'], minStackBb: 0, raise: '88+, ATs+, KQs, AJo+', call: '77-55, A9s-A8s, KJs, QJs' },
+  ],
+};
+
+// ============================================
+// SPOT & ADVICE
+// ============================================
+const AGGRESSIVE_ACTIONS = new Set(['RAISE', 'BET', 'ALL-IN']);
+
+/**
+ * Picks the chart for a spot: the deepest one not deeper than the stack,
+ * or the shallowest one when the stack is below them all.
+ */
+export function findChart(
+  chartSet: PreflopChartSet,
+  position: TablePosition,
+  vs: TablePosition | undefined,
+  stackBb: number
+): PreflopChart | null {
+  const candidates = chartSet.charts
+    .filter(chart => chart.positions.includes(position) && (vs ? chart.vs?.includes(vs) : !chart.vs))
+    .sort((a, b) => b.minStackBb - a.minStackBb);
+  return candidates.find(chart => chart.minStackBb <= stackBb) ?? candidates[candidates.length - 1] ?? null;
+}
+
+/**
+ * Chart advice for Hero's hand before the flop.
+ *
+ * @returns null after the flop, without Hero's cards or position, or in a spot the charts don't cover
+ *
+ * @example
+ * ```ts
+ * getPreflopAdvice(DEFAULT_CHART_SET, state); // Hero AKo on the BTN, folded to him, model says FOLD
+ * // { action: 'RAISE', frequency: 1, hand: 'AKo', position: 'BTN', stackBb: 100, deviation: true }
+ * ```
+ */
+export function getPreflopAdvice(chartSet: PreflopChartSet, state: PokerGameState | null): PreflopAdvice | null {
+  if (!state || state.communityCards.length > 0) return null;
+  const hand = handClassOf(state.holeCards);
+  if (!hand) return null;
+
+  const players = withDerivedPositions(state.players ?? [], state.dealerSeat);
+  const hero = players.find(p => p.seat === state.heroSeat);
+  if (!hero?.position || !hero.inHand || AGGRESSIVE_ACTIONS.has(hero.lastAction ?? '')) return null;
+
+  const villains = players.filter(p => p.seat !== hero.seat && p.inHand);
+  const raisers = villains.filter(p => AGGRESSIVE_ACTIONS.has(p.lastAction ?? ''));
+  if (raisers.length > 1) return null;
+  const vs = raisers[0]?.position;
+  if (raisers.length === 1 && !vs) return null;
+  // Unopened: limped pots and the big blind's option are not charted
+  if (!vs && (hero.position === 'BB' || villains.some(p => p.lastAction === 'CALL'))) return null;
+
+  const stackBb = state.localPotMath?.effectiveStackBb ?? PREFLOP_CHART_CONFIG.DEFAULT_STACK_BB;
+  const chart = findChart(chartSet, hero.position, vs, stackBb);
+  if (!chart) return null;
+
+  const raiseWeight = parseRange(chart.raise).range[hand] ?? 0;
+  const callWeight = chart.call ? parseRange(chart.call).range[hand] ?? 0 : 0;
+  const action = raiseWeight > 0 && raiseWeight >= callWeight ? 'RAISE' : callWeight > 0 ? 'CALL' : 'FOLD';
+
+  // Mixed hands accept every action they are played with, folding included
+  const accepted = new Set<SuggestedAction>(['WAITING']);
+  if (raiseWeight > 0) (['RAISE', 'ALL-IN'] as const).forEach(a => accepted.add(a));
+  if (callWeight > 0) accepted.add('CALL');
+  if (Math.max(raiseWeight, callWeight) < 1) accepted.add('FOLD');
+
+  return {
+    action,
+    frequency: action === 'FOLD' ? 1 : Math.max(raiseWeight, callWeight),
+    hand,
+    position: hero.position,
+    vs,
+    stackBb,
+    deviation: !accepted.has(state.suggestedAction),
+  };
+}
+
+// ============================================
+// VALIDATION & PERSISTENCE
+// ============================================
+const POSITIONS: readonly string[] = TABLE_CONFIG.POSITIONS;
+
+const validatePositions = (path: string, value: unknown): string[] => {
+  if (!Array.isArray(value) || value.length === 0) return [`${path}: attesa una lista di posizioni`];
+  return value
+    .filter(position => !POSITIONS.includes(position))
+    .map(position => `${path}: posizione sconosciuta ${JSON.stringify(position)}`);
+};
+
+const validateRange = (path: string, value: unknown): string[] => {
+  if (typeof value !== 'string') return [`${path}: atteso un range in notazione standard`];
+  return parseRange(value).unparsed.map(token => `${path}: notazione non valida "${token}"`);
+};
+
+/**
+ * Checks a chart set written or imported by the user.
+ *
+ * @returns The chart set, or every error found (field paths included)
+ */
+export function validateChartSet(payload: unknown): { chartSet: PreflopChartSet } | { errors: string[] } {
+  if (typeof payload !== 'object' || payload === null) return { errors: ['atteso un oggetto { name, charts }'] };
+  const { name, charts } = payload as Record<string, unknown>;
+
+  const errors: string[] = [];
+  if (typeof name !== 'string' || name.trim() === '') errors.push('name: nome obbligatorio');
+  if (!Array.isArray(charts) || charts.length === 0) {
+    errors.push('charts: attesa una lista di chart non vuota');
+    return { errors };
+  }
+
+  charts.forEach((chart: unknown, index) => {
+    const path = `charts[${index}]`;
+    if (typeof chart !== 'object' || chart === null) {
+      errors.push(`${path}: atteso un oggetto`);
+      return;
+    }
+    const { positions, vs, minStackBb, raise, call } = chart as Record<string, unknown>;
+    errors.push(...validatePositions(`${path}.positions`, positions));
+    if (vs !== undefined) errors.push(...validatePositions(`${path}.vs`, vs));
+    if (typeof minStackBb !== 'number' || !Number.isFinite(minStackBb) || minStackBb < 0) {
+      errors.push(`${path}.minStackBb: atteso un numero ≥ 0`);
+    }
+    errors.push(...validateRange(`${path}.raise`, raise));
+    if (call !== undefined) errors.push(...validateRange(`${path}.call`, call));
+  });
+
+  if (errors.length > 0) return { errors };
+  return {
+    chartSet: {
+      name: (name as string).trim(),
+      charts: (charts as PreflopChart[]).map(({ positions, vs, minStackBb, raise, call }) => ({
+        positions,
+        ...(vs !== undefined && { vs }),
+        minStackBb,
+        raise,
+        ...(call !== undefined && { call }),
+      })),
+    },
+  };
+}
+
+/**
+ * Parses chart JSON (editor, imported file).
+ */
+export function parseChartSet(content: string): { chartSet: PreflopChartSet } | { errors: string[] } {
+  try {
+    return validateChartSet(JSON.parse(content));
+  } catch (error) {
+    return { errors: [`JSON non valido: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+}
+
+/**
+ * Parses the stored charts.
+ *
+ * @returns The built-in charts if nothing valid is stored
+ */
+export function loadChartSet(content: string | null): PreflopChartSet {
+  if (!content) return DEFAULT_CHART_SET;
+  const parsed = parseChartSet(content);
+  return 'chartSet' in parsed ? parsed.chartSet : DEFAULT_CHART_SET;
+}
+
+// Indented: the same text is shown in the editor and exported
+export function serializeChartSet(chartSet: PreflopChartSet): string {
+  return JSON.stringify(chartSet, null, 2);
+}
@@ -0,0 +1,165 @@
+/**
+ * Range Equity
+ *
+ * Heads-up equity of Hero's hand (or range) against a weighted villain range:
+ * - Dead cards (board, Hero's hand) remove the villain combos they block
+ * - Small workloads enumerate every runout; larger ones (preflop, wide ranges
+ *   on the flop) sample the same number of runouts for every villain combo
+ * - Results are broken down per villain hand class: how much of it Hero beats,
+ *   chops with or loses to
+ *
+ * Heavy enough to freeze the HUD preflop: the app runs it in rangeEquity.worker.ts.
+ */
+
+import { RANGE_EQUITY_CONFIG } from '../constants.ts';
+import { Card, HandClass, HandRange, RangeEquityClass, RangeEquityRequest, RangeEquityResult } from '../types.ts';
+import { cardToIndex, parseCard } from './cardUtils.ts';
+import { createRandom } from './equityCalculator.ts';
+import { handClassOf, rangeToCombos } from './handRange.ts';
+import { evaluateCards } from './handEvaluator.ts';
+
+interface WeightedCombo {
+  cards: number[];
+  weight: number;
+  hand: HandClass;
+}
+
+class ClassTally {
+  win = 0;
+  tie = 0;
+  lose = 0;
+
+  record(outcome: number, weight: number) {
+    if (outcome > 0) this.win += weight;
+    else if (outcome < 0) this.lose += weight;
+    else this.tie += weight;
+  }
+
+  get total() {
+    return this.win + this.tie + this.lose;
+  }
+}
+
+const toCombos = (range: HandRange, dead: Card[]): WeightedCombo[] => rangeToCombos(range, dead)
+  .filter(combo => combo.weight > 0)
+  .map(({ cards, weight }) => ({ cards: cards.map(cardToIndex), weight, hand: handClassOf(cards)! }));
+
+// Every k-card subset of the deck (k ≤ 2 once the flop is out)
+const enumerateRunouts = (deck: number[], count: number): number[][] => {
+  if (count === 0) return [[]];
+  return deck.flatMap((card, i) => enumerateRunouts(deck.slice(i + 1), count - 1).map(rest => [card, ...rest]));
+};
+
+// C(cards, missing): boards left once both hands are dealt
+const countRunouts = (cards: number, missing: number): number => {
+  let count = 1;
+  for (let i = 0; i < missing; i++) count = (count * (cards - i)) / (i + 1);
+  return count;
+};
+
+const pct = (value: number, total: number) => total > 0 ? (value / total) * 100 : 0;
+
+/**
+ * Calculates Hero's equity against a weighted range, with a per-class breakdown.
+ *
+ * @returns null if the cards are invalid, Hero has no hand or range, or every villain combo is blocked
+ *
+ * @example
+ * ```ts
+ * const result = calculateRangeEquity({ heroCards: ['Ah', 'Kh'], villainRange: { QQ: 1, AKo: 0.5 }, board: ['Qs', '7h', '2h'] });
+ * result?.classes; // [{ hand: 'QQ', combos: 3, win: ..., tie: ..., lose: ... }, { hand: 'AKo', combos: 3, ... }]
+ * ```
+ */
+export function calculateRangeEquity(request: RangeEquityRequest, seed: number = RANGE_EQUITY_CONFIG.SEED): RangeEquityResult | null {
+  const { heroCards = [], heroRange, villainRange, board } = request;
+  const known = [...heroCards, ...board];
+  if (known.some(card => parseCard(card) !== card) || new Set(known).size !== known.length) return null;
+  if (board.length > 5 || board.length === 1 || board.length === 2) return null;
+
+  const heroCombos = heroCards.length === 2
+    ? [{ cards: heroCards.map(cardToIndex), weight: 1, hand: handClassOf(heroCards)! }]
+    : heroCards.length === 0 && heroRange ? toCombos(heroRange, board) : [];
+  const villainCombos = toCombos(villainRange, known);
+  if (heroCombos.length === 0 || villainCombos.length === 0) return null;
+
+  const boardCards = board.map(cardToIndex);
+  const missing = 5 - board.length;
+  const runoutCount = countRunouts(52 - board.length - 4, missing);
+  const exact = heroCombos.length * villainCombos.length * runoutCount <= RANGE_EQUITY_CONFIG.EXACT_ENUMERATION_LIMIT;
+  const samplesPerCombo = Math.max(1, Math.ceil(RANGE_EQUITY_CONFIG.SAMPLE_BUDGET / villainCombos.length));
+  const random = createRandom(seed);
+
+  const tallies = new Map<HandClass, ClassTally>();
+  const villainWeights = new Map<HandClass, number>();
+  let samples = 0;
+
+  const showdown = (hero: number[], villain: number[], runout: number[]) => {
+    samples++;
+    const fullBoard = [...boardCards, ...runout];
+    return evaluateCards([...hero, ...fullBoard]) - evaluateCards([...villain, ...fullBoard]);
+  };
+
+  for (const villain of villainCombos) {
+    const heroOptions = heroCombos.filter(h => !h.cards.includes(villain.cards[0]) && !h.cards.includes(villain.cards[1]));
+    if (heroOptions.length === 0) continue;
+
+    const tally = tallies.get(villain.hand) ?? new ClassTally();
+    tallies.set(villain.hand, tally);
+    villainWeights.set(villain.hand, (villainWeights.get(villain.hand) ?? 0) + villain.weight);
+
+    const deadCards = new Set([...boardCards, ...villain.cards]);
+    if (exact) {
+      for (const hero of heroOptions) {
+        const deck = Array.from({ length: 52 }, (_, card) => card).filter(card => !deadCards.has(card) && !hero.cards.includes(card));
+        const runouts = enumerateRunouts(deck, missing);
+        const weight = (villain.weight * hero.weight) / runouts.length;
+        for (const runout of runouts) tally.record(showdown(hero.cards, villain.cards, runout), weight);
+      }
+      continue;
+    }
+
+    // Hero's combo is drawn by weight, so each villain combo keeps its share of the range
+    const heroWeight = heroOptions.reduce((sum, h) => sum + h.weight, 0);
+    const weight = (villain.weight * heroWeight) / samplesPerCombo;
+    for (let i = 0; i < samplesPerCombo; i++) {
+      let pick = random() * heroWeight;
+      const hero = heroOptions.find(h => (pick -= h.weight) < 0) ?? heroOptions[heroOptions.length - 1];
+      const deck = Array.from({ length: 52 }, (_, card) => card).filter(card => !deadCards.has(card) && !hero.cards.includes(card));
+      const runout: number[] = [];
+      for (let j = 0; j < missing; j++) {
+        const idx = Math.floor(random() * deck.length);
+        runout.push(deck[idx]);
+        deck[idx] = deck[deck.length - 1];
+        deck.pop();
+      }
+      tally.record(showdown(hero.cards, villain.cards, runout), weight);
+    }
+  }
+
+  if (tallies.size === 0) return null;
+
+  const totals = new ClassTally();
+  const classes: RangeEquityClass[] = [...tallies].map(([hand, tally]) => {
+    totals.win += tally.win;
+    totals.tie += tally.tie;
+    totals.lose += tally.lose;
+    return {
+      hand,
+      combos: villainWeights.get(hand)!,
+      win: pct(tally.win, tally.total),
+      tie: pct(tally.tie, tally.total),
+      lose: pct(tally.lose, tally.total),
+    };
+  });
+
+  return {
+    equity: pct(totals.win + totals.tie / 2, totals.total),
+    win: pct(totals.win, totals.total),
+    tie: pct(totals.tie, totals.total),
+    lose: pct(totals.lose, totals.total),
+    combos: [...villainWeights.values()].reduce((sum, weight) => sum + weight, 0),
+    samples,
+    method: exact ? 'exact' : 'monte-carlo',
+    classes: classes.sort((a, b) => b.combos - a.combos),
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * Range Equity Worker
+ *
+ * Runs calculateRangeEquity off the UI thread (see hooks/useRangeEquity.ts).
+ */
+
+import { RangeEquityJob, RangeEquityJobResult } from '../types.ts';
+import { calculateRangeEquity } from './rangeEquity.ts';
+
+self.onmessage = (event: MessageEvent<RangeEquityJob>) => {
+  const { id, request } = event.data;
+  const message: RangeEquityJobResult = { id, result: calculateRangeEquity(request) };
+  self.postMessage(message);
+};
@@ -0,0 +1,204 @@
+/**
+ * Region Profiles
+ *
+ * Named table layouts drawn by the user on the video (hero cards, board,
+ * pot, seats, action buttons), used to route clicks and focused prompts:
+ * - Hit-testing a click against the regions of the active profile
+ * - Mapping element clicks to frame coordinates (letterboxed video)
+ * - Parsing/serialising the profiles kept in localStorage
+ *
+ * Without a calibrated profile the built-in default layout (hero cards at
+ * the bottom, board in the middle band) is used.
+ */
+
+import { PROMPTS, REGION_KIND_LABELS, REGION_PROFILES_CONFIG } from '../constants.ts';
+import { RegionKind, RegionProfile, RegionRect, TableRegion } from '../types.ts';
+
+const REGION_KINDS = Object.keys(REGION_KIND_LABELS) as RegionKind[];
+
+export const DEFAULT_REGION_PROFILE: RegionProfile = {
+  name: REGION_PROFILES_CONFIG.DEFAULT_PROFILE_NAME,
+  updatedAt: 0,
+  regions: [
+    {
+      id: 'default-hero',
+      kind: 'HERO_CARDS',
+      rect: { x: 0, y: REGION_PROFILES_CONFIG.DEFAULT_HERO_CARDS_Y, width: 1, height: 1 - REGION_PROFILES_CONFIG.DEFAULT_HERO_CARDS_Y },
+    },
+    {
+      id: 'default-board',
+      kind: 'BOARD',
+      rect: {
+        x: 0,
+        y: REGION_PROFILES_CONFIG.DEFAULT_BOARD_Y,
+        width: 1,
+        height: REGION_PROFILES_CONFIG.DEFAULT_HERO_CARDS_Y - REGION_PROFILES_CONFIG.DEFAULT_BOARD_Y,
+      },
+    },
+  ],
+};
+
+// ============================================
+// GEOMETRY
+// ============================================
+
+/**
+ * Builds a normalised rectangle from two corners, clamped to the frame.
+ */
+export function rectFromPoints(x1: number, y1: number, x2: number, y2: number): RegionRect {
+  const clamp = (v: number) => Math.min(1, Math.max(0, v));
+  const [left, right] = [clamp(Math.min(x1, x2)), clamp(Math.max(x1, x2))];
+  const [top, bottom] = [clamp(Math.min(y1, y2)), clamp(Math.max(y1, y2))];
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+export interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Returns where the frame is drawn inside an element for media shown with
+ * `object-contain` (centred, letterboxed).
+ *
+ * @param mediaWidth - Intrinsic width (videoWidth); 0 when unknown → whole element
+ */
+export function getContentBox(element: Box, mediaWidth: number, mediaHeight: number): Box {
+  if (mediaWidth <= 0 || mediaHeight <= 0) return element;
+
+  const scale = Math.min(element.width / mediaWidth, element.height / mediaHeight);
+  const width = mediaWidth * scale;
+  const height = mediaHeight * scale;
+  return {
+    left: element.left + (element.width - width) / 2,
+    top: element.top + (element.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+/**
+ * Maps a pointer position to frame coordinates (0-1), skipping the letterbox bars.
+ *
+ * @returns Frame coordinates, or null if the point falls on a letterbox bar
+ */
+export function toFrameCoords(
+  clientX: number,
+  clientY: number,
+  element: Box,
+  mediaWidth: number,
+  mediaHeight: number
+): { x: number; y: number } | null {
+  const content = getContentBox(element, mediaWidth, mediaHeight);
+  const x = (clientX - content.left) / content.width;
+  const y = (clientY - content.top) / content.height;
+  return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : null;
+}
+
+/**
+ * Returns the region under a point. Nested regions win over the ones containing them.
+ *
+ * @example
+ * ```ts
+ * findRegionAt(DEFAULT_REGION_PROFILE.regions, 0.5, 0.8)?.kind; // 'HERO_CARDS'
+ * ```
+ */
+export function findRegionAt(regions: TableRegion[], x: number, y: number): TableRegion | null {
+  let best: TableRegion | null = null;
+  for (const region of regions) {
+    const { rect } = region;
+    const inside = x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+    if (inside && (!best || rect.width * rect.height < best.rect.width * best.rect.height)) {
+      best = region;
+    }
+  }
+  return best;
+}
+
+// ============================================
+// LABELS & PROMPTS
+// ============================================
+
+export function regionLabel(region: Pick<TableRegion, 'kind' | 'seat'>): string {
+  const label = REGION_KIND_LABELS[region.kind];
+  return region.kind === 'SEAT' && region.seat !== undefined ? `${label} ${region.seat}` : label;
+}
+
+const FOCUS_PROMPTS: Record<RegionKind, string> = {
+  HERO_CARDS: PROMPTS.FOCUS_HERO,
+  BOARD: PROMPTS.FOCUS_BOARD,
+  POT: PROMPTS.FOCUS_POT,
+  SEAT: PROMPTS.FOCUS_SEAT,
+  ACTIONS: PROMPTS.FOCUS_ACTIONS,
+};
+
+const percent = (value: number) => Math.round(value * 100);
+
+/**
+ * Builds the focused prompt for a clicked region, with its position on the
+ * frame so the model looks at the right area of this client's layout.
+ *
+ * @param region - Clicked region, or null outside every region
+ */
+export function buildRegionPrompt(region: TableRegion | null): string {
+  if (!region) return PROMPTS.FOCUS_GENERAL;
+
+  const { x, y, width, height } = region.rect;
+  const seat = region.kind === 'SEAT' && region.seat !== undefined ? ` Posto ${region.seat}.` : '';
+  const area = `Area ${regionLabel(region)}: x ${percent(x)}-${percent(x + width)}%, y ${percent(y)}-${percent(y + height)}% dello schermo.`;
+  return `${FOCUS_PROMPTS[region.kind]}${seat} ${area}`;
+}
+
+// ============================================
+// PERSISTENCE FORMAT
+// ============================================
+
+const isRect = (value: unknown): value is RegionRect => {
+  if (typeof value !== 'object' || value === null) return false;
+  const rect = value as Record<string, unknown>;
+  return ['x', 'y', 'width', 'height'].every(key => typeof rect[key] === 'number' && (rect[key] as number) >= 0 && (rect[key] as number) <= 1);
+};
+
+const isRegion = (value: unknown): value is TableRegion => {
+  if (typeof value !== 'object' || value === null) return false;
+  const region = value as Record<string, unknown>;
+  return typeof region.id === 'string'
+    && REGION_KINDS.includes(region.kind as RegionKind)
+    && (region.seat === undefined || typeof region.seat === 'number')
+    && isRect(region.rect);
+};
+
+/**
+ * Parses stored profiles, dropping malformed entries instead of failing.
+ *
+ * @param content - JSON as written by `serializeRegionProfiles`, or null if nothing is stored
+ */
+export function parseRegionProfiles(content: string | null): RegionProfile[] {
+  if (!content) return [];
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(content);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(payload)) return [];
+
+  return payload
+    .filter((profile): profile is RegionProfile =>
+      typeof profile === 'object' && profile !== null
+      && typeof profile.name === 'string' && profile.name.trim() !== ''
+      && Array.isArray(profile.regions)
+    )
+    .map(profile => ({
+      name: profile.name,
+      updatedAt: typeof profile.updatedAt === 'number' ? profile.updatedAt : 0,
+      regions: profile.regions.filter(isRegion),
+    }));
+}
+
+export function serializeRegionProfiles(profiles: RegionProfile[]): string {
+  return JSON.stringify(profiles);
+}
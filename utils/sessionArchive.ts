@@ -0,0 +1,157 @@
+/**
+ * Session Archive
+ *
+ * Serialises a recorded live session (outbound frames and prompts, inbound
+ * `LiveServerMessage`s, HUD state snapshots) to a JSON file and plays it
+ * back with the original timing, optionally accelerated.
+ *
+ * @example
+ * const archive = parseSessionArchive(await file.text());
+ * const stop = playSessionArchive(archive, 4, event => dispatch(event), () => done());
+ */
+
+import { SESSION_RECORDING_CONFIG } from '../constants.ts';
+import { SessionArchive, SessionArchiveError, SessionEvent } from '../types.ts';
+
+const EVENT_TYPES: ReadonlyArray<SessionEvent['type']> = ['frame', 'prompt', 'server', 'state'];
+
+// ============================================
+// SERIALISATION
+// ============================================
+
+/**
+ * Builds the JSON file contents for a recorded session.
+ */
+export function serializeSessionArchive(startedAt: number, events: SessionEvent[]): string {
+  const archive: SessionArchive = {
+    format: SESSION_RECORDING_CONFIG.FORMAT,
+    version: SESSION_RECORDING_CONFIG.VERSION,
+    startedAt,
+    events,
+  };
+  return JSON.stringify(archive);
+}
+
+/**
+ * Drops the oldest events, in place, once a recording is over its limits:
+ * frames beyond MAX_FRAME_BYTES of base64 data, then the oldest frame (or
+ * event, without frames) beyond MAX_EVENTS.
+ *
+ * @param frameBytes - Base64 length of the frames in `events`
+ * @param limits - Override of the configured limits
+ * @returns Base64 length of the frames left
+ */
+export function trimSessionEvents(
+  events: SessionEvent[],
+  frameBytes: number,
+  limits: { maxEvents: number; maxFrameBytes: number } = {
+    maxEvents: SESSION_RECORDING_CONFIG.MAX_EVENTS,
+    maxFrameBytes: SESSION_RECORDING_CONFIG.MAX_FRAME_BYTES,
+  }
+): number {
+  let bytes = frameBytes;
+  const dropOldest = () => {
+    const oldestFrame = events.findIndex(e => e.type === 'frame');
+    const [dropped] = events.splice(oldestFrame === -1 ? 0 : oldestFrame, 1);
+    if (dropped.type === 'frame') bytes -= dropped.data.length;
+  };
+
+  while (bytes > limits.maxFrameBytes && events.some(e => e.type === 'frame')) dropOldest();
+  while (events.length > limits.maxEvents) dropOldest();
+  return bytes;
+}
+
+/**
+ * Parses and validates a session archive file.
+ *
+ * @throws SessionArchiveError if the file is not a supported archive
+ */
+export function parseSessionArchive(content: string): SessionArchive {
+  let payload: Partial<SessionArchive>;
+  try {
+    payload = JSON.parse(content);
+  } catch {
+    throw new SessionArchiveError('File JSON non valido');
+  }
+
+  if (payload.format !== SESSION_RECORDING_CONFIG.FORMAT) {
+    throw new SessionArchiveError('Il file non è una registrazione di sessione');
+  }
+  if (typeof payload.version !== 'number' || payload.version > SESSION_RECORDING_CONFIG.VERSION) {
+    throw new SessionArchiveError(`Versione registrazione non supportata: ${String(payload.version)}`);
+  }
+  if (!Array.isArray(payload.events)) {
+    throw new SessionArchiveError('La registrazione non contiene eventi');
+  }
+
+  const events = payload.events
+    .filter((event): event is SessionEvent =>
+      typeof event === 'object' && event !== null
+      && typeof event.t === 'number' && EVENT_TYPES.includes(event.type)
+    )
+    .sort((a, b) => a.t - b.t);
+
+  if (events.length === 0) {
+    throw new SessionArchiveError('La registrazione non contiene eventi');
+  }
+
+  return {
+    format: payload.format,
+    version: payload.version,
+    startedAt: typeof payload.startedAt === 'number' ? payload.startedAt : 0,
+    events,
+  };
+}
+
+// ============================================
+// PLAYBACK
+// ============================================
+
+/**
+ * Replays archive events with their recorded spacing divided by `speed`.
+ *
+ * @param archive - Parsed archive (events sorted by `t`)
+ * @param speed - Playback rate (1 = real time)
+ * @param onEvent - Called for every event, with the playback progress (0-1)
+ * @param onEnd - Called once after the last event
+ * @returns Function that stops playback (onEnd is not called)
+ */
+export function playSessionArchive(
+  archive: SessionArchive,
+  speed: number,
+  onEvent: (event: SessionEvent, progress: number) => void,
+  onEnd: () => void
+): () => void {
+  const { events } = archive;
+  const origin = events[0]?.t ?? 0;
+  const startTime = Date.now();
+  let index = 0;
+  let timeoutId: number | null = null;
+
+  const tick = () => {
+    const elapsed = (Date.now() - startTime) * speed;
+
+    // Dispatch everything that is due (timers drift; never fall behind)
+    while (index < events.length && events[index].t - origin <= elapsed) {
+      onEvent(events[index], (index + 1) / events.length);
+      index++;
+    }
+
+    if (index >= events.length) {
+      timeoutId = null;
+      onEnd();
+      return;
+    }
+    const delay = (events[index].t - origin - elapsed) / speed;
+    timeoutId = window.setTimeout(tick, Math.max(0, delay));
+  };
+
+  timeoutId = window.setTimeout(tick, 0);
+
+  return () => {
+    if (timeoutId !== null) {
+      clearTimeout(timeoutId);
+      timeoutId = null;
+    }
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Session Context
+ *
+ * Builds the text sent to a new live session after a reconnect, so the
+ * model picks up from the last HUD state instead of starting over.
+ *
+ * @example
+ * sendSafeInput({ text: buildResumeContext(tableStatesRef.current, transcriptsRef.current, wasResumed) });
+ */
+
+import { PROMPTS, RETRY_CONFIG } from '../constants.ts';
+import { PokerGameState, Transcript } from '../types.ts';
+
+const describeState = (state: PokerGameState, table: string): string[] => {
+  const lines: string[] = [];
+  const details = [
+    `carte Hero ${state.holeCards.join(' ') || '?'}`,
+    `board ${state.communityCards.join(' ') || 'vuoto'}`,
+    state.potSize !== undefined ? `pot ${state.potSize}` : null,
+    state.amountToCall !== undefined ? `da chiamare ${state.amountToCall}` : null,
+    state.heroStack !== undefined ? `stack ${state.heroStack}` : null,
+    `azione suggerita ${state.suggestedAction}`,
+    `win ${state.winProbability}%`,
+  ].filter(Boolean).join(', ');
+  lines.push(`Ultimo stato HUD${table}: ${details}.`);
+  if (state.players && state.players.length > 0) {
+    const seats = state.players
+      .map(p => `${p.seat}${p.seat === state.heroSeat ? ' (Hero)' : ''}${p.inHand ? '' : ' fuori'}`)
+      .join(', ');
+    lines.push(`Tavolo: bottone al posto ${state.dealerSeat ?? '?'}, posti ${seats}.`);
+  }
+  if (state.reasoning) lines.push(`Motivazione: ${state.reasoning}`);
+  return lines;
+};
+
+/**
+ * Describes the last game state of each table (and, for fresh sessions, the recent conversation).
+ *
+ * @param states - Last HUD state by table id; tables are named only when there are several
+ * @param transcripts - Conversation so far
+ * @param wasResumed - True if the server restored the previous session: it still has the conversation
+ */
+export function buildResumeContext(states: Record<string, PokerGameState>, transcripts: Transcript[], wasResumed: boolean): string {
+  const lines: string[] = [PROMPTS.RESUME_SESSION];
+
+  const entries = Object.entries(states);
+  if (entries.length > 0) {
+    entries.forEach(([tableId, state]) => lines.push(...describeState(state, entries.length > 1 ? ` tavolo ${tableId}` : '')));
+  } else {
+    lines.push('Nessuno stato HUD ancora disponibile.');
+  }
+
+  if (!wasResumed) {
+    const recent = transcripts.filter(t => t.source !== 'system').slice(-RETRY_CONFIG.RESUME_TRANSCRIPT_COUNT);
+    if (recent.length > 0) {
+      lines.push('Ultimi messaggi:');
+      recent.forEach(t => lines.push(`${t.source === 'ai' ? 'Assistente' : 'Utente'}: ${t.text.trim()}`));
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,180 @@
+/**
+ * Table Layout
+ *
+ * Tables played at the same time, each a whole capture (one shared window
+ * per table) or an area of one (tiled clients on a single screen):
+ * - Mapping table-relative rectangles and points to capture coordinates
+ * - Routing tool calls and clicks to their table
+ * - Parsing/serialising the layout kept in localStorage
+ *
+ * Calibrated regions are relative to the table area, so one region profile
+ * serves every table of the same poker client. With the default layout (one
+ * table on the whole main capture) table and frame coordinates coincide.
+ */
+
+import { MULTI_TABLE_CONFIG, TABLE_AREA_PRESETS } from '../constants.ts';
+import { RegionRect, TableDefinition, TableRegion } from '../types.ts';
+
+export type TableAreaPreset = keyof typeof TABLE_AREA_PRESETS;
+
+export const DEFAULT_TABLE: TableDefinition = {
+  id: 'T1',
+  name: 'Tavolo 1',
+  captureIndex: 0,
+  rect: TABLE_AREA_PRESETS.FULL.rect,
+};
+
+// ============================================
+// GEOMETRY
+// ============================================
+
+export function isFullRect(rect: RegionRect): boolean {
+  return rect.x === 0 && rect.y === 0 && rect.width === 1 && rect.height === 1;
+}
+
+/**
+ * Maps a rectangle relative to a table area to capture coordinates.
+ *
+ * @example
+ * ```ts
+ * toCaptureRect(TABLE_AREA_PRESETS.RIGHT.rect, { x: 0.4, y: 0.7, width: 0.2, height: 0.2 });
+ * // { x: 0.7, y: 0.7, width: 0.1, height: 0.2 }
+ * ```
+ */
+export function toCaptureRect(area: RegionRect, rect: RegionRect): RegionRect {
+  return {
+    x: area.x + rect.x * area.width,
+    y: area.y + rect.y * area.height,
+    width: rect.width * area.width,
+    height: rect.height * area.height,
+  };
+}
+
+/**
+ * Finds the table under a point of a capture.
+ *
+ * @returns The table and the point relative to its area, or null outside every table
+ */
+export function findTableAt(
+  tables: TableDefinition[],
+  captureIndex: number,
+  x: number,
+  y: number
+): { table: TableDefinition; x: number; y: number } | null {
+  for (const table of tables) {
+    const { rect } = table;
+    if (table.captureIndex !== captureIndex) continue;
+    if (x < rect.x || x > rect.x + rect.width || y < rect.y || y > rect.y + rect.height) continue;
+    return { table, x: (x - rect.x) / rect.width, y: (y - rect.y) / rect.height };
+  }
+  return null;
+}
+
+/**
+ * Places the table-relative regions on every table of a capture (video overlay, hit-testing).
+ */
+export function mapRegionsToCapture(tables: TableDefinition[], regions: TableRegion[], captureIndex: number): TableRegion[] {
+  const onCapture = tables.filter(t => t.captureIndex === captureIndex);
+  if (onCapture.length === 1 && isFullRect(onCapture[0].rect)) return regions;
+  return onCapture.flatMap(table => regions.map(region => ({
+    ...region,
+    id: `${table.id}-${region.id}`,
+    rect: toCaptureRect(table.rect, region.rect),
+  })));
+}
+
+export function findAreaPreset(rect: RegionRect): TableAreaPreset | null {
+  const presets = Object.keys(TABLE_AREA_PRESETS) as TableAreaPreset[];
+  return presets.find(key => {
+    const preset = TABLE_AREA_PRESETS[key].rect;
+    return preset.x === rect.x && preset.y === rect.y && preset.width === rect.width && preset.height === rect.height;
+  }) ?? null;
+}
+
+// ============================================
+// TABLES
+// ============================================
+
+/**
+ * Creates the next table (lowest free label), on the main capture's first free area.
+ *
+ * @returns The new table, or null at MAX_TABLES
+ */
+export function createTable(tables: TableDefinition[]): TableDefinition | null {
+  if (tables.length >= MULTI_TABLE_CONFIG.MAX_TABLES) return null;
+
+  let number = 1;
+  while (tables.some(t => t.id === `T${number}`)) number++;
+
+  const used = tables.filter(t => t.captureIndex === 0).map(t => findAreaPreset(t.rect));
+  const area = (['LEFT', 'RIGHT', 'TOP_LEFT', 'TOP_RIGHT', 'BOTTOM_LEFT', 'BOTTOM_RIGHT'] as const)
+    .find(key => !used.includes(key)) ?? 'FULL';
+
+  return { id: `T${number}`, name: `Tavolo ${number}`, captureIndex: 0, rect: TABLE_AREA_PRESETS[area].rect };
+}
+
+/**
+ * Picks the table a tool call refers to. The label may be omitted with a single table.
+ *
+ * @returns The table, or the errors sent back to the model
+ */
+export function resolveTable(
+  tables: TableDefinition[],
+  tableId: string | undefined
+): { table: TableDefinition } | { errors: string[] } {
+  if (tableId === undefined) {
+    return tables.length === 1
+      ? { table: tables[0] }
+      : { errors: [`tableId: obbligatorio con più tavoli (${tables.map(t => t.id).join(', ')})`] };
+  }
+  const table = tables.find(t => t.id === tableId);
+  return table ? { table } : { errors: [`tableId: tavolo "${tableId}" inesistente (${tables.map(t => t.id).join(', ')})`] };
+}
+
+/**
+ * Prefixes a prompt with its table when several tables are played.
+ */
+export function buildTablePrompt(tables: TableDefinition[], table: TableDefinition, prompt: string): string {
+  if (tables.length < 2) return prompt;
+  return `Tavolo ${table.id} (${table.name}), coordinate relative al tavolo: ${prompt}`;
+}
+
+// ============================================
+// PERSISTENCE FORMAT
+// ============================================
+
+const isTable = (value: unknown): value is TableDefinition => {
+  if (typeof value !== 'object' || value === null) return false;
+  const table = value as Record<string, unknown>;
+  const rect = table.rect as Record<string, unknown> | null;
+  return typeof table.id === 'string' && /^T\d+$/.test(table.id)
+    && typeof table.name === 'string'
+    && Number.isInteger(table.captureIndex) && (table.captureIndex as number) >= 0
+    && typeof rect === 'object' && rect !== null
+    && ['x', 'y', 'width', 'height'].every(key => typeof rect[key] === 'number' && (rect[key] as number) >= 0 && (rect[key] as number) <= 1)
+    && (rect.width as number) > 0 && (rect.height as number) > 0;
+};
+
+/**
+ * Parses the stored layout, dropping malformed or duplicate tables.
+ *
+ * @returns At least one table (the default one if nothing valid is stored)
+ */
+export function parseTableLayout(content: string | null): TableDefinition[] {
+  let payload: unknown = null;
+  try {
+    payload = content ? JSON.parse(content) : null;
+  } catch {
+    payload = null;
+  }
+
+  const tables = (Array.isArray(payload) ? payload : [])
+    .filter(isTable)
+    .filter((table, index, all) => all.findIndex(t => t.id === table.id) === index)
+    .slice(0, MULTI_TABLE_CONFIG.MAX_TABLES);
+  return tables.length > 0 ? tables : [DEFAULT_TABLE];
+}
+
+export function serializeTableLayout(tables: TableDefinition[]): string {
+  return JSON.stringify(tables);
+}
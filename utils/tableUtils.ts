@@ -0,0 +1,114 @@
+/**
+ * Table Utilities
+ *
+ * Per-seat table model reported by the live model (`players`, `heroSeat`,
+ * `dealerSeat`, `tableSize`):
+ * - Cross-checks seats, positions, hero and button against each other
+ * - Fills the positions the model left out, counting from the button
+ */
+
+import { TABLE_CONFIG } from '../constants.ts';
+import { TablePlayer, TablePosition } from '../types.ts';
+
+export interface TableInput {
+  tableSize?: number;
+  heroSeat?: number;
+  dealerSeat?: number;
+  players?: TablePlayer[];
+}
+
+/**
+ * Checks that the seat data is consistent.
+ * Fields that are omitted are not checked.
+ *
+ * @returns Human-readable errors (empty if valid)
+ */
+export function validateTable({ tableSize, heroSeat, dealerSeat, players }: TableInput): string[] {
+  const errors: string[] = [];
+  const maxSeat = tableSize ?? TABLE_CONFIG.MAX_SEATS;
+
+  if (heroSeat !== undefined && heroSeat > maxSeat) {
+    errors.push(`heroSeat: posto ${heroSeat} oltre i ${maxSeat} posti del tavolo`);
+  }
+  if (dealerSeat !== undefined && dealerSeat > maxSeat) {
+    errors.push(`dealerSeat: posto ${dealerSeat} oltre i ${maxSeat} posti del tavolo`);
+  }
+  if (!players || players.length === 0) return errors;
+
+  const seats = new Set<number>();
+  const positions = new Map<TablePosition, number>();
+  for (const player of players) {
+    if (player.seat > maxSeat) {
+      errors.push(`players: posto ${player.seat} oltre i ${maxSeat} posti del tavolo`);
+    }
+    if (seats.has(player.seat)) {
+      errors.push(`players: posto ${player.seat} ripetuto`);
+    }
+    seats.add(player.seat);
+
+    if (player.position) {
+      const other = positions.get(player.position);
+      if (other !== undefined) {
+        errors.push(`players: posizione ${player.position} assegnata ai posti ${other} e ${player.seat}`);
+      }
+      positions.set(player.position, player.seat);
+    }
+  }
+
+  if (heroSeat !== undefined && !seats.has(heroSeat)) {
+    errors.push(`heroSeat: nessun giocatore al posto ${heroSeat}`);
+  }
+  if (dealerSeat !== undefined && !seats.has(dealerSeat)) {
+    errors.push(`dealerSeat: nessun giocatore al posto ${dealerSeat}`);
+  }
+  const button = positions.get('BTN');
+  if (button !== undefined && dealerSeat !== undefined && button !== dealerSeat) {
+    errors.push(`players: BTN al posto ${button} ma dealerSeat è ${dealerSeat}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Returns the positions of the occupied seats, clockwise from the button.
+ * Heads-up the button posts the small blind and is labelled BTN.
+ *
+ * @param seats - Occupied seat numbers, any order
+ * @param dealerSeat - Seat with the button (must be among `seats`)
+ *
+ * @example
+ * ```ts
+ * seatPositions([1, 2, 3, 4, 5, 6], 4);
+ * // Map { 4 → BTN, 5 → SB, 6 → BB, 1 → UTG, 2 → HJ, 3 → CO }
+ * ```
+ */
+export function seatPositions(seats: number[], dealerSeat: number): Map<number, TablePosition> {
+  const ordered = [...seats].sort((a, b) => a - b);
+  const start = ordered.indexOf(dealerSeat);
+  const result = new Map<number, TablePosition>();
+  if (start === -1) return result;
+
+  const clockwise = [...ordered.slice(start), ...ordered.slice(0, start)];
+  const labels: TablePosition[] = clockwise.length === 2 ? ['BTN', 'BB'] : ['BTN', 'SB', 'BB'];
+  const remaining = clockwise.length - labels.length;
+  if (remaining > 0) {
+    // 10-handed there is one seat more than named positions: it stays unlabelled
+    const late = TABLE_CONFIG.LATE_POSITIONS;
+    labels.push('UTG', ...late.slice(Math.max(0, late.length - (remaining - 1))));
+  }
+
+  clockwise.forEach((seat, i) => {
+    if (labels[i]) result.set(seat, labels[i]);
+  });
+  return result;
+}
+
+/**
+ * Fills missing `position` fields from the button; positions the model gave are kept.
+ */
+export function withDerivedPositions(players: TablePlayer[], dealerSeat: number | undefined): TablePlayer[] {
+  if (dealerSeat === undefined || players.every(p => p.position)) return players;
+
+  const derived = seatPositions(players.map(p => p.seat), dealerSeat);
+  return players.map(player => player.position ? player : { ...player, position: derived.get(player.seat) });
+}
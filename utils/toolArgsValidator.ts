@@ -0,0 +1,189 @@
+/**
+ * Tool Argument Validation
+ *
+ * Checks function call arguments against the schema of their declaration
+ * (`pokerToolDeclaration` and the local tools) before they are used:
+ * - Types, enums, numeric ranges, array lengths and string patterns, nested objects included
+ * - Card notation of every card field
+ * - Fields the schema does not declare
+ *
+ * `required` is enforced everywhere except the top level of `updatePokerState`:
+ * its partial updates are merged with the previous state, and the merged card
+ * sets are cross-checked by `validateCardSet`.
+ *
+ * @example
+ * const { args, errors } = validatePokerToolArgs(fc.args);
+ * if (errors.length > 0) sendToolResult(fc, { success: false, errors });
+ */
+
+import { FunctionDeclaration, Schema, Type } from '@google/genai';
+import { pokerToolDeclaration } from '../constants.ts';
+import { PokerToolArgs, ToolArgsValidation } from '../types.ts';
+import { parseCard } from './cardUtils.ts';
+
+const CARD_FIELDS: ReadonlySet<string> = new Set(['holeCards', 'communityCards', 'opponentEstimatedCards']);
+
+const formatValue = (value: unknown): string =>
+  typeof value === 'number' ? String(value) : JSON.stringify(value) ?? String(value);
+
+/**
+ * Checks one value against its schema.
+ *
+ * @param path - Field path used in the messages, e.g. "holeCards[1]"
+ * @returns Human-readable errors (empty if valid)
+ */
+function validateValue(path: string, value: unknown, schema: Schema): string[] {
+  if (value === null) {
+    return schema.nullable ? [] : [`${path}: valore null non ammesso`];
+  }
+
+  switch (schema.type) {
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [`${path}: atteso un numero, ricevuto ${formatValue(value)}`];
+      }
+      const errors: string[] = [];
+      if (schema.type === Type.INTEGER && !Number.isInteger(value)) {
+        errors.push(`${path}: atteso un intero, ricevuto ${value}`);
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path}: ${value} sotto il minimo ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path}: ${value} sopra il massimo ${schema.maximum}`);
+      }
+      return errors;
+    }
+
+    case Type.STRING: {
+      if (typeof value !== 'string') {
+        return [`${path}: attesa una stringa, ricevuto ${formatValue(value)}`];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path}: "${value}" non ammesso (valori: ${schema.enum.join(', ')})`];
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        return [`${path}: "${value}" non rispetta il formato ${schema.pattern}`];
+      }
+      return [];
+    }
+
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [`${path}: atteso un booleano, ricevuto ${formatValue(value)}`];
+
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) {
+        return [`${path}: atteso un array, ricevuto ${formatValue(value)}`];
+      }
+      const errors: string[] = [];
+      // The SDK declares item counts as strings
+      if (schema.minItems !== undefined && value.length < Number(schema.minItems)) {
+        errors.push(`${path}: ${value.length} elementi, minimo ${schema.minItems}`);
+      }
+      if (schema.maxItems !== undefined && value.length > Number(schema.maxItems)) {
+        errors.push(`${path}: ${value.length} elementi, massimo ${schema.maxItems}`);
+      }
+      if (schema.items) {
+        value.forEach((item, i) => errors.push(...validateValue(`${path}[${i}]`, item, schema.items!)));
+      }
+      return errors;
+    }
+
+    case Type.OBJECT:
+      return validateObject(path, value, schema, true).errors;
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Checks an object's declared properties, undeclared fields and (optionally) `required`.
+ *
+ * @param path - Object path prefixed to the field names, empty at the top level
+ * @returns The declared fields that passed, plus the errors
+ */
+function validateObject(
+  path: string,
+  value: unknown,
+  schema: Schema,
+  enforceRequired: boolean
+): { fields: Record<string, unknown>; errors: string[] } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { fields: {}, errors: [`${path || 'argomenti'}: atteso un oggetto, ricevuto ${formatValue(value)}`] };
+  }
+
+  const properties = schema.properties ?? {};
+  const fields: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [field, fieldValue] of Object.entries(value)) {
+    if (fieldValue === undefined) continue;
+
+    const fieldPath = path ? `${path}.${field}` : field;
+    const fieldSchema = properties[field];
+    if (!fieldSchema) {
+      errors.push(`${fieldPath}: campo non previsto dallo schema`);
+      continue;
+    }
+
+    const fieldErrors = validateValue(fieldPath, fieldValue, fieldSchema);
+    if (fieldErrors.length === 0 && CARD_FIELDS.has(field)) {
+      for (const card of fieldValue as string[]) {
+        if (!parseCard(card)) fieldErrors.push(`${fieldPath}: carta non valida "${card}"`);
+      }
+    }
+
+    if (fieldErrors.length > 0) {
+      errors.push(...fieldErrors);
+    } else {
+      fields[field] = fieldValue;
+    }
+  }
+
+  if (enforceRequired) {
+    for (const field of schema.required ?? []) {
+      if ((value as Record<string, unknown>)[field] === undefined) {
+        errors.push(`${path ? `${path}.${field}` : field}: campo obbligatorio mancante`);
+      }
+    }
+  }
+
+  return { fields, errors };
+}
+
+/**
+ * Validates raw function call arguments against a declaration.
+ *
+ * @param raw - `args` of the function call, as received
+ * @param declaration - Declaration the call refers to
+ * @param enforceRequired - Report the declared `required` fields that are missing
+ * @returns The fields that passed, plus the errors to send back to the model
+ */
+export function validateToolArgs(
+  raw: unknown,
+  declaration: FunctionDeclaration,
+  enforceRequired: boolean = true
+): { args: Record<string, unknown>; errors: string[] } {
+  const { fields, errors } = validateObject('', raw, declaration.parameters ?? {}, enforceRequired);
+  return { args: fields, errors };
+}
+
+/**
+ * Validates raw `updatePokerState` arguments (partial updates allowed).
+ *
+ * @param raw - `args` of the function call, as received
+ * @returns The fields that passed, plus the errors to send back to the model
+ *
+ * @example
+ * ```ts
+ * validatePokerToolArgs({ winProbability: 150, suggestedAction: 'BET' }).errors;
+ * // ['winProbability: 150 sopra il massimo 100',
+ * //  'suggestedAction: "BET" non ammesso (valori: FOLD, CHECK, CALL, RAISE, ALL-IN, WAITING)']
+ * ```
+ */
+export function validatePokerToolArgs(raw: unknown): ToolArgsValidation {
+  const { args, errors } = validateToolArgs(raw, pokerToolDeclaration, false);
+  return { args: args as PokerToolArgs, errors };
+}